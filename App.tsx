@@ -10,6 +10,7 @@ import { useHealthRationaleIntent } from './src/hooks/useHealthRationaleIntent';
 import { HealthPermissionRationale } from './src/components/HealthPermissionRationale';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
 import { PersistenceErrorBanner } from './src/components/PersistenceErrorBanner';
+import { LoadReportDiagnostic } from './src/components/LoadReportDiagnostic';
 import { GameStateProvider } from './src/hooks/useGameState';
 import { ThemeProvider, useTheme } from './src/hooks/useTheme';
 import { GeoDataProvider } from './src/providers/GeoDataProvider';
@@ -97,6 +98,7 @@ function AppContent() {
         )}
       </Tab.Navigator>
       <PersistenceErrorBanner />
+      <LoadReportDiagnostic />
     </NavigationContainer>
   );
 }
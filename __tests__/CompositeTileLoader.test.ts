@@ -0,0 +1,207 @@
+/**
+ * Tests for CompositeTileLoader
+ *
+ * Stacks NodeTileLoaders over small tile databases built in a temp directory,
+ * plus an in-memory layer for overrides.
+ */
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CompositeTileLoader } from '../src/services/CompositeTileLoader';
+import { NodeTileLoader } from '../src/services/NodeTileLoader';
+import { TileLoader } from '../src/services/TileLoader';
+import { resolveTileFallbacks } from '../src/utils/tileFallbacks';
+import { GeoTile } from '../src/types/gis';
+import { createSchema, createTileRow, INSERT_TILE_SQL } from '../scripts/gis/buildSqliteBundle';
+
+type TileSpec = [geohash: string, lithology: string | null, biome: string | null];
+
+function createTileDb(dbPath: string, specs: TileSpec[]): void {
+  const db = new Database(dbPath);
+  createSchema(db);
+  const insert = db.prepare(INSERT_TILE_SQL);
+  for (const [geohash, lithology, biome] of specs) {
+    insert.run(
+      createTileRow(
+        geohash,
+        lithology
+          ? {
+              geohash,
+              lat: 0,
+              lng: 0,
+              primaryLithology: lithology,
+              secondaryLithologies: [],
+              confidence: 0.9,
+            }
+          : undefined,
+        biome
+          ? {
+              geohash,
+              lat: 0,
+              lng: 0,
+              biomeCode: biome,
+              biomeName: biome,
+              ecoregionId: 1,
+              realmBiome: null,
+              realm: 'Palearctic',
+              confidence: 0.9,
+            }
+          : undefined
+      )
+    );
+  }
+  db.close();
+}
+
+/**
+ * In-memory layer, e.g. for user overrides
+ */
+function memoryLoader(tiles: GeoTile[]): TileLoader & { calls: string[][] } {
+  const byHash = new Map(tiles.map((tile) => [tile.geohash, tile]));
+  const calls: string[][] = [];
+  return {
+    calls,
+    getTile: (geohash) => byHash.get(geohash) ?? null,
+    getTiles: (geohashes) => {
+      calls.push(geohashes);
+      return geohashes.flatMap((geohash) => byHash.get(geohash) ?? []);
+    },
+    prefetch: () => {},
+    initialize: () => {},
+    close: () => {},
+    clearCache: () => {},
+    getCacheStats: () => ({
+      filesCached: 1,
+      tilesCached: byHash.size,
+      bytesCached: 100 * byHash.size,
+      hits: 2,
+      misses: 1,
+      evictions: 0,
+    }),
+  };
+}
+
+function overrideTile(geohash: string, lithology: string): GeoTile {
+  return {
+    geohash,
+    geology: { primaryLithology: lithology, secondaryLithologies: [], confidence: 1 },
+    biome: { type: 'unknown', confidence: 0 },
+  };
+}
+
+describe('CompositeTileLoader', () => {
+  let tmpDir: string;
+  let detail: NodeTileLoader;
+  let base: NodeTileLoader;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'composite-loader-test-'));
+    const detailPath = path.join(tmpDir, 'detail.db');
+    const basePath = path.join(tmpDir, 'base.db');
+
+    createTileDb(detailPath, [
+      ['gcpv', 'chalk', 'unknown'],
+      ['gcpu', 'sandstone', 'temperate_broadleaf_mixed'],
+    ]);
+    createTileDb(basePath, [
+      ['gcp', 'clay', 'temperate_broadleaf_mixed'],
+      ['gcpv', 'clay', 'temperate_broadleaf_mixed'],
+      ['gcpy', 'granite', 'temperate_conifer'],
+    ]);
+    detail = new NodeTileLoader(detailPath);
+    base = new NodeTileLoader(basePath);
+  });
+
+  afterEach(() => {
+    detail.close();
+    base.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('getTile', () => {
+    it('returns the tile from the first layer that has it', async () => {
+      const loader = new CompositeTileLoader([{ loader: detail }, { loader: base }]);
+      expect((await loader.getTile('gcpv'))?.geology.primaryLithology).toBe('chalk');
+      expect((await loader.getTile('gcpy'))?.geology.primaryLithology).toBe('granite');
+      expect(await loader.getTile('u4pr')).toBeNull();
+    });
+
+    it('skips layers that do not cover the geohash', async () => {
+      const loader = new CompositeTileLoader([
+        { loader: detail, covers: (geohash) => geohash !== 'gcpv' },
+        { loader: base },
+      ]);
+      expect((await loader.getTile('gcpv'))?.geology.primaryLithology).toBe('clay');
+      expect((await loader.getTile('gcpu'))?.geology.primaryLithology).toBe('sandstone');
+    });
+
+    it('returns null with no layers', async () => {
+      expect(await new CompositeTileLoader([]).getTile('gcpv')).toBeNull();
+    });
+  });
+
+  describe('getTiles', () => {
+    it('merges layers without duplicates, higher layers winning', async () => {
+      const overrides = memoryLoader([overrideTile('gcpy', 'basalt')]);
+      const loader = new CompositeTileLoader([
+        { loader: overrides },
+        { loader: detail },
+        { loader: base },
+      ]);
+
+      const tiles = await loader.getTiles(['gcpv', 'gcpu', 'gcpy', 'gcpv', 'u4pr']);
+      const lithologies = Object.fromEntries(
+        tiles.map((tile) => [tile.geohash, tile.geology.primaryLithology])
+      );
+
+      expect(tiles).toHaveLength(3);
+      expect(lithologies).toEqual({ gcpv: 'chalk', gcpu: 'sandstone', gcpy: 'basalt' });
+    });
+
+    it('only asks lower layers for what is still missing', async () => {
+      const overrides = memoryLoader([overrideTile('gcpv', 'basalt')]);
+      const lower = memoryLoader([overrideTile('gcpu', 'slate')]);
+      const loader = new CompositeTileLoader([
+        { loader: overrides },
+        { loader: lower },
+        { loader: base },
+      ]);
+
+      await loader.getTiles(['gcpv', 'gcpu']);
+      expect(overrides.calls).toEqual([['gcpv', 'gcpu']]);
+      expect(lower.calls).toEqual([['gcpu']]);
+    });
+
+    it('returns an empty list for no geohashes', async () => {
+      const loader = new CompositeTileLoader([{ loader: base }]);
+      expect(await loader.getTiles([])).toEqual([]);
+    });
+  });
+
+  it('combines cache stats across layers', () => {
+    const loader = new CompositeTileLoader([
+      { loader: memoryLoader([overrideTile('gcpv', 'basalt')]) },
+      { loader: memoryLoader([overrideTile('gcpu', 'slate'), overrideTile('gcpy', 'slate')]) },
+      { loader: base },
+    ]);
+    expect(loader.getCacheStats()).toEqual({
+      filesCached: 2,
+      tilesCached: 3,
+      bytesCached: 300,
+      hits: 4,
+      misses: 2,
+      evictions: 0,
+    });
+  });
+
+  it('works as the tile loader for resolveTileFallbacks', async () => {
+    const loader = new CompositeTileLoader([{ loader: detail }, { loader: base }]);
+    const tile = await loader.getTile('gcpv');
+
+    // The detail tile has no biome, so it comes from the base layer's coarse tile
+    const resolved = await resolveTileFallbacks(tile!, { tileLoader: loader });
+    expect(resolved.geology.primaryLithology).toBe('chalk');
+    expect(resolved.biome.type).toBe('temperate_broadleaf_mixed');
+  });
+});
@@ -1,6 +1,11 @@
-import { CraftingService, CraftingState } from '../src/services/CraftingService';
+import {
+  CraftingService,
+  CraftingState,
+  CraftingQueueState,
+} from '../src/services/CraftingService';
 import { getToolById, getComponentById } from '../src/data/tools';
-import { isTool } from '../src/types/tools';
+import { isTool, OwnedTool } from '../src/types/tools';
+import { MAX_CONCURRENT_CRAFTING_JOBS } from '../src/config/crafting';
 
 // Helper to create a minimal crafting state
 function createTestState(overrides: Partial<CraftingState> = {}): CraftingState {
@@ -9,6 +14,7 @@ function createTestState(overrides: Partial<CraftingState> = {}): CraftingState
       stone: [],
       wood: [],
       food: [],
+      fiber: [],
     },
     unlockedTechs: [],
     ownedTools: [],
@@ -47,6 +53,7 @@ describe('CraftingService', () => {
             stone: [{ resourceId: 'granite', quantity: 10 }],
             wood: [],
             food: [{ resourceId: 'wild_garlic', quantity: 20 }], // Food for crafting effort
+            fiber: [],
           },
         });
         const result = CraftingService.canCraft(hammerstone, state);
@@ -67,6 +74,8 @@ describe('CraftingService', () => {
               toolId: 'hammerstone',
               materials: {},
               quality: 0.5,
+              durability: 50,
+              maxDurability: 50,
             },
           ],
           ownedComponents: [],
@@ -74,6 +83,7 @@ describe('CraftingService', () => {
             stone: [{ resourceId: 'granite', quantity: 10 }], // Not a toolstone
             wood: [],
             food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+            fiber: [],
           },
         });
 
@@ -84,6 +94,55 @@ describe('CraftingService', () => {
         expect(result.canCraft).toBe(false);
       });
 
+      it('should only offer allowed resources for restricted requirements', () => {
+        const clayPot = getToolById('clay_pot')!;
+        const state = createTestState({
+          unlockedTechs: [clayPot.requiredTech],
+          inventory: {
+            stone: [
+              { resourceId: 'granite', quantity: 20 },
+              { resourceId: 'clay', quantity: 20 },
+            ],
+            wood: [{ resourceId: 'european_oak', quantity: 20 }],
+            food: [{ resourceId: 'wild_garlic', quantity: 50 }],
+            fiber: [],
+          },
+        });
+
+        const result = CraftingService.canCraft(clayPot, state);
+        expect(result.availableMaterials.stone).toEqual(['clay']);
+
+        const craftResult = CraftingService.craft(
+          clayPot,
+          {
+            selectedMaterials: { stone: 'granite', wood: 'european_oak' },
+            selectedComponentIds: [],
+            selectedFoods: { wild_garlic: 50 },
+          },
+          state
+        );
+        expect(craftResult).toEqual({
+          success: false,
+          error: "granite can't be used for this recipe",
+        });
+      });
+
+      it('should name the allowed resources when they are missing', () => {
+        const clayPot = getToolById('clay_pot')!;
+        const state = createTestState({
+          unlockedTechs: [clayPot.requiredTech],
+          inventory: {
+            stone: [{ resourceId: 'granite', quantity: 20 }],
+            wood: [{ resourceId: 'european_oak', quantity: 20 }],
+            food: [],
+            fiber: [],
+          },
+        });
+
+        const result = CraftingService.canCraft(clayPot, state);
+        expect(result.missingRequirements).toContain('Material: 15x stone (Clay)');
+      });
+
       it('should list available materials when craftable', () => {
         const state = createTestState({
           unlockedTechs: [hammerstone.requiredTech],
@@ -94,6 +153,7 @@ describe('CraftingService', () => {
             ],
             wood: [],
             food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+            fiber: [],
           },
         });
 
@@ -126,6 +186,7 @@ describe('CraftingService', () => {
             stone: [],
             wood: [{ resourceId: 'european_ash', quantity: 10 }],
             food: [],
+            fiber: [],
           },
         });
 
@@ -149,6 +210,8 @@ describe('CraftingService', () => {
               toolId: 'hammerstone',
               materials: {},
               quality: 0.5,
+              durability: 50,
+              maxDurability: 50,
             },
           ],
           ownedComponents: [], // No components
@@ -156,6 +219,7 @@ describe('CraftingService', () => {
             stone: [{ resourceId: 'flint', quantity: 10 }],
             wood: [{ resourceId: 'european_ash', quantity: 10 }],
             food: [],
+            fiber: [],
           },
         });
 
@@ -188,6 +252,7 @@ describe('CraftingService', () => {
             stone: [{ resourceId: 'granite', quantity: 10 }],
             wood: [],
             food: [{ resourceId: 'wild_garlic', quantity: 20 }], // Has food
+            fiber: [],
           },
         });
 
@@ -213,6 +278,7 @@ describe('CraftingService', () => {
             stone: [{ resourceId: 'granite', quantity: initialQuantity }],
             wood: [],
             food: [{ resourceId: 'wild_garlic', quantity: initialFoodQuantity }],
+            fiber: [],
           },
         });
 
@@ -255,6 +321,7 @@ describe('CraftingService', () => {
             stone: [{ resourceId: 'granite', quantity: 10 }],
             wood: [],
             food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+            fiber: [],
           },
         });
 
@@ -279,6 +346,7 @@ describe('CraftingService', () => {
             stone: [{ resourceId: 'granite', quantity: 10 }],
             wood: [],
             food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+            fiber: [],
           },
         });
 
@@ -302,6 +370,7 @@ describe('CraftingService', () => {
             stone: [{ resourceId: 'granite', quantity: 10 }],
             wood: [],
             food: [], // No food
+            fiber: [],
           },
         });
 
@@ -321,6 +390,7 @@ describe('CraftingService', () => {
             stone: [{ resourceId: 'granite', quantity: 10 }],
             wood: [],
             food: [], // No food
+            fiber: [],
           },
         });
 
@@ -343,6 +413,7 @@ describe('CraftingService', () => {
             stone: [{ resourceId: 'granite', quantity: 20 }],
             wood: [],
             food: [{ resourceId: 'wild_garlic', quantity: 50 }],
+            fiber: [],
           },
         });
 
@@ -366,12 +437,15 @@ describe('CraftingService', () => {
             toolId: reqToolId,
             materials: {},
             quality: 0.5,
+            durability: 50,
+            maxDurability: 50,
           })),
           ownedComponents: [],
           inventory: {
             stone: [],
             wood: [{ resourceId: 'european_ash', quantity: 10 }],
             food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+            fiber: [],
           },
         });
 
@@ -416,12 +490,15 @@ describe('CraftingService', () => {
             toolId: reqToolId,
             materials: {},
             quality: 0.5,
+            durability: 50,
+            maxDurability: 50,
           })),
           ownedComponents,
           inventory: {
             stone: [{ resourceId: 'flint', quantity: 20 }],
             wood: [{ resourceId: 'european_ash', quantity: 20 }],
             food: [{ resourceId: 'wild_garlic', quantity: 50 }],
+            fiber: [],
           },
         });
 
@@ -449,6 +526,180 @@ describe('CraftingService', () => {
     });
   });
 
+  describe('component instances', () => {
+    const haftedAxe = getToolById('hafted_axe')!;
+    const handle = (instanceId: string, quality: number) => ({
+      instanceId,
+      componentId: 'shaped_handle',
+      materials: { wood: { resourceId: 'european_ash', quantity: 10 } },
+      quality,
+    });
+    const binding = {
+      instanceId: 'binding_1',
+      componentId: 'fiber_binding',
+      materials: { fiber: { resourceId: 'flax', quantity: 5 } },
+      quality: 0.5,
+    };
+
+    function stateWithComponents(ownedComponents: ReturnType<typeof handle>[]): CraftingState {
+      return createTestState({
+        unlockedTechs: [haftedAxe.requiredTech],
+        ownedTools: haftedAxe.requiredTools.map((toolId) => ({
+          instanceId: `test_${toolId}`,
+          toolId,
+          materials: {},
+          quality: 0.5,
+          durability: 50,
+          maxDurability: 50,
+        })),
+        ownedComponents: [...ownedComponents, binding],
+        inventory: {
+          stone: [{ resourceId: 'flint', quantity: 20 }],
+          wood: [{ resourceId: 'european_ash', quantity: 20 }],
+          food: [{ resourceId: 'wild_garlic', quantity: 50 }],
+          fiber: [],
+        },
+      });
+    }
+
+    function craftWith(state: CraftingState, selectedComponentIds: string[]) {
+      return CraftingService.craft(
+        haftedAxe,
+        {
+          selectedMaterials: { stone: 'flint', wood: 'european_ash' },
+          selectedComponentIds,
+          selectedFoods: { wild_garlic: 10 },
+        },
+        state
+      );
+    }
+
+    it('should offer every owned instance, best first', () => {
+      const state = stateWithComponents([handle('poor', 0.2), handle('good', 0.9)]);
+      const result = CraftingService.canCraft(haftedAxe, state);
+
+      expect(result.availableComponents).toEqual(['good', 'poor', 'binding_1']);
+      expect(
+        CraftingService.selectDefaultComponents(
+          haftedAxe.requiredComponents,
+          result.availableComponents,
+          state.ownedComponents
+        )
+      ).toEqual(['good', 'binding_1']);
+    });
+
+    it('should make better tools from better components and record them', () => {
+      const state = stateWithComponents([handle('poor', 0.2), handle('good', 0.9)]);
+      const withPoor = craftWith(state, ['poor', 'binding_1']);
+      const withGood = craftWith(state, ['good', 'binding_1']);
+
+      expect(withPoor.success && withGood.success).toBe(true);
+      if (withPoor.success && withGood.success) {
+        expect(withGood.craftedItem.quality).toBeGreaterThan(withPoor.craftedItem.quality);
+        expect((withGood.craftedItem as OwnedTool).components?.map((c) => c.instanceId)).toEqual([
+          'good',
+          'binding_1',
+        ]);
+        // The unchosen handle is kept
+        expect(withGood.newState.ownedComponents.map((c) => c.instanceId)).toEqual(['poor']);
+      }
+    });
+
+    it('should reject selecting more components than the recipe needs', () => {
+      const state = stateWithComponents([handle('poor', 0.2), handle('good', 0.9)]);
+      const result = craftWith(state, ['poor', 'good', 'binding_1']);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Too many shaped_handle components selected',
+      });
+    });
+
+    it('should craft faster with efficient components', () => {
+      const state = stateWithComponents([handle('good', 0.9)]);
+      const components = state.ownedComponents;
+      const efficiency = getComponentById('shaped_handle')!.properties.efficiencyBonus;
+
+      expect(CraftingService.getCraftDuration(haftedAxe)).toBe(haftedAxe.baseCraftTime);
+      expect(CraftingService.getCraftDuration(haftedAxe, components)).toBe(
+        Math.round(haftedAxe.baseCraftTime / (1 + efficiency))
+      );
+    });
+
+    describe('upgrade', () => {
+      // Craft an axe with the poor handle, leaving the others to upgrade with
+      function stateWithAxe(spareComponents: ReturnType<typeof handle>[]): CraftingState {
+        const crafted = craftWith(stateWithComponents([handle('poor', 0.2)]), [
+          'poor',
+          'binding_1',
+        ]);
+        if (!crafted.success) throw new Error(crafted.error);
+        return { ...crafted.newState, ownedComponents: spareComponents };
+      }
+
+      it('should swap in a better handle, recompute quality and salvage the old one', () => {
+        const state = stateWithAxe([handle('good', 0.9)]);
+        const axe = state.ownedTools.find((t) => t.toolId === 'hafted_axe')!;
+
+        expect(CraftingService.getUpgradeOptions(axe.instanceId, state)).toHaveLength(1);
+        const result = CraftingService.upgrade(axe.instanceId, 'good', state);
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.upgradedTool.quality).toBeGreaterThan(axe.quality);
+          expect(result.upgradedTool.components?.map((c) => c.instanceId)).toEqual([
+            'good',
+            'binding_1',
+          ]);
+          expect(result.salvagedMaterials).toEqual({
+            wood: { resourceId: 'european_ash', quantity: 5 },
+          });
+          const ash = result.newState.inventory.wood.find((r) => r.resourceId === 'european_ash');
+          const ashBefore = state.inventory.wood.find((r) => r.resourceId === 'european_ash');
+          expect(ash!.quantity).toBe(ashBefore!.quantity + 5);
+          expect(result.newState.ownedComponents).toEqual([]);
+        }
+      });
+
+      it('should reject a lower tier replacement', () => {
+        const crude = { ...handle('crude', 1), componentId: 'crude_handle' };
+        const state = stateWithAxe([crude]);
+        const axe = state.ownedTools.find((t) => t.toolId === 'hafted_axe')!;
+
+        expect(CraftingService.getUpgradeOptions(axe.instanceId, state)).toEqual([]);
+        expect(CraftingService.upgrade(axe.instanceId, 'crude', state)).toEqual({
+          success: false,
+          error: "Crude Handle is a lower tier than the tool's Shaped Handle",
+        });
+      });
+
+      it('should reject broken tools, leaving them broken', () => {
+        const state = stateWithAxe([handle('good', 0.9)]);
+        const broken = {
+          ...state.ownedTools.find((t) => t.toolId === 'hafted_axe')!,
+          durability: 0,
+        };
+        const brokenState = { ...state, ownedTools: [broken] };
+
+        expect(CraftingService.getUpgradeOptions(broken.instanceId, brokenState)).toEqual([]);
+        expect(CraftingService.upgrade(broken.instanceId, 'good', brokenState)).toEqual({
+          success: false,
+          error: 'Repair the tool before upgrading it',
+        });
+      });
+
+      it('should reject tools without recorded components', () => {
+        const state = stateWithComponents([handle('good', 0.9)]);
+        const tool = state.ownedTools[0];
+
+        expect(CraftingService.upgrade(tool.instanceId, 'good', state)).toEqual({
+          success: false,
+          error: 'This tool has no recorded components to replace',
+        });
+      });
+    });
+  });
+
   describe('type guard integration', () => {
     it('should correctly identify Tool vs CraftedComponent', () => {
       const hammerstone = getToolById('hammerstone')!;
@@ -467,6 +718,7 @@ describe('CraftingService', () => {
           stone: [{ resourceId: 'granite', quantity: 10 }],
           wood: [],
           food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+          fiber: [],
         },
       });
 
@@ -484,4 +736,314 @@ describe('CraftingService', () => {
       }
     });
   });
+
+  describe('timed crafting queue', () => {
+    const hammerstone = getToolById('hammerstone')!;
+    const START = 1_700_000_000_000;
+
+    function createQueueState(overrides: Partial<CraftingQueueState> = {}): CraftingQueueState {
+      return {
+        ...createTestState({
+          unlockedTechs: [hammerstone.requiredTech],
+          inventory: {
+            stone: [{ resourceId: 'granite', quantity: 20 }],
+            wood: [],
+            food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+            fiber: [],
+          },
+        }),
+        craftingQueue: [],
+        ...overrides,
+      };
+    }
+
+    const hammerstoneParams = {
+      selectedMaterials: { stone: 'granite' },
+      selectedFoods: { wild_garlic: 10 },
+    };
+
+    it('should reserve inputs and queue a job instead of creating the tool', () => {
+      const state = createQueueState();
+      const result = CraftingService.startCraft(hammerstone, hammerstoneParams, state, START);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.newState.ownedTools).toHaveLength(0);
+        expect(result.newState.craftingQueue).toHaveLength(1);
+        expect(result.job.recipeType).toBe('tool');
+        expect(result.job.recipeId).toBe('hammerstone');
+        expect(result.job.startTime).toBe(START);
+        expect(result.job.duration).toBe(hammerstone.baseCraftTime);
+        expect(result.job.selectedFoods).toEqual({ wild_garlic: 10 });
+
+        const stone = result.newState.inventory.stone.find((s) => s.resourceId === 'granite');
+        expect(stone!.quantity).toBe(20 - hammerstone.materials.stone!.quantity);
+        const food = result.newState.inventory.food.find((s) => s.resourceId === 'wild_garlic');
+        expect(food!.quantity).toBe(10);
+      }
+    });
+
+    it('should reject new jobs once the concurrency limit is reached', () => {
+      let state = createQueueState();
+      for (let i = 0; i < MAX_CONCURRENT_CRAFTING_JOBS; i++) {
+        state = {
+          ...state,
+          inventory: {
+            ...state.inventory,
+            food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+            stone: [{ resourceId: 'granite', quantity: 20 }],
+          },
+        };
+        const result = CraftingService.startCraft(hammerstone, hammerstoneParams, state, START);
+        expect(result.success).toBe(true);
+        if (result.success) state = result.newState;
+      }
+
+      const result = CraftingService.startCraft(hammerstone, hammerstoneParams, state, START);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('queue is full');
+      }
+    });
+
+    it('should report progress against wall-clock start time', () => {
+      const result = CraftingService.startCraft(
+        hammerstone,
+        hammerstoneParams,
+        createQueueState(),
+        START
+      );
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      const halfway = START + (hammerstone.baseCraftTime * 1000) / 2;
+      expect(CraftingService.getJobProgress(result.job, START)).toBe(0);
+      expect(CraftingService.getJobProgress(result.job, halfway)).toBeCloseTo(0.5);
+      expect(CraftingService.getJobProgress(result.job, START + 10_000_000)).toBe(1);
+    });
+
+    it('should only complete jobs whose duration has elapsed', () => {
+      const result = CraftingService.startCraft(
+        hammerstone,
+        hammerstoneParams,
+        createQueueState(),
+        START
+      );
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      const endTime = CraftingService.getJobEndTime(result.job);
+
+      const early = CraftingService.completeCraftingJobs(result.newState, endTime - 1);
+      expect(early.completedItems).toHaveLength(0);
+      expect(early.newState.craftingQueue).toHaveLength(1);
+
+      const done = CraftingService.completeCraftingJobs(result.newState, endTime);
+      expect(done.completedItems).toHaveLength(1);
+      expect(done.newState.craftingQueue).toHaveLength(0);
+      expect(done.newState.ownedTools).toHaveLength(1);
+      expect(done.newState.ownedTools[0].toolId).toBe('hammerstone');
+      expect(done.newState.ownedTools[0].quality).toBe(result.job.quality);
+    });
+
+    it('should refund materials, food and components on cancel', () => {
+      const haftedAxe = getToolById('hafted_axe')!;
+      const ownedComponents = haftedAxe.requiredComponents.map((req, i) => ({
+        instanceId: `test_component_${i}`,
+        componentId: req.componentId,
+        materials: { wood: { resourceId: 'european_ash', quantity: 5 } },
+        quality: 0.5,
+      }));
+      const state = createQueueState({
+        unlockedTechs: [haftedAxe.requiredTech],
+        ownedTools: haftedAxe.requiredTools.map((reqToolId) => ({
+          instanceId: `test_${reqToolId}`,
+          toolId: reqToolId,
+          materials: {},
+          quality: 0.5,
+          durability: 50,
+          maxDurability: 50,
+        })),
+        ownedComponents,
+        inventory: {
+          stone: [{ resourceId: 'flint', quantity: 20 }],
+          wood: [{ resourceId: 'european_ash', quantity: 20 }],
+          food: [{ resourceId: 'wild_garlic', quantity: 50 }],
+          fiber: [],
+        },
+      });
+
+      const started = CraftingService.startCraft(
+        haftedAxe,
+        {
+          selectedMaterials: { stone: 'flint', wood: 'european_ash' },
+          selectedComponentIds: ownedComponents.map((c) => c.instanceId),
+          selectedFoods: { wild_garlic: 10 },
+        },
+        state,
+        START
+      );
+      expect(started.success).toBe(true);
+      if (!started.success) return;
+      expect(started.newState.ownedComponents).toHaveLength(0);
+
+      const cancelled = CraftingService.cancelCraftingJob(started.job.id, started.newState);
+      expect(cancelled.success).toBe(true);
+      if (cancelled.success) {
+        expect(cancelled.newState.craftingQueue).toHaveLength(0);
+        expect(cancelled.newState.inventory.stone).toEqual([{ resourceId: 'flint', quantity: 20 }]);
+        expect(cancelled.newState.inventory.wood).toEqual([
+          { resourceId: 'european_ash', quantity: 20 },
+        ]);
+        expect(cancelled.newState.inventory.food).toEqual([
+          { resourceId: 'wild_garlic', quantity: 50 },
+        ]);
+        expect(cancelled.newState.ownedComponents.map((c) => c.instanceId).sort()).toEqual(
+          ownedComponents.map((c) => c.instanceId).sort()
+        );
+      }
+    });
+
+    it('should fail to cancel an unknown job', () => {
+      const result = CraftingService.cancelCraftingJob('missing', createQueueState());
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('durability', () => {
+    const hammerstone = getToolById('hammerstone')!;
+    const crudeHandle = getComponentById('crude_handle')!;
+
+    const ownedHammerstone = {
+      instanceId: 'test_hammerstone',
+      toolId: 'hammerstone',
+      materials: { stone: { resourceId: 'granite', quantity: 10 } },
+      quality: 0.5,
+      durability: 10,
+      maxDurability: 90,
+    };
+
+    it('should give new tools full durability from their materials', () => {
+      const state = createTestState({
+        unlockedTechs: [hammerstone.requiredTech],
+        inventory: {
+          stone: [{ resourceId: 'granite', quantity: 10 }],
+          wood: [],
+          food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+          fiber: [],
+        },
+      });
+
+      const result = CraftingService.craft(
+        hammerstone,
+        { selectedMaterials: { stone: 'granite' }, selectedFoods: { wild_garlic: 10 } },
+        state
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success && 'toolId' in result.craftedItem) {
+        expect(result.craftedItem.maxDurability).toBe(135); // granite durability 9
+        expect(result.craftedItem.durability).toBe(135);
+      }
+    });
+
+    it('should wear required tools when crafting', () => {
+      const state = createTestState({
+        unlockedTechs: [crudeHandle.requiredTech],
+        ownedTools: crudeHandle.requiredTools.map((toolId) => ({
+          ...ownedHammerstone,
+          instanceId: `test_${toolId}`,
+          toolId,
+        })),
+        inventory: {
+          stone: [],
+          wood: [{ resourceId: 'european_ash', quantity: 20 }],
+          food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+          fiber: [],
+        },
+      });
+      const before = state.ownedTools.map((t) => t.durability);
+
+      const result = CraftingService.craft(
+        crudeHandle,
+        { selectedMaterials: { wood: 'european_ash' }, selectedFoods: { wild_garlic: 10 } },
+        state
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        result.newState.ownedTools.forEach((tool, i) => {
+          expect(tool.durability).toBe(before[i] - 1);
+        });
+      }
+    });
+
+    it('should not accept a broken tool as a requirement', () => {
+      const polishedAxe = getToolById('polished_axe')!;
+      const requiredToolId = polishedAxe.requiredTools[0];
+      const state = createTestState({
+        unlockedTechs: [polishedAxe.requiredTech],
+        ownedTools: [{ ...ownedHammerstone, toolId: requiredToolId, durability: 0 }],
+      });
+
+      const result = CraftingService.canCraft(polishedAxe, state);
+
+      expect(result.canCraft).toBe(false);
+      expect(result.missingRequirements).toContain(`Tool: ${requiredToolId} (broken)`);
+    });
+
+    it('should require half the original materials to repair', () => {
+      const repairMaterials = CraftingService.getRepairMaterials(hammerstone);
+      expect(repairMaterials.stone!.quantity).toBe(
+        Math.ceil(hammerstone.materials.stone!.quantity / 2)
+      );
+    });
+
+    it('should refuse to repair a tool at full durability', () => {
+      const state = createTestState({
+        unlockedTechs: [hammerstone.requiredTech],
+        ownedTools: [{ ...ownedHammerstone, durability: 90 }],
+        inventory: {
+          stone: [{ resourceId: 'granite', quantity: 10 }],
+          wood: [],
+          food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+          fiber: [],
+        },
+      });
+
+      const check = CraftingService.canRepair('test_hammerstone', state);
+      expect(check.canCraft).toBe(false);
+      expect(check.missingRequirements).toContain('Already at full durability');
+    });
+
+    it('should restore durability and consume fresh materials when repairing', () => {
+      const state = createTestState({
+        unlockedTechs: [hammerstone.requiredTech],
+        ownedTools: [{ ...ownedHammerstone, durability: 0 }],
+        inventory: {
+          stone: [{ resourceId: 'granite', quantity: 10 }],
+          wood: [],
+          food: [{ resourceId: 'wild_garlic', quantity: 20 }],
+          fiber: [],
+        },
+      });
+
+      const result = CraftingService.repair(
+        'test_hammerstone',
+        { selectedMaterials: { stone: 'granite' }, selectedFoods: { wild_garlic: 10 } },
+        state
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.repairedTool.durability).toBe(90);
+        expect(result.newState.ownedTools[0].durability).toBe(90);
+        expect(result.newState.ownedTools[0].quality).toBe(0.5);
+        const stone = result.newState.inventory.stone.find((s) => s.resourceId === 'granite');
+        expect(stone!.quantity).toBe(
+          10 - CraftingService.getRepairMaterials(hammerstone).stone!.quantity
+        );
+      }
+    });
+  });
 });
@@ -0,0 +1,125 @@
+// Tests for ExplorationService
+// Tests visit recording, compact cell storage, and rarity-weighted points
+
+import {
+  ExplorationState,
+  createEmptyExplorationState,
+  isAccurateEnough,
+  hasVisited,
+  getVisitCounts,
+  calculateRarity,
+  calculateTilePoints,
+  recordVisit,
+} from '../src/services/ExplorationService';
+import { decodeGeohash } from '../src/utils/geohash';
+import {
+  NEW_TILE_POINTS,
+  NEW_CELL_POINTS,
+  RARITY_BONUS,
+  MAX_VISIT_ACCURACY_METERS,
+} from '../src/config/exploration';
+
+describe('ExplorationService', () => {
+  const forest = { biome: 'temperate_broadleaf', lithology: 'granite' };
+  const grassland = { biome: 'temperate_grassland', lithology: 'limestone' };
+
+  // Record a visit to the centre of a precision-6 geohash cell
+  function visit(state: ExplorationState, cell: string, terrain = forest) {
+    const { lat, lng } = decodeGeohash(cell);
+    return recordVisit(state, lat, lng, terrain);
+  }
+
+  describe('recordVisit', () => {
+    it('should award tile and cell points for the first visit', () => {
+      const result = visit(createEmptyExplorationState(), 'gcpvj0');
+
+      expect(result.newTile).toBe(true);
+      expect(result.newCell).toBe(true);
+      expect(result.pointsAwarded).toBe(NEW_TILE_POINTS + NEW_CELL_POINTS);
+      expect(hasVisited(result.newState.visitedCells, 'gcpvj')).toBe(true);
+      expect(hasVisited(result.newState.visitedCells, 'gcpvj0')).toBe(true);
+    });
+
+    it('should award nothing for a repeat visit', () => {
+      const first = visit(createEmptyExplorationState(), 'gcpvj0');
+      const second = visit(first.newState, 'gcpvj0');
+
+      expect(second.pointsAwarded).toBe(0);
+      expect(second.newCell).toBe(false);
+      expect(second.newState).toBe(first.newState);
+    });
+
+    it('should award only cell points for a new cell in a visited tile', () => {
+      const first = visit(createEmptyExplorationState(), 'gcpvj0');
+      const second = visit(first.newState, 'gcpvjz');
+
+      expect(second.newTile).toBe(false);
+      expect(second.newCell).toBe(true);
+      expect(second.pointsAwarded).toBe(NEW_CELL_POINTS);
+      expect(getVisitCounts(second.newState.visitedCells)).toEqual({ tiles: 1, cells: 2 });
+    });
+
+    it('should store cells as a non-negative bitmask per tile', () => {
+      const result = visit(createEmptyExplorationState(), 'gcpvjz');
+
+      // 'z' is the last base32 character, so it uses the top bit
+      expect(result.newState.visitedCells).toEqual({ gcpvj: 2 ** 31 });
+      expect(hasVisited(result.newState.visitedCells, 'gcpvj0')).toBe(false);
+      expect(hasVisited(result.newState.visitedCells, 'gcpvjz')).toBe(true);
+    });
+
+    it('should tally biome and lithology of new tiles only', () => {
+      let state = visit(createEmptyExplorationState(), 'gcpvj0').newState;
+      state = visit(state, 'gcpvj1').newState;
+      state = visit(state, 'gcpvk0', grassland).newState;
+
+      expect(state.biomeVisits).toEqual({ temperate_broadleaf: 1, temperate_grassland: 1 });
+      expect(state.lithologyVisits).toEqual({ granite: 1, limestone: 1 });
+    });
+
+    it('should give no rarity bonus when terrain is unknown', () => {
+      const first = visit(createEmptyExplorationState(), 'gcpvj0');
+      const { lat, lng } = decodeGeohash('gcpvk0');
+      const result = recordVisit(first.newState, lat, lng, null);
+
+      expect(result.pointsAwarded).toBe(NEW_TILE_POINTS + NEW_CELL_POINTS);
+      expect(result.newState.biomeVisits).toEqual(first.newState.biomeVisits);
+    });
+  });
+
+  describe('rarity', () => {
+    it('should be 0 with no visited tiles', () => {
+      expect(calculateRarity(createEmptyExplorationState(), forest)).toBe(0);
+    });
+
+    it('should be 1 for terrain not seen in any visited tile', () => {
+      const state = visit(createEmptyExplorationState(), 'gcpvj0').newState;
+      expect(calculateRarity(state, grassland)).toBe(1);
+      expect(calculateTilePoints(state, grassland)).toBe(NEW_TILE_POINTS * (1 + RARITY_BONUS));
+    });
+
+    it('should be 0 for terrain shared by every visited tile', () => {
+      const state = visit(createEmptyExplorationState(), 'gcpvj0').newState;
+      expect(calculateRarity(state, forest)).toBe(0);
+      expect(calculateTilePoints(state, forest)).toBe(NEW_TILE_POINTS);
+    });
+
+    it('should weight biome and lithology equally', () => {
+      const state = visit(createEmptyExplorationState(), 'gcpvj0').newState;
+      // Same biome, new lithology
+      expect(calculateRarity(state, { biome: forest.biome, lithology: 'basalt' })).toBe(0.5);
+    });
+  });
+
+  describe('isAccurateEnough', () => {
+    it('should accept unknown accuracy and fixes within the limit', () => {
+      expect(isAccurateEnough(null)).toBe(true);
+      expect(isAccurateEnough(undefined)).toBe(true);
+      expect(isAccurateEnough(MAX_VISIT_ACCURACY_METERS)).toBe(true);
+    });
+
+    it('should reject imprecise fixes', () => {
+      expect(isAccurateEnough(MAX_VISIT_ACCURACY_METERS + 1)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+// Tests for GeoDataProvider's region pack installs
+// A failed install must leave the installed pack in use, not just on disk
+
+import { ReactNode } from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { GeoDataProvider, useGeoData } from '../src/providers/GeoDataProvider';
+import { ExpoTileLoader } from '../src/services/ExpoTileLoader';
+import { downloadRegionPack, listInstalledRegionPacks } from '../src/services/RegionPackStore';
+import { REGION_PACK_DIRECTORY, RegionPackInfo } from '../src/services/RegionPackService';
+import { TileLoader } from '../src/services/TileLoader';
+
+// File contents by uri
+const mockFiles = new Map<string, string>();
+// The next move to each of these uris throws, as if the file system failed
+let mockFailingMoves: string[] = [];
+
+jest.mock('expo-file-system', () => {
+  type MockPathPart = string | { uri: string };
+  const joinUri = (parts: MockPathPart[]) =>
+    parts.map((part) => (typeof part === 'string' ? part : part.uri)).join('/');
+
+  class MockDirectory {
+    uri: string;
+    constructor(...parts: MockPathPart[]) {
+      this.uri = joinUri(parts);
+    }
+    get exists() {
+      return true;
+    }
+    create() {}
+  }
+
+  class MockFile {
+    uri: string;
+    constructor(...parts: MockPathPart[]) {
+      this.uri = joinUri(parts);
+    }
+    get exists() {
+      return mockFiles.has(this.uri);
+    }
+    delete() {
+      mockFiles.delete(this.uri);
+    }
+    move(destination: { uri: string }) {
+      const failing = mockFailingMoves.indexOf(destination.uri);
+      if (failing !== -1) {
+        mockFailingMoves.splice(failing, 1);
+        throw new Error(`Could not move to ${destination.uri}`);
+      }
+      mockFiles.set(destination.uri, mockFiles.get(this.uri) as string);
+      mockFiles.delete(this.uri);
+      this.uri = destination.uri;
+    }
+  }
+
+  return {
+    File: MockFile,
+    Directory: MockDirectory,
+    Paths: {
+      document: new MockDirectory('/documents'),
+      cache: new MockDirectory('/cache'),
+    },
+  };
+});
+
+jest.mock('../src/services/ExpoTileLoader', () => ({
+  ExpoTileLoader: jest.fn().mockImplementation(() => ({
+    initialize: jest.fn().mockResolvedValue(undefined),
+    close: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../src/services/GeoDataService', () => ({
+  GeoDataService: jest.fn().mockImplementation(() => ({
+    initialize: jest.fn().mockResolvedValue(undefined),
+    close: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../src/services/GeologyOverrideStore', () => ({
+  loadGeologyOverrides: jest.fn().mockResolvedValue([]),
+}));
+
+jest.mock('../src/services/RegionPackStore', () => ({
+  ...jest.requireActual('../src/services/RegionPackStore'),
+  listInstalledRegionPacks: jest.fn(),
+  downloadRegionPack: jest.fn(),
+}));
+
+const mockListInstalledRegionPacks = listInstalledRegionPacks as jest.Mock;
+const mockDownloadRegionPack = downloadRegionPack as jest.Mock;
+const MockExpoTileLoader = ExpoTileLoader as unknown as jest.Mock;
+
+const INSTALLED = `/documents/${REGION_PACK_DIRECTORY}/london.db`;
+const DOWNLOADED = '/cache/region-pack-1.db';
+
+const oldInfo: RegionPackInfo = {
+  id: 'london',
+  name: 'London',
+  bounds: { minLat: 51.3, minLng: -0.5, maxLat: 51.7, maxLng: 0.3 },
+  baseVersion: '1.0.0',
+  generatedAt: '2026-01-01T00:00:00Z',
+  tileCount: 100,
+  maxPrecision: 6,
+};
+const newInfo: RegionPackInfo = { ...oldInfo, name: 'Greater London', tileCount: 200 };
+
+function wrapper({ children }: { children: ReactNode }) {
+  return <GeoDataProvider>{children}</GeoDataProvider>;
+}
+
+describe('GeoDataProvider', () => {
+  let oldLoader: TileLoader;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockFiles.clear();
+    mockFailingMoves = [];
+
+    mockFiles.set(INSTALLED, 'old pack');
+    oldLoader = new ExpoTileLoader();
+    mockListInstalledRegionPacks.mockResolvedValue([{ info: oldInfo, loader: oldLoader }]);
+
+    mockDownloadRegionPack.mockImplementation(async () => {
+      const { File, Paths } = jest.requireMock('expo-file-system');
+      mockFiles.set(DOWNLOADED, 'new pack');
+      return { success: true, info: newInfo, file: new File(Paths.cache, 'region-pack-1.db') };
+    });
+  });
+
+  async function renderProvider() {
+    const hook = renderHook(() => useGeoData(), { wrapper });
+    await waitFor(() => {
+      expect(hook.result.current.isLoading).toBe(false);
+    });
+    expect(hook.result.current.regionPacks).toEqual([oldInfo]);
+    return hook;
+  }
+
+  describe('installRegionPack', () => {
+    it('replaces the installed pack with the download', async () => {
+      const { result } = await renderProvider();
+
+      await act(async () => {
+        const installResult = await result.current.installRegionPack('https://example.com/p.db');
+        expect(installResult).toEqual({ success: true, info: newInfo });
+      });
+
+      expect(result.current.regionPacks).toEqual([newInfo]);
+      expect(oldLoader.close).toHaveBeenCalled();
+      expect([...mockFiles]).toEqual([[INSTALLED, 'new pack']]);
+    });
+
+    it('keeps the installed pack open if the download cannot be staged', async () => {
+      const { result } = await renderProvider();
+      mockFailingMoves = [`${INSTALLED}.installing`];
+
+      await act(async () => {
+        const installResult = await result.current.installRegionPack('https://example.com/p.db');
+        expect(installResult.success).toBe(false);
+      });
+
+      expect(result.current.regionPacks).toEqual([oldInfo]);
+      expect(oldLoader.close).not.toHaveBeenCalled();
+      expect(mockFiles.get(INSTALLED)).toBe('old pack');
+    });
+
+    it('reopens the installed pack if the swap fails', async () => {
+      const { result } = await renderProvider();
+      mockFailingMoves = [INSTALLED];
+
+      await act(async () => {
+        const installResult = await result.current.installRegionPack('https://example.com/p.db');
+        expect(installResult.success).toBe(false);
+      });
+
+      expect(result.current.regionPacks).toEqual([oldInfo]);
+      expect(mockFiles.get(INSTALLED)).toBe('old pack');
+      const reopened = MockExpoTileLoader.mock.calls.at(-1)?.[0];
+      expect(reopened.file.uri).toBe(INSTALLED);
+    });
+  });
+});
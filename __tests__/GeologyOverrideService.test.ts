@@ -0,0 +1,324 @@
+/**
+ * Tests for GeologyOverrideService and GeologyOverrideTileLoader
+ *
+ * The overrides table is exercised through a better-sqlite3 adapter, and the
+ * override layer through a CompositeTileLoader over a temp tile database.
+ */
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  GeologyOverride,
+  GeologyOverrideService,
+  OverrideAuthor,
+  OverrideDatabase,
+  CREATE_OVERRIDE_TABLE_SQL,
+  createGeologyOverride,
+  createGeologyPatch,
+  getLatestOverrides,
+  parseGeologyPatch,
+  serializeGeologyPatch,
+  isValidOverride,
+} from '../src/services/GeologyOverrideService';
+import { GeologyOverrideTileLoader } from '../src/services/GeologyOverrideTileLoader';
+import { CompositeTileLoader } from '../src/services/CompositeTileLoader';
+import { NodeTileLoader } from '../src/services/NodeTileLoader';
+import { GeoDataService } from '../src/services/GeoDataService';
+import {
+  createSchema,
+  createTileRow,
+  INSERT_TILE_SQL,
+  loadGeologyOverrides,
+} from '../scripts/gis/buildSqliteBundle';
+import { MAX_OVERRIDE_EVIDENCE_LENGTH } from '../src/config/geologyOverrides';
+import { getPublicKey } from '../src/utils/signing';
+
+// Central London, in tile gcpvj
+const LAT = 51.5074;
+const LNG = -0.1278;
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+const AUTHOR: OverrideAuthor = { id: 'player_test_1', signingKey: '11'.repeat(32) };
+const OTHER_KEY = '22'.repeat(32);
+
+function report(lithology: string, evidence = '', now = NOW): GeologyOverride {
+  const result = createGeologyOverride({ lat: LAT, lng: LNG, lithology, evidence }, AUTHOR, now);
+  if (!result.success) throw new Error(result.error);
+  return result.override;
+}
+
+function createOverrideDb(db: Database.Database): OverrideDatabase {
+  db.exec(CREATE_OVERRIDE_TABLE_SQL);
+  return {
+    run: async (sql, params) => {
+      db.prepare(sql).run(...params);
+    },
+    getAll: async <T>(sql: string, params: (string | number)[]) =>
+      db.prepare(sql).all(...params) as T[],
+  };
+}
+
+describe('GeologyOverrideService', () => {
+  describe('createGeologyOverride', () => {
+    it('places the report in its precision-5 tile, timestamped and signed', () => {
+      const override = report('chalk', '  Chalk pits on the common  ');
+      expect(override).toMatchObject({
+        geohash: 'gcpvj',
+        lithology: 'chalk',
+        evidence: 'Chalk pits on the common',
+        createdAt: '2026-03-01T12:00:00.000Z',
+        authorId: AUTHOR.id,
+        publicKey: getPublicKey(AUTHOR.signingKey),
+      });
+      expect(isValidOverride(override)).toBe(true);
+    });
+
+    it('rejects lithologies players cannot report', () => {
+      const result = createGeologyOverride(
+        { lat: LAT, lng: LNG, lithology: 'mixed_sedimentary', evidence: '' },
+        AUTHOR,
+        NOW
+      );
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects overlong evidence and a missing author or key', () => {
+      const long = 'x'.repeat(MAX_OVERRIDE_EVIDENCE_LENGTH + 1);
+      expect(
+        createGeologyOverride({ lat: LAT, lng: LNG, lithology: 'chalk', evidence: long }, AUTHOR)
+          .success
+      ).toBe(false);
+      const chalk = { lat: LAT, lng: LNG, lithology: 'chalk', evidence: '' };
+      expect(createGeologyOverride(chalk, { ...AUTHOR, id: '' }).success).toBe(false);
+      expect(createGeologyOverride(chalk, { ...AUTHOR, signingKey: '' }).success).toBe(false);
+    });
+
+    it('offers each lithology once', () => {
+      const lithologies = GeologyOverrideService.getReportableLithologies().map(
+        (choice) => choice.lithology
+      );
+      expect(lithologies).toContain('chalk');
+      expect(new Set(lithologies).size).toBe(lithologies.length);
+    });
+  });
+
+  describe('isValidOverride', () => {
+    it('detects edited fields', () => {
+      const override = report('chalk');
+      expect(isValidOverride({ ...override, lithology: 'granite' })).toBe(false);
+      expect(isValidOverride({ ...override, geohash: 'gcpvk' })).toBe(false);
+      expect(isValidOverride({ ...override, authorId: 'someone_else' })).toBe(false);
+    });
+
+    it('detects a signature swapped to another key', () => {
+      const override = report('chalk');
+      expect(isValidOverride({ ...override, publicKey: getPublicKey(OTHER_KEY) })).toBe(false);
+      expect(isValidOverride({ ...override, signature: 'not a signature' })).toBe(false);
+    });
+
+    it('tells apart reports claiming the same author but signed by another key', () => {
+      const result = createGeologyOverride(
+        { lat: LAT, lng: LNG, lithology: 'chalk', evidence: '' },
+        { id: AUTHOR.id, signingKey: OTHER_KEY },
+        NOW
+      );
+      expect(result.success && isValidOverride(result.override)).toBe(true);
+      expect(result.success && result.override.publicKey).not.toBe(getPublicKey(AUTHOR.signingKey));
+    });
+  });
+
+  describe('getLatestOverrides', () => {
+    it('keeps the most recent report per tile', () => {
+      const latest = getLatestOverrides([
+        report('chert', '', NOW + 1000),
+        report('chalk', '', NOW),
+      ]);
+      expect(latest.size).toBe(1);
+      expect(latest.get('gcpvj')?.lithology).toBe('chert');
+    });
+  });
+
+  describe('patch files', () => {
+    it('round-trips reports through a patch', () => {
+      const overrides = [report('chalk'), report('chert', '', NOW + 1000)];
+      const json = serializeGeologyPatch(createGeologyPatch(overrides, 0.6, NOW));
+      const result = parseGeologyPatch(json);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.patch.overrides).toEqual(overrides);
+      expect(result.patch.confidence).toBe(0.6);
+      expect(result.rejected).toBe(0);
+    });
+
+    it('drops reports that are malformed or wrongly signed', () => {
+      const patch = createGeologyPatch([report('chalk')], 0.7, NOW);
+      patch.overrides.push({ ...report('chert'), lithology: 'granite' });
+      const result = parseGeologyPatch(JSON.stringify(patch));
+
+      expect(result.success && result.patch.overrides.length).toBe(1);
+      expect(result.success && result.rejected).toBe(1);
+    });
+
+    it('rejects files that are not patches, or come from a newer format', () => {
+      expect(parseGeologyPatch('not json').success).toBe(false);
+      expect(parseGeologyPatch(JSON.stringify({ format: 'walkforage-save' })).success).toBe(false);
+      const newer = { ...createGeologyPatch([], 0.7, NOW), formatVersion: 99 };
+      expect(parseGeologyPatch(JSON.stringify(newer)).success).toBe(false);
+    });
+  });
+
+  describe('overrides table', () => {
+    let sqlite: Database.Database;
+    let db: OverrideDatabase;
+
+    beforeEach(() => {
+      sqlite = new Database(':memory:');
+      db = createOverrideDb(sqlite);
+    });
+
+    afterEach(() => {
+      sqlite.close();
+    });
+
+    it('saves, lists and deletes overrides', async () => {
+      const first = report('chalk');
+      const second = report('chert', 'Flint nodules', NOW + 1000);
+      await GeologyOverrideService.saveOverride(db, second);
+      await GeologyOverrideService.saveOverride(db, first);
+
+      expect(await GeologyOverrideService.listOverrides(db)).toEqual([first, second]);
+
+      await GeologyOverrideService.deleteOverride(db, first.id);
+      expect(await GeologyOverrideService.listOverrides(db)).toEqual([second]);
+    });
+
+    it('skips rows edited outside the app', async () => {
+      await GeologyOverrideService.saveOverride(db, report('chalk'));
+      sqlite.prepare("UPDATE geology_overrides SET lithology = 'granite'").run();
+      expect(await GeologyOverrideService.listOverrides(db)).toEqual([]);
+    });
+  });
+});
+
+describe('GeologyOverrideTileLoader', () => {
+  let tmpDir: string;
+  let base: NodeTileLoader;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'geology-override-test-'));
+    const dbPath = path.join(tmpDir, 'tiles.db');
+    const db = new Database(dbPath);
+    createSchema(db);
+    const insert = db.prepare(INSERT_TILE_SQL);
+    for (const geohash of ['gcp', 'gcpv']) {
+      insert.run(
+        createTileRow(
+          geohash,
+          {
+            geohash,
+            lat: LAT,
+            lng: LNG,
+            primaryLithology: 'mixed_sedimentary',
+            secondaryLithologies: [],
+            confidence: 0.9,
+          },
+          {
+            geohash,
+            lat: LAT,
+            lng: LNG,
+            biomeCode: 'temperate_broadleaf_mixed',
+            biomeName: 'Temperate Broadleaf & Mixed Forests',
+            ecoregionId: 663,
+            realmBiome: 'PA04',
+            realm: 'Palearctic',
+            confidence: 0.9,
+          }
+        )
+      );
+    }
+    db.close();
+    base = new NodeTileLoader(dbPath);
+  });
+
+  afterEach(() => {
+    base.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('serves the latest report per tile at the configured confidence', () => {
+    const loader = new GeologyOverrideTileLoader(
+      [report('chalk'), report('chert', '', NOW + 1000)],
+      0.5
+    );
+    expect(loader.getTile('gcpvj')?.geology).toEqual({
+      primaryLithology: 'chert',
+      secondaryLithologies: [],
+      lithClass: 'sedimentary',
+      confidence: 0.5,
+    });
+    expect(loader.getTile('gcpvk')).toBeNull();
+    expect(loader.getTiles(['gcpvj', 'gcpvj', 'gcpvk'])).toHaveLength(1);
+  });
+
+  it('overrides the geology at a location while keeping the tile biome', async () => {
+    const overrides = new GeologyOverrideTileLoader();
+    const service = new GeoDataService({
+      tileLoader: new CompositeTileLoader([{ loader: overrides }, { loader: base }]),
+    });
+
+    const before = await service.getLocationData(LAT, LNG);
+    expect(before.geology.primaryLithology).toBe('mixed_sedimentary');
+
+    overrides.setOverrides([report('chalk')]);
+    const after = await service.getLocationData(LAT, LNG);
+    expect(after.geology.primaryLithology).toBe('chalk');
+    expect(after.geology.confidence).toBe(0.7);
+    expect(after.biome.type).toBe('temperate_broadleaf_mixed');
+    expect(after.geohash).toBe('gcpvj');
+  });
+});
+
+describe('loadGeologyOverrides (data build)', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'geology-patch-test-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('turns valid reports from patch files into precision-5 geology records', () => {
+    const first = path.join(tmpDir, 'a.json');
+    const second = path.join(tmpDir, 'b.json');
+    fs.writeFileSync(first, serializeGeologyPatch(createGeologyPatch([report('chalk')], 0.6)));
+    fs.writeFileSync(
+      second,
+      serializeGeologyPatch(createGeologyPatch([report('chert', '', NOW + 1000)], 0.8))
+    );
+    fs.writeFileSync(path.join(tmpDir, 'bad.json'), '{}');
+
+    const records = loadGeologyOverrides([first, second, path.join(tmpDir, 'bad.json')]);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      geohash: 'gcpvj',
+      primaryLithology: 'chert',
+      secondaryLithologies: [],
+      confidence: 0.8,
+    });
+    expect(records[0].lat).toBeCloseTo(LAT, 1);
+    expect(records[0].lng).toBeCloseTo(LNG, 1);
+  });
+
+  it('keeps reported lithologies the raw-data normalizer does not know', () => {
+    const patchPath = path.join(tmpDir, 'patch.json');
+    fs.writeFileSync(patchPath, serializeGeologyPatch(createGeologyPatch([report('diabase')])));
+
+    const [record] = loadGeologyOverrides([patchPath]);
+    expect(createTileRow(record.geohash, record, undefined).primary_lithology).toBe('diabase');
+  });
+});
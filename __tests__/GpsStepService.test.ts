@@ -0,0 +1,98 @@
+// Tests for GpsStepService
+// Tests step estimates from tracked locations and location permission handling
+
+import * as Location from 'expo-location';
+import { GpsStepService } from '../src/services/GpsStepService';
+import { GPS_STEPS_PER_METER, GpsFix } from '../src/config/gpsDistance';
+
+const mockLocation = Location as jest.Mocked<typeof Location>;
+
+const START = 1_000_000;
+const METERS_PER_DEGREE_LAT = 111195;
+
+// A fix `meters` north of the start, `seconds` after it
+function fixAt(meters: number, seconds: number): GpsFix {
+  return {
+    latitude: 51.5 + meters / METERS_PER_DEGREE_LAT,
+    longitude: -0.12,
+    accuracy: 5,
+    timestamp: START + seconds * 1000,
+  };
+}
+
+describe('GpsStepService', () => {
+  let service: GpsStepService;
+
+  beforeEach(() => {
+    service = new GpsStepService();
+  });
+
+  describe('getStepsSince', () => {
+    it('should convert distance walked to step-equivalents', async () => {
+      // 300m over 4 minutes
+      for (let i = 0; i <= 6; i++) {
+        service.recordLocation(fixAt(i * 50, i * 40));
+      }
+
+      expect(service.getDistanceSince(0)).toBeCloseTo(300, 0);
+      expect(await service.getStepsSince(0)).toBe(
+        Math.floor(service.getDistanceSince(0) * GPS_STEPS_PER_METER)
+      );
+    });
+
+    it('should only count distance walked after the timestamp', async () => {
+      service.recordLocation(fixAt(0, 0));
+      service.recordLocation(fixAt(50, 40));
+      service.recordLocation(fixAt(100, 80));
+
+      expect(service.getDistanceSince(START + 40 * 1000)).toBeCloseTo(50, 0);
+    });
+
+    it('should not count a drive', async () => {
+      service.recordLocation(fixAt(0, 0));
+      service.recordLocation(fixAt(2000, 60));
+      service.recordLocation(fixAt(4000, 120));
+
+      expect(await service.getStepsSince(0)).toBe(0);
+    });
+
+    it('should report steps for the steps source only', async () => {
+      service.recordLocation(fixAt(0, 0));
+      service.recordLocation(fixAt(100, 80));
+
+      expect(await service.getActivitySince(0, ['steps', 'distance'])).toEqual({
+        steps: Math.floor(service.getDistanceSince(0) * GPS_STEPS_PER_METER),
+      });
+      expect(await service.getActivitySince(0, ['active_energy'])).toEqual({});
+      expect(service.getSupportedActivitySources()).toEqual(['steps']);
+    });
+  });
+
+  describe('permissions', () => {
+    it('should report granted location permission as authorized', async () => {
+      expect(await service.checkPermission()).toBe('authorized');
+      expect(service.getPermissionStatus()).toBe('authorized');
+    });
+
+    it('should report denied location permission', async () => {
+      mockLocation.requestForegroundPermissionsAsync.mockResolvedValueOnce({
+        status: 'denied',
+      } as Location.LocationPermissionResponse);
+
+      expect(await service.requestPermission()).toBe('denied');
+    });
+
+    it('should keep the last status when checking fails', async () => {
+      mockLocation.getForegroundPermissionsAsync.mockRejectedValueOnce(new Error('No services'));
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await service.checkPermission()).toBe('not_determined');
+      warnSpy.mockRestore();
+    });
+  });
+
+  it('should ledger its steps as GPS', () => {
+    expect(service.getStepSource()).toBe('gps');
+    expect(service.isAvailable()).toBe(true);
+  });
+});
@@ -9,11 +9,13 @@ const mockInitialize = jest.fn();
 const mockGetGrantedPermissions = jest.fn();
 const mockRequestPermission = jest.fn();
 const mockReadRecords = jest.fn();
+const mockAggregateRecord = jest.fn();
 const mockOpenHealthConnectSettings = jest.fn();
 
 const mockIsHealthDataAvailable = jest.fn();
 const mockRequestAuthorization = jest.fn();
-const mockQueryQuantitySamples = jest.fn();
+const mockQueryStatistics = jest.fn();
+const mockQueryStatisticsBySource = jest.fn();
 
 jest.mock('react-native-health-connect', () => ({
   getSdkStatus: () => mockGetSdkStatus(),
@@ -21,18 +23,27 @@ jest.mock('react-native-health-connect', () => ({
   getGrantedPermissions: () => mockGetGrantedPermissions(),
   requestPermission: (perms: unknown) => mockRequestPermission(perms),
   readRecords: (type: string, opts: unknown) => mockReadRecords(type, opts),
+  aggregateRecord: (request: unknown) => mockAggregateRecord(request),
   openHealthConnectSettings: () => mockOpenHealthConnectSettings(),
 }));
 
 jest.mock('@kingstinct/react-native-healthkit', () => ({
   isHealthDataAvailable: () => mockIsHealthDataAvailable(),
   requestAuthorization: (opts: unknown) => mockRequestAuthorization(opts),
-  queryQuantitySamples: (type: string, opts: unknown) => mockQueryQuantitySamples(type, opts),
+  queryStatisticsForQuantity: (type: string, stats: unknown, opts: unknown) =>
+    mockQueryStatistics(type, stats, opts),
+  queryStatisticsForQuantitySeparateBySource: (type: string, stats: unknown, opts: unknown) =>
+    mockQueryStatisticsBySource(type, stats, opts),
 }));
 
 // Import after mocks are set up
 import { HealthService, healthService } from '../src/services/HealthService';
 
+// ISO time on a fixed day, as Health Connect reports record start times
+function at(hour: number, minute: number): string {
+  return new Date(Date.UTC(2026, 5, 15, hour, minute)).toISOString();
+}
+
 describe('HealthService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -152,54 +163,227 @@ describe('HealthService', () => {
         mockInitialize.mockResolvedValue(true);
       });
 
-      it('should return sum of step records', async () => {
+      it('should use the Health Connect aggregate when no source is preferred', async () => {
+        mockAggregateRecord.mockResolvedValue({ COUNT_TOTAL: 4200.7, dataOrigins: [] });
+
+        const svc = new HealthService();
+        await svc.initialize();
+
+        expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(4200);
+        expect(mockAggregateRecord).toHaveBeenCalledWith(
+          expect.objectContaining({ recordType: 'Steps' })
+        );
+        expect(mockReadRecords).not.toHaveBeenCalled();
+      });
+
+      it('should count one origin per window when a phone and watch overlap', async () => {
         mockReadRecords.mockResolvedValue({
-          records: [{ count: 100 }, { count: 200 }, { count: 50 }],
+          records: [
+            // Same walk, recorded by both devices
+            { count: 1000, startTime: at(9, 0), metadata: { dataOrigin: 'phone' } },
+            { count: 1100, startTime: at(9, 0), metadata: { dataOrigin: 'watch' } },
+            // Only the phone was carried later
+            { count: 500, startTime: at(11, 0), metadata: { dataOrigin: 'phone' } },
+          ],
         });
 
         const svc = new HealthService();
         await svc.initialize();
-        const sinceTimestamp = Date.now() - 3600000;
 
-        expect(await svc.getStepsSince(sinceTimestamp)).toBe(350);
+        expect(await svc.getStepsSince(Date.now() - 3600000, 'watch')).toBe(1600);
+        expect(await svc.getStepsSince(Date.now() - 3600000, 'phone')).toBe(1500);
+        expect(mockAggregateRecord).not.toHaveBeenCalled();
+      });
+
+      describe('when aggregation is unavailable', () => {
+        let warnSpy: jest.SpyInstance;
+
+        beforeEach(() => {
+          mockAggregateRecord.mockRejectedValue(new Error('Aggregation unsupported'));
+          warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+          warnSpy.mockRestore();
+        });
+
+        it('should count the origin with the most steps in overlapping windows', async () => {
+          mockReadRecords.mockResolvedValue({
+            records: [
+              { count: 1000, startTime: at(9, 0), metadata: { dataOrigin: 'phone' } },
+              { count: 1100, startTime: at(9, 5), metadata: { dataOrigin: 'watch' } },
+              { count: 500, startTime: at(11, 0), metadata: { dataOrigin: 'phone' } },
+            ],
+          });
+
+          const svc = new HealthService();
+          await svc.initialize();
+
+          expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(1600);
+        });
+
+        it('should return sum of step records', async () => {
+          mockReadRecords.mockResolvedValue({
+            records: [{ count: 100 }, { count: 200 }, { count: 50 }],
+          });
+
+          const svc = new HealthService();
+          await svc.initialize();
+          const sinceTimestamp = Date.now() - 3600000;
+
+          expect(await svc.getStepsSince(sinceTimestamp)).toBe(350);
+        });
+
+        it('should coerce NaN step counts to 0', async () => {
+          mockReadRecords.mockResolvedValue({
+            records: [{ count: 100 }, { count: NaN }, { count: 50 }],
+          });
+
+          const svc = new HealthService();
+          await svc.initialize();
+
+          expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(150);
+        });
+
+        it('should return 0 for malformed read payloads', async () => {
+          mockReadRecords.mockResolvedValue({});
+
+          const svc = new HealthService();
+          await svc.initialize();
+
+          expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(0);
+        });
+
+        it('should return 0 when no records', async () => {
+          mockReadRecords.mockResolvedValue({ records: [] });
+
+          const svc = new HealthService();
+          await svc.initialize();
+
+          expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(0);
+        });
+
+        it('should return 0 on error', async () => {
+          mockReadRecords.mockRejectedValue(new Error('Read failed'));
+
+          const svc = new HealthService();
+          await svc.initialize();
+
+          expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(0);
+        });
+      });
+    });
+
+    describe('getStepOrigins', () => {
+      beforeEach(() => {
+        mockGetSdkStatus.mockResolvedValue(3);
+        mockInitialize.mockResolvedValue(true);
       });
 
-      it('should coerce NaN step counts to 0', async () => {
+      it('should list each app that recorded steps once', async () => {
         mockReadRecords.mockResolvedValue({
-          records: [{ count: 100 }, { count: NaN }, { count: 50 }],
+          records: [
+            { count: 10, metadata: { dataOrigin: 'com.watch', device: { model: 'Watch 2' } } },
+            { count: 20, metadata: { dataOrigin: 'com.watch' } },
+            { count: 30, metadata: { dataOrigin: 'com.phone' } },
+            { count: 40 },
+          ],
         });
 
         const svc = new HealthService();
         await svc.initialize();
 
-        expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(150);
+        expect(await svc.getStepOrigins()).toEqual([
+          { id: 'com.watch', name: 'Watch 2 (com.watch)' },
+          { id: 'com.phone', name: 'com.phone' },
+        ]);
       });
+    });
 
-      it('should return 0 for malformed read payloads', async () => {
-        mockReadRecords.mockResolvedValue({});
+    describe('getActivitySince', () => {
+      beforeEach(() => {
+        mockGetSdkStatus.mockResolvedValue(3);
+        mockInitialize.mockResolvedValue(true);
+      });
+
+      it('should aggregate distance, pushes and active energy', async () => {
+        mockAggregateRecord.mockImplementation(async ({ recordType }) => {
+          switch (recordType) {
+            case 'Steps':
+              return { COUNT_TOTAL: 3000, dataOrigins: [] };
+            case 'Distance':
+              return { DISTANCE: { inMeters: 12000 }, dataOrigins: [] };
+            case 'WheelchairPushes':
+              return { COUNT_TOTAL: 400, dataOrigins: [] };
+            case 'ActiveCaloriesBurned':
+              return { ACTIVE_CALORIES_TOTAL: { inKilocalories: 350 }, dataOrigins: [] };
+          }
+        });
 
         const svc = new HealthService();
         await svc.initialize();
 
-        expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(0);
+        expect(
+          await svc.getActivitySince(Date.now() - 3600000, [
+            'steps',
+            'distance',
+            'wheelchair_pushes',
+            'active_energy',
+          ])
+        ).toEqual({ steps: 3000, distance: 12000, wheelchair_pushes: 400, active_energy: 350 });
       });
 
-      it('should return 0 when no records', async () => {
-        mockReadRecords.mockResolvedValue({ records: [] });
-
+      it('should read 0 for sources Health Connect does not provide', async () => {
         const svc = new HealthService();
         await svc.initialize();
 
-        expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(0);
+        expect(await svc.getActivitySince(Date.now() - 3600000, ['distance_cycling'])).toEqual({
+          distance_cycling: 0,
+        });
+        expect(mockAggregateRecord).not.toHaveBeenCalled();
       });
 
-      it('should return 0 on error', async () => {
-        mockReadRecords.mockRejectedValue(new Error('Read failed'));
+      it('should read 0 for a source that fails without losing the others', async () => {
+        mockAggregateRecord.mockImplementation(async ({ recordType }) => {
+          if (recordType === 'Distance') throw new Error('No permission');
+          return { COUNT_TOTAL: 3000, dataOrigins: [] };
+        });
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
 
         const svc = new HealthService();
         await svc.initialize();
 
-        expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(0);
+        expect(await svc.getActivitySince(Date.now() - 3600000, ['steps', 'distance'])).toEqual({
+          steps: 3000,
+          distance: 0,
+        });
+        warnSpy.mockRestore();
+      });
+
+      it('should request permission for each chosen source', async () => {
+        mockGetGrantedPermissions.mockResolvedValue([{ recordType: 'Steps', accessType: 'read' }]);
+        mockRequestPermission.mockResolvedValue([
+          { recordType: 'Steps', accessType: 'read' },
+          { recordType: 'Distance', accessType: 'read' },
+        ]);
+
+        const svc = new HealthService();
+        const result = await svc.requestPermission(['steps', 'distance']);
+
+        expect(result).toBe('authorized');
+        expect(mockRequestPermission).toHaveBeenCalledWith([
+          { accessType: 'read', recordType: 'Steps' },
+          { accessType: 'read', recordType: 'Distance' },
+        ]);
+      });
+
+      it('should list the sources Health Connect provides', () => {
+        expect(new HealthService().getSupportedActivitySources()).toEqual([
+          'steps',
+          'distance',
+          'wheelchair_pushes',
+          'active_energy',
+        ]);
       });
     });
 
@@ -210,7 +394,7 @@ describe('HealthService', () => {
       });
 
       it('should return a number', async () => {
-        mockReadRecords.mockResolvedValue({ records: [{ count: 5000 }] });
+        mockAggregateRecord.mockResolvedValue({ COUNT_TOTAL: 5000, dataOrigins: [] });
 
         const svc = new HealthService();
         await svc.initialize();
@@ -297,30 +481,97 @@ describe('HealthService', () => {
         mockIsHealthDataAvailable.mockResolvedValue(true);
       });
 
-      it('should floor fractional sample sums', async () => {
-        mockQueryQuantitySamples.mockResolvedValue([
-          { quantity: 150.5 },
-          { quantity: 200.3 },
-          { quantity: 100.4 },
-        ]);
+      it('should floor the merged cumulative sum', async () => {
+        mockQueryStatistics.mockResolvedValue({
+          sumQuantity: { unit: 'count', quantity: 451.6 },
+          sources: [],
+        });
 
         const svc = new HealthService();
         await svc.initialize();
 
         expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(451);
+        expect(mockQueryStatistics).toHaveBeenCalledWith(
+          'HKQuantityTypeIdentifierStepCount',
+          ['cumulativeSum'],
+          expect.objectContaining({ unit: 'count' })
+        );
+      });
+
+      it('should coerce a NaN sum to 0', async () => {
+        mockQueryStatistics.mockResolvedValue({ sumQuantity: { quantity: NaN }, sources: [] });
+
+        const svc = new HealthService();
+        await svc.initialize();
+
+        expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(0);
+      });
+
+      it('should count only the preferred source when it recorded steps', async () => {
+        mockQueryStatisticsBySource.mockResolvedValue([
+          {
+            source: { bundleIdentifier: 'com.apple.health.phone', name: 'iPhone' },
+            sumQuantity: { quantity: 900 },
+          },
+          {
+            source: { bundleIdentifier: 'com.apple.health.watch', name: 'Watch' },
+            sumQuantity: { quantity: 1000 },
+          },
+        ]);
+        mockQueryStatistics.mockResolvedValue({ sumQuantity: { quantity: 1050 }, sources: [] });
+
+        const svc = new HealthService();
+        await svc.initialize();
+
+        expect(await svc.getStepsSince(Date.now() - 3600000, 'com.apple.health.phone')).toBe(900);
+        // A source that recorded nothing falls back to the merged sum
+        expect(await svc.getStepsSince(Date.now() - 3600000, 'com.other')).toBe(1050);
+      });
+
+      it('should list sources as step origins', async () => {
+        mockQueryStatisticsBySource.mockResolvedValue([
+          {
+            source: { bundleIdentifier: 'com.apple.health.watch', name: 'Watch' },
+            sumQuantity: { quantity: 1000 },
+          },
+        ]);
+
+        const svc = new HealthService();
+        await svc.initialize();
+
+        expect(await svc.getStepOrigins()).toEqual([
+          { id: 'com.apple.health.watch', name: 'Watch' },
+        ]);
       });
 
-      it('should coerce NaN sample quantities to 0', async () => {
-        mockQueryQuantitySamples.mockResolvedValue([{ quantity: 150.5 }, { quantity: NaN }]);
+      it('should read cycling distance and active energy with their units', async () => {
+        mockQueryStatistics.mockImplementation(async (type: string) => ({
+          sumQuantity: {
+            quantity: type === 'HKQuantityTypeIdentifierDistanceCycling' ? 8000 : 250,
+          },
+          sources: [],
+        }));
 
         const svc = new HealthService();
         await svc.initialize();
 
-        expect(await svc.getStepsSince(Date.now() - 3600000)).toBe(150);
+        expect(
+          await svc.getActivitySince(Date.now() - 3600000, ['distance_cycling', 'active_energy'])
+        ).toEqual({ distance_cycling: 8000, active_energy: 250 });
+        expect(mockQueryStatistics).toHaveBeenCalledWith(
+          'HKQuantityTypeIdentifierDistanceCycling',
+          ['cumulativeSum'],
+          expect.objectContaining({ unit: 'm' })
+        );
+        expect(mockQueryStatistics).toHaveBeenCalledWith(
+          'HKQuantityTypeIdentifierActiveEnergyBurned',
+          ['cumulativeSum'],
+          expect.objectContaining({ unit: 'kcal' })
+        );
       });
 
       it('should return 0 on error', async () => {
-        mockQueryQuantitySamples.mockRejectedValue(new Error('Query failed'));
+        mockQueryStatistics.mockRejectedValue(new Error('Query failed'));
 
         const svc = new HealthService();
         await svc.initialize();
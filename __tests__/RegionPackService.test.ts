@@ -0,0 +1,290 @@
+/**
+ * Tests for RegionPackService and RegionPackTileLoader
+ *
+ * Builds small packs and base bundles in a temp directory with better-sqlite3
+ * and reads them back through NodeTileLoader.
+ */
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  RegionPackInfo,
+  MetadataRow,
+  createRegionPackMetadata,
+  parseRegionPackMetadata,
+  parseBounds,
+  packContainsPoint,
+  packCoversGeohash,
+  sortPacksByDetail,
+} from '../src/services/RegionPackService';
+import { RegionPackTileLoader } from '../src/services/RegionPackTileLoader';
+import { NodeTileLoader } from '../src/services/NodeTileLoader';
+import { overlayFinerTile } from '../src/utils/tileFallbacks';
+import { encodeGeohash } from '../src/utils/geohash';
+import { GeoTile } from '../src/types/gis';
+import { BiomeCode } from '../src/types/resources';
+import { GeologyRecord, BiomeRecord } from '../scripts/gis/buildSqliteBundle';
+import { buildRegionPack } from '../scripts/gis/buildRegionPack';
+
+// London-ish test area
+const LONDON = { minLat: 51.3, minLng: -0.5, maxLat: 51.7, maxLng: 0.3 };
+const CENTRAL = { lat: 51.5, lng: -0.12 };
+const OUTSIDE = { lat: 48.85, lng: 2.35 };
+
+function packInfo(overrides: Partial<RegionPackInfo> = {}): RegionPackInfo {
+  return {
+    id: 'london',
+    name: 'London',
+    bounds: LONDON,
+    baseVersion: '1.0.0',
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    tileCount: 10,
+    maxPrecision: 5,
+    ...overrides,
+  };
+}
+
+function geology(lat: number, lng: number, precision: number, lithology: string): GeologyRecord {
+  return {
+    geohash: encodeGeohash(lat, lng, precision),
+    lat,
+    lng,
+    primaryLithology: lithology,
+    secondaryLithologies: [],
+    confidence: 0.9,
+  };
+}
+
+function biome(lat: number, lng: number): BiomeRecord {
+  return {
+    geohash: encodeGeohash(lat, lng, 4),
+    lat,
+    lng,
+    biomeCode: 'temperate_broadleaf_mixed',
+    biomeName: 'Temperate Broadleaf',
+    ecoregionId: 1,
+    realmBiome: 'PA04',
+    realm: 'Palearctic',
+    confidence: 0.9,
+  };
+}
+
+describe('RegionPackService', () => {
+  describe('parseBounds', () => {
+    it('parses minLat,minLng,maxLat,maxLng', () => {
+      expect(parseBounds('51.3, -0.5, 51.7, 0.3')).toEqual(LONDON);
+    });
+
+    it('rejects malformed or inverted boxes', () => {
+      expect(parseBounds('51.3,-0.5,51.7')).toBeNull();
+      expect(parseBounds('51.7,-0.5,51.3,0.3')).toBeNull();
+      expect(parseBounds('91,0,92,1')).toBeNull();
+      expect(parseBounds('a,b,c,d')).toBeNull();
+    });
+  });
+
+  describe('metadata', () => {
+    it('round-trips pack info through metadata rows', () => {
+      const info = packInfo();
+      const result = parseRegionPackMetadata(createRegionPackMetadata(info));
+      expect(result).toEqual({ success: true, info });
+    });
+
+    it('rejects files that are not region packs', () => {
+      const result = parseRegionPackMetadata([{ key: 'version', value: '1.0.0' }]);
+      expect(result).toEqual({ success: false, error: 'Not a WalkForage region pack' });
+    });
+
+    it('rejects packs from a newer format', () => {
+      const rows = createRegionPackMetadata(packInfo()).map((row) =>
+        row.key === 'formatVersion' ? { ...row, value: '99' } : row
+      );
+      expect(parseRegionPackMetadata(rows).success).toBe(false);
+    });
+
+    it('rejects unsafe ids and bad bounds', () => {
+      const withValue = (key: string, value: string): MetadataRow[] =>
+        createRegionPackMetadata(packInfo()).map((row) => (row.key === key ? { key, value } : row));
+      expect(parseRegionPackMetadata(withValue('id', '../tiles')).success).toBe(false);
+      expect(parseRegionPackMetadata(withValue('bounds', 'nope')).success).toBe(false);
+      expect(
+        parseRegionPackMetadata(withValue('bounds', JSON.stringify({ ...LONDON, minLat: 60 })))
+          .success
+      ).toBe(false);
+    });
+  });
+
+  describe('coverage', () => {
+    it('checks points against the bounds', () => {
+      expect(packContainsPoint(packInfo(), CENTRAL.lat, CENTRAL.lng)).toBe(true);
+      expect(packContainsPoint(packInfo(), OUTSIDE.lat, OUTSIDE.lng)).toBe(false);
+    });
+
+    it('covers geohash cells that overlap the bounds', () => {
+      expect(packCoversGeohash(packInfo(), encodeGeohash(CENTRAL.lat, CENTRAL.lng, 5))).toBe(true);
+      // A precision-3 cell straddling the edge still overlaps
+      expect(packCoversGeohash(packInfo(), encodeGeohash(51.75, 0.35, 3))).toBe(true);
+      expect(packCoversGeohash(packInfo(), encodeGeohash(OUTSIDE.lat, OUTSIDE.lng, 4))).toBe(false);
+    });
+
+    it('orders packs by precision, then smallest area', () => {
+      const packs = [
+        { info: packInfo({ id: 'england', maxPrecision: 4 }) },
+        { info: packInfo({ id: 'greater-london' }) },
+        {
+          info: packInfo({
+            id: 'city',
+            bounds: { minLat: 51.5, minLng: -0.15, maxLat: 51.52, maxLng: -0.07 },
+          }),
+        },
+      ];
+      expect(sortPacksByDetail(packs).map((pack) => pack.info.id)).toEqual([
+        'city',
+        'greater-london',
+        'england',
+      ]);
+    });
+  });
+});
+
+describe('overlayFinerTile', () => {
+  const tile = (geohash: string, lithology: string, biomeType: BiomeCode): GeoTile => ({
+    geohash,
+    geology: { primaryLithology: lithology, secondaryLithologies: [], confidence: 0.9 },
+    biome: { type: biomeType, confidence: 0.9 },
+  });
+
+  it('keeps the finer tile and fills unknown layers from the coarser one', () => {
+    const result = overlayFinerTile(
+      tile('gcpvj', 'chalk', 'unknown'),
+      tile('gcpv', 'clay', 'temperate_broadleaf_mixed')
+    );
+    expect(result?.geohash).toBe('gcpvj');
+    expect(result?.geology.primaryLithology).toBe('chalk');
+    expect(result?.biome.type).toBe('temperate_broadleaf_mixed');
+  });
+
+  it('returns whichever tile exists', () => {
+    const coarser = tile('gcpv', 'clay', 'temperate_broadleaf_mixed');
+    expect(overlayFinerTile(null, coarser)).toBe(coarser);
+    expect(overlayFinerTile(null, null)).toBeNull();
+  });
+});
+
+describe('region packs on disk', () => {
+  let tmpDir: string;
+  let basePath: string;
+  let packPath: string;
+  let packInfoBuilt: RegionPackInfo;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'region-pack-test-'));
+    basePath = path.join(tmpDir, 'tiles.db');
+    packPath = path.join(tmpDir, 'london.db');
+
+    // Base bundle: precision-4 clay everywhere we look
+    const baseGeology = [CENTRAL, OUTSIDE].map((p) => geology(p.lat, p.lng, 4, 'clay'));
+    const baseBiomes = [CENTRAL, OUTSIDE].map((p) => biome(p.lat, p.lng));
+    buildRegionPack(
+      basePath,
+      {
+        id: 'base',
+        name: 'Base',
+        bounds: { minLat: -90, minLng: -180, maxLat: 90, maxLng: 180 },
+        baseVersion: '1.0.0',
+      },
+      { geology: baseGeology, biomes: baseBiomes }
+    );
+
+    // Pack: precision-4 sandstone and precision-5 chalk for the centre, plus a record
+    // outside the bounds that must be left out
+    packInfoBuilt = buildRegionPack(
+      packPath,
+      { id: 'london', name: 'London', bounds: LONDON, baseVersion: '1.0.0' },
+      {
+        geology: [
+          geology(CENTRAL.lat, CENTRAL.lng, 4, 'sandstone'),
+          geology(CENTRAL.lat, CENTRAL.lng, 5, 'chalk'),
+          geology(OUTSIDE.lat, OUTSIDE.lng, 5, 'granite'),
+        ],
+        biomes: [biome(CENTRAL.lat, CENTRAL.lng), biome(OUTSIDE.lat, OUTSIDE.lng)],
+      },
+      Date.parse('2026-01-01T00:00:00.000Z')
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('writes metadata describing the pack', () => {
+    const db = new Database(packPath, { readonly: true });
+    const rows = db.prepare('SELECT key, value FROM metadata').all() as MetadataRow[];
+    const tileCount = (db.prepare('SELECT COUNT(*) AS n FROM tiles').get() as { n: number }).n;
+    db.close();
+
+    const result = parseRegionPackMetadata(rows);
+    expect(result).toEqual({ success: true, info: packInfoBuilt });
+    expect(packInfoBuilt).toMatchObject({
+      id: 'london',
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      tileCount: 2,
+      maxPrecision: 5,
+    });
+    expect(tileCount).toBe(2);
+  });
+
+  it('gives precision-5 tiles the biome of their precision-4 parent', () => {
+    const loader = new NodeTileLoader(packPath);
+    const tile = loader.getTile(encodeGeohash(CENTRAL.lat, CENTRAL.lng, 5));
+    loader.close();
+    expect(tile?.geology.primaryLithology).toBe('chalk');
+    expect(tile?.biome.type).toBe('temperate_broadleaf_mixed');
+  });
+
+  describe('RegionPackTileLoader', () => {
+    let loader: RegionPackTileLoader;
+
+    beforeEach(async () => {
+      loader = new RegionPackTileLoader(new NodeTileLoader(basePath), [
+        { info: packInfoBuilt, loader: new NodeTileLoader(packPath) },
+      ]);
+      await loader.initialize();
+    });
+
+    afterEach(async () => {
+      await loader.close();
+    });
+
+    it('reads tiles inside the pack from the pack', async () => {
+      const tile = await loader.getTile(encodeGeohash(CENTRAL.lat, CENTRAL.lng, 4));
+      expect(tile?.geology.primaryLithology).toBe('sandstone');
+    });
+
+    it('falls back to the base bundle outside the pack', async () => {
+      const tile = await loader.getTile(encodeGeohash(OUTSIDE.lat, OUTSIDE.lng, 4));
+      expect(tile?.geology.primaryLithology).toBe('clay');
+      expect(await loader.getTile(encodeGeohash(OUTSIDE.lat, OUTSIDE.lng, 5))).toBeNull();
+    });
+
+    it('splits batch lookups between pack and base without duplicates', async () => {
+      const inside = encodeGeohash(CENTRAL.lat, CENTRAL.lng, 4);
+      const outside = encodeGeohash(OUTSIDE.lat, OUTSIDE.lng, 4);
+      const tiles = await loader.getTiles([inside, outside, inside]);
+      expect(tiles.map((t) => [t.geohash, t.geology.primaryLithology]).sort()).toEqual(
+        [
+          [inside, 'sandstone'],
+          [outside, 'clay'],
+        ].sort()
+      );
+    });
+
+    it('stops reading a pack once it is removed', async () => {
+      await loader.removePack('london');
+      expect(loader.getPacks()).toHaveLength(0);
+      const tile = await loader.getTile(encodeGeohash(CENTRAL.lat, CENTRAL.lng, 4));
+      expect(tile?.geology.primaryLithology).toBe('clay');
+    });
+  });
+});
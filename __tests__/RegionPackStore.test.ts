@@ -0,0 +1,184 @@
+// Tests for RegionPackStore
+// Tests that installing and downloading packs never lose an installed pack,
+// against an in-memory file system
+
+import { File, Paths } from 'expo-file-system';
+import {
+  RegionPackFile,
+  downloadRegionPack,
+  installRegionPack,
+  stageRegionPack,
+} from '../src/services/RegionPackStore';
+import { REGION_PACK_DIRECTORY, RegionPackInfo } from '../src/services/RegionPackService';
+
+// File contents by uri
+const mockFiles = new Map<string, string>();
+// The next move to each of these uris throws, as if the file system failed
+let mockFailingMoves: string[] = [];
+
+jest.mock('expo-file-system', () => {
+  type MockPathPart = string | { uri: string };
+  const joinUri = (parts: MockPathPart[]) =>
+    parts.map((part) => (typeof part === 'string' ? part : part.uri)).join('/');
+
+  class MockDirectory {
+    uri: string;
+    constructor(...parts: MockPathPart[]) {
+      this.uri = joinUri(parts);
+    }
+    get exists() {
+      return true;
+    }
+    create() {}
+    list() {
+      return [];
+    }
+  }
+
+  class MockFile {
+    uri: string;
+    constructor(...parts: MockPathPart[]) {
+      this.uri = joinUri(parts);
+    }
+    get exists() {
+      return mockFiles.has(this.uri);
+    }
+    delete() {
+      if (!mockFiles.delete(this.uri)) {
+        throw new Error(`No file at ${this.uri}`);
+      }
+    }
+    move(destination: { uri: string }) {
+      const failing = mockFailingMoves.indexOf(destination.uri);
+      if (failing !== -1) {
+        mockFailingMoves.splice(failing, 1);
+        throw new Error(`Could not move to ${destination.uri}`);
+      }
+      if (mockFiles.has(destination.uri)) {
+        throw new Error(`File exists at ${destination.uri}`);
+      }
+      mockFiles.set(destination.uri, mockFiles.get(this.uri) as string);
+      mockFiles.delete(this.uri);
+      this.uri = destination.uri;
+    }
+    static downloadFileAsync = jest.fn();
+  }
+
+  return {
+    File: MockFile,
+    Directory: MockDirectory,
+    Paths: {
+      document: new MockDirectory('/documents'),
+      cache: new MockDirectory('/cache'),
+    },
+  };
+});
+
+const PACK_DIRECTORY = `/documents/${REGION_PACK_DIRECTORY}`;
+const INSTALLED = `${PACK_DIRECTORY}/london.db`;
+const DOWNLOADED = '/cache/region-pack-1.db';
+
+const info: RegionPackInfo = {
+  id: 'london',
+  name: 'London',
+  bounds: { minLat: 51.3, minLng: -0.5, maxLat: 51.7, maxLng: 0.3 },
+  baseVersion: '1.0.0',
+  generatedAt: '2026-01-01T00:00:00Z',
+  tileCount: 100,
+  maxPrecision: 6,
+};
+
+function download(): RegionPackFile {
+  mockFiles.set(DOWNLOADED, 'new pack');
+  return { info, file: new File(Paths.cache, 'region-pack-1.db') };
+}
+
+describe('RegionPackStore', () => {
+  beforeEach(() => {
+    mockFiles.clear();
+    mockFailingMoves = [];
+  });
+
+  describe('stageRegionPack', () => {
+    it('moves the download beside the installed pack', () => {
+      mockFiles.set(INSTALLED, 'old pack');
+
+      const staged = stageRegionPack(download());
+
+      expect(staged.file.uri).toBe(`${INSTALLED}.installing`);
+      expect(mockFiles).toEqual(
+        new Map([
+          [INSTALLED, 'old pack'],
+          [`${INSTALLED}.installing`, 'new pack'],
+        ])
+      );
+    });
+
+    it('keeps the installed pack if the download cannot be moved', () => {
+      mockFiles.set(INSTALLED, 'old pack');
+      mockFailingMoves = [`${INSTALLED}.installing`];
+
+      expect(() => stageRegionPack(download())).toThrow();
+      expect(mockFiles.get(INSTALLED)).toBe('old pack');
+    });
+
+    it('replaces a download left by an interrupted install', () => {
+      mockFiles.set(`${INSTALLED}.installing`, 'stale download');
+
+      stageRegionPack(download());
+
+      expect([...mockFiles]).toEqual([[`${INSTALLED}.installing`, 'new pack']]);
+    });
+  });
+
+  describe('installRegionPack', () => {
+    it('moves the staged pack into place', () => {
+      const installed = installRegionPack(stageRegionPack(download()));
+
+      expect(installed.info).toBe(info);
+      expect([...mockFiles]).toEqual([[INSTALLED, 'new pack']]);
+    });
+
+    it('replaces a pack with the same id', () => {
+      mockFiles.set(INSTALLED, 'old pack');
+
+      installRegionPack(stageRegionPack(download()));
+
+      expect([...mockFiles]).toEqual([[INSTALLED, 'new pack']]);
+    });
+
+    it('restores the installed pack if the swap fails', () => {
+      mockFiles.set(INSTALLED, 'old pack');
+      const staged = stageRegionPack(download());
+      mockFailingMoves = [INSTALLED];
+
+      expect(() => installRegionPack(staged)).toThrow();
+      expect(mockFiles.get(INSTALLED)).toBe('old pack');
+    });
+
+    it('clears a replaced pack left by an interrupted install', () => {
+      mockFiles.set(`${INSTALLED}.replaced`, 'stale pack');
+
+      installRegionPack(stageRegionPack(download()));
+
+      expect([...mockFiles]).toEqual([[INSTALLED, 'new pack']]);
+    });
+  });
+
+  describe('downloadRegionPack', () => {
+    it('deletes a partial download when the download fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      (File.downloadFileAsync as jest.Mock).mockImplementationOnce(
+        async (_url: string, file: File) => {
+          mockFiles.set(file.uri, 'partial');
+          throw new Error('Connection reset');
+        }
+      );
+
+      const result = await downloadRegionPack('https://example.com/london.db');
+
+      expect(result).toEqual({ success: false, error: 'Could not download the region pack' });
+      expect(mockFiles.size).toBe(0);
+    });
+  });
+});
@@ -2,9 +2,16 @@
  * Tests for ResourceSpawnService
  * Tests resource selection based on geological and biome data
  */
-import { resourceSpawnService } from '../src/services/ResourceSpawnService';
+import {
+  resourceSpawnService,
+  deriveSpawnSeed,
+  getSpawnDay,
+} from '../src/services/ResourceSpawnService';
+import { calculateGatherYield } from '../src/config/gathering';
+import { createSeededRandom } from '../src/utils/random';
 import { STONES_BY_ID } from '../src/data/stones';
 import { WOODS_BY_ID } from '../src/data/woods';
+import { FIBERS_BY_ID } from '../src/data/fibers';
 import { getRealmBiomeCode } from '../src/data/gis/mappings';
 import { LocationGeoData } from '../src/types/gis';
 
@@ -130,6 +137,24 @@ describe('ResourceSpawnService', () => {
       expect(stone).toBeDefined();
       expect(STONES_BY_ID[stone!.id]).toBeDefined();
     });
+
+    it('should draw from the dominant lithology where a secondary dominates', () => {
+      const basaltHere: LocationGeoData = {
+        ...mockGeoData,
+        geology: {
+          primaryLithology: 'chalk',
+          secondaryLithologies: ['basalt'],
+          dominantLithology: 'basalt',
+          confidence: 0.8,
+        },
+      };
+      const random = createSeededRandom(42);
+
+      for (let i = 0; i < 50; i++) {
+        const stone = resourceSpawnService.getRandomStoneForLocation(basaltHere, random);
+        expect(['basalt', 'gabbro', 'obsidian']).toContain(stone!.id);
+      }
+    });
   });
 
   describe('getRandomWoodForLocation', () => {
@@ -239,6 +264,52 @@ describe('ResourceSpawnService', () => {
     });
   });
 
+  describe('getRandomFiber', () => {
+    it('should return a valid fiber', () => {
+      const fiber = resourceSpawnService.getRandomFiber();
+
+      expect(fiber).toBeDefined();
+      expect(FIBERS_BY_ID[fiber.id]).toBeDefined();
+    });
+  });
+
+  describe('getRandomFiberForLocation', () => {
+    const mockGeoData: LocationGeoData = {
+      geology: {
+        primaryLithology: 'granite',
+        secondaryLithologies: [],
+        confidence: 0.8,
+      },
+      biome: {
+        type: 'temperate_broadleaf_mixed',
+        realm: 'Palearctic',
+        confidence: 0.8,
+      },
+      dataSource: 'detailed',
+      geohash: 'gcpv',
+    };
+
+    it('should only return fibers mapped to the realm-biome', () => {
+      const fiberIds = new Set<string>();
+      for (let i = 0; i < 200; i++) {
+        const fiber = resourceSpawnService.getRandomFiberForLocation(mockGeoData);
+        if (fiber) fiberIds.add(fiber.id);
+      }
+
+      // PA04 is mapped to nettle, flax, lime bast and ramie.
+      expect([...fiberIds].sort()).toEqual(['flax', 'lime_bast', 'nettle', 'ramie']);
+    });
+
+    it('should fall back to random when confidence is low', () => {
+      const fiber = resourceSpawnService.getRandomFiberForLocation({
+        ...mockGeoData,
+        biome: { ...mockGeoData.biome, confidence: 0.1 },
+      });
+      expect(fiber).toBeDefined();
+      expect(FIBERS_BY_ID[fiber!.id]).toBeDefined();
+    });
+  });
+
   describe('realmBiomes biome weighting', () => {
     const pa04GeoData: LocationGeoData = {
       geology: {
@@ -283,4 +354,49 @@ describe('ResourceSpawnService', () => {
       expect(carrierCount / draws).toBeGreaterThan(0.85);
     });
   });
+
+  describe('seeded spawns', () => {
+    const geoData: LocationGeoData = {
+      geology: { primaryLithology: 'granite', secondaryLithologies: [], confidence: 0.8 },
+      biome: { type: 'temperate_broadleaf_mixed', realm: 'Palearctic', confidence: 0.8 },
+      dataSource: 'detailed',
+      geohash: 'gcpv',
+      cellGeohash: 'gcpvj0',
+    };
+
+    // Roll a sequence of stones, woods and yields from one seed
+    function rollSequence(seed: number): string[] {
+      const random = createSeededRandom(seed);
+      const rolls: string[] = [];
+      for (let i = 0; i < 20; i++) {
+        rolls.push(resourceSpawnService.getRandomStoneForLocation(geoData, random)!.id);
+        rolls.push(resourceSpawnService.getRandomWoodForLocation(geoData, random)!.id);
+        rolls.push(String(calculateGatherYield(3, random)));
+      }
+      return rolls;
+    }
+
+    it('should reproduce the same spawns and yields from the same seed', () => {
+      expect(rollSequence(1234)).toEqual(rollSequence(1234));
+    });
+
+    it('should produce different spawns from different seeds', () => {
+      expect(rollSequence(1234)).not.toEqual(rollSequence(5678));
+    });
+
+    it('should derive the same seed for the same cell and day', () => {
+      const day = getSpawnDay(Date.UTC(2024, 5, 1, 9));
+      expect(getSpawnDay(Date.UTC(2024, 5, 1, 21))).toBe(day);
+      // Seeds use the precision-6 cell, so longer geohashes in the cell match
+      expect(deriveSpawnSeed('gcpvj0', day)).toBe(deriveSpawnSeed('gcpvj0zz', day));
+    });
+
+    it('should vary the seed by cell, day and player', () => {
+      const day = getSpawnDay(Date.UTC(2024, 5, 1));
+      const seed = deriveSpawnSeed('gcpvj0', day, 'player_a');
+      expect(deriveSpawnSeed('gcpvj1', day, 'player_a')).not.toBe(seed);
+      expect(deriveSpawnSeed('gcpvj0', day + 1, 'player_a')).not.toBe(seed);
+      expect(deriveSpawnSeed('gcpvj0', day, 'player_b')).not.toBe(seed);
+    });
+  });
 });
@@ -0,0 +1,130 @@
+// Tests for SaveTransferService
+// Tests the save file envelope, checksum verification, and import diff summaries
+
+import {
+  SaveDiffInput,
+  SAVE_FILE_FORMAT,
+  computeChecksum,
+  createSaveEnvelope,
+  serializeSaveEnvelope,
+  parseSaveEnvelope,
+  summarizeSaveDiff,
+  formatSaveDiff,
+} from '../src/services/SaveTransferService';
+import { createEmptyInventory } from '../src/types/resources';
+
+describe('SaveTransferService', () => {
+  const persisted = {
+    schemaVersion: 2,
+    unlockedTechs: ['basic_knapping'],
+    explorationPoints: 12,
+  };
+
+  function emptyDiffInput(): SaveDiffInput {
+    return {
+      unlockedTechs: [],
+      ownedTools: [],
+      ownedComponents: [],
+      inventory: createEmptyInventory(),
+      explorationPoints: 0,
+      availableSteps: 0,
+    };
+  }
+
+  describe('computeChecksum', () => {
+    it('should be stable and sensitive to changes', () => {
+      expect(computeChecksum('abc')).toBe(computeChecksum('abc'));
+      expect(computeChecksum('abc')).not.toBe(computeChecksum('abd'));
+      expect(computeChecksum('')).toMatch(/^[0-9a-f]{8}$/);
+    });
+  });
+
+  describe('createSaveEnvelope', () => {
+    it('should record versions, timestamp and checksum', () => {
+      const envelope = createSaveEnvelope(persisted, '1.2.3', Date.UTC(2024, 5, 1));
+
+      expect(envelope.format).toBe(SAVE_FILE_FORMAT);
+      expect(envelope.schemaVersion).toBe(2);
+      expect(envelope.appVersion).toBe('1.2.3');
+      expect(envelope.exportedAt).toBe('2024-06-01T00:00:00.000Z');
+      expect(envelope.checksum).toBe(computeChecksum(JSON.stringify(persisted)));
+    });
+  });
+
+  describe('parseSaveEnvelope', () => {
+    it('should round-trip a serialised envelope', () => {
+      const text = serializeSaveEnvelope(createSaveEnvelope(persisted, '1.0.0'));
+      const result = parseSaveEnvelope(text, 2);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.envelope.state).toEqual(persisted);
+      }
+    });
+
+    it('should reject invalid JSON and other files', () => {
+      expect(parseSaveEnvelope('not json', 2).success).toBe(false);
+      expect(parseSaveEnvelope('[]', 2).success).toBe(false);
+      expect(parseSaveEnvelope(JSON.stringify({ format: 'other', state: {} }), 2)).toEqual({
+        success: false,
+        error: 'Not a WalkForage save file',
+      });
+    });
+
+    it('should reject a checksum mismatch', () => {
+      const envelope = createSaveEnvelope(persisted, '1.0.0');
+      const tampered = { ...envelope, state: { ...envelope.state, explorationPoints: 9999 } };
+
+      const result = parseSaveEnvelope(JSON.stringify(tampered), 2);
+      expect(result).toEqual({
+        success: false,
+        error: 'Save file is corrupted (checksum mismatch)',
+      });
+    });
+
+    it('should reject saves from a newer schema', () => {
+      const text = serializeSaveEnvelope(
+        createSaveEnvelope({ ...persisted, schemaVersion: 3 }, '2.0.0')
+      );
+      expect(parseSaveEnvelope(text, 2).success).toBe(false);
+    });
+  });
+
+  describe('summarizeSaveDiff', () => {
+    it('should report tech, tool and inventory changes', () => {
+      const current = { ...emptyDiffInput(), unlockedTechs: ['basic_knapping', 'grinding'] };
+      const incoming = {
+        ...emptyDiffInput(),
+        unlockedTechs: ['basic_knapping', 'cordage_making'],
+        inventory: {
+          ...createEmptyInventory(),
+          stone: [
+            { resourceId: 'flint', quantity: 3 },
+            { resourceId: 'granite', quantity: 4 },
+          ],
+        },
+        explorationPoints: 25,
+      };
+
+      const summary = summarizeSaveDiff(current, incoming);
+
+      expect(summary.techs).toEqual({
+        current: 2,
+        incoming: 2,
+        gained: ['cordage_making'],
+        lost: ['grinding'],
+      });
+      expect(summary.inventory.stone).toEqual({ current: 0, incoming: 7 });
+      expect(summary.explorationPoints).toEqual({ current: 0, incoming: 25 });
+    });
+
+    it('should format lines for display', () => {
+      const incoming = { ...emptyDiffInput(), unlockedTechs: ['basic_knapping'] };
+      const lines = formatSaveDiff(summarizeSaveDiff(emptyDiffInput(), incoming));
+
+      expect(lines[0]).toBe('Techs: 0 → 1');
+      expect(lines[1]).toContain('+ ');
+      expect(lines).toContain('Tools: 0 (unchanged)');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+// Tests for SaveValidationService
+// Tests registry checks, quality clamping, material rebuilding and quarantine of bad records
+
+import {
+  createLoadReport,
+  hasLoadIssues,
+  validateUsedMaterials,
+  validateOwnedTool,
+  validateOwnedComponent,
+  validateCraftingJob,
+  validateOwnedTools,
+  validateUnlockedTechs,
+  validateQuarantine,
+} from '../src/services/SaveValidationService';
+
+describe('SaveValidationService', () => {
+  const hammerstone = {
+    instanceId: 'hammerstone_1',
+    toolId: 'hammerstone',
+    materials: { stone: { resourceId: 'granite', quantity: 1 } },
+    quality: 0.5,
+    durability: 100,
+    maxDurability: 135,
+  };
+
+  const handle = {
+    instanceId: 'crude_handle_1',
+    componentId: 'crude_handle',
+    materials: { wood: { resourceId: 'european_oak', quantity: 1 } },
+    quality: 0.5,
+  };
+
+  const job = {
+    id: 'job_1',
+    recipeType: 'tool',
+    recipeId: 'hammerstone',
+    startTime: 1000,
+    duration: 30,
+    selectedMaterials: { stone: { resourceId: 'granite', quantity: 1 } },
+    selectedFoods: { wild_garlic: 2 },
+    reservedComponents: [],
+    quality: 0.4,
+  };
+
+  describe('validateOwnedTool', () => {
+    it('should pass a valid tool through unchanged', () => {
+      const report = createLoadReport();
+      expect(validateOwnedTool(hammerstone, report)).toEqual(hammerstone);
+      expect(hasLoadIssues(report)).toBe(false);
+    });
+
+    it('should quarantine tools with a missing or unknown toolId', () => {
+      const report = createLoadReport();
+      expect(validateOwnedTool({ ...hammerstone, toolId: undefined }, report)).toBeNull();
+      expect(validateOwnedTool({ ...hammerstone, toolId: 'laser_cutter' }, report)).toBeNull();
+      expect(validateOwnedTool('garbage', report)).toBeNull();
+      expect(report.quarantined).toHaveLength(3);
+      expect(report.quarantined[1]).toMatchObject({
+        field: 'ownedTools',
+        reason: "unknown tool 'laser_cutter'",
+      });
+    });
+
+    it('should clamp quality and repair NaN quality', () => {
+      const report = createLoadReport();
+
+      expect(validateOwnedTool({ ...hammerstone, quality: 1.7 }, report)?.quality).toBe(1);
+      expect(validateOwnedTool({ ...hammerstone, quality: NaN }, report)?.quality).toBe(0);
+      expect(validateOwnedTool({ ...hammerstone, quality: 'x' }, report)?.quality).toBe(0);
+      expect(report.repaired).toHaveLength(3);
+      expect(report.quarantined).toHaveLength(0);
+    });
+
+    it('should keep valid recorded components and quarantine unknown ones', () => {
+      const report = createLoadReport();
+      const tool = validateOwnedTool(
+        { ...hammerstone, components: [handle, { ...handle, componentId: 'gold_leaf' }] },
+        report
+      );
+
+      expect(tool?.components).toEqual([handle]);
+      expect(report.quarantined[0].field).toBe('ownedTools.components');
+    });
+
+    it('should restore full durability when it is missing', () => {
+      const tool = validateOwnedTool(
+        { ...hammerstone, durability: undefined, maxDurability: undefined },
+        createLoadReport()
+      );
+
+      expect(tool?.maxDurability).toBe(135);
+      expect(tool?.durability).toBe(135);
+    });
+  });
+
+  describe('validateUsedMaterials', () => {
+    it('should drop unknown material types and resources', () => {
+      const report = createLoadReport();
+      const materials = validateUsedMaterials(
+        {
+          stone: { resourceId: 'granite', quantity: 2 },
+          wood: { resourceId: 'unobtainium', quantity: 1 },
+          plastic: { resourceId: 'granite', quantity: 1 },
+        },
+        report,
+        'ownedTools',
+        'tool_1'
+      );
+
+      expect(materials).toEqual({ stone: { resourceId: 'granite', quantity: 2 } });
+      expect(report.repaired).toHaveLength(2);
+    });
+
+    it('should coerce bad quantities to at least 1', () => {
+      const materials = validateUsedMaterials(
+        { stone: { resourceId: 'granite', quantity: NaN } },
+        createLoadReport(),
+        'ownedTools',
+        'tool_1'
+      );
+      expect(materials.stone?.quantity).toBe(1);
+    });
+  });
+
+  describe('validateOwnedComponent', () => {
+    it('should check components against the registry', () => {
+      const report = createLoadReport();
+
+      expect(validateOwnedComponent(handle, report)).toEqual(handle);
+      expect(validateOwnedComponent({ ...handle, componentId: 'hammerstone' }, report)).toBeNull();
+      expect(report.quarantined).toHaveLength(1);
+    });
+  });
+
+  describe('validateCraftingJob', () => {
+    it('should quarantine jobs for unknown recipes', () => {
+      const report = createLoadReport();
+
+      expect(validateCraftingJob(job, report)).toEqual(job);
+      expect(validateCraftingJob({ ...job, recipeId: 'crude_handle' }, report)).toBeNull();
+      expect(
+        validateCraftingJob({ ...job, recipeType: 'component', recipeId: 'crude_handle' }, report)
+      ).not.toBeNull();
+      expect(report.quarantined).toHaveLength(1);
+    });
+
+    it('should validate reserved components', () => {
+      const report = createLoadReport();
+      const result = validateCraftingJob(
+        { ...job, reservedComponents: [handle, { componentId: 'crude_handle' }] },
+        report
+      );
+
+      expect(result?.reservedComponents).toEqual([handle]);
+      expect(report.quarantined[0].field).toBe('craftingQueue.reservedComponents');
+    });
+  });
+
+  describe('list validators', () => {
+    it('should quarantine duplicate instance ids', () => {
+      const report = createLoadReport();
+      const tools = validateOwnedTools([hammerstone, { ...hammerstone, quality: 0.9 }], report);
+
+      expect(tools).toHaveLength(1);
+      expect(report.quarantined[0].reason).toBe("duplicate id 'hammerstone_1'");
+    });
+
+    it('should keep only known techs', () => {
+      const report = createLoadReport();
+      expect(validateUnlockedTechs(['basic_knapping', 'time_travel', 42], report)).toEqual([
+        'basic_knapping',
+      ]);
+      expect(report.quarantined).toHaveLength(2);
+    });
+
+    it('should return empty lists for non-arrays', () => {
+      expect(validateOwnedTools('corrupt', createLoadReport())).toEqual([]);
+      expect(validateQuarantine({ bad: true })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+// Unit tests for the step ledger's recording, compaction and daily history
+
+import {
+  compactLedger,
+  createEmptyStepLedger,
+  getDailyHistory,
+  getCreditedOnDay,
+  getEntriesForDay,
+  getLedgerDay,
+  recordSpend,
+  recordSync,
+  StepLedger,
+} from '../src/services/StepLedgerService';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// Local noon, so whole-day offsets never cross midnight
+const NOW = new Date(2026, 5, 15, 12, 0, 0).getTime();
+
+function ledgerWithActivity(): StepLedger {
+  let ledger = createEmptyStepLedger();
+  ledger = recordSync(ledger, 4000, 'health_connect', NOW - 20 * DAY - HOUR, NOW - 20 * DAY);
+  ledger = recordSpend(ledger, 1000, 'flint', NOW - 20 * DAY + HOUR);
+  ledger = recordSync(ledger, 2500, 'health_connect', NOW - DAY - HOUR, NOW - DAY);
+  ledger = recordSync(ledger, 1200, 'cheat', NOW - HOUR, NOW - HOUR);
+  ledger = recordSpend(ledger, 1000, 'oak', NOW);
+  return ledger;
+}
+
+describe('StepLedgerService', () => {
+  describe('getLedgerDay', () => {
+    it('uses the local calendar date, zero padded', () => {
+      expect(getLedgerDay(new Date(2026, 0, 5, 23, 59).getTime())).toBe('2026-01-05');
+      expect(getLedgerDay(new Date(2026, 0, 6, 0, 1).getTime())).toBe('2026-01-06');
+    });
+  });
+
+  describe('recording', () => {
+    it('appends syncs at the end of their window', () => {
+      const ledger = recordSync(createEmptyStepLedger(), 500, 'healthkit', NOW - HOUR, NOW);
+      expect(ledger.entries).toEqual([
+        { type: 'sync', at: NOW, amount: 500, source: 'healthkit', since: NOW - HOUR, until: NOW },
+      ]);
+    });
+
+    it('appends spends with what they bought', () => {
+      const ledger = recordSpend(createEmptyStepLedger(), 1000, 'granite', NOW);
+      expect(ledger.entries).toEqual([
+        { type: 'spend', at: NOW, amount: 1000, spentOn: 'granite' },
+      ]);
+    });
+
+    it('ignores entries that move no steps', () => {
+      const empty = createEmptyStepLedger();
+      expect(recordSync(empty, 0, 'healthkit', NOW - HOUR, NOW)).toBe(empty);
+      expect(recordSpend(empty, -5, 'granite', NOW)).toBe(empty);
+    });
+  });
+
+  describe('compactLedger', () => {
+    it('folds entries older than the detail window into daily totals', () => {
+      const compacted = compactLedger(ledgerWithActivity(), NOW, 14);
+
+      expect(compacted.entries).toHaveLength(3);
+      expect(compacted.days).toEqual([
+        { day: getLedgerDay(NOW - 20 * DAY), walked: 4000, spent: 1000 },
+      ]);
+    });
+
+    it('adds to days that were already compacted', () => {
+      const ledger: StepLedger = {
+        entries: [{ type: 'spend', at: NOW - 20 * DAY, amount: 1000, spentOn: 'oak' }],
+        days: [{ day: getLedgerDay(NOW - 20 * DAY), walked: 3000, spent: 1000 }],
+      };
+
+      expect(compactLedger(ledger, NOW, 14).days).toEqual([
+        { day: getLedgerDay(NOW - 20 * DAY), walked: 3000, spent: 2000 },
+      ]);
+    });
+
+    it('returns the same ledger when nothing is old enough', () => {
+      const ledger = recordSync(createEmptyStepLedger(), 500, 'healthkit', NOW - HOUR, NOW);
+      expect(compactLedger(ledger, NOW, 14)).toBe(ledger);
+    });
+  });
+
+  describe('getDailyHistory', () => {
+    it('totals each day newest first, from entries and compacted days alike', () => {
+      const ledger = compactLedger(ledgerWithActivity(), NOW, 14);
+
+      expect(getDailyHistory(ledger, NOW, 30)).toEqual([
+        { day: getLedgerDay(NOW), walked: 1200, spent: 1000 },
+        { day: getLedgerDay(NOW - DAY), walked: 2500, spent: 0 },
+        { day: getLedgerDay(NOW - 20 * DAY), walked: 4000, spent: 1000 },
+      ]);
+    });
+
+    it('gives the same totals before and after compaction', () => {
+      const ledger = ledgerWithActivity();
+      expect(getDailyHistory(compactLedger(ledger, NOW, 14), NOW, 30)).toEqual(
+        getDailyHistory(ledger, NOW, 30)
+      );
+    });
+
+    it('leaves out days before the window', () => {
+      const history = getDailyHistory(ledgerWithActivity(), NOW, 7);
+      expect(history.map((totals) => totals.day)).toEqual([
+        getLedgerDay(NOW),
+        getLedgerDay(NOW - DAY),
+      ]);
+    });
+  });
+
+  describe('getEntriesForDay', () => {
+    it('lists the entries recorded on a day, oldest first', () => {
+      const entries = getEntriesForDay(ledgerWithActivity(), getLedgerDay(NOW));
+      expect(entries.map((entry) => entry.type)).toEqual(['sync', 'spend']);
+    });
+  });
+
+  describe('getCreditedOnDay', () => {
+    it('totals syncs from every source but cheats', () => {
+      let ledger = ledgerWithActivity();
+      ledger = recordSync(ledger, 800, 'gps', NOW - 2 * HOUR, NOW - HOUR);
+      ledger = recordSync(ledger, 300, 'healthkit', NOW - HOUR, NOW);
+
+      expect(getCreditedOnDay(ledger, getLedgerDay(NOW))).toBe(1100);
+      expect(getCreditedOnDay(ledger, getLedgerDay(NOW - DAY))).toBe(2500);
+    });
+  });
+});
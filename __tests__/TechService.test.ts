@@ -12,6 +12,7 @@ import {
 } from '../src/services/TechService';
 import { TECHNOLOGIES, TECH_BY_ID } from '../src/data/techTree';
 import { Inventory, createEmptyInventory } from '../src/types/resources';
+import { Technology } from '../src/types/tech';
 
 describe('TechService', () => {
   // Helper to create inventory with specific resources
@@ -307,6 +308,51 @@ describe('TechService', () => {
     });
   });
 
+  describe('exploration costs', () => {
+    const basicKnapping = TECH_BY_ID['basic_knapping'];
+    const surveyedKnapping: Technology = {
+      ...basicKnapping,
+      resourceCost: [...basicKnapping.resourceCost, { resourceType: 'exploration', quantity: 30 }],
+    };
+
+    it('should report missing exploration points', () => {
+      const inventory = createInventory({ stone: 20, food: 10 });
+
+      const result = canUnlockTech(surveyedKnapping, [], inventory, 10);
+
+      expect(result.canUnlock).toBe(false);
+      expect(result.missingResources).toEqual([
+        { resourceType: 'exploration', needed: 30, have: 10 },
+      ]);
+    });
+
+    it('should allow unlocking with enough exploration points', () => {
+      const inventory = createInventory({ stone: 20, food: 10 });
+
+      expect(canUnlockTech(surveyedKnapping, [], inventory, 30).canUnlock).toBe(true);
+    });
+
+    it('should deduct exploration points without a selection', () => {
+      const inventory = createInventory({ stone: 20, food: 10 });
+      const selections = createSelections({ stone: 10, food: 5 });
+
+      const result = unlockTech(surveyedKnapping, [], inventory, selections, 45);
+
+      expect(result.success).toBe(true);
+      expect(result.newExplorationPoints).toBe(15);
+    });
+
+    it('should fail without enough exploration points', () => {
+      const inventory = createInventory({ stone: 20, food: 10 });
+      const selections = createSelections({ stone: 10, food: 5 });
+
+      const result = unlockTech(surveyedKnapping, [], inventory, selections, 29);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('exploration');
+    });
+  });
+
   describe('Tech Tree Integrity', () => {
     it('should have valid prerequisites for all techs', () => {
       for (const tech of TECHNOLOGIES) {
@@ -0,0 +1,172 @@
+/**
+ * Tests for TileCache and the loaders' use of it
+ */
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TileCache, estimateTileBytes } from '../src/services/TileCache';
+import { NodeTileLoader } from '../src/services/NodeTileLoader';
+import { GeoTile } from '../src/types/gis';
+import { createSchema, createTileRow, INSERT_TILE_SQL } from '../scripts/gis/buildSqliteBundle';
+
+function tile(geohash: string, lithology = 'granite'): GeoTile {
+  return {
+    geohash,
+    geology: { primaryLithology: lithology, secondaryLithologies: ['basalt'], confidence: 0.9 },
+    biome: { type: 'boreal', confidence: 0.9 },
+  };
+}
+
+describe('TileCache', () => {
+  let clock: number;
+  const now = () => clock;
+
+  beforeEach(() => {
+    clock = 0;
+  });
+
+  it('returns undefined for uncached geohashes and null for cached misses', () => {
+    const cache = new TileCache({ now });
+    cache.set('gcpv', tile('gcpv'));
+    cache.set('gcpu', null);
+
+    expect(cache.get('gcpv')?.geohash).toBe('gcpv');
+    expect(cache.get('gcpu')).toBeNull();
+    expect(cache.get('gcpy')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ tilesCached: 2, hits: 2, misses: 1 });
+  });
+
+  it('evicts the least recently used entry past the entry budget', () => {
+    const cache = new TileCache({ maxEntries: 2, now });
+    cache.set('a', tile('a'));
+    cache.set('b', tile('b'));
+    cache.get('a');
+    cache.set('c', tile('c'));
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).not.toBeUndefined();
+    expect(cache.get('c')).not.toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ tilesCached: 2, evictions: 1 });
+  });
+
+  it('evicts past the byte budget', () => {
+    const size = estimateTileBytes(tile('a'));
+    const cache = new TileCache({ maxBytes: size * 3, now });
+    ['a', 'b', 'c', 'd', 'e'].forEach((geohash) => cache.set(geohash, tile(geohash)));
+
+    const stats = cache.getStats();
+    expect(stats.tilesCached).toBe(3);
+    expect(stats.bytesCached).toBeLessThanOrEqual(size * 3);
+    expect(stats.evictions).toBe(2);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('counts bigger tiles as more bytes than misses', () => {
+    expect(estimateTileBytes(tile('gcpv'))).toBeGreaterThan(estimateTileBytes(null));
+  });
+
+  it('forgets misses after the negative TTL but keeps tiles', () => {
+    const cache = new TileCache({ negativeTtlMs: 1000, now });
+    cache.set('gcpu', null);
+    cache.set('gcpv', tile('gcpv'));
+
+    clock = 1000;
+    expect(cache.get('gcpu')).toBeNull();
+    clock = 1001;
+    expect(cache.get('gcpu')).toBeUndefined();
+    expect(cache.get('gcpv')).not.toBeUndefined();
+    expect(cache.getStats().tilesCached).toBe(1);
+  });
+
+  it('never evicts pinned geohashes', () => {
+    const cache = new TileCache({ maxEntries: 2, now });
+    cache.pin(['home']);
+    cache.set('home', tile('home'));
+    ['a', 'b', 'c', 'd'].forEach((geohash) => cache.set(geohash, tile(geohash)));
+
+    expect(cache.get('home')).not.toBeUndefined();
+    expect(cache.get('d')).not.toBeUndefined();
+    expect(cache.getStats().tilesCached).toBe(2);
+  });
+
+  it('replaces the pinned set on each pin', () => {
+    const cache = new TileCache({ maxEntries: 1, now });
+    cache.pin(['home']);
+    cache.set('home', tile('home'));
+    cache.pin(['away']);
+    cache.set('away', tile('away'));
+
+    expect(cache.get('home')).toBeUndefined();
+    expect(cache.get('away')).not.toBeUndefined();
+  });
+
+  it('splits batch lookups into cached tiles and missing geohashes', () => {
+    const cache = new TileCache({ now });
+    cache.setMany(['a', 'b', 'c'], [tile('a'), tile('c')]);
+
+    const { tiles, missing } = cache.getMany(['a', 'b', 'c', 'd', 'a']);
+    expect(tiles.map((t) => t.geohash)).toEqual(['a', 'c']);
+    expect(missing).toEqual(['d']);
+  });
+
+  it('clears entries and counters', () => {
+    const cache = new TileCache({ now });
+    cache.set('a', tile('a'));
+    cache.get('a');
+    cache.clear();
+    expect(cache.getStats()).toEqual({
+      filesCached: 0,
+      tilesCached: 0,
+      bytesCached: 0,
+      hits: 0,
+      misses: 0,
+      evictions: 0,
+    });
+  });
+});
+
+describe('NodeTileLoader caching', () => {
+  let tmpDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tile-cache-test-'));
+    dbPath = path.join(tmpDir, 'tiles.db');
+    const db = new Database(dbPath);
+    createSchema(db);
+    const insert = db.prepare(INSERT_TILE_SQL);
+    for (const geohash of ['gcpu', 'gcpv', 'gcpy', 'gcpz']) {
+      insert.run(createTileRow(geohash, undefined, undefined));
+    }
+    db.close();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('serves repeat lookups from the cache', () => {
+    const loader = new NodeTileLoader(dbPath);
+    loader.getTile('gcpv');
+    loader.getTile('gcpv');
+    loader.getTiles(['gcpv', 'gcpu', 'u4pr']);
+    loader.getTile('u4pr');
+    loader.close();
+
+    expect(loader.getCacheStats()).toMatchObject({ tilesCached: 3, hits: 3, misses: 3 });
+  });
+
+  it('keeps prefetched tiles while scrolling evicts the rest', () => {
+    const loader = new NodeTileLoader(dbPath, { maxEntries: 2 });
+    loader.prefetch(['gcpv']);
+    loader.getTiles(['gcpu', 'gcpy', 'gcpz']);
+
+    const before = loader.getCacheStats();
+    expect(loader.getTile('gcpv')?.geohash).toBe('gcpv');
+    loader.close();
+
+    expect(loader.getCacheStats().hits).toBe(before.hits + 1);
+    expect(before.evictions).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * Tests for TileDeltaService
+ *
+ * Builds small tile databases with better-sqlite3 and uses a temp directory as
+ * a stand-in for the folder the app downloads delta packs into.
+ */
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  TileDeltaService,
+  TileRow,
+  DeltaDatabase,
+  DeltaPackSource,
+  createDeltaPack,
+  getDeltaFileName,
+} from '../src/services/TileDeltaService';
+import { createSchema, buildDeltaPack } from '../scripts/gis/buildSqliteBundle';
+
+function tile(geohash: string, lithology: string): TileRow {
+  return {
+    geohash,
+    prefix: geohash.substring(0, 3),
+    primary_lithology: lithology,
+    secondary_lithologies: '[]',
+    geology_confidence: 0.8,
+    biome_type: 'temperate_broadleaf',
+    biome_confidence: 0.9,
+    ecoregion_id: 1,
+    realm_biome: 'PA04',
+    realm: 'Palearctic',
+    lith_class: null,
+    age: null,
+    coast_distance_km: null,
+    river_distance_km: null,
+    is_lake: null,
+    regolith: null,
+    regolith_cover: null,
+    elevation: null,
+  };
+}
+
+function createTileDb(dbPath: string, rows: TileRow[], version: string): Database.Database {
+  const db = new Database(dbPath);
+  createSchema(db);
+  const insert = db.prepare(
+    `INSERT INTO tiles VALUES (@geohash, @prefix, @primary_lithology, @secondary_lithologies,
+      @geology_confidence, @biome_type, @biome_confidence, @ecoregion_id, @realm_biome, @realm,
+      @lith_class, @age, @coast_distance_km, @river_distance_km, @is_lake,
+      @regolith, @regolith_cover, @elevation)`
+  );
+  rows.forEach((row) => insert.run(row));
+  db.prepare('INSERT INTO metadata (key, value) VALUES (?, ?)').run('version', version);
+  return db;
+}
+
+// A bundle built before lith_class, age, water, regolith and elevation were recorded
+function dropAddedColumns(db: Database.Database): void {
+  for (const column of [
+    'lith_class',
+    'age',
+    'coast_distance_km',
+    'river_distance_km',
+    'is_lake',
+    'regolith',
+    'regolith_cover',
+    'elevation',
+  ]) {
+    db.exec(`ALTER TABLE tiles DROP COLUMN ${column}`);
+  }
+}
+
+function getRows(db: Database.Database): TileRow[] {
+  return db.prepare('SELECT * FROM tiles ORDER BY geohash').all() as TileRow[];
+}
+
+// better-sqlite3 stand-in for the expo-sqlite adapter in ExpoTileLoader
+function asDeltaDatabase(db: Database.Database): DeltaDatabase {
+  return {
+    run: async (sql, params) => {
+      db.prepare(sql).run(...params);
+    },
+    getFirst: async <T>(sql: string, params: (string | number | null)[]) =>
+      (db.prepare(sql).get(...params) as T | undefined) ?? null,
+    transaction: async (task) => {
+      db.exec('BEGIN');
+      try {
+        await task();
+        db.exec('COMMIT');
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      }
+    },
+  };
+}
+
+// Local directory stand-in for the download folder
+function directorySource(dir: string): DeltaPackSource {
+  return {
+    list: async () => fs.readdirSync(dir).filter((name) => name.endsWith('.json')),
+    read: async (name) => fs.readFileSync(path.join(dir, name), 'utf-8'),
+    remove: async (name) => fs.unlinkSync(path.join(dir, name)),
+  };
+}
+
+describe('TileDeltaService', () => {
+  let tmpDir: string;
+  let downloadDir: string;
+  const open: Database.Database[] = [];
+
+  function createDb(name: string, rows: TileRow[], version: string): Database.Database {
+    const db = createTileDb(path.join(tmpDir, name), rows, version);
+    open.push(db);
+    return db;
+  }
+
+  function publish(pack: ReturnType<typeof createDeltaPack>): void {
+    fs.writeFileSync(
+      path.join(downloadDir, getDeltaFileName(pack.fromVersion, pack.toVersion)),
+      JSON.stringify(pack)
+    );
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tile-delta-'));
+    downloadDir = path.join(tmpDir, 'gis-deltas');
+    fs.mkdirSync(downloadDir);
+  });
+
+  afterEach(() => {
+    open.splice(0).forEach((db) => db.close());
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('parseDeltaPack', () => {
+    const pack = createDeltaPack('2.0.0', '2.0.1', [tile('u4pr', 'granite')], ['u4ps']);
+
+    it('should round-trip a pack', () => {
+      const result = TileDeltaService.parseDeltaPack(JSON.stringify(pack));
+      expect(result).toEqual({ success: true, pack });
+    });
+
+    it('should reject files that are not delta packs', () => {
+      expect(TileDeltaService.parseDeltaPack('not json')).toEqual({
+        success: false,
+        error: 'Not a valid delta pack (could not read JSON)',
+      });
+      expect(TileDeltaService.parseDeltaPack(JSON.stringify({ format: 'other' }))).toEqual({
+        success: false,
+        error: 'Not a tiles delta pack',
+      });
+    });
+
+    it('should reject newer formats and edited rows', () => {
+      const newer = { ...pack, formatVersion: 99 };
+      expect(TileDeltaService.parseDeltaPack(JSON.stringify(newer))).toMatchObject({
+        success: false,
+        error: 'Delta pack format is newer than this app supports',
+      });
+
+      const edited = { ...pack, upserts: [tile('u4pr', 'basalt')] };
+      expect(TileDeltaService.parseDeltaPack(JSON.stringify(edited))).toMatchObject({
+        success: false,
+        error: 'Delta pack is corrupted (checksum mismatch)',
+      });
+    });
+  });
+
+  describe('resolveDeltaChain', () => {
+    it('should order packs from a version and stop at a gap', () => {
+      const packs = [
+        { fromVersion: '2.0.1', toVersion: '2.0.2' },
+        { fromVersion: '2.0.3', toVersion: '2.0.4' },
+        { fromVersion: '2.0.0', toVersion: '2.0.1' },
+      ];
+      expect(TileDeltaService.resolveDeltaChain(packs, '2.0.0')).toEqual([packs[2], packs[0]]);
+      expect(TileDeltaService.resolveDeltaChain(packs, '1.0.0')).toEqual([]);
+    });
+  });
+
+  describe('building and applying packs', () => {
+    const original = [tile('u4pr', 'granite'), tile('u4ps', 'basalt'), tile('u4pt', 'chalk')];
+    const updated = [tile('u4pr', 'granite'), tile('u4ps', 'gabbro'), tile('u4pu', 'flint')];
+
+    it('should capture changed, added and removed rows keyed by geohash', () => {
+      createDb('previous.db', original, '2.0.0');
+      const next = createDb('next.db', updated, '2.0.1');
+
+      const pack = buildDeltaPack(next, path.join(tmpDir, 'previous.db'), '2.0.0', '2.0.1');
+
+      expect(pack.upserts.map((row) => row.geohash)).toEqual(['u4ps', 'u4pu']);
+      expect(pack.upserts[0].primary_lithology).toBe('gabbro');
+      expect(pack.removals).toEqual(['u4pt']);
+    });
+
+    it('should bring a working copy up to the new bundle and record the chain', async () => {
+      createDb('previous.db', original, '2.0.0');
+      const next = createDb('next.db', updated, '2.0.1');
+      publish(buildDeltaPack(next, path.join(tmpDir, 'previous.db'), '2.0.0', '2.0.1'));
+
+      const working = createDb('working.db', original, '2.0.0');
+      const db = asDeltaDatabase(working);
+      const result = await TileDeltaService.applyDeltaPacks(db, directorySource(downloadDir));
+
+      expect(result.version).toBe('2.0.1');
+      expect(result.error).toBeUndefined();
+      expect(getRows(working)).toEqual(getRows(next));
+      expect(await TileDeltaService.getWorkingVersion(db)).toBe('2.0.1');
+      expect(await TileDeltaService.getAppliedDeltas(db)).toEqual([
+        expect.objectContaining({ fromVersion: '2.0.0', toVersion: '2.0.1' }),
+      ]);
+      // Applied packs are cleared from the download folder
+      expect(fs.readdirSync(downloadDir)).toEqual([]);
+    });
+
+    it('should apply a chain of packs in order and leave unconnected ones', async () => {
+      publish(createDeltaPack('2.0.1', '2.0.2', [tile('u4pr', 'diorite')], []));
+      publish(createDeltaPack('2.0.0', '2.0.1', [tile('u4pr', 'syenite')], ['u4pt']));
+      publish(createDeltaPack('3.0.0', '3.0.1', [tile('u4pr', 'chert')], []));
+
+      const working = createDb('working.db', original, '2.0.0');
+      const db = asDeltaDatabase(working);
+      const result = await TileDeltaService.applyDeltaPacks(db, directorySource(downloadDir));
+
+      expect(result.applied.map((a) => a.toVersion)).toEqual(['2.0.1', '2.0.2']);
+      expect(getRows(working).map((row) => [row.geohash, row.primary_lithology])).toEqual([
+        ['u4pr', 'diorite'],
+        ['u4ps', 'basalt'],
+      ]);
+      expect(fs.readdirSync(downloadDir)).toEqual([getDeltaFileName('3.0.0', '3.0.1')]);
+    });
+
+    it('should roll back a pack that fails part-way', async () => {
+      publish(
+        createDeltaPack('2.0.0', '2.0.1', [tile('u4pr', 'syenite'), tile('u4pv', 'slate')], [])
+      );
+
+      const working = createDb('working.db', original, '2.0.0');
+      const db = asDeltaDatabase(working);
+      // Fail on the second row written, after the first has gone in
+      let writes = 0;
+      const failing: DeltaDatabase = {
+        ...db,
+        run: async (sql, params) => {
+          if (sql.startsWith('INSERT OR REPLACE INTO tiles') && ++writes === 2) {
+            throw new Error('disk full');
+          }
+          await db.run(sql, params);
+        },
+      };
+      const result = await TileDeltaService.applyDeltaPacks(failing, directorySource(downloadDir));
+
+      expect(result).toMatchObject({ version: '2.0.0', applied: [], error: 'disk full' });
+      expect(getRows(working)).toEqual(original);
+      expect(await TileDeltaService.getAppliedDeltas(db)).toEqual([]);
+      // The pack is kept so it can be retried
+      expect(fs.readdirSync(downloadDir)).toHaveLength(1);
+    });
+
+    it('should skip unreadable packs', async () => {
+      fs.writeFileSync(path.join(downloadDir, 'broken.json'), '{"format":');
+
+      const working = createDb('working.db', original, '2.0.0');
+      const result = await TileDeltaService.applyDeltaPacks(
+        asDeltaDatabase(working),
+        directorySource(downloadDir)
+      );
+
+      expect(result.skipped).toEqual([
+        { name: 'broken.json', error: 'Not a valid delta pack (could not read JSON)' },
+      ]);
+      expect(getRows(working)).toEqual(original);
+    });
+
+    it('should stamp a fresh working copy with its bundled version', async () => {
+      const working = createDb('working.db', original, '1.0.0');
+      const db = asDeltaDatabase(working);
+
+      await TileDeltaService.initializeWorkingCopy(db, '2.0.0');
+
+      expect(await TileDeltaService.getWorkingVersion(db)).toBe('2.0.0');
+      expect(await TileDeltaService.getAppliedDeltas(db)).toEqual([]);
+    });
+  });
+
+  describe('tiles schema migration', () => {
+    const original = [tile('u4pr', 'granite'), tile('u4pt', 'chalk')];
+    const dated = [
+      { ...tile('u4pr', 'granite'), lith_class: 'igneous', age: null },
+      {
+        ...tile('u4pt', 'chalk'),
+        lith_class: 'sedimentary',
+        age: 'Cretaceous',
+        coast_distance_km: 3.5,
+        is_lake: 0,
+        regolith: 'loess',
+        regolith_cover: 0.67,
+        elevation: '{"0":[12,40,88]}',
+      },
+    ];
+
+    it('should add the new columns to an older working copy once', async () => {
+      const working = createDb('working.db', original, '2.0.0');
+      dropAddedColumns(working);
+      const db = asDeltaDatabase(working);
+
+      await TileDeltaService.migrateTilesTable(db);
+      await TileDeltaService.migrateTilesTable(db);
+
+      expect(getRows(working)).toEqual(original);
+    });
+
+    it('should diff against an older bundle and fill in the new columns', async () => {
+      dropAddedColumns(createDb('previous.db', original, '2.0.0'));
+      const next = createDb('next.db', dated, '2.0.1');
+      const pack = buildDeltaPack(next, path.join(tmpDir, 'previous.db'), '2.0.0', '2.0.1');
+      expect(pack.upserts).toEqual(dated);
+      publish(pack);
+
+      const working = createDb('working.db', original, '2.0.0');
+      dropAddedColumns(working);
+      const db = asDeltaDatabase(working);
+      await TileDeltaService.migrateTilesTable(db);
+      await TileDeltaService.applyDeltaPacks(db, directorySource(downloadDir));
+
+      expect(getRows(working)).toEqual(dated);
+    });
+
+    it('should accept packs built before the columns existed', async () => {
+      const legacyRow = tile('u4pr', 'syenite');
+      delete legacyRow.lith_class;
+      delete legacyRow.age;
+      delete legacyRow.coast_distance_km;
+      delete legacyRow.river_distance_km;
+      delete legacyRow.is_lake;
+      delete legacyRow.regolith;
+      delete legacyRow.regolith_cover;
+      delete legacyRow.elevation;
+      publish(createDeltaPack('2.0.0', '2.0.1', [legacyRow], []));
+
+      const working = createDb('working.db', dated, '2.0.0');
+      const result = await TileDeltaService.applyDeltaPacks(
+        asDeltaDatabase(working),
+        directorySource(downloadDir)
+      );
+
+      expect(result.skipped).toEqual([]);
+      expect(getRows(working)[0]).toEqual(tile('u4pr', 'syenite'));
+    });
+  });
+});
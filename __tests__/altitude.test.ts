@@ -72,12 +72,14 @@ describe('calculateAltitudeBias', () => {
     value,
     accuracy: 5,
     confidence: 1.0,
+    source: 'gps',
   });
 
   const lowConfidenceAltitude = (value: number): AltitudeData => ({
     value,
     accuracy: 400,
     confidence: 0.1,
+    source: 'gps',
   });
 
   it('returns 1.0 when altitude data is undefined', () => {
@@ -129,6 +131,7 @@ describe('calculateAltitudeBias', () => {
       value: 1500, // Outside viable range for lowland
       accuracy: 75,
       confidence: 0.6,
+      source: 'gps',
     };
 
     const bias = calculateAltitudeBias(lowlandPreference, moderateConfidenceAltitude);
@@ -160,6 +163,7 @@ describe('altitude bias edge cases', () => {
       value: 10,
       accuracy: 5,
       confidence: 1.0,
+      source: 'gps',
     };
 
     expect(calculateAltitudeBias(coastalPreference, highConfidence)).toBe(1.0);
@@ -175,6 +179,7 @@ describe('altitude bias edge cases', () => {
       value: 3500,
       accuracy: 5,
       confidence: 1.0,
+      source: 'gps',
     };
 
     expect(calculateAltitudeBias(alpinePreference, highConfidence)).toBe(1.0);
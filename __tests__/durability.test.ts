@@ -0,0 +1,146 @@
+// Unit tests for tool durability and wear
+
+import {
+  USES_PER_DURABILITY_POINT,
+  MIN_MAX_DURABILITY,
+  calculateMaxDurability,
+  calculateMaxDurabilityFromComponents,
+  estimateMaxDurabilityForTool,
+  isToolBroken,
+  wearTools,
+} from '../src/config/durability';
+import { calculateGatheringAbility, getGatheringToolsForMaterial } from '../src/config/gathering';
+import { getMaterialConfig } from '../src/config/materials';
+import { getToolById } from '../src/data/tools';
+import { OwnedTool } from '../src/types/tools';
+
+function makeTool(overrides: Partial<OwnedTool> = {}): OwnedTool {
+  return {
+    instanceId: 'tool_1',
+    toolId: 'stone_knife',
+    materials: { stone: { resourceId: 'flint', quantity: 5 } },
+    quality: 0.8,
+    durability: 60,
+    maxDurability: 60,
+    ...overrides,
+  };
+}
+
+describe('calculateMaxDurability', () => {
+  it('sums material durability properties', () => {
+    // granite durability 9
+    expect(calculateMaxDurability({ stone: { resourceId: 'granite', quantity: 10 } })).toBe(
+      9 * USES_PER_DURABILITY_POINT
+    );
+  });
+
+  it('adds component durability bonuses', () => {
+    // flint 6 + european_ash 6 + shaped_handle bonus 5
+    const materials = {
+      stone: { resourceId: 'flint', quantity: 5 },
+      wood: { resourceId: 'european_ash', quantity: 5 },
+    };
+    expect(calculateMaxDurability(materials, ['shaped_handle'])).toBe(
+      17 * USES_PER_DURABILITY_POINT
+    );
+  });
+
+  it('never returns less than the minimum', () => {
+    expect(calculateMaxDurability({})).toBe(MIN_MAX_DURABILITY);
+  });
+
+  it('counts the materials of consumed components', () => {
+    // crude_handle of european_ash (6) with no bonus
+    const handle = {
+      instanceId: 'crude_handle_1',
+      componentId: 'crude_handle',
+      materials: { wood: { resourceId: 'european_ash', quantity: 5 } },
+      quality: 0.5,
+    };
+    expect(calculateMaxDurabilityFromComponents({}, [handle])).toBe(6 * USES_PER_DURABILITY_POINT);
+  });
+
+  it('estimates component bonuses and materials from the recipe for legacy tools', () => {
+    const haftedAxe = getToolById('hafted_axe')!;
+    const materials = { stone: { resourceId: 'flint', quantity: 5 } };
+    const componentIds = haftedAxe.requiredComponents.flatMap((req) =>
+      Array<string>(req.quantity).fill(req.componentId)
+    );
+    expect(estimateMaxDurabilityForTool('hafted_axe', materials)).toBeGreaterThan(
+      calculateMaxDurability(materials, componentIds)
+    );
+  });
+
+  it('estimates a legacy tool within the range a fresh craft gets', () => {
+    // A digging stick is only a crude handle, so its durability is the handle's wood
+    const woodDurabilities = getMaterialConfig('wood')
+      .getAllResources()
+      .map((wood) => wood.properties.durability);
+    const craftedWith = (durability: number) => {
+      const wood = getMaterialConfig('wood')
+        .getAllResources()
+        .find((w) => w.properties.durability === durability)!;
+      const handle = {
+        instanceId: 'crude_handle_1',
+        componentId: 'crude_handle',
+        materials: { wood: { resourceId: wood.id, quantity: 5 } },
+        quality: 0.5,
+      };
+      return calculateMaxDurabilityFromComponents({}, [handle]);
+    };
+
+    const estimate = estimateMaxDurabilityForTool('digging_stick', {});
+    expect(estimate).toBeGreaterThanOrEqual(craftedWith(Math.min(...woodDurabilities)));
+    expect(estimate).toBeLessThanOrEqual(craftedWith(Math.max(...woodDurabilities)));
+    expect(estimate).toBeGreaterThan(MIN_MAX_DURABILITY);
+  });
+});
+
+describe('wearTools', () => {
+  it('reduces durability of the given instances only', () => {
+    const tools = [makeTool(), makeTool({ instanceId: 'tool_2' })];
+    const worn = wearTools(tools, ['tool_2'], 5);
+    expect(worn[0].durability).toBe(60);
+    expect(worn[1].durability).toBe(55);
+  });
+
+  it('stops at zero and marks the tool broken', () => {
+    const worn = wearTools([makeTool({ durability: 2 })], ['tool_1'], 5);
+    expect(worn[0].durability).toBe(0);
+    expect(isToolBroken(worn[0])).toBe(true);
+  });
+});
+
+describe('broken tools and gathering', () => {
+  const gatheringTool = getToolById('digging_stick')!;
+  const material = gatheringTool.gatheringMaterial!;
+
+  it('counts unbroken gathering tools', () => {
+    const tool = makeTool({ toolId: gatheringTool.id });
+    expect(getGatheringToolsForMaterial(material, [tool])).toHaveLength(1);
+    expect(calculateGatheringAbility(material, [tool])).toBeGreaterThan(
+      calculateGatheringAbility(material, [])
+    );
+  });
+
+  it('ignores broken gathering tools', () => {
+    const tool = makeTool({ toolId: gatheringTool.id, durability: 0 });
+    expect(getGatheringToolsForMaterial(material, [tool])).toHaveLength(0);
+    expect(calculateGatheringAbility(material, [tool])).toBe(
+      calculateGatheringAbility(material, [])
+    );
+  });
+
+  it('uses the best unbroken instance of each tool type', () => {
+    const best = makeTool({ instanceId: 'best', toolId: gatheringTool.id, quality: 0.9 });
+    const brokenBetter = makeTool({
+      instanceId: 'broken',
+      toolId: gatheringTool.id,
+      quality: 1,
+      durability: 0,
+    });
+    const worse = makeTool({ instanceId: 'worse', toolId: gatheringTool.id, quality: 0.3 });
+    const used = getGatheringToolsForMaterial(material, [worse, brokenBetter, best]);
+    expect(used.map((t) => t.instanceId)).toEqual(['best']);
+  });
+});
@@ -0,0 +1,66 @@
+// Unit tests for converting activity into gather effort
+
+import {
+  ACTIVITY_SOURCES,
+  calculateEffort,
+  convertToEffort,
+  isActivitySource,
+} from '../src/config/effort';
+import { EFFORT_PER_GATHER } from '../src/config/gathering';
+
+describe('convertToEffort', () => {
+  it('counts a step as one unit of effort', () => {
+    expect(convertToEffort('steps', EFFORT_PER_GATHER)).toBe(EFFORT_PER_GATHER);
+  });
+
+  it('treats malformed and negative amounts as no effort', () => {
+    expect(convertToEffort('distance_cycling', undefined)).toBe(0);
+    expect(convertToEffort('distance_cycling', NaN)).toBe(0);
+    expect(convertToEffort('active_energy', -10)).toBe(0);
+  });
+
+  it('asks for further cycling than walking per gather', () => {
+    expect(ACTIVITY_SOURCES.distance_cycling.effortPerUnit).toBeLessThan(
+      ACTIVITY_SOURCES.distance_walking_running.effortPerUnit
+    );
+  });
+});
+
+describe('calculateEffort', () => {
+  it('only counts chosen sources', () => {
+    expect(calculateEffort({ steps: 1000, distance_cycling: 5000 }, ['steps'])).toBe(1000);
+  });
+
+  it('does not add sources that measure the same walk', () => {
+    const amounts = { steps: 1000, distance_walking_running: 800 };
+    expect(calculateEffort(amounts, ['steps', 'distance_walking_running'])).toBe(1080);
+  });
+
+  it('does not add wheelchair distance and pushes', () => {
+    const amounts = { distance_wheelchair: 1000, wheelchair_pushes: 500 };
+    expect(calculateEffort(amounts, ['distance_wheelchair', 'wheelchair_pushes'])).toBe(1350);
+  });
+
+  it('adds walking and cycling', () => {
+    const amounts = { steps: 1000, distance_cycling: 5000 };
+    expect(calculateEffort(amounts, ['steps', 'distance_cycling'])).toBe(3000);
+  });
+
+  it('uses active energy instead of movement when it is worth more', () => {
+    const sources = ['steps', 'active_energy'] as const;
+    expect(calculateEffort({ steps: 1000, active_energy: 200 }, [...sources])).toBe(5000);
+    expect(calculateEffort({ steps: 6000, active_energy: 200 }, [...sources])).toBe(6000);
+  });
+
+  it('rounds down to whole units', () => {
+    expect(calculateEffort({ distance_walking_running: 1 }, ['distance_walking_running'])).toBe(1);
+  });
+});
+
+describe('isActivitySource', () => {
+  it('accepts known sources only', () => {
+    expect(isActivitySource('distance_cycling')).toBe(true);
+    expect(isActivitySource('swimming')).toBe(false);
+    expect(isActivitySource(3)).toBe(false);
+  });
+});
@@ -0,0 +1,264 @@
+// Unit tests for DEM elevation, from the offline build to location altitude
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  blendAltitude,
+  buildDemAltitude,
+  DEM_MAX_CONFIDENCE,
+  DEM_MIN_ACCURACY_M,
+} from '../src/config/altitude';
+import { GeoDataService } from '../src/services/GeoDataService';
+import { NodeTileLoader } from '../src/services/NodeTileLoader';
+import { estimateTileBytes } from '../src/services/TileCache';
+import { AltitudeData, ElevationData } from '../src/types/gis';
+import { decodeElevationCells, encodeElevationCells } from '../src/utils/elevation';
+import { decodeGeohash } from '../src/utils/geohash';
+import { createSchema, createTileRow, INSERT_TILE_SQL } from '../scripts/gis/buildSqliteBundle';
+import {
+  createElevationSummarizer,
+  forEachGridRow,
+  parseGridHeader,
+} from '../scripts/gis/processElevation';
+
+const flat: ElevationData = { minM: 30, meanM: 40, maxM: 50 };
+const rugged: ElevationData = { minM: 200, meanM: 900, maxM: 1800 };
+
+describe('elevation cells', () => {
+  it('round-trip through the tiles table column in whole meters', () => {
+    const json = encodeElevationCells({ j: { minM: 12.4, meanM: 40.6, maxM: 88 } });
+    expect(json).toBe('{"j":[12,41,88]}');
+    expect(decodeElevationCells(json)).toEqual({ j: { minM: 12, meanM: 41, maxM: 88 } });
+  });
+
+  it('skip malformed cells', () => {
+    expect(decodeElevationCells('{"j":[1,2],"k":[1,"2",3],"m":[1,2,3]}')).toEqual({
+      m: { minM: 1, meanM: 2, maxM: 3 },
+    });
+    expect(decodeElevationCells('null')).toEqual({});
+    expect(decodeElevationCells('{"j":[1,2,')).toEqual({});
+  });
+});
+
+describe('buildDemAltitude', () => {
+  it('trusts flat cells, but never as much as a good GPS fix', () => {
+    const altitude = buildDemAltitude(flat);
+    expect(altitude).toMatchObject({ value: 40, accuracy: DEM_MIN_ACCURACY_M, source: 'dem' });
+    expect(altitude.confidence).toBe(DEM_MAX_CONFIDENCE);
+  });
+
+  it('trusts cells less the more their ground rises and falls', () => {
+    const hilly = buildDemAltitude({ minM: 100, meanM: 300, maxM: 500 });
+    expect(hilly.confidence).toBeLessThan(DEM_MAX_CONFIDENCE);
+    expect(hilly.confidence).toBeGreaterThan(0);
+    expect(buildDemAltitude(rugged).confidence).toBe(0);
+  });
+});
+
+describe('blendAltitude', () => {
+  const gps = (value: number, accuracy: number | null, confidence: number): AltitudeData => ({
+    value,
+    accuracy,
+    confidence,
+    source: 'gps',
+  });
+
+  it('uses whichever reading there is', () => {
+    const dem = buildDemAltitude(flat);
+    expect(blendAltitude(undefined, dem)).toBe(dem);
+    expect(blendAltitude(gps(60, 5, 1), undefined)).toEqual(gps(60, 5, 1));
+    expect(blendAltitude(undefined, undefined)).toBeUndefined();
+  });
+
+  it('falls back to the DEM when the GPS fix is untrusted', () => {
+    const dem = buildDemAltitude(flat);
+    expect(blendAltitude(gps(400, null, 0), dem)).toBe(dem);
+    expect(blendAltitude(gps(400, 400, 0), dem)).toBe(dem);
+  });
+
+  it('keeps a trusted GPS fix over a rugged DEM cell', () => {
+    const fix = gps(1200, 20, 0.95);
+    expect(blendAltitude(fix, buildDemAltitude(rugged))).toBe(fix);
+  });
+
+  it('weights both readings by their accuracy when both are trusted', () => {
+    const blended = blendAltitude(gps(100, 40, 0.85), buildDemAltitude(flat))!;
+    expect(blended.source).toBe('blended');
+    // The DEM's 10m beats the fix's 40m, so the blend sits near the DEM's mean
+    expect(blended.value).toBeGreaterThan(40);
+    expect(blended.value).toBeLessThan(50);
+    expect(blended.accuracy).toBeLessThan(DEM_MIN_ACCURACY_M);
+    expect(blended.confidence).toBe(1);
+  });
+});
+
+describe('processElevation', () => {
+  it('reads corner and centre registered headers', () => {
+    const etopo = parseGridHeader(
+      [
+        'NCOLS 21601',
+        'NROWS 10801',
+        'XLLCENTER -180.000000',
+        'YLLCENTER -90.000000',
+        'CELLSIZE 0.01666666667',
+        'NODATA_VALUE -32768',
+        'BYTEORDER LSBFIRST',
+        'NUMBERTYPE 4_BYTE_INT',
+        'ZUNITS METERS',
+      ].join('\n')
+    );
+    expect(etopo).toMatchObject({
+      ncols: 21601,
+      nrows: 10801,
+      westLng: -180,
+      noData: -32768,
+      littleEndian: true,
+      numberType: '4_BYTE_INT',
+    });
+    expect(etopo!.northLat).toBeCloseTo(90);
+
+    const corner = parseGridHeader(
+      'ncols 4\r\nnrows 2\r\nxllcorner 10\r\nyllcorner 20\r\ncellsize 0.5\r\nbyteorder MSBFIRST'
+    );
+    expect(corner).toMatchObject({
+      westLng: 10.25,
+      northLat: 20.75,
+      noData: null,
+      littleEndian: false,
+      numberType: '4_BYTE_FLOAT',
+    });
+  });
+
+  it('rejects headers it cannot read', () => {
+    expect(parseGridHeader('NCOLS 4\nNROWS 2\nXLLCORNER 0\nYLLCORNER 0')).toBeNull();
+    expect(
+      parseGridHeader(
+        'NCOLS 4\nNROWS 2\nXLLCORNER 0\nYLLCORNER 0\nCELLSIZE 1\nNUMBERTYPE 1_BYTE_INT'
+      )
+    ).toBeNull();
+  });
+
+  it('streams grid rows from north to south', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'elevation-grid-'));
+    try {
+      const gridPath = path.join(tmpDir, 'grid.bin');
+      const data = Buffer.alloc(12);
+      [1, 2, 3, -4, 5, -6].forEach((value, i) => data.writeInt16BE(value, i * 2));
+      fs.writeFileSync(gridPath, data);
+      const header = parseGridHeader(
+        'NCOLS 3\nNROWS 2\nXLLCORNER 0\nYLLCORNER 0\nCELLSIZE 1\nBYTEORDER MSBFIRST\nNUMBERTYPE 2_BYTE_INT'
+      )!;
+
+      const rows: [number, number[]][] = [];
+      forEachGridRow(gridPath, header, (lat, values) => rows.push([lat, [...values]]));
+
+      expect(rows).toEqual([
+        [1.5, [1, 2, 3]],
+        [0.5, [-4, 5, -6]],
+      ]);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('summarises samples per precision-5 cell, with bathymetry as sea level', () => {
+    const summarizer = createElevationSummarizer([{ geohash: 'gcpv', lat: 51.59, lng: -0.18 }]);
+    const london = decodeGeohash('gcpvj');
+    const thames = decodeGeohash('gcpvm');
+    summarizer.addSample(london.lat, london.lng, 10);
+    summarizer.addSample(london.lat + 0.001, london.lng, 30);
+    summarizer.addSample(london.lat, london.lng + 0.001, 41);
+    summarizer.addSample(thames.lat, thames.lng, -5);
+    // Outside the tiles being summarised
+    summarizer.addSample(51.42, 2.64, 100);
+
+    expect(summarizer.getRecords()).toEqual([
+      {
+        geohash: 'gcpv',
+        lat: 51.59,
+        lng: -0.18,
+        cells: {
+          j: { minM: 10, meanM: 27, maxM: 41 },
+          m: { minM: 0, meanM: 0, maxM: 0 },
+        },
+      },
+    ]);
+  });
+});
+
+describe('location altitude from the DEM', () => {
+  let tmpDir: string;
+  let loader: NodeTileLoader;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'elevation-test-'));
+    const dbPath = path.join(tmpDir, 'tiles.db');
+    const db = new Database(dbPath);
+    createSchema(db);
+    const geology = {
+      lat: 51.5,
+      lng: -0.1,
+      primaryLithology: 'clay',
+      secondaryLithologies: [],
+      confidence: 0.9,
+    };
+    const insert = db.prepare(INSERT_TILE_SQL);
+    insert.run(
+      createTileRow('gcpv', { geohash: 'gcpv', ...geology }, undefined, undefined, undefined, {
+        geohash: 'gcpv',
+        lat: 51.5,
+        lng: -0.1,
+        cells: { j: flat },
+      })
+    );
+    // City detail is layered over the tile; the DEM still comes from the tile
+    insert.run(createTileRow('gcpvj', { geohash: 'gcpvj', ...geology }, undefined));
+    db.close();
+    loader = new NodeTileLoader(dbPath);
+  });
+
+  afterEach(() => {
+    loader.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('loads the precision-5 cells with the precision-4 tile', () => {
+    const tile = loader.getTile('gcpv')!;
+    expect(tile.elevation).toEqual({ j: flat });
+    expect(estimateTileBytes(tile)).toBeGreaterThan(
+      estimateTileBytes({ ...tile, elevation: undefined })
+    );
+    expect(loader.getTile('gcpvj')?.elevation).toBeUndefined();
+  });
+
+  it('reports the DEM altitude when there is no GPS fix', async () => {
+    const service = new GeoDataService({ tileLoader: loader });
+    const data = await service.getLocationData(51.5074, -0.1278);
+
+    expect(data.altitude).toMatchObject({ value: 40, source: 'dem' });
+  });
+
+  it('blends a GPS fix with the DEM', async () => {
+    const service = new GeoDataService({ tileLoader: loader });
+    const data = await service.getLocationData(51.5074, -0.1278, {
+      altitude: 60,
+      altitudeAccuracy: 30,
+    });
+
+    expect(data.altitude?.source).toBe('blended');
+    expect(data.altitude!.value).toBeGreaterThan(40);
+    expect(data.altitude!.value).toBeLessThan(60);
+  });
+
+  it('uses GPS alone in cells the DEM does not cover', async () => {
+    const service = new GeoDataService({ tileLoader: loader });
+    // gcpvn is in the same tile, but has no DEM cell
+    const { lat, lng } = decodeGeohash('gcpvn');
+    const data = await service.getLocationData(lat, lng, { altitude: 60, altitudeAccuracy: 30 });
+
+    expect(data.altitude).toMatchObject({ value: 60, source: 'gps' });
+    expect((await service.getLocationData(lat, lng)).altitude).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  FIBERS,
+  FIBERS_BY_ID,
+  getFibersByBiome,
+  getFibersByRealmBiome,
+  getFibersByRealm,
+  getFibersByCategory,
+  getFiberBiomes,
+  getMappedFiberRealmBiomes,
+} from '../src/data/fibers';
+import { getRealmBiomeFiberMappings } from '../src/data/gis/mappings';
+import { BIOME_DISPLAY_NAMES } from '../src/config/biomes';
+import { BiomeCode } from '../src/types/resources';
+import { COMPONENTS_BY_ID } from '../src/data/tools';
+
+describe('Fibers Data', () => {
+  describe('FIBERS array', () => {
+    it('should contain fiber entries', () => {
+      expect(FIBERS.length).toBeGreaterThan(0);
+    });
+
+    it('should have unique ids for all fibers', () => {
+      const ids = FIBERS.map((f) => f.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should have valid property ranges for all fibers', () => {
+      FIBERS.forEach((fiber) => {
+        for (const key of ['tensileStrength', 'flexibility', 'rotResistance']) {
+          expect(fiber.properties[key]).toBeGreaterThanOrEqual(1);
+          expect(fiber.properties[key]).toBeLessThanOrEqual(10);
+        }
+        expect(fiber.rarity).toBeGreaterThanOrEqual(0);
+        expect(fiber.rarity).toBeLessThanOrEqual(1);
+      });
+    });
+
+    it('should have valid categories for all fibers', () => {
+      const validCategories = ['bast', 'bark', 'leaf', 'grass', 'seed'];
+      FIBERS.forEach((fiber) => {
+        expect(validCategories).toContain(fiber.category);
+      });
+    });
+
+    it('should have valid hex color codes', () => {
+      FIBERS.forEach((fiber) => {
+        expect(fiber.color).toMatch(/^#[0-9A-Fa-f]{6}$/);
+      });
+    });
+  });
+
+  describe('FIBERS_BY_ID', () => {
+    it('should allow lookup by id for Flax', () => {
+      const flax = FIBERS_BY_ID['flax'];
+      expect(flax).toBeDefined();
+      expect(flax.category).toBe('bast');
+      expect(flax.nativeRealms).toContain('Palearctic');
+    });
+
+    it('should return undefined for non-existent id', () => {
+      expect(FIBERS_BY_ID['nylon']).toBeUndefined();
+    });
+  });
+
+  describe('lookups', () => {
+    it('should have at least one fiber for every biome', () => {
+      const biomes = (Object.keys(BIOME_DISPLAY_NAMES) as BiomeCode[]).filter(
+        (b) => b !== 'unknown'
+      );
+      for (const biome of biomes) {
+        expect(getFibersByBiome(biome).length).toBeGreaterThan(0);
+      }
+      expect(getFiberBiomes().length).toBe(biomes.length);
+    });
+
+    it('should return fibers by realm-biome', () => {
+      const pa04 = getFibersByRealmBiome('PA04').map((f) => f.id);
+      expect(pa04).toContain('nettle');
+      expect(pa04).toContain('flax');
+      expect(getFibersByRealmBiome('XX99')).toEqual([]);
+      expect(getMappedFiberRealmBiomes()).toContain('PA04');
+    });
+
+    it('should return fibers by realm', () => {
+      const australasian = getFibersByRealm('Australasia').map((f) => f.id);
+      expect(australasian).toContain('kurrajong');
+      expect(australasian).not.toContain('flax');
+    });
+
+    it('should return fibers by category', () => {
+      const bark = getFibersByCategory('bark');
+      expect(bark.length).toBeGreaterThan(0);
+      bark.forEach((f) => expect(f.category).toBe('bark'));
+      expect(getFibersByCategory('synthetic')).toEqual([]);
+    });
+  });
+
+  describe('realm-biome fiber mappings', () => {
+    it('should only reference existing fibers, with one weight per fiber', () => {
+      for (const [code, mapping] of Object.entries(getRealmBiomeFiberMappings())) {
+        expect(mapping.fiberIds.length).toBe(mapping.weights.length);
+        for (const fiberId of mapping.fiberIds) {
+          expect(FIBERS_BY_ID[fiberId]).toBeDefined();
+        }
+        const sum = mapping.weights.reduce((a, b) => a + b, 0);
+        expect(Math.abs(sum - 1)).toBeLessThan(0.01);
+        expect(code).toMatch(/^[A-Z]{2}\d{2}$/);
+      }
+    });
+  });
+
+  describe('binding recipes', () => {
+    it('should make fiber bindings from fiber', () => {
+      expect(COMPONENTS_BY_ID['fiber_binding'].materials.fiber?.quantity).toBeGreaterThan(0);
+      expect(COMPONENTS_BY_ID['fiber_binding'].materials.wood).toBeUndefined();
+    });
+  });
+});
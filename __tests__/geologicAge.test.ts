@@ -0,0 +1,167 @@
+// Unit tests for geological ages, and their path from the data build to spawning
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  calculateAgeStoneBias,
+  getGeologicAge,
+  normalizeGeologicAge,
+  YOUNG_VOLCANIC_MAX_MA,
+} from '../src/config/geologicAge';
+import { getLithClass } from '../src/data/gis';
+import { GeoDataService } from '../src/services/GeoDataService';
+import { NodeTileLoader } from '../src/services/NodeTileLoader';
+import { resourceSpawnService } from '../src/services/ResourceSpawnService';
+import { createSeededRandom } from '../src/utils/random';
+import { formatLithology } from '../src/utils/strings';
+import { LocationGeoData } from '../src/types/gis';
+import { createSchema, createTileRow, INSERT_TILE_SQL } from '../scripts/gis/buildSqliteBundle';
+
+describe('normalizeGeologicAge', () => {
+  it('maps periods, epochs and stages to their period', () => {
+    expect(normalizeGeologicAge('Late Cretaceous')).toBe('Cretaceous');
+    expect(normalizeGeologicAge('Campanian')).toBe('Cretaceous');
+    expect(normalizeGeologicAge('Miocene')).toBe('Neogene');
+    expect(normalizeGeologicAge('Paleocene')).toBe('Paleogene');
+    expect(normalizeGeologicAge('Pennsylvanian')).toBe('Carboniferous');
+  });
+
+  it('does not mistake Precambrian for Cambrian', () => {
+    expect(normalizeGeologicAge('Precambrian')).toBe('Precambrian');
+    expect(normalizeGeologicAge('Late Cambrian')).toBe('Cambrian');
+  });
+
+  it('returns null for missing or unrecognised intervals', () => {
+    expect(normalizeGeologicAge(null)).toBeNull();
+    expect(normalizeGeologicAge('')).toBeNull();
+    expect(normalizeGeologicAge('Steptoean')).toBeNull();
+  });
+
+  it('only gives normalized ages a known span', () => {
+    expect(getGeologicAge('Quaternary')?.startMa).toBeLessThan(YOUNG_VOLCANIC_MAX_MA);
+    expect(getGeologicAge('Late Cretaceous')).toBeNull();
+    expect(getGeologicAge(undefined)).toBeNull();
+  });
+});
+
+describe('getLithClass', () => {
+  it('classifies lithologies by their main stone', () => {
+    expect(getLithClass('chalk')).toBe('sedimentary');
+    expect(getLithClass('rhyolite')).toBe('igneous');
+    expect(getLithClass('granite')).toBe('igneous');
+    expect(getLithClass('schist')).toBe('metamorphic');
+  });
+
+  it('returns null for unknown lithologies', () => {
+    expect(getLithClass('unknown')).toBeNull();
+    expect(getLithClass('not_a_rock')).toBeNull();
+  });
+});
+
+describe('calculateAgeStoneBias', () => {
+  it('leaves weights alone when the age is unknown', () => {
+    expect(calculateAgeStoneBias('obsidian', 'rhyolite', undefined, 'igneous')).toBe(1);
+    expect(calculateAgeStoneBias('flint', 'chalk', undefined, 'sedimentary')).toBe(1);
+  });
+
+  it('boosts flint and chert in Cretaceous chalk only', () => {
+    expect(calculateAgeStoneBias('flint', 'chalk', 'Cretaceous', 'sedimentary')).toBeGreaterThan(1);
+    expect(calculateAgeStoneBias('chert', 'chalk', 'Cretaceous', 'sedimentary')).toBeGreaterThan(1);
+    expect(calculateAgeStoneBias('chalk', 'chalk', 'Cretaceous', 'sedimentary')).toBe(1);
+    expect(calculateAgeStoneBias('flint', 'chalk', 'Jurassic', 'sedimentary')).toBe(1);
+  });
+
+  it('allows obsidian only in young volcanic units', () => {
+    expect(calculateAgeStoneBias('obsidian', 'rhyolite', 'Quaternary', 'igneous')).toBe(1);
+    expect(calculateAgeStoneBias('obsidian', 'rhyolite', 'Neogene', 'igneous')).toBe(1);
+    expect(calculateAgeStoneBias('obsidian', 'rhyolite', 'Paleogene', 'igneous')).toBe(0);
+    expect(calculateAgeStoneBias('obsidian', 'tuff', 'Quaternary', 'sedimentary')).toBe(0);
+    expect(calculateAgeStoneBias('rhyolite', 'rhyolite', 'Precambrian', 'igneous')).toBe(1);
+  });
+});
+
+describe('age-aware stone spawning', () => {
+  function geoData(lithology: string, age?: string): LocationGeoData {
+    return {
+      geology: {
+        primaryLithology: lithology,
+        secondaryLithologies: [],
+        lithClass: getLithClass(lithology) ?? undefined,
+        age,
+        confidence: 0.8,
+      },
+      biome: { type: 'temperate_broadleaf_mixed', realm: 'Palearctic', confidence: 0.8 },
+      dataSource: 'detailed',
+    };
+  }
+
+  function countStones(data: LocationGeoData, stoneId: string): number {
+    const random = createSeededRandom(7);
+    let count = 0;
+    for (let i = 0; i < 500; i++) {
+      if (resourceSpawnService.getRandomStoneForLocation(data, random)?.id === stoneId) count++;
+    }
+    return count;
+  }
+
+  it('finds more flint in Cretaceous chalk', () => {
+    expect(countStones(geoData('chalk', 'Cretaceous'), 'flint')).toBeGreaterThan(
+      countStones(geoData('chalk'), 'flint') * 1.5
+    );
+  });
+
+  it('never finds obsidian in old volcanics', () => {
+    expect(countStones(geoData('rhyolite'), 'obsidian')).toBeGreaterThan(0);
+    expect(countStones(geoData('rhyolite', 'Quaternary'), 'obsidian')).toBeGreaterThan(0);
+    expect(countStones(geoData('rhyolite', 'Precambrian'), 'obsidian')).toBe(0);
+  });
+});
+
+describe('tile ages', () => {
+  let tmpDir: string;
+  let loader: NodeTileLoader;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'geologic-age-test-'));
+    const dbPath = path.join(tmpDir, 'tiles.db');
+    const db = new Database(dbPath);
+    createSchema(db);
+    db.prepare(INSERT_TILE_SQL).run(
+      createTileRow(
+        'gcpv',
+        {
+          geohash: 'gcpv',
+          lat: 51.5,
+          lng: -0.1,
+          primaryLithology: 'chalk',
+          secondaryLithologies: [],
+          confidence: 0.9,
+          age: 'Late Cretaceous',
+        },
+        undefined
+      )
+    );
+    db.close();
+    loader = new NodeTileLoader(dbPath);
+  });
+
+  afterEach(() => {
+    loader.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('carries the unit age and lith class from the build to the location data', async () => {
+    const data = await new GeoDataService({ tileLoader: loader }).getLocationData(51.5074, -0.1278);
+
+    expect(data.geology).toMatchObject({
+      primaryLithology: 'chalk',
+      lithClass: 'sedimentary',
+      age: 'Cretaceous',
+    });
+    expect(formatLithology(data.geology.primaryLithology, data.geology.age)).toBe(
+      'Cretaceous chalk'
+    );
+  });
+});
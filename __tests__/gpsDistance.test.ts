@@ -0,0 +1,82 @@
+// Tests for estimating walked distance from GPS fixes
+
+import {
+  GPS_DISTANCE_FILTER,
+  GpsFix,
+  advanceGpsTrack,
+  distanceBetween,
+} from '../src/config/gpsDistance';
+
+const START: GpsFix = { latitude: 51.5, longitude: -0.12, accuracy: 5, timestamp: 1_000_000 };
+const METERS_PER_DEGREE_LAT = 111195;
+
+// A fix `meters` north of START, `seconds` later
+function north(meters: number, seconds: number, accuracy: number | null = 5): GpsFix {
+  return {
+    latitude: START.latitude + meters / METERS_PER_DEGREE_LAT,
+    longitude: START.longitude,
+    accuracy,
+    timestamp: START.timestamp + seconds * 1000,
+  };
+}
+
+describe('distanceBetween', () => {
+  it('should measure distance along a meridian', () => {
+    expect(distanceBetween(START, north(100, 0))).toBeCloseTo(100, 0);
+  });
+
+  it('should be 0 for the same point', () => {
+    expect(distanceBetween(START, START)).toBe(0);
+  });
+});
+
+describe('advanceGpsTrack', () => {
+  it('should anchor on the first accurate fix without counting distance', () => {
+    expect(advanceGpsTrack(null, START)).toEqual({ anchor: START, meters: 0 });
+  });
+
+  it('should count walking distance and move the anchor', () => {
+    const fix = north(50, 40);
+    const { anchor, meters } = advanceGpsTrack(START, fix);
+
+    expect(anchor).toBe(fix);
+    expect(meters).toBeCloseTo(50, 0);
+  });
+
+  it('should ignore fixes with poor or unknown accuracy', () => {
+    expect(advanceGpsTrack(START, north(50, 40, 100))).toEqual({ anchor: START, meters: 0 });
+    expect(advanceGpsTrack(START, north(50, 40, null))).toEqual({ anchor: START, meters: 0 });
+    expect(advanceGpsTrack(null, north(50, 40, 100))).toEqual({ anchor: null, meters: 0 });
+  });
+
+  it('should keep the anchor while movement is within jitter', () => {
+    expect(advanceGpsTrack(START, north(6, 10))).toEqual({ anchor: START, meters: 0 });
+    // Within the fix's own accuracy
+    expect(advanceGpsTrack(START, north(20, 20, 25))).toEqual({ anchor: START, meters: 0 });
+  });
+
+  it('should not let jitter add up while standing still', () => {
+    let anchor: GpsFix | null = START;
+    let total = 0;
+    for (let i = 1; i <= 30; i++) {
+      const step = advanceGpsTrack(anchor, north(i % 2 === 0 ? 7 : -7, i * 5));
+      anchor = step.anchor;
+      total += step.meters;
+    }
+    expect(total).toBe(0);
+  });
+
+  it('should reject vehicle speeds and move the anchor past them', () => {
+    const fix = north(500, 30);
+    expect(advanceGpsTrack(START, fix)).toEqual({ anchor: fix, meters: 0 });
+  });
+
+  it('should not join fixes across a gap in tracking', () => {
+    const fix = north(200, GPS_DISTANCE_FILTER.maxGapMs / 1000 + 60);
+    expect(advanceGpsTrack(START, fix)).toEqual({ anchor: fix, meters: 0 });
+  });
+
+  it('should ignore fixes older than the anchor', () => {
+    expect(advanceGpsTrack(START, north(50, -40))).toEqual({ anchor: START, meters: 0 });
+  });
+});
@@ -0,0 +1,182 @@
+// Unit tests for the regolith layer, from the offline build to stone spawning
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  calculateUnderfootChance,
+  MAX_UNDERFOOT_CHANCE,
+  REGOLITH_MATERIALS,
+  REGOLITH_UNDERFOOT_CHANCE,
+  UPLAND_ALTITUDE_M,
+} from '../src/config/regolith';
+import { getLithologyMapping, LITHOLOGY_MAPPINGS } from '../src/data/gis';
+import { STONES_BY_ID } from '../src/data/stones';
+import { GeoDataService } from '../src/services/GeoDataService';
+import { NodeTileLoader } from '../src/services/NodeTileLoader';
+import { resourceSpawnService } from '../src/services/ResourceSpawnService';
+import { createSeededRandom } from '../src/utils/random';
+import { AltitudeData, LocationGeoData, RegolithData } from '../src/types/gis';
+import { createSchema, createTileRow, INSERT_TILE_SQL } from '../scripts/gis/buildSqliteBundle';
+import { classifyRegolith, createRegolithSampler } from '../scripts/gis/processRegolith';
+import { Polygon } from '../scripts/gis/geometryUtils';
+
+describe('regolith materials', () => {
+  it('each have a stone mapping of real stones', () => {
+    for (const material of REGOLITH_MATERIALS) {
+      const mapping = LITHOLOGY_MAPPINGS[material];
+      expect(mapping).toBeDefined();
+      expect(mapping.stoneIds.every((id) => STONES_BY_ID[id])).toBe(true);
+      expect(mapping.weights.reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+    }
+  });
+});
+
+describe('calculateUnderfootChance', () => {
+  const till: RegolithData = { material: 'glacial_till', cover: 1 };
+
+  it('scales with the share of the tile covered', () => {
+    expect(calculateUnderfootChance(till)).toBe(REGOLITH_UNDERFOOT_CHANCE.glacial_till);
+    expect(calculateUnderfootChance({ ...till, cover: 0.5 })).toBeCloseTo(
+      REGOLITH_UNDERFOOT_CHANCE.glacial_till / 2
+    );
+    expect(calculateUnderfootChance({ material: 'granite', cover: 1 })).toBe(0);
+  });
+
+  it('favours outcrops in uplands, as far as the altitude is trusted', () => {
+    const upland: AltitudeData = {
+      value: UPLAND_ALTITUDE_M + 200,
+      accuracy: 5,
+      confidence: 1,
+      source: 'gps',
+    };
+    const base = calculateUnderfootChance(till);
+    expect(calculateUnderfootChance(till, upland)).toBeLessThan(base);
+    expect(calculateUnderfootChance(till, { ...upland, confidence: 0 })).toBe(base);
+    expect(calculateUnderfootChance(till, { ...upland, value: 100 })).toBe(base);
+  });
+
+  it('favours cover on valley floors, but never rules out outcrops', () => {
+    const river = { riverDistanceKm: 1, isLake: false };
+    expect(calculateUnderfootChance(till, undefined, river)).toBeGreaterThan(
+      calculateUnderfootChance(till)
+    );
+    expect(calculateUnderfootChance({ material: 'loess', cover: 1 }, undefined, river)).toBe(
+      MAX_UNDERFOOT_CHANCE
+    );
+  });
+});
+
+describe('underfoot stone spawning', () => {
+  function geoData(regolith?: RegolithData): LocationGeoData {
+    return {
+      geology: { primaryLithology: 'granite', secondaryLithologies: [], confidence: 0.8 },
+      biome: { type: 'temperate_broadleaf_mixed', realm: 'Palearctic', confidence: 0.8 },
+      regolith,
+      dataSource: 'detailed',
+    };
+  }
+
+  function countStones(data: LocationGeoData, stoneId: string): number {
+    const random = createSeededRandom(5);
+    let count = 0;
+    for (let i = 0; i < 500; i++) {
+      if (resourceSpawnService.getRandomStoneForLocation(data, random)?.id === stoneId) count++;
+    }
+    return count;
+  }
+
+  it('mostly finds the surface material over buried bedrock', () => {
+    const granite = getLithologyMapping('granite')!;
+    expect(granite.stoneIds).not.toContain('siltstone');
+
+    expect(countStones(geoData(), 'siltstone')).toBe(0);
+    expect(countStones(geoData({ material: 'loess', cover: 1 }), 'siltstone')).toBeGreaterThan(200);
+  });
+
+  it('still finds bedrock in outcrops', () => {
+    expect(countStones(geoData({ material: 'loess', cover: 1 }), 'granite')).toBeGreaterThan(0);
+  });
+});
+
+describe('processRegolith', () => {
+  it('classifies sediment units by their attributes', () => {
+    expect(classifyRegolith({ Litho: 'Loess' })).toBe('loess');
+    expect(classifyRegolith({ Litho: 'Glaciofluvial deposits' })).toBe('glacial_outwash');
+    expect(classifyRegolith({ Litho: 'Glaciolacustrine clay' })).toBe('lacustrine');
+    expect(classifyRegolith({ Litho: 'Till', Age: 'Pleistocene' })).toBe('glacial_till');
+    expect(classifyRegolith({ Litho: 'Alluvial deposits' })).toBe('alluvium');
+    expect(classifyRegolith({ Litho: 'Colluvial deposits' })).toBeNull();
+    expect(classifyRegolith({ Area: 12.5 })).toBeNull();
+  });
+
+  it('records the most common material and the share of the tile it covers', () => {
+    // gcpv covers 51.50-51.68°N, 0.35°W-0°E; the loess covers its western two-thirds
+    const loess: Polygon = [
+      [
+        [-1, 51],
+        [-0.1, 51],
+        [-0.1, 52],
+        [-1, 52],
+        [-1, 51],
+      ],
+    ];
+    const sampler = createRegolithSampler([
+      { geohash: 'gcpv', lat: 51.59, lng: -0.18 },
+      { geohash: 'u11u', lat: 51.42, lng: 2.64 },
+    ]);
+    sampler.addPolygon('loess', loess);
+
+    expect(sampler.getRecords()).toEqual([
+      { geohash: 'gcpv', lat: 51.59, lng: -0.18, material: 'loess', cover: 0.67 },
+    ]);
+  });
+});
+
+describe('tile regolith', () => {
+  let tmpDir: string;
+  let loader: NodeTileLoader;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'regolith-test-'));
+    const dbPath = path.join(tmpDir, 'tiles.db');
+    const db = new Database(dbPath);
+    createSchema(db);
+    const geology = {
+      lat: 51.5,
+      lng: -0.1,
+      primaryLithology: 'granite',
+      secondaryLithologies: [],
+      confidence: 0.9,
+    };
+    const insert = db.prepare(INSERT_TILE_SQL);
+    insert.run(
+      createTileRow('gcpv', { geohash: 'gcpv', ...geology }, undefined, undefined, {
+        geohash: 'gcpv',
+        lat: 51.5,
+        lng: -0.1,
+        material: 'glacial_till',
+        cover: 0.78,
+      })
+    );
+    // City detail has no regolith of its own; it comes from the precision-4 tile
+    insert.run(createTileRow('gcpvj', { geohash: 'gcpvj', ...geology }, undefined));
+    db.close();
+    loader = new NodeTileLoader(dbPath);
+  });
+
+  afterEach(() => {
+    loader.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('carries the surface material from the build to the location data', async () => {
+    expect(loader.getTile('gcpvj')?.regolith).toBeUndefined();
+
+    const data = await new GeoDataService({ tileLoader: loader }).getLocationData(51.5074, -0.1278);
+
+    expect(data.geology.primaryLithology).toBe('granite');
+    expect(data.regolith).toEqual({ material: 'glacial_till', cover: 0.78 });
+  });
+});
@@ -0,0 +1,55 @@
+// Tests for the Ed25519 signing utilities
+
+import * as crypto from 'crypto';
+import { getPublicKey, isSigningKey, signMessage, verifyMessage } from '../src/utils/signing';
+
+// RFC 8032, test 1
+const RFC_KEY = '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60';
+const RFC_PUBLIC_KEY = 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a';
+const RFC_SIGNATURE =
+  'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b';
+
+// Verify with Node's own Ed25519, from a raw public key
+function nodeVerify(message: string, signature: string, publicKey: string): boolean {
+  const key = crypto.createPublicKey({
+    key: Buffer.concat([
+      Buffer.from('302a300506032b6570032100', 'hex'),
+      Buffer.from(publicKey, 'hex'),
+    ]),
+    format: 'der',
+    type: 'spki',
+  });
+  return crypto.verify(null, Buffer.from(message, 'utf8'), key, Buffer.from(signature, 'hex'));
+}
+
+describe('signing', () => {
+  it('matches the RFC 8032 test vector', () => {
+    expect(getPublicKey(RFC_KEY)).toBe(RFC_PUBLIC_KEY);
+    expect(signMessage('', RFC_KEY)).toBe(RFC_SIGNATURE);
+    expect(verifyMessage('', RFC_SIGNATURE, RFC_PUBLIC_KEY)).toBe(true);
+  });
+
+  it('signs the UTF-8 bytes of non-ASCII text', () => {
+    const message = 'Grès rouge — 砂岩 🪨';
+    const signature = signMessage(message, RFC_KEY);
+
+    expect(nodeVerify(message, signature, RFC_PUBLIC_KEY)).toBe(true);
+    expect(verifyMessage(message, signature, RFC_PUBLIC_KEY)).toBe(true);
+  });
+
+  it('rejects edited messages and malformed signatures or keys', () => {
+    const signature = signMessage('chalk', RFC_KEY);
+
+    expect(verifyMessage('chert', signature, RFC_PUBLIC_KEY)).toBe(false);
+    expect(verifyMessage('chalk', signature.slice(2), RFC_PUBLIC_KEY)).toBe(false);
+    expect(verifyMessage('chalk', signature, 'zz')).toBe(false);
+  });
+
+  it('recognises signing keys', () => {
+    expect(isSigningKey(RFC_KEY)).toBe(true);
+    expect(isSigningKey(RFC_KEY.toUpperCase())).toBe(false);
+    expect(isSigningKey(RFC_KEY.slice(2))).toBe(false);
+    expect(isSigningKey(42)).toBe(false);
+    expect(() => getPublicKey('not a key')).toThrow('Invalid signing key');
+  });
+});
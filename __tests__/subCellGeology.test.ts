@@ -0,0 +1,61 @@
+/**
+ * Tests for sub-cell lithology mixing
+ */
+import { mixSubCellGeology, MAX_SECONDARY_DOMINANCE } from '../src/utils/subCellGeology';
+import { encodeGeohash } from '../src/utils/geohash';
+
+describe('mixSubCellGeology', () => {
+  const tileGeology = {
+    primaryLithology: 'sandstone',
+    secondaryLithologies: ['shale', 'limestone', 'conglomerate'],
+    confidence: 0.8,
+  };
+
+  // Every precision-6 sub-cell of one precision-4 tile
+  const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+  const subCells = [...BASE32].flatMap((a) => [...BASE32].map((b) => `gcpv${a}${b}`));
+
+  it('should give the same mix for every point in a sub-cell', () => {
+    const a = mixSubCellGeology(tileGeology, encodeGeohash(51.501, -0.142, 8));
+    const b = mixSubCellGeology(tileGeology, encodeGeohash(51.5012, -0.1418, 8));
+    expect(encodeGeohash(51.501, -0.142, 6)).toBe(encodeGeohash(51.5012, -0.1418, 6));
+    expect(a).toEqual(b);
+  });
+
+  it("should only use the tile's own lithologies", () => {
+    for (const cell of subCells) {
+      const mixed = mixSubCellGeology(tileGeology, cell);
+      expect(mixed.primaryLithology).toBe('sandstone');
+      expect([...mixed.secondaryLithologies].sort()).toEqual(
+        [...tileGeology.secondaryLithologies].sort()
+      );
+      expect(['sandstone', ...tileGeology.secondaryLithologies]).toContain(mixed.dominantLithology);
+    }
+  });
+
+  it('should let different neighbourhoods favour different rocks', () => {
+    const dominant = subCells.map((cell) => mixSubCellGeology(tileGeology, cell).dominantLithology);
+    const counts = new Map<string, number>();
+    dominant.forEach((lith) => counts.set(lith!, (counts.get(lith!) ?? 0) + 1));
+
+    // Every secondary dominates somewhere, but the primary stays the majority
+    expect(counts.size).toBe(4);
+    const secondaryShare = 1 - counts.get('sandstone')! / subCells.length;
+    expect(secondaryShare).toBeGreaterThan(0.2);
+    expect(secondaryShare).toBeLessThanOrEqual(MAX_SECONDARY_DOMINANCE + 0.05);
+
+    const firstSecondary = new Set(
+      subCells.map((cell) => mixSubCellGeology(tileGeology, cell).secondaryLithologies[0])
+    );
+    expect(firstSecondary.size).toBe(3);
+  });
+
+  it('should keep the primary dominant when there are no usable secondaries', () => {
+    const mixed = mixSubCellGeology(
+      { primaryLithology: 'granite', secondaryLithologies: ['granite', 'unknown'], confidence: 1 },
+      'gcpvj0'
+    );
+    expect(mixed.dominantLithology).toBe('granite');
+    expect(mixed.secondaryLithologies).toEqual(['granite', 'unknown']);
+  });
+});
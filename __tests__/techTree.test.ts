@@ -1,5 +1,5 @@
 import { TECHNOLOGIES, TECH_BY_ID, getTechsByEra, getAvailableTechs } from '../src/data/techTree';
-import { LithicEra } from '../src/types/tech';
+import { TECH_ERAS, EXPLORATION_RESOURCE } from '../src/types/tech';
 
 describe('Tech Tree Data', () => {
   describe('TECHNOLOGIES array', () => {
@@ -29,15 +29,9 @@ describe('Tech Tree Data', () => {
       expect(uniqueIds.size).toBe(ids.length);
     });
 
-    it('should have valid lithic eras for all technologies', () => {
-      const validEras: LithicEra[] = [
-        'lower_paleolithic',
-        'middle_paleolithic',
-        'upper_paleolithic',
-        'mesolithic',
-      ];
+    it('should have valid eras for all technologies', () => {
       TECHNOLOGIES.forEach((tech) => {
-        expect(validEras).toContain(tech.era);
+        expect(TECH_ERAS).toContain(tech.era);
       });
     });
 
@@ -52,7 +46,7 @@ describe('Tech Tree Data', () => {
       TECHNOLOGIES.forEach((tech) => {
         tech.resourceCost.forEach((cost) => {
           expect(cost.quantity).toBeGreaterThan(0);
-          expect(['stone', 'wood', 'food']).toContain(cost.resourceType);
+          expect(['stone', 'wood', 'food', EXPLORATION_RESOURCE]).toContain(cost.resourceType);
         });
       });
     });
@@ -264,6 +258,28 @@ describe('Tech Tree Data', () => {
       expect(polishedStone.era).toBe('mesolithic');
     });
 
+    it('polished_stone should lead into pottery', () => {
+      expect(TECH_BY_ID['polished_stone'].unlocks).toContain('pottery');
+      expect(TECH_BY_ID['pottery'].prerequisites).toContain('polished_stone');
+      expect(TECH_BY_ID['pottery'].era).toBe('neolithic');
+    });
+
+    it('copper techs should follow smelting in the chalcolithic', () => {
+      expect(TECH_BY_ID['smelting'].prerequisites).toContain('pottery');
+      expect(TECH_BY_ID['copper_working'].prerequisites).toContain('smelting');
+      expect(getTechsByEra('chalcolithic').map((t) => t.id)).toEqual([
+        'smelting',
+        'copper_working',
+      ]);
+    });
+
+    it('smelting should require exploring to find ore', () => {
+      expect(TECH_BY_ID['smelting'].resourceCost).toContainEqual({
+        resourceType: EXPLORATION_RESOURCE,
+        quantity: 50,
+      });
+    });
+
     it('blade_technology should enable pressure_flaker recipe', () => {
       const bladeTech = TECH_BY_ID['blade_technology'];
       expect(bladeTech.enablesRecipes).toContain('pressure_flaker');
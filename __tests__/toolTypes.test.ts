@@ -89,6 +89,11 @@ describe('Tool Types', () => {
       expect(bonus).toBe(gatheringToolWithBonus!.baseStats.gatheringBonus);
     });
 
+    it('should scale the bonus by component efficiency', () => {
+      const base = calculateGatheringBonus(gatheringToolWithBonus!, 0.5);
+      expect(calculateGatheringBonus(gatheringToolWithBonus!, 0.5, 0.2)).toBeCloseTo(base * 1.2, 5);
+    });
+
     it('should return 0 for any quality when base bonus is 0', () => {
       // Tools without gatheringMaterial should return 0 bonus
       const toolWithNoGatheringMaterial = TOOLS.find((t) => !t.gatheringMaterial);
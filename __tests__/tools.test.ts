@@ -7,7 +7,8 @@ import {
   getComponentById,
 } from '../src/data/tools';
 import { ToolCategory, ComponentCategory } from '../src/types/tools';
-import { LithicEra } from '../src/types/tech';
+import { TECH_ERAS } from '../src/types/tech';
+import { getMaterialConfig, MaterialType } from '../src/config/materials';
 
 describe('Tools Data', () => {
   describe('TOOLS array', () => {
@@ -21,20 +22,20 @@ describe('Tools Data', () => {
       expect(uniqueIds.size).toBe(ids.length);
     });
 
-    it('should have valid lithic eras for all tools', () => {
-      const validEras: LithicEra[] = [
-        'lower_paleolithic',
-        'middle_paleolithic',
-        'upper_paleolithic',
-        'mesolithic',
-      ];
+    it('should have valid eras for all tools', () => {
       TOOLS.forEach((tool) => {
-        expect(validEras).toContain(tool.era);
+        expect(TECH_ERAS).toContain(tool.era);
       });
     });
 
     it('should have valid categories for all tools', () => {
-      const validCategories: ToolCategory[] = ['knapping', 'woodworking', 'foraging', 'cutting'];
+      const validCategories: ToolCategory[] = [
+        'knapping',
+        'woodworking',
+        'foraging',
+        'cutting',
+        'metalworking',
+      ];
       TOOLS.forEach((tool) => {
         expect(validCategories).toContain(tool.category);
       });
@@ -77,21 +78,15 @@ describe('Tools Data', () => {
     });
 
     it('should have valid categories for all components', () => {
-      const validCategories: ComponentCategory[] = ['handle', 'binding'];
+      const validCategories: ComponentCategory[] = ['handle', 'binding', 'ingot'];
       COMPONENTS.forEach((component) => {
         expect(validCategories).toContain(component.category);
       });
     });
 
-    it('should have valid lithic eras for all components', () => {
-      const validEras: LithicEra[] = [
-        'lower_paleolithic',
-        'middle_paleolithic',
-        'upper_paleolithic',
-        'mesolithic',
-      ];
+    it('should have valid eras for all components', () => {
       COMPONENTS.forEach((component) => {
-        expect(validEras).toContain(component.era);
+        expect(TECH_ERAS).toContain(component.era);
       });
     });
 
@@ -243,5 +238,34 @@ describe('Tools Data', () => {
       expect(polishedAxe.era).toBe('mesolithic');
       expect(polishedAxe.baseStats.gatheringBonus).toBeGreaterThan(0.5);
     });
+
+    it('pottery should be fired from clay', () => {
+      expect(TOOLS_BY_ID['clay_pot'].materials.stone?.allowedResources).toEqual(['clay']);
+      expect(TOOLS_BY_ID['clay_crucible'].materials.stone?.allowedResources).toEqual(['clay']);
+    });
+
+    it('copper tools should need an ingot smelted from ore in a crucible', () => {
+      const ingot = COMPONENTS_BY_ID['copper_ingot'];
+      expect(ingot.requiredTools).toContain('clay_crucible');
+      expect(ingot.materials.stone?.allowedResources).toEqual(['malachite']);
+
+      for (const toolId of ['copper_axe', 'copper_pick']) {
+        const componentIds = TOOLS_BY_ID[toolId].requiredComponents.map((c) => c.componentId);
+        expect(componentIds).toContain('copper_ingot');
+      }
+    });
+  });
+
+  describe('Allowed resources', () => {
+    it('should only reference existing resources', () => {
+      [...TOOLS, ...COMPONENTS].forEach((craftable) => {
+        Object.entries(craftable.materials).forEach(([materialType, requirement]) => {
+          const config = getMaterialConfig(materialType as MaterialType);
+          requirement?.allowedResources?.forEach((id) => {
+            expect(config.getResourceById(id)).toBeDefined();
+          });
+        });
+      });
+    });
   });
 });
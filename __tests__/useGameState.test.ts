@@ -3,6 +3,7 @@ import { renderHook, act, waitFor } from '@testing-library/react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useGameState, GameStateProvider } from '../src/hooks/useGameState';
 import { getToolById } from '../src/data/tools';
+import { SaveTransferService } from '../src/services/SaveTransferService';
 
 // Get the mocked module
 const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
@@ -255,6 +256,75 @@ describe('useGameState', () => {
 
       expect(result.current.state.explorationPoints).toBe(150);
     });
+
+    it('should award points only for the first visit to a cell', async () => {
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const terrain = { biome: 'temperate_broadleaf', lithology: 'granite' };
+      act(() => {
+        result.current.recordVisit(51.5074, -0.1278, terrain);
+      });
+
+      const points = result.current.state.explorationPoints;
+      expect(points).toBeGreaterThan(0);
+      expect(result.current.state.exploration.visitedCells).toHaveProperty('gcpvj');
+
+      act(() => {
+        result.current.recordVisit(51.5074, -0.1278, terrain);
+      });
+
+      expect(result.current.state.explorationPoints).toBe(points);
+    });
+
+    it('should spend exploration points without going negative', async () => {
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addExplorationPoints(20);
+        result.current.spendExplorationPoints(15);
+      });
+
+      expect(result.current.state.explorationPoints).toBe(5);
+
+      act(() => {
+        result.current.spendExplorationPoints(15);
+      });
+
+      expect(result.current.state.explorationPoints).toBe(0);
+    });
+
+    it('should load visited cells and drop malformed entries', async () => {
+      mockAsyncStorage.getItem.mockResolvedValueOnce(
+        JSON.stringify({
+          schemaVersion: 2,
+          exploration: {
+            visitedCells: { gcpvj: 3, bad: 'x', half: 1.5 },
+            biomeVisits: { temperate_broadleaf: 1, negative: -2 },
+            lithologyVisits: 'granite',
+          },
+        })
+      );
+
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.state.exploration).toEqual({
+        visitedCells: { gcpvj: 3 },
+        biomeVisits: { temperate_broadleaf: 1 },
+        lithologyVisits: {},
+      });
+    });
   });
 
   describe('Tool inventory', () => {
@@ -372,6 +442,56 @@ describe('useGameState', () => {
       expect(result.current.state.explorationPoints).toBe(0);
     });
 
+    it('should assign a player id and signing key on first load and keep them across resets', async () => {
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const { playerId, signingKey } = result.current.state;
+      expect(playerId).toMatch(/^player_/);
+      expect(signingKey).toMatch(/^[0-9a-f]{64}$/);
+
+      await act(async () => {
+        await result.current.resetGame();
+      });
+
+      expect(result.current.state.playerId).toBe(playerId);
+      expect(result.current.state.signingKey).toBe(signingKey);
+    });
+
+    it('should keep a saved player id and signing key', async () => {
+      const signingKey = 'ab'.repeat(32);
+      mockAsyncStorage.getItem.mockResolvedValueOnce(
+        JSON.stringify({ playerId: 'player_saved', signingKey })
+      );
+
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.state.playerId).toBe('player_saved');
+      expect(result.current.state.signingKey).toBe(signingKey);
+    });
+
+    it('should give saves from before signing keys a new key', async () => {
+      mockAsyncStorage.getItem.mockResolvedValueOnce(
+        JSON.stringify({ playerId: 'player_saved', signingKey: 'not a key' })
+      );
+
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.state.playerId).toBe('player_saved');
+      expect(result.current.state.signingKey).toMatch(/^[0-9a-f]{64}$/);
+    });
+
     it('should merge partial saves with defaults', async () => {
       // Simulate an old save without all fields
       const partialSave = {
@@ -427,7 +547,34 @@ describe('useGameState', () => {
       });
 
       const written = JSON.parse(mockAsyncStorage.setItem.mock.calls[0][1]);
-      expect(written.schemaVersion).toBe(1);
+      expect(written.schemaVersion).toBe(2);
+    });
+
+    it('migrates v1 tools to full durability', async () => {
+      mockAsyncStorage.getItem.mockResolvedValueOnce(
+        JSON.stringify({
+          schemaVersion: 1,
+          ownedTools: [
+            {
+              instanceId: 'hammerstone_1',
+              toolId: 'hammerstone',
+              materials: { stone: { resourceId: 'granite', quantity: 10 } },
+              quality: 0.6,
+            },
+          ],
+        })
+      );
+
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const [tool] = result.current.state.ownedTools;
+      expect(tool.maxDurability).toBe(135); // granite durability 9
+      expect(tool.durability).toBe(135);
+      expect(tool.quality).toBe(0.6);
     });
 
     it('falls back to INITIAL_STATE on corrupt JSON', async () => {
@@ -613,4 +760,303 @@ describe('useGameState', () => {
       }
     });
   });
+
+  describe('Crafting queue', () => {
+    const hammerstoneJob = {
+      id: 'job_hammerstone_1',
+      recipeType: 'tool',
+      recipeId: 'hammerstone',
+      duration: 30,
+      selectedMaterials: { stone: { resourceId: 'granite', quantity: 1 } },
+      selectedFoods: { wild_garlic: 2 },
+      reservedComponents: [],
+      quality: 0.4,
+    };
+
+    it('completes jobs that finished while the app was closed', async () => {
+      mockAsyncStorage.getItem.mockResolvedValueOnce(
+        JSON.stringify({
+          schemaVersion: 1,
+          craftingQueue: [{ ...hammerstoneJob, startTime: Date.now() - 60_000 }],
+        })
+      );
+
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.state.ownedTools).toHaveLength(1);
+      });
+
+      expect(result.current.state.craftingQueue).toEqual([]);
+      expect(result.current.state.ownedTools[0].toolId).toBe('hammerstone');
+      expect(result.current.state.ownedTools[0].quality).toBe(0.4);
+    });
+
+    it('keeps unfinished jobs queued across reloads and drops malformed ones', async () => {
+      const startTime = Date.now();
+      mockAsyncStorage.getItem.mockResolvedValueOnce(
+        JSON.stringify({
+          schemaVersion: 1,
+          craftingQueue: [
+            { ...hammerstoneJob, startTime },
+            { ...hammerstoneJob, id: 'bad_type', recipeType: 'weapon', startTime },
+            { ...hammerstoneJob, id: 'bad_time', startTime: 'yesterday' },
+            'garbage',
+          ],
+        })
+      );
+
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.state.craftingQueue).toHaveLength(1);
+      expect(result.current.state.craftingQueue[0]).toMatchObject({
+        id: 'job_hammerstone_1',
+        startTime,
+        duration: 30,
+      });
+      expect(result.current.state.ownedTools).toEqual([]);
+    });
+
+    it('quarantines unknown tools and reports repairs on load', async () => {
+      mockAsyncStorage.getItem.mockResolvedValueOnce(
+        JSON.stringify({
+          schemaVersion: 2,
+          ownedTools: [
+            { instanceId: 'mystery_1', toolId: 'mystery', materials: {}, quality: 0.5 },
+            {
+              instanceId: 'hammerstone_1',
+              toolId: 'hammerstone',
+              materials: {},
+              quality: NaN,
+              durability: 10,
+              maxDurability: 20,
+            },
+          ],
+          craftingQueue: [{ ...hammerstoneJob, recipeId: 'mystery', startTime: Date.now() }],
+        })
+      );
+
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.state.ownedTools).toHaveLength(1);
+      expect(result.current.state.ownedTools[0].quality).toBe(0);
+      expect(result.current.state.craftingQueue).toEqual([]);
+      expect(result.current.state.quarantine.map((q) => q.field)).toEqual([
+        'ownedTools',
+        'craftingQueue',
+      ]);
+      expect(result.current.loadReport?.repaired).toHaveLength(1);
+      expect(result.current.loadReport?.quarantined).toHaveLength(2);
+    });
+
+    it('starts and cancels a craft, restoring reserved inputs', async () => {
+      const hammerstone = getToolById('hammerstone')!;
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.unlockTech(hammerstone.requiredTech);
+        result.current.addResource('stone', 'granite', 10);
+        result.current.addResource('food', 'wild_garlic', 20);
+      });
+
+      let startResult!: { success: boolean; error?: string };
+      act(() => {
+        startResult = result.current.startCraft({
+          craftable: hammerstone,
+          selectedMaterials: { stone: 'granite' },
+          selectedFoods: { wild_garlic: 10 },
+        });
+      });
+
+      expect(startResult.success).toBe(true);
+      expect(result.current.state.craftingQueue).toHaveLength(1);
+      expect(result.current.state.ownedTools).toHaveLength(0);
+      expect(result.current.getResourceCount('food', 'wild_garlic')).toBe(10);
+
+      const jobId = result.current.state.craftingQueue[0].id;
+      act(() => {
+        result.current.cancelCraft(jobId);
+      });
+
+      expect(result.current.state.craftingQueue).toEqual([]);
+      expect(result.current.getResourceCount('stone', 'granite')).toBe(10);
+      expect(result.current.getResourceCount('food', 'wild_garlic')).toBe(20);
+    });
+  });
+
+  describe('Step ledger', () => {
+    it('records syncs and spends', async () => {
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.syncSteps(1500, 'healthkit', Date.now() - 60000);
+      });
+      act(() => {
+        result.current.spendSteps(1000, 'flint');
+      });
+
+      const { entries } = result.current.state.stepLedger;
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ type: 'sync', amount: 1500, source: 'healthkit' });
+      expect(entries[1]).toMatchObject({ type: 'spend', amount: 1000, spentOn: 'flint' });
+      expect(result.current.getStepGatheringState().availableSteps).toBe(500);
+    });
+
+    it('drops malformed ledger entries and days on load', async () => {
+      const at = Date.now();
+      mockAsyncStorage.getItem.mockResolvedValueOnce(
+        JSON.stringify({
+          stepLedger: {
+            entries: [
+              { type: 'sync', at, amount: 100, source: 'healthkit', since: at, until: at },
+              { type: 'sync', at, amount: 100, source: 'pedometer', since: at, until: at },
+              { type: 'spend', at, amount: -1, spentOn: 'flint' },
+              { type: 'spend', at: 'later', amount: 100, spentOn: 'flint' },
+              null,
+            ],
+            days: [{ day: '2026-01-01', walked: 300, spent: 'x' }, { day: 'yesterday' }],
+          },
+        })
+      );
+
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.state.stepLedger.entries).toHaveLength(1);
+      expect(result.current.state.stepLedger.days).toEqual([
+        { day: '2026-01-01', walked: 300, spent: 0 },
+      ]);
+    });
+  });
+
+  describe('Activity sources', () => {
+    it('keeps known sources once and falls back to steps on load', async () => {
+      mockAsyncStorage.getItem.mockResolvedValueOnce(
+        JSON.stringify({ activitySources: ['distance', 'swimming', 'distance', 'active_energy'] })
+      );
+
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.state.activitySources).toEqual(['distance', 'active_energy']);
+
+      act(() => {
+        result.current.setActivitySources([]);
+      });
+      expect(result.current.state.activitySources).toEqual(['steps']);
+    });
+  });
+
+  describe('Save export/import', () => {
+    it('should round-trip an exported save and preview the changes', async () => {
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addResource('stone', 'flint', 5);
+        result.current.unlockTech('basic_knapping');
+      });
+      const exported = result.current.exportSave('1.0.0');
+
+      await act(async () => {
+        await result.current.resetGame();
+      });
+
+      const preview = result.current.previewImport(exported);
+      if (!preview.success) throw new Error(preview.error);
+
+      expect(preview.envelope.appVersion).toBe('1.0.0');
+      expect(preview.summary.techs.gained).toEqual(['basic_knapping']);
+      expect(preview.summary.inventory.stone).toEqual({ current: 0, incoming: 5 });
+      // Previewing doesn't change the game
+      expect(result.current.state.unlockedTechs).toEqual([]);
+
+      await act(async () => {
+        await result.current.applyImport(preview.incoming);
+      });
+
+      expect(result.current.state.unlockedTechs).toEqual(['basic_knapping']);
+      expect(result.current.getResourceCount('stone', 'flint')).toBe(5);
+      expect(mockAsyncStorage.setItem).toHaveBeenLastCalledWith(
+        'walkforage_gamestate',
+        expect.stringContaining('basic_knapping')
+      );
+    });
+
+    it('should migrate and sanitise imported state', async () => {
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      // Legacy (unversioned) state with a malformed field
+      const legacyState = {
+        explorationPoints: -5,
+        ownedTools: [{ instanceId: 't1', toolId: 'hammerstone', quality: 0.5, materials: {} }],
+      };
+      const text = JSON.stringify({
+        format: 'walkforage-save',
+        formatVersion: 1,
+        schemaVersion: 0,
+        appVersion: '0.9.0',
+        exportedAt: new Date(0).toISOString(),
+        checksum: SaveTransferService.computeChecksum(JSON.stringify(legacyState)),
+        state: legacyState,
+      });
+
+      const preview = result.current.previewImport(text);
+      if (!preview.success) throw new Error(preview.error);
+
+      expect(preview.incoming.explorationPoints).toBe(0);
+      expect(preview.incoming.ownedTools[0].durability).toBe(
+        preview.incoming.ownedTools[0].maxDurability
+      );
+      // Saves without a player id keep the current one on import
+      const playerId = result.current.state.playerId;
+      await act(async () => {
+        await result.current.applyImport(preview.incoming);
+      });
+      expect(result.current.state.playerId).toBe(playerId);
+    });
+
+    it('should reject a corrupted save without changing state', async () => {
+      const { result } = renderHook(() => useGameState(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const exported = result.current.exportSave('1.0.0');
+      const tampered = exported.replace('"explorationPoints": 0', '"explorationPoints": 999');
+
+      const preview = result.current.previewImport(tampered);
+      expect(preview.success).toBe(false);
+    });
+  });
 });
@@ -7,7 +7,9 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useStepGathering } from '../src/hooks/useStepGathering';
 import { GameStateProvider } from '../src/hooks/useGameState';
 import { healthService } from '../src/services/HealthService';
-import { STEPS_PER_GATHER } from '../src/config/gathering';
+import { EFFORT_PER_GATHER, STEP_CREDIT_POLICY } from '../src/config/gathering';
+import { GpsFix } from '../src/config/gpsDistance';
+import { StepLedgerService } from '../src/services/StepLedgerService';
 
 // Mock the health service
 jest.mock('../src/services/HealthService', () => ({
@@ -18,6 +20,9 @@ jest.mock('../src/services/HealthService', () => ({
     requestPermission: jest.fn(),
     getPermissionStatus: jest.fn(),
     getStepsSince: jest.fn(),
+    getActivitySince: jest.fn(),
+    getSupportedActivitySources: jest.fn(),
+    getStepSource: jest.fn(),
     needsHealthConnectInstall: jest.fn(),
     openHealthSettings: jest.fn(),
     openHealthConnectPlayStore: jest.fn(),
@@ -44,6 +49,12 @@ describe('useStepGathering', () => {
     mockHealthService.checkPermission.mockResolvedValue('authorized');
     mockHealthService.getPermissionStatus.mockReturnValue('authorized');
     mockHealthService.getStepsSince.mockResolvedValue(0);
+    // Steps are read through getStepsSince; other sources default to nothing
+    mockHealthService.getActivitySince.mockImplementation(async (since, sources, origin) => ({
+      steps: sources.includes('steps') ? await mockHealthService.getStepsSince(since, origin) : 0,
+    }));
+    mockHealthService.getSupportedActivitySources.mockReturnValue(['steps', 'distance']);
+    mockHealthService.getStepSource.mockReturnValue('health_connect');
     mockHealthService.needsHealthConnectInstall.mockReturnValue(false);
     mockHealthService.openHealthSettings.mockResolvedValue(true);
     mockHealthService.openHealthConnectPlayStore.mockResolvedValue(true);
@@ -81,7 +92,7 @@ describe('useStepGathering', () => {
       expect(result.current.isAvailable).toBe(true);
     });
 
-    it('should report unavailable when health service is not available', async () => {
+    it('should fall back to GPS distance when health service is not available', async () => {
       mockHealthService.isAvailable.mockReturnValue(false);
 
       const { result } = renderHook(() => useStepGathering(), { wrapper: TestWrapper });
@@ -90,8 +101,11 @@ describe('useStepGathering', () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      expect(result.current.isAvailable).toBe(false);
-      expect(result.current.permissionStatus).toBe('unavailable');
+      expect(result.current.isAvailable).toBe(true);
+      expect(result.current.stepSource).toBe('gps');
+      expect(result.current.permissionStatus).toBe('authorized');
+      expect(result.current.supportedActivitySources).toEqual(['steps']);
+      expect(mockHealthService.checkPermission).not.toHaveBeenCalled();
     });
 
     it('should check permission status on mount', async () => {
@@ -105,7 +119,7 @@ describe('useStepGathering', () => {
       expect(result.current.permissionStatus).toBe('authorized');
     });
 
-    it('should handle initialization failure gracefully', async () => {
+    it('should fall back to GPS distance when health service fails to initialize', async () => {
       mockHealthService.initialize.mockResolvedValue(false);
       mockHealthService.getPermissionStatus.mockReturnValue('unavailable');
 
@@ -115,7 +129,47 @@ describe('useStepGathering', () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      expect(result.current.permissionStatus).toBe('unavailable');
+      expect(result.current.stepSource).toBe('gps');
+      expect(result.current.permissionStatus).toBe('authorized');
+    });
+
+    it('should credit steps estimated from distance walked', async () => {
+      mockHealthService.isAvailable.mockReturnValue(false);
+      const METERS_PER_DEGREE_LAT = 111195;
+      const fixAt = (meters: number, at: number): GpsFix => ({
+        latitude: 51.5 + meters / METERS_PER_DEGREE_LAT,
+        longitude: -0.12,
+        accuracy: 5,
+        timestamp: at,
+      });
+
+      const { result, rerender } = renderHook(
+        ({ location }: { location: GpsFix | null }) => useStepGathering({ location }),
+        { wrapper: TestWrapper, initialProps: { location: null as GpsFix | null } }
+      );
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      // Walk 200m in 40m strides
+      act(() => {
+        jest.advanceTimersByTime(31000);
+      });
+      const start = Date.now();
+      for (let i = 0; i <= 5; i++) {
+        rerender({ location: fixAt(i * 40, start + i * 30000) });
+      }
+
+      let newSteps = 0;
+      await act(async () => {
+        newSteps = (await result.current.syncSteps()).newSteps;
+      });
+
+      // ~1.35 step-equivalents per metre
+      expect(newSteps).toBeGreaterThan(260);
+      expect(newSteps).toBeLessThanOrEqual(270);
+      expect(result.current.availableSteps).toBe(newSteps);
+      expect(mockHealthService.getActivitySince).not.toHaveBeenCalled();
     });
   });
 
@@ -226,11 +280,53 @@ describe('useStepGathering', () => {
       });
     });
 
-    it('should not credit historical steps on first sync', async () => {
+    it('should read steps from the preferred source device', async () => {
+      mockAsyncStorage.getItem.mockResolvedValue(
+        JSON.stringify({ preferredStepOrigin: 'com.watch' })
+      );
+      mockHealthService.getStepsSince.mockResolvedValue(1200);
+
+      const { result } = renderHook(() => useStepGathering(), { wrapper: TestWrapper });
+
+      await waitFor(() => {
+        expect(result.current.preferredStepOrigin).toBe('com.watch');
+      });
+
+      // Advance time to allow debounce
+      act(() => {
+        jest.advanceTimersByTime(31000);
+      });
+
+      await act(async () => {
+        const syncResult = await result.current.syncSteps();
+        expect(syncResult.newSteps).toBe(1200);
+      });
+      expect(mockHealthService.getStepsSince).toHaveBeenCalledWith(expect.any(Number), 'com.watch');
+    });
+
+    it('should credit the welcome window on first sync', async () => {
       mockHealthService.getStepsSince.mockResolvedValue(10000);
+      const now = Date.now();
 
       const { result } = renderHook(() => useStepGathering(), { wrapper: TestWrapper });
 
+      await waitFor(() => {
+        expect(result.current.availableSteps).toBe(10000);
+      });
+      // waitFor advances the fake clock a little while polling
+      const [since] = mockHealthService.getStepsSince.mock.calls[0];
+      expect(since).toBeGreaterThanOrEqual(now - STEP_CREDIT_POLICY.welcomeWindowMs);
+      expect(since).toBeLessThanOrEqual(Date.now() - STEP_CREDIT_POLICY.welcomeWindowMs);
+    });
+
+    it('should not credit historical steps when there is no welcome window', async () => {
+      mockHealthService.getStepsSince.mockResolvedValue(10000);
+      const creditPolicy = { ...STEP_CREDIT_POLICY, welcomeWindowMs: 0 };
+
+      const { result } = renderHook(() => useStepGathering({ creditPolicy }), {
+        wrapper: TestWrapper,
+      });
+
       await waitFor(() => {
         expect(result.current.isLoading).toBe(false);
       });
@@ -240,6 +336,150 @@ describe('useStepGathering', () => {
         const syncResult = await result.current.syncSteps();
         expect(syncResult.newSteps).toBe(0);
       });
+      expect(mockHealthService.getStepsSince).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Step Credit Policy', () => {
+    const HOUR = 60 * 60 * 1000;
+    const DAY = 24 * HOUR;
+
+    // Load a save, then authorise, so the sync under test is the only one to run
+    async function renderWithSave(save: object, creditPolicy = STEP_CREDIT_POLICY) {
+      mockHealthService.getPermissionStatus.mockReturnValue('not_determined');
+      mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify({ availableSteps: 1, ...save }));
+
+      const hook = renderHook(() => useStepGathering({ creditPolicy }), {
+        wrapper: TestWrapper,
+      });
+      await waitFor(() => {
+        expect(hook.result.current.isLoading).toBe(false);
+        expect(hook.result.current.availableSteps).toBe(1);
+      });
+
+      mockHealthService.getPermissionStatus.mockReturnValue('authorized');
+      return hook;
+    }
+
+    it('should reach back no further than the catch-up window', async () => {
+      mockHealthService.getStepsSince.mockResolvedValue(20000);
+      const { result } = await renderWithSave({ lastSyncTimestamp: Date.now() - 30 * DAY });
+
+      await act(async () => {
+        await result.current.syncSteps();
+      });
+
+      expect(mockHealthService.getStepsSince).toHaveBeenCalledWith(
+        Date.now() - STEP_CREDIT_POLICY.maxCatchUpMs,
+        null
+      );
+    });
+
+    it('should read from the previous sync within the catch-up window', async () => {
+      const lastSyncTimestamp = Date.now() - 2 * HOUR;
+      const { result } = await renderWithSave({ lastSyncTimestamp });
+
+      await act(async () => {
+        await result.current.syncSteps();
+      });
+
+      expect(mockHealthService.getStepsSince).toHaveBeenCalledWith(lastSyncTimestamp, null);
+    });
+
+    it('should carry steps over the daily cap to the next day', async () => {
+      const creditPolicy = { ...STEP_CREDIT_POLICY, dailyCap: 5000, overflow: 'carry' as const };
+      mockHealthService.getStepsSince.mockResolvedValue(8000);
+      const { result } = await renderWithSave(
+        { lastSyncTimestamp: Date.now() - HOUR },
+        creditPolicy
+      );
+
+      await act(async () => {
+        const syncResult = await result.current.syncSteps();
+        expect(syncResult.newSteps).toBe(5000);
+        expect(syncResult.carriedOver).toBe(3000);
+      });
+      expect(result.current.availableSteps).toBe(5001);
+      expect(result.current.stepCarryOver).toBe(3000);
+
+      // Nothing more is credited today
+      mockHealthService.getStepsSince.mockResolvedValue(1000);
+      act(() => {
+        jest.advanceTimersByTime(HOUR);
+      });
+      await act(async () => {
+        const syncResult = await result.current.syncSteps();
+        expect(syncResult.newSteps).toBe(0);
+      });
+      expect(result.current.stepCarryOver).toBe(4000);
+
+      // The held steps are credited the next day
+      mockHealthService.getStepsSince.mockResolvedValue(0);
+      act(() => {
+        jest.advanceTimersByTime(DAY);
+      });
+      await act(async () => {
+        const syncResult = await result.current.syncSteps();
+        expect(syncResult.newSteps).toBe(4000);
+      });
+      expect(result.current.availableSteps).toBe(9001);
+      expect(result.current.stepCarryOver).toBe(0);
+    });
+
+    it('should count steps credited today from other sources towards the daily cap', async () => {
+      const creditPolicy = { ...STEP_CREDIT_POLICY, dailyCap: 5000, overflow: 'lose' as const };
+      const now = Date.now();
+      let stepLedger = StepLedgerService.createEmptyStepLedger();
+      stepLedger = StepLedgerService.recordSync(stepLedger, 3000, 'gps', now, now);
+      stepLedger = StepLedgerService.recordSync(stepLedger, 9000, 'cheat', now, now);
+      mockHealthService.getStepsSince.mockResolvedValue(4000);
+      const { result } = await renderWithSave(
+        { lastSyncTimestamp: now - HOUR, stepLedger },
+        creditPolicy
+      );
+
+      await act(async () => {
+        const syncResult = await result.current.syncSteps();
+        expect(syncResult.newSteps).toBe(2000);
+      });
+    });
+
+    it('should drop steps over the daily cap when overflow is lost', async () => {
+      const creditPolicy = { ...STEP_CREDIT_POLICY, dailyCap: 5000, overflow: 'lose' as const };
+      mockHealthService.getStepsSince.mockResolvedValue(8000);
+      const { result } = await renderWithSave(
+        { lastSyncTimestamp: Date.now() - HOUR },
+        creditPolicy
+      );
+
+      await act(async () => {
+        const syncResult = await result.current.syncSteps();
+        expect(syncResult.newSteps).toBe(5000);
+        expect(syncResult.carriedOver).toBe(0);
+      });
+      expect(result.current.stepCarryOver).toBe(0);
+    });
+
+    it('should credit effort from the chosen activity sources', async () => {
+      mockHealthService.getSupportedActivitySources.mockReturnValue(['steps', 'distance_cycling']);
+      mockHealthService.getActivitySince.mockResolvedValue({ distance_cycling: 5000 });
+      const { result } = await renderWithSave({
+        lastSyncTimestamp: Date.now() - HOUR,
+        activitySources: ['distance_cycling'],
+      });
+      expect(result.current.activitySources).toEqual(['distance_cycling']);
+
+      await act(async () => {
+        const syncResult = await result.current.syncSteps();
+        expect(syncResult.newSteps).toBe(2000);
+      });
+
+      expect(mockHealthService.getActivitySince).toHaveBeenCalledWith(
+        expect.any(Number),
+        ['distance_cycling'],
+        null
+      );
+      expect(result.current.availableSteps).toBe(2001);
     });
   });
 
@@ -265,7 +505,7 @@ describe('useStepGathering', () => {
       });
 
       act(() => {
-        result.current.spendSteps(STEPS_PER_GATHER);
+        result.current.spendSteps(EFFORT_PER_GATHER);
       });
 
       await waitFor(() => {
@@ -371,7 +611,7 @@ describe('useStepGathering', () => {
         expect(gatherResult.success).toBe(true);
         expect(gatherResult.resourceId).toBeDefined();
         expect(gatherResult.quantity).toBeGreaterThan(0);
-        expect(gatherResult.stepsSpent).toBe(STEPS_PER_GATHER);
+        expect(gatherResult.effortSpent).toBe(EFFORT_PER_GATHER);
       });
 
       // Should call onGather callback
@@ -0,0 +1,185 @@
+// Unit tests for the water layer, from the offline build to spawn modifiers
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getWaterCategory, NEAR_COAST_KM, NEAR_RIVER_KM } from '../src/config/water';
+import { GeoDataService } from '../src/services/GeoDataService';
+import { NodeTileLoader } from '../src/services/NodeTileLoader';
+import { resourceSpawnService } from '../src/services/ResourceSpawnService';
+import { createSeededRandom } from '../src/utils/random';
+import { LocationGeoData, WaterData } from '../src/types/gis';
+import { BiomeCode } from '../src/types/resources';
+import { createSchema, createTileRow, INSERT_TILE_SQL } from '../scripts/gis/buildSqliteBundle';
+import { computeWaterRecords, pointToSegmentKm } from '../scripts/gis/processWater';
+import { Line } from '../scripts/gis/geometryUtils';
+
+describe('getWaterCategory', () => {
+  it('ranks lake over coast over river', () => {
+    expect(getWaterCategory({ coastDistanceKm: 1, riverDistanceKm: 1, isLake: true })).toBe('lake');
+    expect(getWaterCategory({ coastDistanceKm: 1, riverDistanceKm: 1, isLake: false })).toBe(
+      'coast'
+    );
+    expect(getWaterCategory({ riverDistanceKm: NEAR_RIVER_KM, isLake: false })).toBe('river');
+  });
+
+  it('separates dry tiles from tiles without water data', () => {
+    expect(getWaterCategory({ coastDistanceKm: NEAR_COAST_KM + 1, isLake: false })).toBe('inland');
+    expect(getWaterCategory({ isLake: false })).toBe('inland');
+    expect(getWaterCategory(undefined)).toBe('unknown');
+  });
+});
+
+describe('processWater', () => {
+  // A north-south line along 0°E, from 51°N to 52°N
+  const meridian: Line = [
+    [0, 51],
+    [0, 52],
+  ];
+
+  it('measures the distance to the nearest point on a segment', () => {
+    // 0.1° of longitude at 51.5°N is about 6.9km
+    expect(pointToSegmentKm(51.5, 0.1, meridian)).toBeCloseTo(6.93, 1);
+    // Beyond the end of the segment, the distance is to the end point
+    expect(pointToSegmentKm(53, 0, meridian)).toBeCloseTo(110.57, 1);
+  });
+
+  it('measures segments across the antimeridian the short way', () => {
+    expect(
+      pointToSegmentKm(0, 179.9, [
+        [-179.9, -1],
+        [-179.9, 1],
+      ])
+    ).toBeCloseTo(22.3, 1);
+  });
+
+  it('records distances within the search radius and lake tiles', () => {
+    // gcpv covers about 51.50-51.68°N, 0.35°W-0°E; u11u is east of the lake
+    const lake = [
+      [
+        [-1, 51],
+        [1, 51],
+        [1, 52],
+        [-1, 52],
+        [-1, 51],
+      ] as Line,
+    ];
+    const records = computeWaterRecords(
+      [
+        { geohash: 'gcpv', lat: 51.59, lng: -0.18 },
+        { geohash: 'u11u', lat: 51.42, lng: 2.64 },
+      ],
+      { coastlines: [meridian], rivers: [], lakes: [lake] }
+    );
+
+    expect(records[0].coastDistanceKm).toBeCloseTo(12.4, 0);
+    expect(records[0].riverDistanceKm).toBeNull();
+    expect(records[0].isLake).toBe(true);
+    expect(records[1].coastDistanceKm).toBeNull();
+    expect(records[1].isLake).toBe(false);
+  });
+});
+
+describe('water spawn modifiers', () => {
+  function geoData(biome: BiomeCode, realm: string, water?: WaterData): LocationGeoData {
+    return {
+      geology: { primaryLithology: 'chalk', secondaryLithologies: [], confidence: 0.8 },
+      biome: { type: biome, realm, confidence: 0.8 },
+      water,
+      dataSource: 'detailed',
+    };
+  }
+
+  function count(pick: (random: () => number) => { id: string } | null, id: string): number {
+    const random = createSeededRandom(11);
+    let found = 0;
+    for (let i = 0; i < 1000; i++) {
+      if (pick(random)?.id === id) found++;
+    }
+    return found;
+  }
+
+  it('turns up hard cobbles by rivers, even on soft rock', () => {
+    const stones = (data: LocationGeoData) => (random: () => number) =>
+      resourceSpawnService.getRandomStoneForLocation(data, random);
+    const dry = geoData('temperate_broadleaf_mixed', 'Palearctic', { isLake: false });
+    const river = geoData('temperate_broadleaf_mixed', 'Palearctic', {
+      riverDistanceKm: 2,
+      isLake: false,
+    });
+
+    expect(count(stones(dry), 'quartzite')).toBe(0);
+    expect(count(stones(river), 'quartzite')).toBeGreaterThan(0);
+  });
+
+  it('keeps foods that also grow in an inland biome away from the coast', () => {
+    // Coconut grows in mangrove and tropical moist broadleaf
+    const foods = (data: LocationGeoData) => (random: () => number) =>
+      resourceSpawnService.getRandomFoodForLocation(data, random);
+    const tropical = (water?: WaterData) =>
+      geoData('tropical_moist_broadleaf', 'Indomalayan', water);
+
+    expect(count(foods(tropical()), 'coconut')).toBeGreaterThan(0);
+    expect(
+      count(foods(tropical({ coastDistanceKm: 3, isLake: false })), 'coconut')
+    ).toBeGreaterThan(0);
+    expect(count(foods(tropical({ isLake: false })), 'coconut')).toBeGreaterThan(0);
+  });
+
+  it('does not filter resources in coastal biomes', () => {
+    const mangrove = geoData('mangrove', 'Indomalayan', { isLake: false });
+    expect(
+      resourceSpawnService.getRandomFoodForLocation(mangrove, createSeededRandom(3))
+    ).not.toBeNull();
+  });
+});
+
+describe('tile water', () => {
+  let tmpDir: string;
+  let loader: NodeTileLoader;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'water-test-'));
+    const dbPath = path.join(tmpDir, 'tiles.db');
+    const db = new Database(dbPath);
+    createSchema(db);
+    const geology = {
+      lat: 51.5,
+      lng: -0.1,
+      primaryLithology: 'clay',
+      secondaryLithologies: [],
+      confidence: 0.9,
+    };
+    const insert = db.prepare(INSERT_TILE_SQL);
+    insert.run(
+      createTileRow('gcpv', { geohash: 'gcpv', ...geology }, undefined, {
+        geohash: 'gcpv',
+        lat: 51.5,
+        lng: -0.1,
+        coastDistanceKm: null,
+        riverDistanceKm: 1.5,
+        isLake: false,
+      })
+    );
+    // City detail has no water of its own; it comes from the precision-4 tile
+    insert.run(createTileRow('gcpvj', { geohash: 'gcpvj', ...geology }, undefined));
+    db.close();
+    loader = new NodeTileLoader(dbPath);
+  });
+
+  afterEach(() => {
+    loader.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('carries water from the build to the location data', async () => {
+    expect(loader.getTile('gcpvj')?.water).toBeUndefined();
+
+    const data = await new GeoDataService({ tileLoader: loader }).getLocationData(51.5074, -0.1278);
+
+    expect(data.geohash).toBe('gcpvj');
+    expect(data.water).toEqual({ riverDistanceKm: 1.5, isLake: false });
+    expect(getWaterCategory(data.water)).toBe('river');
+  });
+});
@@ -81,7 +81,8 @@ export default {
       supportsTablet: true,
       bundleIdentifier: `com.jbeshir.walkforageapp${appSuffix}`,
       infoPlist: {
-        NSHealthShareUsageDescription: 'WalkForage uses your step count to gather resources.',
+        NSHealthShareUsageDescription:
+          'WalkForage uses your steps, distance and active energy to gather resources.',
       },
     },
     android: {
@@ -92,7 +93,12 @@ export default {
       edgeToEdgeEnabled: true,
       predictiveBackGestureEnabled: false,
       package: `com.jbeshir.walkforageapp${appSuffix}`,
-      permissions: ['android.permission.health.READ_STEPS'],
+      permissions: [
+        'android.permission.health.READ_STEPS',
+        'android.permission.health.READ_DISTANCE',
+        'android.permission.health.READ_WHEELCHAIR_PUSHES',
+        'android.permission.health.READ_ACTIVE_CALORIES_BURNED',
+      ],
       config: {
         googleMaps: {
           apiKey: process.env.GOOGLE_MAPS_API_KEY ?? '',
@@ -24,6 +24,7 @@ const mockLocationSubscription = {
 };
 
 jest.mock('expo-location', () => ({
+  getForegroundPermissionsAsync: jest.fn(() => Promise.resolve({ status: 'granted' })),
   requestForegroundPermissionsAsync: jest.fn(() => Promise.resolve({ status: 'granted' })),
   requestBackgroundPermissionsAsync: jest.fn(() => Promise.resolve({ status: 'granted' })),
   watchPositionAsync: jest.fn(() => Promise.resolve(mockLocationSubscription)),
@@ -107,6 +108,21 @@ jest.mock('expo-file-system', () => ({
   },
 }));
 
+// Mock expo-crypto with Node's random source
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: jest.fn(
+    (byteCount: number) => new Uint8Array(jest.requireActual('crypto').randomBytes(byteCount))
+  ),
+}));
+
+// Mock expo-constants
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  default: {
+    expoConfig: { version: '1.0.0' },
+  },
+}));
+
 // Mock AppState subscription
 const mockAppStateSubscription = {
   remove: jest.fn(),
@@ -0,0 +1,244 @@
+/**
+ * buildRegionPack.ts - Build an offline region pack for a bounding box
+ *
+ * A region pack is a small SQLite file with the same tiles table as tiles.db,
+ * holding every raw record inside a bounding box at its own precision. Players
+ * install packs on the Forage screen to get ~5km detail for an area.
+ *
+ * Usage:
+ *   npx tsx scripts/gis/buildRegionPack.ts --id=london --name="London" \
+ *     --bbox=51.28,-0.51,51.69,0.33 [--lithology=path/to/detail.json]
+ *
+ * --bbox is minLat,minLng,maxLat,maxLng. --lithology adds a raw lithology file
+ * (same format as lithology_raw.json), e.g. precision-5 records fetched for the area.
+ *
+ * Input:
+ *   - scripts/gis/output/lithology_raw.json
+ *   - scripts/gis/output/cities_lithology.json
+ *   - scripts/gis/output/biomes_raw.json
+ *   - scripts/gis/output/water_raw.json (optional)
+ *   - scripts/gis/output/regolith_raw.json (optional)
+ *   - scripts/gis/output/elevation_raw.json (optional)
+ *
+ * Output:
+ *   - assets/gis/regions/<id>.db
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  GeologyRecord,
+  BiomeRecord,
+  WaterRecord,
+  RegolithRecord,
+  ElevationRecord,
+  createSchema,
+  createTileRow,
+  INSERT_TILE_SQL,
+  loadGeologyData,
+  loadCityGeologyData,
+  loadBiomeData,
+  loadWaterData,
+  loadRegolithData,
+  loadElevationData,
+  loadPreviousManifest,
+} from './buildSqliteBundle';
+import {
+  RegionPackInfo,
+  createRegionPackMetadata,
+  getRegionPackFileName,
+  isValidRegionPackId,
+  parseBounds,
+} from '../../src/services/RegionPackService';
+import { GeohashBounds } from '../../src/types/gis';
+
+// Paths
+const SCRIPT_DIR = __dirname;
+const REGIONS_DIR = path.join(SCRIPT_DIR, '../../assets/gis/regions');
+
+interface RegionPackOptions {
+  id: string;
+  name: string;
+  bounds: GeohashBounds;
+  baseVersion: string;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(): { id?: string; name?: string; bbox?: string; lithology?: string } {
+  const args = process.argv.slice(2);
+  const get = (flag: string) =>
+    args.find((arg) => arg.startsWith(`--${flag}=`))?.slice(flag.length + 3);
+  return {
+    id: get('id'),
+    name: get('name'),
+    bbox: get('bbox'),
+    lithology: get('lithology'),
+  };
+}
+
+/**
+ * Find the biome for a geohash, falling back to the nearest coarser record
+ * (biome data is precision-4, so precision-5 tiles take their parent's biome)
+ */
+function findBiome(biomeMap: Map<string, BiomeRecord>, geohash: string): BiomeRecord | undefined {
+  for (let length = geohash.length; length >= 3; length--) {
+    const biome = biomeMap.get(geohash.substring(0, length));
+    if (biome) return biome;
+  }
+  return undefined;
+}
+
+/**
+ * Write a region pack of the records inside a bounding box.
+ * Later geology records override earlier ones for the same geohash, so pass
+ * the most detailed sources last.
+ */
+function buildRegionPack(
+  dbPath: string,
+  options: RegionPackOptions,
+  records: {
+    geology: GeologyRecord[];
+    biomes: BiomeRecord[];
+    water?: WaterRecord[];
+    regolith?: RegolithRecord[];
+    elevation?: ElevationRecord[];
+  },
+  now: number = Date.now()
+): RegionPackInfo {
+  const { minLat, maxLat, minLng, maxLng } = options.bounds;
+  const inArea = (record: { lat: number; lng: number }) =>
+    record.lat >= minLat && record.lat <= maxLat && record.lng >= minLng && record.lng <= maxLng;
+
+  const geologyMap = new Map<string, GeologyRecord>();
+  for (const record of records.geology.filter(inArea)) {
+    geologyMap.set(record.geohash, record);
+  }
+  const biomeMap = new Map<string, BiomeRecord>();
+  for (const record of records.biomes.filter(inArea)) {
+    biomeMap.set(record.geohash, record);
+  }
+  // Water, regolith and elevation are precision-4, like the bundle; finer tiles inherit
+  // water and regolith at runtime, and elevation is looked up per precision-5 cell
+  const waterMap = new Map<string, WaterRecord>();
+  for (const record of (records.water ?? []).filter(inArea)) {
+    waterMap.set(record.geohash, record);
+  }
+  const regolithMap = new Map<string, RegolithRecord>();
+  for (const record of (records.regolith ?? []).filter(inArea)) {
+    regolithMap.set(record.geohash, record);
+  }
+  const elevationMap = new Map<string, ElevationRecord>();
+  for (const record of (records.elevation ?? []).filter(inArea)) {
+    elevationMap.set(record.geohash, record);
+  }
+  const geohashes = [...new Set([...geologyMap.keys(), ...biomeMap.keys()])].sort();
+
+  if (fs.existsSync(dbPath)) {
+    fs.unlinkSync(dbPath);
+  }
+  const db = new Database(dbPath);
+  try {
+    createSchema(db);
+    const insertTile = db.prepare(INSERT_TILE_SQL);
+    const insertMeta = db.prepare('INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)');
+
+    const info: RegionPackInfo = {
+      id: options.id,
+      name: options.name,
+      bounds: options.bounds,
+      baseVersion: options.baseVersion,
+      generatedAt: new Date(now).toISOString(),
+      tileCount: geohashes.length,
+      maxPrecision: Math.max(0, ...geohashes.map((geohash) => geohash.length)),
+    };
+
+    db.transaction(() => {
+      for (const geohash of geohashes) {
+        insertTile.run(
+          createTileRow(
+            geohash,
+            geologyMap.get(geohash),
+            findBiome(biomeMap, geohash),
+            waterMap.get(geohash),
+            regolithMap.get(geohash),
+            elevationMap.get(geohash)
+          )
+        );
+      }
+      for (const row of createRegionPackMetadata(info)) {
+        insertMeta.run(row.key, row.value);
+      }
+    })();
+
+    // Packs are shipped as single files, so don't leave a journal behind
+    db.exec('VACUUM');
+    return info;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Main function
+ */
+function main() {
+  console.log('Region Pack Builder');
+  console.log('===================\n');
+
+  const args = parseArgs();
+  const bounds = args.bbox ? parseBounds(args.bbox) : null;
+  if (!args.id || !isValidRegionPackId(args.id) || !bounds) {
+    console.log('Usage: npx tsx scripts/gis/buildRegionPack.ts --id=<id> --bbox=<bbox>');
+    console.log('  --id       lowercase letters, digits, - and _ (e.g. london)');
+    console.log('  --bbox     minLat,minLng,maxLat,maxLng');
+    console.log('  --name     display name (defaults to the id)');
+    console.log('  --lithology  extra raw lithology file, e.g. precision-5 records for the area');
+    process.exitCode = 1;
+    return;
+  }
+
+  // Load raw data, most detailed geology last so it takes precedence
+  console.log('Loading raw data...');
+  const geology = [...loadGeologyData(), ...loadCityGeologyData()];
+  if (args.lithology) {
+    const extra = JSON.parse(fs.readFileSync(args.lithology, 'utf-8'));
+    geology.push(...(extra.records as GeologyRecord[]));
+  }
+  const biomes = loadBiomeData();
+  const water = loadWaterData();
+  const regolith = loadRegolithData();
+  const elevation = loadElevationData();
+
+  if (!fs.existsSync(REGIONS_DIR)) {
+    fs.mkdirSync(REGIONS_DIR, { recursive: true });
+  }
+  const dbPath = path.join(REGIONS_DIR, getRegionPackFileName(args.id));
+  const info = buildRegionPack(
+    dbPath,
+    {
+      id: args.id,
+      name: args.name ?? args.id,
+      bounds,
+      baseVersion: loadPreviousManifest()?.version ?? 'unknown',
+    },
+    { geology, biomes, water, regolith, elevation }
+  );
+
+  const sizeMB = fs.statSync(dbPath).size / 1024 / 1024;
+  console.log(`\nRegion pack: ${dbPath} (${sizeMB.toFixed(2)} MB)`);
+  console.log(`  Tiles: ${info.tileCount} (max precision ${info.maxPrecision})`);
+  if (info.maxPrecision < 5) {
+    console.log('  No precision-5 records in this area; fetch some and pass --lithology');
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+// Export for testing
+export { buildRegionPack };
@@ -4,14 +4,31 @@
  * Creates a single SQLite database containing all tile data for efficient
  * runtime queries. This replaces the 19,000+ JSON tile files.
  *
- * Usage: npx tsx scripts/gis/buildSqliteBundle.ts
+ * Usage: npx tsx scripts/gis/buildSqliteBundle.ts [--version=2.1.0] [--overrides=a.json,b.json]
+ *
+ * The bundle version defaults to the previous manifest version with its patch
+ * number bumped. If a previous tiles.db exists, a delta pack of the rows that
+ * changed since that version is written alongside it, so installed apps can
+ * update their working copy without downloading the whole bundle.
+ *
+ * --overrides takes geology patch files exported from the app's "report local
+ * geology" screen. Their well-formed, correctly signed reports are written as
+ * precision-5 tiles, over both global and city data. Each install signs with its
+ * own key; the public keys in each patch are listed so reviewers can check which
+ * installs the reports came from.
  *
  * Input:
  *   - scripts/gis/output/lithology_raw.json
  *   - scripts/gis/output/biomes_raw.json
+ *   - scripts/gis/output/water_raw.json (optional, from processWater.ts)
+ *   - scripts/gis/output/regolith_raw.json (optional, from processRegolith.ts)
+ *   - scripts/gis/output/elevation_raw.json (optional, from processElevation.ts)
+ *   - geology patch files passed with --overrides (optional)
  *
  * Output:
  *   - assets/gis/tiles.db (SQLite database)
+ *   - assets/gis/deltas/tiles-delta-<from>-to-<to>.json (delta pack, when rebuilding)
+ *   - src/data/gis/manifest.json (version and delta chain)
  *   - src/data/gis/geology/index.json (coarse index, kept for fast init)
  *   - src/data/gis/biomes/index.json (coarse index, kept for fast init)
  */
@@ -20,6 +37,18 @@ import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import {
+  TileRow,
+  TileDeltaPack,
+  createDeltaPack,
+  getDeltaFileName,
+} from '../../src/services/TileDeltaService';
+import { getLatestOverrides, parseGeologyPatch } from '../../src/services/GeologyOverrideService';
+import { decodeGeohash } from '../../src/utils/geohash';
+import { getLithClass } from '../../src/data/gis';
+import { normalizeGeologicAge } from '../../src/config/geologicAge';
+import { encodeElevationCells } from '../../src/utils/elevation';
+import { ElevationData } from '../../src/types/gis';
 
 // Types
 interface GeologyRecord {
@@ -29,6 +58,10 @@ interface GeologyRecord {
   primaryLithology: string;
   secondaryLithologies: string[];
   confidence: number;
+  /** Macrostrat interval name of the map unit (e.g., "Late Cretaceous") */
+  age?: string;
+  /** Lithologies are already game lithologies (player reports), so skip normalizing */
+  normalized?: boolean;
 }
 
 interface BiomeRecord {
@@ -43,6 +76,35 @@ interface BiomeRecord {
   confidence: number;
 }
 
+interface WaterRecord {
+  geohash: string;
+  lat: number;
+  lng: number;
+  /** Distance from the tile centre to the coastline, null if beyond the search radius */
+  coastDistanceKm: number | null;
+  /** Distance from the tile centre to a major river, null if beyond the search radius */
+  riverDistanceKm: number | null;
+  isLake: boolean;
+}
+
+interface RegolithRecord {
+  geohash: string;
+  lat: number;
+  lng: number;
+  /** Surface material, one of REGOLITH_MATERIALS */
+  material: string;
+  /** Share of the tile the material covers (0-1) */
+  cover: number;
+}
+
+interface ElevationRecord {
+  geohash: string;
+  lat: number;
+  lng: number;
+  /** DEM summary per precision-5 cell, keyed by the cell's last geohash character */
+  cells: Record<string, ElevationData>;
+}
+
 interface RawDataFile<T> {
   _meta: {
     source: string;
@@ -51,12 +113,31 @@ interface RawDataFile<T> {
   records: T[];
 }
 
+/**
+ * A published delta pack, as listed in the manifest's delta chain
+ */
+interface DeltaChainEntry {
+  fromVersion: string;
+  toVersion: string;
+  file: string;
+  checksum: string;
+  upserts: number;
+  removals: number;
+}
+
+interface Manifest {
+  version: string;
+  deltaChain?: DeltaChainEntry[];
+}
+
 // Paths
 const SCRIPT_DIR = __dirname;
 const OUTPUT_DIR = path.join(SCRIPT_DIR, 'output');
 const GIS_DIR = path.join(SCRIPT_DIR, '../../src/data/gis');
 const ASSETS_DIR = path.join(SCRIPT_DIR, '../../assets/gis');
 const DB_PATH = path.join(ASSETS_DIR, 'tiles.db');
+const DELTAS_DIR = path.join(ASSETS_DIR, 'deltas');
+const MANIFEST_PATH = path.join(GIS_DIR, 'manifest.json');
 
 // Use temp directory for building (avoids file locking issues on network filesystems)
 const TEMP_DB_PATH = path.join(os.tmpdir(), `walkforage-tiles-${Date.now()}.db`);
@@ -292,6 +373,51 @@ function loadBiomeData(): BiomeRecord[] {
   return data.records;
 }
 
+/**
+ * Load coast, river and lake proximity data (precision-4)
+ */
+function loadWaterData(): WaterRecord[] {
+  const dataPath = path.join(OUTPUT_DIR, 'water_raw.json');
+  if (!fs.existsSync(dataPath)) {
+    console.log('  No water data found at', dataPath);
+    return [];
+  }
+
+  const content = fs.readFileSync(dataPath, 'utf-8');
+  const data: RawDataFile<WaterRecord> = JSON.parse(content);
+  return data.records;
+}
+
+/**
+ * Load surface material data (precision-4)
+ */
+function loadRegolithData(): RegolithRecord[] {
+  const dataPath = path.join(OUTPUT_DIR, 'regolith_raw.json');
+  if (!fs.existsSync(dataPath)) {
+    console.log('  No regolith data found at', dataPath);
+    return [];
+  }
+
+  const content = fs.readFileSync(dataPath, 'utf-8');
+  const data: RawDataFile<RegolithRecord> = JSON.parse(content);
+  return data.records;
+}
+
+/**
+ * Load DEM elevation data (precision-4 tiles, summarised per precision-5 cell)
+ */
+function loadElevationData(): ElevationRecord[] {
+  const dataPath = path.join(OUTPUT_DIR, 'elevation_raw.json');
+  if (!fs.existsSync(dataPath)) {
+    console.log('  No elevation data found at', dataPath);
+    return [];
+  }
+
+  const content = fs.readFileSync(dataPath, 'utf-8');
+  const data: RawDataFile<ElevationRecord> = JSON.parse(content);
+  return data.records;
+}
+
 /**
  * Load high-resolution city geology data (precision-5).
  * This data takes precedence over global precision-4 data.
@@ -308,6 +434,187 @@ function loadCityGeologyData(): GeologyRecord[] {
   return data.records;
 }
 
+/**
+ * Load player geology reports from exported patch files (precision-5).
+ * Malformed and wrongly signed reports are dropped; the latest report per geohash wins.
+ */
+function loadGeologyOverrides(patchPaths: string[]): GeologyRecord[] {
+  const confidence = new Map<string, number>();
+  const overrides = [];
+  for (const patchPath of patchPaths) {
+    const result = parseGeologyPatch(fs.readFileSync(patchPath, 'utf-8'));
+    if (!result.success) {
+      console.log(`  Skipped geology patch ${patchPath}: ${result.error}`);
+      continue;
+    }
+    if (result.rejected > 0) {
+      console.log(`  ${patchPath}: dropped ${result.rejected} malformed or wrongly signed reports`);
+    }
+    const publicKeys = new Set(result.patch.overrides.map((override) => override.publicKey));
+    for (const publicKey of publicKeys) {
+      console.log(`  ${patchPath}: reports signed by ${publicKey}`);
+    }
+    for (const override of result.patch.overrides) {
+      confidence.set(override.id, result.patch.confidence);
+      overrides.push(override);
+    }
+  }
+
+  return [...getLatestOverrides(overrides).values()].map((override) => ({
+    geohash: override.geohash,
+    ...decodeGeohash(override.geohash),
+    primaryLithology: override.lithology,
+    secondaryLithologies: [],
+    confidence: confidence.get(override.id) ?? 0,
+    normalized: true,
+  }));
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(): { version: string | null; overrides: string[] } {
+  const args = process.argv.slice(2);
+  const versionArg = args.find((arg) => arg.startsWith('--version='));
+  const overridesArg = args.find((arg) => arg.startsWith('--overrides='));
+  return {
+    version: versionArg ? versionArg.slice('--version='.length) : null,
+    overrides: overridesArg
+      ? overridesArg.slice('--overrides='.length).split(',').filter(Boolean)
+      : [],
+  };
+}
+
+/**
+ * Load the manifest written by the previous build, if any
+ */
+function loadPreviousManifest(): Manifest | null {
+  if (!fs.existsSync(MANIFEST_PATH)) return null;
+  return JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf-8'));
+}
+
+/**
+ * Bump the patch number of a semver-style version ("2.0.0" → "2.0.1")
+ */
+function bumpPatchVersion(version: string): string {
+  const parts = version.split('.').map((part) => parseInt(part, 10) || 0);
+  while (parts.length < 3) parts.push(0);
+  parts[2]++;
+  return parts.join('.');
+}
+
+const TILE_COLUMN_NAMES = [
+  'geohash',
+  'prefix',
+  'primary_lithology',
+  'secondary_lithologies',
+  'geology_confidence',
+  'biome_type',
+  'biome_confidence',
+  'ecoregion_id',
+  'realm_biome',
+  'realm',
+  'lith_class',
+  'age',
+  'coast_distance_km',
+  'river_distance_km',
+  'is_lake',
+  'regolith',
+  'regolith_cover',
+  'elevation',
+];
+const TILE_COLUMNS = TILE_COLUMN_NAMES.join(', ');
+
+/**
+ * Build a delta pack of the rows that differ between a previous bundle and the
+ * one being built. Rows are keyed by geohash: changed and added rows become
+ * upserts, rows missing from the new bundle become removals.
+ */
+function buildDeltaPack(
+  db: Database.Database,
+  previousDbPath: string,
+  fromVersion: string,
+  toVersion: string
+): TileDeltaPack {
+  db.prepare('ATTACH DATABASE ? AS previous').run(previousDbPath);
+  try {
+    // Columns added since the previous bundle compare as NULL there
+    const previousColumns = new Set(
+      (db.prepare('PRAGMA previous.table_info(tiles)').all() as { name: string }[]).map(
+        (column) => column.name
+      )
+    );
+    const previousSelect = TILE_COLUMN_NAMES.map((column) =>
+      previousColumns.has(column) ? column : `NULL AS ${column}`
+    ).join(', ');
+    const upserts = db
+      .prepare(
+        `SELECT ${TILE_COLUMNS} FROM main.tiles
+         EXCEPT SELECT ${previousSelect} FROM previous.tiles
+         ORDER BY geohash`
+      )
+      .all() as TileRow[];
+    const removals = (
+      db
+        .prepare(
+          `SELECT geohash FROM previous.tiles
+           WHERE geohash NOT IN (SELECT geohash FROM main.tiles)
+           ORDER BY geohash`
+        )
+        .all() as { geohash: string }[]
+    ).map((row) => row.geohash);
+
+    return createDeltaPack(fromVersion, toVersion, upserts, removals);
+  } finally {
+    db.exec('DETACH DATABASE previous');
+  }
+}
+
+/**
+ * Build a tiles table row from a geohash's geology, biome, water, regolith and
+ * elevation records
+ */
+function createTileRow(
+  geohash: string,
+  geology: GeologyRecord | undefined,
+  biome: BiomeRecord | undefined,
+  water?: WaterRecord,
+  regolith?: RegolithRecord,
+  elevation?: ElevationRecord
+): TileRow {
+  const normalize = (lith: string) => (geology?.normalized ? lith : normalizeLithology(lith));
+  const primaryLithology = geology ? normalize(geology.primaryLithology) : 'unknown';
+  return {
+    geohash,
+    prefix: geohash.substring(0, 3),
+    primary_lithology: primaryLithology,
+    secondary_lithologies: geology
+      ? JSON.stringify(geology.secondaryLithologies.map(normalize))
+      : '[]',
+    geology_confidence: geology?.confidence ?? 0,
+    biome_type: biome?.biomeCode ?? 'unknown',
+    biome_confidence: biome?.confidence ?? 0,
+    ecoregion_id: biome?.ecoregionId ?? null,
+    realm_biome: biome?.realmBiome ?? null,
+    realm: biome?.realm ?? null,
+    lith_class: getLithClass(primaryLithology),
+    age: normalizeGeologicAge(geology?.age),
+    coast_distance_km: water?.coastDistanceKm ?? null,
+    river_distance_km: water?.riverDistanceKm ?? null,
+    is_lake: water ? (water.isLake ? 1 : 0) : null,
+    regolith: regolith?.material ?? null,
+    regolith_cover: regolith?.cover ?? null,
+    elevation: elevation ? encodeElevationCells(elevation.cells) : null,
+  };
+}
+
+/** Insert (or replace) a TileRow, with named parameters */
+const INSERT_TILE_SQL = `
+  INSERT OR REPLACE INTO tiles
+  (geohash, prefix, primary_lithology, secondary_lithologies, geology_confidence, biome_type, biome_confidence, ecoregion_id, realm_biome, realm, lith_class, age, coast_distance_km, river_distance_km, is_lake, regolith, regolith_cover, elevation)
+  VALUES (@geohash, @prefix, @primary_lithology, @secondary_lithologies, @geology_confidence, @biome_type, @biome_confidence, @ecoregion_id, @realm_biome, @realm, @lith_class, @age, @coast_distance_km, @river_distance_km, @is_lake, @regolith, @regolith_cover, @elevation)
+`;
+
 /**
  * Create SQLite database schema
  */
@@ -324,7 +631,15 @@ function createSchema(db: Database.Database): void {
       biome_confidence REAL NOT NULL,
       ecoregion_id INTEGER,
       realm_biome TEXT,
-      realm TEXT
+      realm TEXT,
+      lith_class TEXT,
+      age TEXT,
+      coast_distance_km REAL,
+      river_distance_km REAL,
+      is_lake INTEGER,
+      regolith TEXT,
+      regolith_cover REAL,
+      elevation TEXT
     );
 
     -- Index on prefix for bulk loading by region
@@ -359,11 +674,19 @@ async function main() {
   console.log('Loading raw data...');
   const geologyRecords = loadGeologyData();
   const cityGeologyRecords = loadCityGeologyData();
+  const overrideRecords = loadGeologyOverrides(parseArgs().overrides);
   const biomeRecords = loadBiomeData();
+  const waterRecords = loadWaterData();
+  const regolithRecords = loadRegolithData();
+  const elevationRecords = loadElevationData();
 
   console.log(`  Global geology records (precision-4): ${geologyRecords.length}`);
   console.log(`  City geology records (precision-5): ${cityGeologyRecords.length}`);
+  console.log(`  Player geology reports (precision-5): ${overrideRecords.length}`);
   console.log(`  Biome records: ${biomeRecords.length}`);
+  console.log(`  Water records (precision-4): ${waterRecords.length}`);
+  console.log(`  Regolith records (precision-4): ${regolithRecords.length}`);
+  console.log(`  Elevation records (precision-4): ${elevationRecords.length}`);
 
   if (geologyRecords.length === 0 && cityGeologyRecords.length === 0 && biomeRecords.length === 0) {
     console.log('\nNo data to process. Run these scripts first:');
@@ -373,10 +696,12 @@ async function main() {
     return;
   }
 
-  // Remove old database if exists
-  if (fs.existsSync(DB_PATH)) {
-    fs.unlinkSync(DB_PATH);
-  }
+  // Work out the version being built
+  const previousManifest = loadPreviousManifest();
+  const previousVersion = previousManifest?.version ?? null;
+  const version =
+    parseArgs().version ?? (previousVersion ? bumpPatchVersion(previousVersion) : '1.0.0');
+  console.log(`\nBundle version: ${previousVersion ?? '(none)'} → ${version}`);
 
   // Create database in temp directory (avoids file locking issues on network filesystems)
   console.log('\nCreating SQLite database...');
@@ -391,11 +716,7 @@ async function main() {
   createSchema(db);
 
   // Prepare insert statement
-  const insertTile = db.prepare(`
-    INSERT OR REPLACE INTO tiles
-    (geohash, prefix, primary_lithology, secondary_lithologies, geology_confidence, biome_type, biome_confidence, ecoregion_id, realm_biome, realm)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-  `);
+  const insertTile = db.prepare(INSERT_TILE_SQL);
 
   // Create lookup maps
   // Start with global geology data (precision-4)
@@ -420,11 +741,31 @@ async function main() {
     );
   }
 
+  // Overlay player reports last - a player on the ground beats either map
+  for (const record of overrideRecords) {
+    geologyMap.set(record.geohash, record);
+  }
+
   const biomeMap = new Map<string, BiomeRecord>();
   for (const record of biomeRecords) {
     biomeMap.set(record.geohash, record);
   }
 
+  // Water and regolith are only sampled for precision-4 tiles; finer tiles inherit them at runtime
+  const waterMap = new Map<string, WaterRecord>();
+  for (const record of waterRecords) {
+    waterMap.set(record.geohash, record);
+  }
+  const regolithMap = new Map<string, RegolithRecord>();
+  for (const record of regolithRecords) {
+    regolithMap.set(record.geohash, record);
+  }
+  // Elevation is summarised per precision-5 cell, but stored on the precision-4 tile
+  const elevationMap = new Map<string, ElevationRecord>();
+  for (const record of elevationRecords) {
+    elevationMap.set(record.geohash, record);
+  }
+
   // Get all unique geohashes
   const allGeohashes = new Set([...geologyMap.keys(), ...biomeMap.keys()]);
   console.log(`  Total unique geohashes: ${allGeohashes.size}`);
@@ -519,21 +860,15 @@ async function main() {
   console.log('\nInserting tiles into database...');
   const insertMany = db.transaction((geohashes: string[]) => {
     for (const geohash of geohashes) {
-      const geology = geologyMap.get(geohash);
-      const biome = biomeMap.get(geohash);
-      const prefix = geohash.substring(0, 3);
-
       insertTile.run(
-        geohash,
-        prefix,
-        geology ? normalizeLithology(geology.primaryLithology) : 'unknown',
-        geology ? JSON.stringify(geology.secondaryLithologies.map(normalizeLithology)) : '[]',
-        geology?.confidence ?? 0,
-        biome?.biomeCode ?? 'unknown',
-        biome?.confidence ?? 0,
-        biome?.ecoregionId ?? null,
-        biome?.realmBiome ?? null,
-        biome?.realm ?? null
+        createTileRow(
+          geohash,
+          geologyMap.get(geohash),
+          biomeMap.get(geohash),
+          waterMap.get(geohash),
+          regolithMap.get(geohash),
+          elevationMap.get(geohash)
+        )
       );
     }
   });
@@ -553,12 +888,39 @@ async function main() {
 
   // Add metadata
   const insertMeta = db.prepare('INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)');
-  insertMeta.run('version', '1.0.0');
+  insertMeta.run('version', version);
   insertMeta.run('generatedAt', new Date().toISOString());
   insertMeta.run('geologySource', 'Macrostrat API');
   insertMeta.run('biomeSource', 'Resolve Ecoregions 2017');
+  if (waterRecords.length > 0) insertMeta.run('waterSource', 'Natural Earth 10m');
+  if (regolithRecords.length > 0) {
+    insertMeta.run('regolithSource', 'Global Unconsolidated Sediments Map (GUM)');
+  }
+  if (elevationRecords.length > 0) insertMeta.run('elevationSource', 'NOAA ETOPO1');
   insertMeta.run('totalTiles', String(allGeohashes.size));
 
+  // Diff against the previous bundle before it is replaced
+  let deltaEntry: DeltaChainEntry | null = null;
+  if (previousVersion && previousVersion !== version && fs.existsSync(DB_PATH)) {
+    console.log(`\nBuilding delta pack from ${previousVersion}...`);
+    const pack = buildDeltaPack(db, DB_PATH, previousVersion, version);
+    if (!fs.existsSync(DELTAS_DIR)) {
+      fs.mkdirSync(DELTAS_DIR, { recursive: true });
+    }
+    const deltaPath = path.join(DELTAS_DIR, getDeltaFileName(previousVersion, version));
+    fs.writeFileSync(deltaPath, JSON.stringify(pack));
+    deltaEntry = {
+      fromVersion: previousVersion,
+      toVersion: version,
+      file: path.relative(path.join(SCRIPT_DIR, '../..'), deltaPath),
+      checksum: pack.checksum,
+      upserts: pack.upserts.length,
+      removals: pack.removals.length,
+    };
+    console.log(`  ${pack.upserts.length} changed rows, ${pack.removals.length} removed rows`);
+    console.log(`  Written to: ${deltaPath}`);
+  }
+
   // Checkpoint and close WAL
   db.pragma('wal_checkpoint(TRUNCATE)');
   db.close();
@@ -579,20 +941,26 @@ async function main() {
   console.log(`\nDatabase created: ${DB_PATH}`);
   console.log(`  Size: ${(dbStats.size / 1024 / 1024).toFixed(2)} MB`);
 
-  // Write manifest
-  const manifestPath = path.join(GIS_DIR, 'manifest.json');
+  // Write manifest, extending the delta chain from the previous build
+  const deltaChain = [...(previousManifest?.deltaChain ?? []), ...(deltaEntry ? [deltaEntry] : [])];
   const manifestContent = JSON.stringify(
     {
-      version: '2.0.0',
+      version,
       format: 'sqlite',
       generatedAt: new Date().toISOString(),
       sources: {
         geology: geologyRecords.length > 0 ? 'Macrostrat API' : null,
         biomes: biomeRecords.length > 0 ? 'Resolve Ecoregions 2017' : null,
+        water: waterRecords.length > 0 ? 'Natural Earth 10m' : null,
+        regolith: regolithRecords.length > 0 ? 'Global Unconsolidated Sediments Map (GUM)' : null,
+        elevation: elevationRecords.length > 0 ? 'NOAA ETOPO1' : null,
       },
       statistics: {
         geologyRecords: geologyRecords.length,
         biomeRecords: biomeRecords.length,
+        waterRecords: waterRecords.length,
+        regolithRecords: regolithRecords.length,
+        elevationRecords: elevationRecords.length,
         totalTiles: allGeohashes.size,
         precision3Tiles: precision3Groups.size,
         databaseSizeBytes: dbStats.size,
@@ -601,11 +969,12 @@ async function main() {
       files: {
         database: 'assets/gis/tiles.db',
       },
+      deltaChain,
     },
     null,
     2
   );
-  fs.writeFileSync(manifestPath, manifestContent);
+  fs.writeFileSync(MANIFEST_PATH, manifestContent);
 
   console.log('\n=========================');
   console.log('Build Complete!');
@@ -621,4 +990,21 @@ if (require.main === module) {
 }
 
 // Export for testing
-export { normalizeLithology, SPECIFIC_ROCKS };
+export type { GeologyRecord, BiomeRecord, WaterRecord, RegolithRecord, ElevationRecord, Manifest };
+export {
+  normalizeLithology,
+  SPECIFIC_ROCKS,
+  createSchema,
+  createTileRow,
+  INSERT_TILE_SQL,
+  loadGeologyData,
+  loadCityGeologyData,
+  loadGeologyOverrides,
+  loadBiomeData,
+  loadWaterData,
+  loadRegolithData,
+  loadElevationData,
+  loadPreviousManifest,
+  buildDeltaPack,
+  bumpPatchVersion,
+};
@@ -15,7 +15,13 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { getCitiesByPopulation } from './cities';
-import { queryMacrostrat, selectBestLithology, GeologyRecord } from './fetchLithology';
+import {
+  fetchMacrostratUnits,
+  extractLithologies,
+  getUnitAge,
+  selectBestLithology,
+  GeologyRecord,
+} from './fetchLithology';
 import { encodeGeohash } from './geohashUtils';
 
 // Configuration
@@ -77,7 +83,8 @@ async function processGridPoint(
   lng: number,
   geohash: string
 ): Promise<GeologyRecord | null> {
-  const lithologies = await queryMacrostrat(lat, lng);
+  const units = await fetchMacrostratUnits(lat, lng);
+  const lithologies = extractLithologies(units);
 
   if (lithologies.length === 0) {
     return null;
@@ -93,6 +100,7 @@ async function processGridPoint(
     primaryLithology,
     secondaryLithologies,
     confidence: Math.min(0.95, 0.6 + lithologies.length * 0.1), // Higher base confidence for city data
+    age: getUnitAge(units),
     source: 'macrostrat',
   };
 }
@@ -41,6 +41,8 @@ interface GeologyRecord {
   primaryLithology: string;
   secondaryLithologies: string[];
   confidence: number;
+  /** Macrostrat interval name of the map unit (e.g., "Late Cretaceous") */
+  age?: string;
   source: 'macrostrat';
 }
 
@@ -197,10 +199,9 @@ const MAX_RETRIES = 360; // ~1 hour of retries at 10s intervals
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 /**
- * Query Macrostrat API for a specific location with retry logic.
- * Returns lithologies sorted by specificity (most specific first).
+ * Fetch the Macrostrat map units at a specific location, with retry logic.
  */
-async function queryMacrostrat(lat: number, lng: number): Promise<string[]> {
+async function fetchMacrostratUnits(lat: number, lng: number): Promise<MacrostratMapUnit[]> {
   const url = `https://macrostrat.org/api/v2/geologic_units/map?lat=${lat}&lng=${lng}&adjacents=false`;
 
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
@@ -226,74 +227,7 @@ async function queryMacrostrat(lat: number, lng: number): Promise<string[]> {
       if (!data.success?.data || !Array.isArray(data.success.data)) {
         return [];
       }
-
-      // Extract lithologies from map units, prioritizing structured fields
-      const allLithologies: string[] = [];
-
-      for (const unit of data.success.data) {
-        if (unit.lith && unit.lith.trim()) {
-          // First, try to parse structured fields like "Major:{granite,gneiss}"
-          const structured = parseStructuredLith(unit.lith);
-
-          if (structured.major.length > 0) {
-            // Add major lithologies (high priority)
-            allLithologies.push(...structured.major);
-          }
-          if (structured.minor.length > 0) {
-            // Add minor lithologies (medium priority)
-            allLithologies.push(...structured.minor);
-          }
-
-          // Also parse plain semicolon/comma-separated values for unstructured data
-          // Remove structured fields first, then split on both ; and ,
-          const plainText = unit.lith
-            .replace(/Major:?\{[^}]+\}/gi, '')
-            .replace(/Minor:?\{[^}]+\}/gi, '')
-            .replace(/Incidental:?\{[^}]+\}/gi, '');
-
-          // Split on semicolons first (major separator)
-          for (const segment of plainText.split(';')) {
-            // Then split on commas (for lists like "basalt, olivine basalt, tholeiite")
-            const parts = segment.split(',').map((l) => l.trim().toLowerCase());
-            for (const part of parts) {
-              if (part && part.length > 1) {
-                allLithologies.push(part);
-              }
-            }
-          }
-        }
-
-        // Also check the name field for rock type hints if no lith data
-        if (unit.name && !unit.lith) {
-          const nameLower = unit.name.toLowerCase();
-          const rockHints = [
-            'granite',
-            'limestone',
-            'sandstone',
-            'shale',
-            'basalt',
-            'gneiss',
-            'schist',
-            'marble',
-            'quartzite',
-            'slate',
-            'dolomite',
-          ];
-          for (const hint of rockHints) {
-            if (nameLower.includes(hint)) {
-              allLithologies.push(hint);
-            }
-          }
-        }
-      }
-
-      // Deduplicate and sort by specificity (most specific first)
-      const unique = [...new Set(allLithologies)];
-      return unique.sort((a, b) => {
-        const aScore = getSpecificityScore(a).score;
-        const bScore = getSpecificityScore(b).score;
-        return bScore - aScore;
-      });
+      return data.success.data;
     } catch (error) {
       // Retry on network errors
       if (attempt < MAX_RETRIES) {
@@ -312,13 +246,107 @@ async function queryMacrostrat(lat: number, lng: number): Promise<string[]> {
   return []; // Should not reach here
 }
 
+/**
+ * Extract lithologies from map units, sorted by specificity (most specific first).
+ */
+function extractLithologies(units: MacrostratMapUnit[]): string[] {
+  // Extract lithologies from map units, prioritizing structured fields
+  const allLithologies: string[] = [];
+
+  for (const unit of units) {
+    if (unit.lith && unit.lith.trim()) {
+      // First, try to parse structured fields like "Major:{granite,gneiss}"
+      const structured = parseStructuredLith(unit.lith);
+
+      if (structured.major.length > 0) {
+        // Add major lithologies (high priority)
+        allLithologies.push(...structured.major);
+      }
+      if (structured.minor.length > 0) {
+        // Add minor lithologies (medium priority)
+        allLithologies.push(...structured.minor);
+      }
+
+      // Also parse plain semicolon/comma-separated values for unstructured data
+      // Remove structured fields first, then split on both ; and ,
+      const plainText = unit.lith
+        .replace(/Major:?\{[^}]+\}/gi, '')
+        .replace(/Minor:?\{[^}]+\}/gi, '')
+        .replace(/Incidental:?\{[^}]+\}/gi, '');
+
+      // Split on semicolons first (major separator)
+      for (const segment of plainText.split(';')) {
+        // Then split on commas (for lists like "basalt, olivine basalt, tholeiite")
+        const parts = segment.split(',').map((l) => l.trim().toLowerCase());
+        for (const part of parts) {
+          if (part && part.length > 1) {
+            allLithologies.push(part);
+          }
+        }
+      }
+    }
+
+    // Also check the name field for rock type hints if no lith data
+    if (unit.name && !unit.lith) {
+      const nameLower = unit.name.toLowerCase();
+      const rockHints = [
+        'granite',
+        'limestone',
+        'sandstone',
+        'shale',
+        'basalt',
+        'gneiss',
+        'schist',
+        'marble',
+        'quartzite',
+        'slate',
+        'dolomite',
+      ];
+      for (const hint of rockHints) {
+        if (nameLower.includes(hint)) {
+          allLithologies.push(hint);
+        }
+      }
+    }
+  }
+
+  // Deduplicate and sort by specificity (most specific first)
+  const unique = [...new Set(allLithologies)];
+  return unique.sort((a, b) => {
+    const aScore = getSpecificityScore(a).score;
+    const bScore = getSpecificityScore(b).score;
+    return bScore - aScore;
+  });
+}
+
+/**
+ * Get the age of the first dated map unit: its best-fit interval if Macrostrat
+ * gives one, otherwise the interval at its base (then its top).
+ */
+function getUnitAge(units: MacrostratMapUnit[]): string | undefined {
+  for (const unit of units) {
+    const age = unit.best_int_name || unit.b_int_name || unit.t_int_name;
+    if (age) return age;
+  }
+  return undefined;
+}
+
+/**
+ * Query Macrostrat API for a specific location with retry logic.
+ * Returns lithologies sorted by specificity (most specific first).
+ */
+async function queryMacrostrat(lat: number, lng: number): Promise<string[]> {
+  return extractLithologies(await fetchMacrostratUnits(lat, lng));
+}
+
 /**
  * Process a single geohash - query its center point.
  * Uses specificity ranking to select the best primary lithology.
  */
 async function processGeohash(geohash: string): Promise<GeologyRecord | null> {
   const { lat, lng } = decodeGeohash(geohash);
-  const lithologies = await queryMacrostrat(lat, lng);
+  const units = await fetchMacrostratUnits(lat, lng);
+  const lithologies = extractLithologies(units);
 
   if (lithologies.length === 0) {
     return null;
@@ -335,6 +363,7 @@ async function processGeohash(geohash: string): Promise<GeologyRecord | null> {
     primaryLithology,
     secondaryLithologies,
     confidence: Math.min(0.9, 0.5 + lithologies.length * 0.1),
+    age: getUnitAge(units),
     source: 'macrostrat',
   };
 }
@@ -555,6 +584,9 @@ if (require.main === module) {
 
 export {
   queryMacrostrat,
+  fetchMacrostratUnits,
+  extractLithologies,
+  getUnitAge,
   processGeohash,
   parseStructuredLith,
   selectBestLithology,
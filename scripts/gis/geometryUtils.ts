@@ -0,0 +1,73 @@
+/**
+ * geometryUtils.ts - Shared vector geometry helpers for GIS scripts
+ *
+ * Point-in-polygon tests on GeoJSON coordinates, and streaming reads of
+ * shapefile features, for the processing scripts that sample vector layers.
+ */
+
+// @ts-expect-error - shapefile doesn't have type definitions
+import * as shapefile from 'shapefile';
+
+/** A line as [lng, lat] points, as in GeoJSON */
+export type Line = [number, number][];
+
+/** A polygon as GeoJSON rings: the first is the outline, the rest are holes */
+export type Polygon = Line[];
+
+/** A shapefile feature's geometry and attributes, as GeoJSON */
+export interface ShapefileFeature {
+  geometry: { type: string; coordinates: unknown } | null;
+  properties: Record<string, unknown> | null;
+}
+
+export function pointInRing(lat: number, lng: number, ring: Line): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function pointInPolygon(lat: number, lng: number, [outline, ...holes]: Polygon): boolean {
+  return pointInRing(lat, lng, outline) && !holes.some((hole) => pointInRing(lat, lng, hole));
+}
+
+/**
+ * Split a Polygon or MultiPolygon geometry into polygons; other geometries give none
+ */
+export function toPolygons(geometry: { type: string; coordinates: unknown }): Polygon[] {
+  if (geometry.type === 'Polygon') return [geometry.coordinates as Polygon];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates as Polygon[];
+  return [];
+}
+
+/**
+ * Split a LineString or MultiLineString geometry into lines; other geometries give none
+ */
+export function toLines(geometry: { type: string; coordinates: unknown }): Line[] {
+  if (geometry.type === 'LineString') return [geometry.coordinates as Line];
+  if (geometry.type === 'MultiLineString') return geometry.coordinates as Line[];
+  return [];
+}
+
+/**
+ * Stream a shapefile's features one at a time, so large layers needn't fit in memory
+ */
+export async function forEachShapefileFeature(
+  shpPath: string,
+  visit: (feature: ShapefileFeature) => void
+): Promise<number> {
+  const source = await shapefile.open(shpPath);
+  let count = 0;
+  while (true) {
+    const result = await source.read();
+    if (result.done) break;
+    visit(result.value as ShapefileFeature);
+    count++;
+  }
+  return count;
+}
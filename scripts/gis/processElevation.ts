@@ -0,0 +1,275 @@
+/**
+ * processElevation.ts - Summarise a coarse DEM per precision-5 cell
+ *
+ * For every precision-4 tile in biomes_raw.json, streams a global elevation
+ * grid row by row and records the min, mean and max ground elevation of each
+ * of the tile's 32 precision-5 cells. Bathymetry counts as sea level, so
+ * coastal cells aren't dragged below it.
+ *
+ * Usage: npm run gis:process-elevation [-- --input=path/to/grid.bin]
+ *        npx tsx scripts/gis/processElevation.ts
+ *
+ * Input:
+ *   - scripts/gis/input/ETOPO1_Ice_g_int.bin and its .hdr (NOAA ETOPO1, grid
+ *     registered; any grid with an ESRI-style .hdr of 2- or 4-byte integers or
+ *     4-byte floats works)
+ *   - scripts/gis/output/biomes_raw.json (the tiles to summarise)
+ *
+ * Output:
+ *   - scripts/gis/output/elevation_raw.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ElevationRecord, loadBiomeData } from './buildSqliteBundle';
+import { BASE32, encodeGeohash, geohashBounds } from '../../src/utils/geohash';
+import { GeohashBounds } from '../../src/types/gis';
+
+// Paths
+const SCRIPT_DIR = __dirname;
+const DEFAULT_INPUT = path.join(SCRIPT_DIR, 'input', 'ETOPO1_Ice_g_int.bin');
+const OUTPUT_PATH = path.join(SCRIPT_DIR, 'output', 'elevation_raw.json');
+
+const ETOPO1_URL = 'https://www.ncei.noaa.gov/products/etopo-global-relief-model';
+
+/** Precision-5 cells per precision-4 tile */
+const CELLS_PER_TILE = 32;
+
+type NumberType = '2_BYTE_INT' | '4_BYTE_INT' | '4_BYTE_FLOAT';
+
+const NUMBER_TYPE_BYTES: Record<NumberType, number> = {
+  '2_BYTE_INT': 2,
+  '4_BYTE_INT': 4,
+  '4_BYTE_FLOAT': 4,
+};
+
+interface GridHeader {
+  ncols: number;
+  nrows: number;
+  /** Longitude of the centre of the first column */
+  westLng: number;
+  /** Latitude of the centre of the first (northernmost) row */
+  northLat: number;
+  cellSize: number;
+  noData: number | null;
+  littleEndian: boolean;
+  numberType: NumberType;
+}
+
+/**
+ * Parse an ESRI-style grid header (NCOLS, NROWS, XLLCORNER or XLLCENTER, ...).
+ * Returns null if a required key is missing or unsupported.
+ */
+function parseGridHeader(text: string): GridHeader | null {
+  const values = new Map<string, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const [key, value] = line.trim().split(/\s+/);
+    if (key && value !== undefined) values.set(key.toLowerCase(), value.toUpperCase());
+  }
+  const num = (key: string) => (values.has(key) ? Number(values.get(key)) : NaN);
+
+  const ncols = num('ncols');
+  const nrows = num('nrows');
+  const cellSize = num('cellsize');
+  if (!Number.isInteger(ncols) || !Number.isInteger(nrows) || !(cellSize > 0)) return null;
+
+  // Corner registration gives the outer edge; cell centres are half a cell in
+  const westLng = values.has('xllcenter') ? num('xllcenter') : num('xllcorner') + cellSize / 2;
+  const southLat = values.has('yllcenter') ? num('yllcenter') : num('yllcorner') + cellSize / 2;
+  if (!Number.isFinite(westLng) || !Number.isFinite(southLat)) return null;
+
+  const numberType = (values.get('numbertype') ?? '4_BYTE_FLOAT') as NumberType;
+  if (!(numberType in NUMBER_TYPE_BYTES)) return null;
+
+  return {
+    ncols,
+    nrows,
+    westLng,
+    northLat: southLat + (nrows - 1) * cellSize,
+    cellSize,
+    noData: values.has('nodata_value') ? num('nodata_value') : null,
+    littleEndian: values.get('byteorder') !== 'MSBFIRST',
+    numberType,
+  };
+}
+
+/**
+ * Stream a grid's rows from north to south, so the whole grid never has to be in memory
+ */
+function forEachGridRow(
+  gridPath: string,
+  header: GridHeader,
+  visit: (lat: number, values: Float64Array) => void
+): void {
+  const bytes = NUMBER_TYPE_BYTES[header.numberType];
+  const buffer = Buffer.alloc(header.ncols * bytes);
+  const values = new Float64Array(header.ncols);
+  const fd = fs.openSync(gridPath, 'r');
+  try {
+    for (let row = 0; row < header.nrows; row++) {
+      fs.readSync(fd, buffer, 0, buffer.length, row * buffer.length);
+      for (let col = 0; col < header.ncols; col++) {
+        const offset = col * bytes;
+        if (header.numberType === '2_BYTE_INT') {
+          values[col] = header.littleEndian
+            ? buffer.readInt16LE(offset)
+            : buffer.readInt16BE(offset);
+        } else if (header.numberType === '4_BYTE_INT') {
+          values[col] = header.littleEndian
+            ? buffer.readInt32LE(offset)
+            : buffer.readInt32BE(offset);
+        } else {
+          values[col] = header.littleEndian
+            ? buffer.readFloatLE(offset)
+            : buffer.readFloatBE(offset);
+        }
+      }
+      visit(header.northLat - row * header.cellSize, values);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Collect elevation samples into the precision-5 cells of the given tiles.
+ * Only running totals are kept, so memory depends on the tiles, not the grid.
+ */
+function createElevationSummarizer(tiles: { geohash: string; lat: number; lng: number }[]) {
+  const tileIndex = new Map(tiles.map(({ geohash }, index) => [geohash, index]));
+  const slots = tiles.length * CELLS_PER_TILE;
+  const mins = new Float64Array(slots).fill(Infinity);
+  const maxes = new Float64Array(slots).fill(-Infinity);
+  const sums = new Float64Array(slots);
+  const counts = new Uint32Array(slots);
+
+  // Consecutive samples mostly share a cell, so remember the last one
+  let lastBounds: GeohashBounds | null = null;
+  let lastSlot = -1;
+
+  function findSlot(lat: number, lng: number): number {
+    if (
+      lastBounds &&
+      lat >= lastBounds.minLat &&
+      lat < lastBounds.maxLat &&
+      lng >= lastBounds.minLng &&
+      lng < lastBounds.maxLng
+    ) {
+      return lastSlot;
+    }
+    const cell = encodeGeohash(lat, lng, 5);
+    const tile = tileIndex.get(cell.substring(0, 4));
+    lastBounds = geohashBounds(cell);
+    lastSlot = tile === undefined ? -1 : tile * CELLS_PER_TILE + BASE32.indexOf(cell[4]);
+    return lastSlot;
+  }
+
+  return {
+    /** Add a sample; bathymetry counts as sea level */
+    addSample(lat: number, lng: number, elevationM: number): void {
+      const slot = findSlot(lat, lng);
+      if (slot < 0) return;
+      const value = Math.max(elevationM, 0);
+      mins[slot] = Math.min(mins[slot], value);
+      maxes[slot] = Math.max(maxes[slot], value);
+      sums[slot] += value;
+      counts[slot]++;
+    },
+
+    /** The sampled cells per tile, for tiles with any samples */
+    getRecords(): ElevationRecord[] {
+      const records: ElevationRecord[] = [];
+      tiles.forEach(({ geohash, lat, lng }, tile) => {
+        const cells: ElevationRecord['cells'] = {};
+        for (let cell = 0; cell < CELLS_PER_TILE; cell++) {
+          const slot = tile * CELLS_PER_TILE + cell;
+          if (counts[slot] === 0) continue;
+          cells[BASE32[cell]] = {
+            minM: Math.round(mins[slot]),
+            meanM: Math.round(sums[slot] / counts[slot]),
+            maxM: Math.round(maxes[slot]),
+          };
+        }
+        if (Object.keys(cells).length > 0) records.push({ geohash, lat, lng, cells });
+      });
+      return records;
+    },
+  };
+}
+
+/**
+ * Main function
+ */
+function main() {
+  console.log('Elevation Processor');
+  console.log('===================\n');
+
+  const inputArg = process.argv.find((arg) => arg.startsWith('--input='));
+  const inputPath = inputArg ? inputArg.slice('--input='.length) : DEFAULT_INPUT;
+  const headerPath = inputPath.replace(/\.[^./\\]+$/, '') + '.hdr';
+  if (!fs.existsSync(inputPath) || !fs.existsSync(headerPath)) {
+    console.log(`Missing ${inputPath} or ${headerPath}`);
+    console.log('Download the ETOPO1 grid-registered binary (ETOPO1_Ice_g_int.bin and .hdr) from');
+    console.log(`  ${ETOPO1_URL}`);
+    console.log('and unzip it into scripts/gis/input, or pass --input=path/to/grid.bin');
+    process.exitCode = 1;
+    return;
+  }
+
+  const header = parseGridHeader(fs.readFileSync(headerPath, 'utf-8'));
+  if (!header) {
+    console.log(`Could not read the grid header ${headerPath}`);
+    process.exitCode = 1;
+    return;
+  }
+  const expectedBytes = header.ncols * header.nrows * NUMBER_TYPE_BYTES[header.numberType];
+  if (fs.statSync(inputPath).size < expectedBytes) {
+    console.log(`${inputPath} is smaller than its header describes (${expectedBytes} bytes)`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const tiles = loadBiomeData().filter((record) => record.geohash.length === 4);
+  if (tiles.length === 0) {
+    console.log('No precision-4 tiles to summarise. Run npm run gis:process-biomes first.');
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`Summarising ${tiles.length} tiles from ${path.basename(inputPath)}...`);
+  console.log(`  Grid: ${header.ncols} x ${header.nrows}, ${header.cellSize}° cells`);
+  const summarizer = createElevationSummarizer(tiles);
+  let rows = 0;
+  forEachGridRow(inputPath, header, (lat, values) => {
+    values.forEach((value, col) => {
+      if (value === header.noData) return;
+      summarizer.addSample(lat, header.westLng + col * header.cellSize, value);
+    });
+    rows++;
+    if (rows % 500 === 0) process.stdout.write(`\r  ${rows} of ${header.nrows} rows`);
+  });
+  console.log(`\r  ${rows} of ${header.nrows} rows`);
+
+  const records = summarizer.getRecords();
+  const cellCount = records.reduce((total, r) => total + Object.keys(r.cells).length, 0);
+  console.log(`  Tiles with elevation: ${records.length} (${cellCount} precision-5 cells)`);
+  const output = {
+    _meta: {
+      source: 'NOAA ETOPO1 Global Relief Model',
+      generatedAt: new Date().toISOString(),
+      totalRecords: records.length,
+    },
+    records,
+  };
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(output));
+  console.log(`\nWritten to: ${OUTPUT_PATH}`);
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+// Export for testing
+export { parseGridHeader, forEachGridRow, createElevationSummarizer };
+export type { GridHeader };
@@ -0,0 +1,229 @@
+/**
+ * processRegolith.ts - Sample surface material (regolith) per tile
+ *
+ * For every precision-4 tile in biomes_raw.json, samples a grid of points
+ * against the Global Unconsolidated Sediments Map and records the most common
+ * surface material (glacial till, loess, alluvium, laterite, ...) and the share
+ * of the tile it covers. Tiles with exposed bedrock get no record.
+ *
+ * Usage: npm run gis:process-regolith [-- --input=path/to/GUM.shp]
+ *        npx tsx scripts/gis/processRegolith.ts
+ *
+ * Input:
+ *   - scripts/gis/input/GUM.shp (Börker et al. 2018, from PANGAEA; unzip into
+ *     scripts/gis/input)
+ *   - scripts/gis/output/biomes_raw.json (the tiles to sample)
+ *
+ * Output:
+ *   - scripts/gis/output/regolith_raw.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RegolithRecord, loadBiomeData } from './buildSqliteBundle';
+import { Polygon, forEachShapefileFeature, pointInPolygon, toPolygons } from './geometryUtils';
+import { geohashBounds } from '../../src/utils/geohash';
+
+// Paths
+const SCRIPT_DIR = __dirname;
+const DEFAULT_INPUT = path.join(SCRIPT_DIR, 'input', 'GUM.shp');
+const OUTPUT_PATH = path.join(SCRIPT_DIR, 'output', 'regolith_raw.json');
+
+const GUM_URL = 'https://doi.pangaea.de/10.1594/PANGAEA.884822';
+
+/** Samples per side of the grid laid over each tile */
+const SAMPLES_PER_SIDE = 3;
+
+/**
+ * Words in a unit's attributes and the surface material they mean. Checked in
+ * order, so "glaciofluvial" is outwash rather than alluvium and loess isn't
+ * taken for dune sand. Colluvium and undifferentiated units are skipped.
+ */
+const MATERIAL_KEYWORDS: [string, string | null][] = [
+  ['colluv', null],
+  ['undifferentiated', null],
+  ['loess', 'loess'],
+  ['outwash', 'glacial_outwash'],
+  ['glaciofluvial', 'glacial_outwash'],
+  ['fluvioglacial', 'glacial_outwash'],
+  ['glaciolacustrine', 'lacustrine'],
+  ['till', 'glacial_till'],
+  ['moraine', 'glacial_till'],
+  ['glacial', 'glacial_till'],
+  ['dune', 'aeolian_sand'],
+  ['eolian', 'aeolian_sand'],
+  ['aeolian', 'aeolian_sand'],
+  ['alluv', 'alluvium'],
+  ['fluvial', 'alluvium'],
+  ['lacustrine', 'lacustrine'],
+  ['beach', 'coastal_sediment'],
+  ['coastal', 'coastal_sediment'],
+  ['peat', 'peat'],
+  ['organic', 'peat'],
+  ['laterit', 'laterite'],
+  ['pyroclast', 'pyroclastic'],
+  ['tephra', 'pyroclastic'],
+];
+
+/**
+ * Classify a sediment unit from its attribute values. Returns null for units
+ * that aren't a recorded surface material.
+ */
+function classifyRegolith(properties: Record<string, unknown>): string | null {
+  const text = Object.values(properties)
+    .filter((value): value is string => typeof value === 'string')
+    .join(' ')
+    .toLowerCase();
+  for (const [keyword, material] of MATERIAL_KEYWORDS) {
+    if (text.includes(keyword)) return material;
+  }
+  return null;
+}
+
+interface Sample {
+  tile: number;
+  lat: number;
+  lng: number;
+  material: string | null;
+}
+
+/**
+ * Lay sample points over the tiles, then mark the ones each sediment polygon
+ * covers. Polygons are streamed in, so the whole map never has to be in memory.
+ */
+function createRegolithSampler(tiles: { geohash: string; lat: number; lng: number }[]) {
+  // Samples bucketed by 1° cell
+  const cells = new Map<string, Sample[]>();
+  tiles.forEach(({ geohash }, tile) => {
+    const { minLat, maxLat, minLng, maxLng } = geohashBounds(geohash);
+    for (let row = 0; row < SAMPLES_PER_SIDE; row++) {
+      for (let col = 0; col < SAMPLES_PER_SIDE; col++) {
+        const lat = minLat + ((row + 0.5) / SAMPLES_PER_SIDE) * (maxLat - minLat);
+        const lng = minLng + ((col + 0.5) / SAMPLES_PER_SIDE) * (maxLng - minLng);
+        const key = `${Math.floor(lat)},${Math.floor(lng)}`;
+        const samples = cells.get(key);
+        const sample: Sample = { tile, lat, lng, material: null };
+        if (samples) samples.push(sample);
+        else cells.set(key, [sample]);
+      }
+    }
+  });
+
+  return {
+    /** Mark the samples inside a polygon of the given material */
+    addPolygon(material: string, polygon: Polygon): void {
+      const lngs = polygon[0].map(([lng]) => lng);
+      const lats = polygon[0].map(([, lat]) => lat);
+      const [minLat, maxLat] = [Math.min(...lats), Math.max(...lats)];
+      const [minLng, maxLng] = [Math.min(...lngs), Math.max(...lngs)];
+      for (let lat = Math.floor(minLat); lat <= Math.floor(maxLat); lat++) {
+        for (let lng = Math.floor(minLng); lng <= Math.floor(maxLng); lng++) {
+          for (const sample of cells.get(`${lat},${lng}`) ?? []) {
+            if (
+              sample.material === null &&
+              sample.lat >= minLat &&
+              sample.lat <= maxLat &&
+              sample.lng >= minLng &&
+              sample.lng <= maxLng &&
+              pointInPolygon(sample.lat, sample.lng, polygon)
+            ) {
+              sample.material = material;
+            }
+          }
+        }
+      }
+    },
+
+    /** The most common material per tile, for tiles with any cover */
+    getRecords(): RegolithRecord[] {
+      const counts = tiles.map(() => new Map<string, number>());
+      for (const samples of cells.values()) {
+        for (const { tile, material } of samples) {
+          if (material) counts[tile].set(material, (counts[tile].get(material) ?? 0) + 1);
+        }
+      }
+
+      const records: RegolithRecord[] = [];
+      tiles.forEach(({ geohash, lat, lng }, tile) => {
+        const [top] = [...counts[tile].entries()].sort((a, b) => b[1] - a[1]);
+        if (!top) return;
+        const cover = top[1] / (SAMPLES_PER_SIDE * SAMPLES_PER_SIDE);
+        records.push({ geohash, lat, lng, material: top[0], cover: Math.round(cover * 100) / 100 });
+      });
+      return records;
+    },
+  };
+}
+
+/**
+ * Log how many tiles each material covers
+ */
+function logSummary(records: RegolithRecord[]): void {
+  const byMaterial = new Map<string, number>();
+  for (const record of records) {
+    byMaterial.set(record.material, (byMaterial.get(record.material) ?? 0) + 1);
+  }
+  console.log(`  Tiles with surface material: ${records.length}`);
+  for (const [material, count] of [...byMaterial.entries()].sort((a, b) => b[1] - a[1])) {
+    console.log(`    ${material}: ${count}`);
+  }
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('Regolith Processor');
+  console.log('==================\n');
+
+  const inputArg = process.argv.find((arg) => arg.startsWith('--input='));
+  const inputPath = inputArg ? inputArg.slice('--input='.length) : DEFAULT_INPUT;
+  if (!fs.existsSync(inputPath)) {
+    console.log(`Missing ${inputPath}`);
+    console.log('Download the Global Unconsolidated Sediments Map (GUM) shapefile from');
+    console.log(`  ${GUM_URL}`);
+    console.log('and unzip it into scripts/gis/input, or pass --input=path/to/GUM.shp');
+    process.exitCode = 1;
+    return;
+  }
+
+  const tiles = loadBiomeData().filter((record) => record.geohash.length === 4);
+  if (tiles.length === 0) {
+    console.log('No precision-4 tiles to sample. Run npm run gis:process-biomes first.');
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`Sampling ${tiles.length} tiles against ${path.basename(inputPath)}...`);
+  const sampler = createRegolithSampler(tiles);
+  let used = 0;
+  const total = await forEachShapefileFeature(inputPath, (feature) => {
+    const material = feature.geometry && classifyRegolith(feature.properties ?? {});
+    if (!feature.geometry || !material) return;
+    toPolygons(feature.geometry).forEach((polygon) => sampler.addPolygon(material, polygon));
+    used++;
+    if (used % 10000 === 0) process.stdout.write(`\r  ${used} sediment units sampled`);
+  });
+  console.log(`\r  ${used} of ${total} units are recorded surface materials`);
+
+  const records = sampler.getRecords();
+  logSummary(records);
+  const output = {
+    _meta: {
+      source: 'Global Unconsolidated Sediments Map (GUM)',
+      generatedAt: new Date().toISOString(),
+      totalRecords: records.length,
+    },
+    records,
+  };
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(output));
+  console.log(`\nWritten to: ${OUTPUT_PATH}`);
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+// Export for testing
+export { classifyRegolith, createRegolithSampler };
@@ -0,0 +1,284 @@
+/**
+ * processWater.ts - Measure coast, river and lake proximity per tile
+ *
+ * For every precision-4 tile in biomes_raw.json, finds the distance from the
+ * tile centre to the nearest coastline and major river, and whether the tile
+ * is mostly lake. Distances beyond WATER_SEARCH_RADIUS_KM are left null.
+ *
+ * Usage: npm run gis:process-water
+ *        npx tsx scripts/gis/processWater.ts
+ *
+ * Input (Natural Earth 10m physical vectors, unzipped into scripts/gis/input):
+ *   - ne_10m_coastline.shp
+ *   - ne_10m_rivers_lake_centerlines.shp
+ *   - ne_10m_lakes.shp
+ *   - scripts/gis/output/biomes_raw.json (the tiles to measure)
+ *
+ * Output:
+ *   - scripts/gis/output/water_raw.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { WaterRecord, loadBiomeData } from './buildSqliteBundle';
+import {
+  Line,
+  Polygon,
+  forEachShapefileFeature,
+  pointInPolygon,
+  toLines,
+  toPolygons,
+} from './geometryUtils';
+import { geohashBounds } from '../../src/utils/geohash';
+import { WATER_SEARCH_RADIUS_KM } from '../../src/config/water';
+
+// Paths
+const SCRIPT_DIR = __dirname;
+const INPUT_DIR = path.join(SCRIPT_DIR, 'input');
+const OUTPUT_PATH = path.join(SCRIPT_DIR, 'output', 'water_raw.json');
+
+const NATURAL_EARTH_URL = 'https://naciscdn.org/naturalearth/10m/physical';
+const INPUTS = {
+  coastline: 'ne_10m_coastline',
+  rivers: 'ne_10m_rivers_lake_centerlines',
+  lakes: 'ne_10m_lakes',
+};
+
+/** Natural Earth ranks rivers 0 (largest) upwards; smaller ranks are major rivers */
+const MAJOR_RIVER_MAX_SCALERANK = 6;
+
+/** Samples per side of the grid used to decide whether a tile is lake */
+const LAKE_SAMPLES_PER_SIDE = 3;
+
+const KM_PER_DEGREE_LAT = 110.57;
+const KM_PER_DEGREE_LNG = 111.32;
+
+/** Lines or polygons bucketed by the 1° cells their bounding boxes touch */
+type GridIndex<T> = Map<string, T[]>;
+
+interface WaterFeatures {
+  coastlines: Line[];
+  rivers: Line[];
+  lakes: Polygon[];
+}
+
+function cellKey(lat: number, lng: number): string {
+  return `${Math.floor(lat)},${Math.floor(lng)}`;
+}
+
+/**
+ * Add an item to every 1° cell its bounding box touches
+ */
+function addToIndex<T>(index: GridIndex<T>, item: T, points: Line): void {
+  const lngs = points.map(([lng]) => lng);
+  const lats = points.map(([, lat]) => lat);
+  for (let lat = Math.floor(Math.min(...lats)); lat <= Math.floor(Math.max(...lats)); lat++) {
+    for (let lng = Math.floor(Math.min(...lngs)); lng <= Math.floor(Math.max(...lngs)); lng++) {
+      const key = cellKey(lat, lng);
+      const items = index.get(key);
+      if (items) items.push(item);
+      else index.set(key, [item]);
+    }
+  }
+}
+
+/**
+ * Index lines segment by segment, so long lines don't land in every cell they span
+ */
+function indexSegments(lines: Line[]): GridIndex<Line> {
+  const index: GridIndex<Line> = new Map();
+  for (const line of lines) {
+    for (let i = 1; i < line.length; i++) {
+      const segment: Line = [line[i - 1], line[i]];
+      addToIndex(index, segment, segment);
+    }
+  }
+  return index;
+}
+
+function indexPolygons(polygons: Polygon[]): GridIndex<Polygon> {
+  const index: GridIndex<Polygon> = new Map();
+  for (const polygon of polygons) {
+    addToIndex(index, polygon, polygon[0]);
+  }
+  return index;
+}
+
+/**
+ * Distance in km from a point to a segment, on a local equirectangular
+ * projection centred on the point (accurate enough within the search radius)
+ */
+function pointToSegmentKm(lat: number, lng: number, [a, b]: Line): number {
+  const kmPerLng = KM_PER_DEGREE_LNG * Math.cos((lat * Math.PI) / 180);
+  const project = ([pLng, pLat]: [number, number]): [number, number] => {
+    // Wrap across the antimeridian so segments there are measured the short way
+    const dLng = ((((pLng - lng) % 360) + 540) % 360) - 180;
+    return [dLng * kmPerLng, (pLat - lat) * KM_PER_DEGREE_LAT];
+  };
+  const [ax, ay] = project(a);
+  const [bx, by] = project(b);
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+/**
+ * Distance in km to the nearest indexed segment, or null if none is within maxKm
+ */
+function nearestSegmentKm(
+  index: GridIndex<Line>,
+  lat: number,
+  lng: number,
+  maxKm: number = WATER_SEARCH_RADIUS_KM
+): number | null {
+  const latCells = Math.ceil(maxKm / KM_PER_DEGREE_LAT);
+  const cosLat = Math.max(Math.cos((Math.min(Math.abs(lat) + latCells, 90) * Math.PI) / 180), 0.01);
+  const lngCells = Math.min(Math.ceil(maxKm / (KM_PER_DEGREE_LNG * cosLat)), 180);
+
+  let nearest = Infinity;
+  for (let dLat = -latCells; dLat <= latCells; dLat++) {
+    for (let dLng = -lngCells; dLng <= lngCells; dLng++) {
+      const cellLng = ((((Math.floor(lng) + dLng + 180) % 360) + 360) % 360) - 180;
+      for (const segment of index.get(`${Math.floor(lat) + dLat},${cellLng}`) ?? []) {
+        nearest = Math.min(nearest, pointToSegmentKm(lat, lng, segment));
+      }
+    }
+  }
+  return nearest <= maxKm ? Math.round(nearest * 10) / 10 : null;
+}
+
+function pointInLake(index: GridIndex<Polygon>, lat: number, lng: number): boolean {
+  return (index.get(cellKey(lat, lng)) ?? []).some((lake) => pointInPolygon(lat, lng, lake));
+}
+
+/**
+ * A tile is lake when most of a grid of sample points across it fall in a lake
+ */
+function isLakeTile(index: GridIndex<Polygon>, geohash: string): boolean {
+  const { minLat, maxLat, minLng, maxLng } = geohashBounds(geohash);
+  let inLake = 0;
+  for (let row = 0; row < LAKE_SAMPLES_PER_SIDE; row++) {
+    for (let col = 0; col < LAKE_SAMPLES_PER_SIDE; col++) {
+      const lat = minLat + ((row + 0.5) / LAKE_SAMPLES_PER_SIDE) * (maxLat - minLat);
+      const lng = minLng + ((col + 0.5) / LAKE_SAMPLES_PER_SIDE) * (maxLng - minLng);
+      if (pointInLake(index, lat, lng)) inLake++;
+    }
+  }
+  return inLake > (LAKE_SAMPLES_PER_SIDE * LAKE_SAMPLES_PER_SIDE) / 2;
+}
+
+/**
+ * Measure water proximity for each tile
+ */
+function computeWaterRecords(
+  tiles: { geohash: string; lat: number; lng: number }[],
+  features: WaterFeatures
+): WaterRecord[] {
+  const coastIndex = indexSegments(features.coastlines);
+  const riverIndex = indexSegments(features.rivers);
+  const lakeIndex = indexPolygons(features.lakes);
+
+  return tiles.map(({ geohash, lat, lng }) => ({
+    geohash,
+    lat,
+    lng,
+    coastDistanceKm: nearestSegmentKm(coastIndex, lat, lng),
+    riverDistanceKm: nearestSegmentKm(riverIndex, lat, lng),
+    isLake: isLakeTile(lakeIndex, geohash),
+  }));
+}
+
+/**
+ * Read a shapefile's geometries, keeping features that pass the filter
+ */
+async function readShapefile(
+  name: string,
+  filter: (properties: Record<string, unknown>) => boolean = () => true
+): Promise<{ type: string; coordinates: unknown }[]> {
+  const geometries: { type: string; coordinates: unknown }[] = [];
+  await forEachShapefileFeature(path.join(INPUT_DIR, `${name}.shp`), (feature) => {
+    if (feature.geometry && filter(feature.properties ?? {})) {
+      geometries.push(feature.geometry);
+    }
+  });
+  return geometries;
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('Water Proximity Processor');
+  console.log('=========================\n');
+
+  const missing = Object.values(INPUTS).filter(
+    (name) => !fs.existsSync(path.join(INPUT_DIR, `${name}.shp`))
+  );
+  if (missing.length > 0) {
+    console.log('Missing Natural Earth shapefiles. Download and unzip into scripts/gis/input:');
+    for (const name of missing) {
+      console.log(`  ${NATURAL_EARTH_URL}/${name}.zip`);
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  const tiles = loadBiomeData().filter((record) => record.geohash.length === 4);
+  if (tiles.length === 0) {
+    console.log('No precision-4 tiles to measure. Run npm run gis:process-biomes first.');
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log('Loading shapefiles...');
+  const features: WaterFeatures = {
+    coastlines: (await readShapefile(INPUTS.coastline)).flatMap(toLines),
+    rivers: (
+      await readShapefile(
+        INPUTS.rivers,
+        (properties) =>
+          properties.featurecla === 'River' &&
+          Number(properties.scalerank) <= MAJOR_RIVER_MAX_SCALERANK
+      )
+    ).flatMap(toLines),
+    lakes: (await readShapefile(INPUTS.lakes)).flatMap(toPolygons),
+  };
+  console.log(`  Coastlines: ${features.coastlines.length}`);
+  console.log(`  Major rivers: ${features.rivers.length}`);
+  console.log(`  Lakes: ${features.lakes.length}`);
+
+  console.log(`\nMeasuring ${tiles.length} tiles...`);
+  const records = computeWaterRecords(tiles, features);
+
+  const output = {
+    _meta: {
+      source: 'Natural Earth 10m',
+      generatedAt: new Date().toISOString(),
+      totalRecords: records.length,
+      searchRadiusKm: WATER_SEARCH_RADIUS_KM,
+    },
+    records,
+  };
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(output));
+
+  const count = (test: (record: WaterRecord) => boolean) => records.filter(test).length;
+  console.log(
+    `  Within ${WATER_SEARCH_RADIUS_KM}km of coast: ${count((r) => r.coastDistanceKm !== null)}`
+  );
+  console.log(
+    `  Within ${WATER_SEARCH_RADIUS_KM}km of a major river: ${count((r) => r.riverDistanceKm !== null)}`
+  );
+  console.log(`  Lake tiles: ${count((r) => r.isLake)}`);
+  console.log(`\nWritten to: ${OUTPUT_PATH}`);
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+// Export for testing
+export type { WaterFeatures };
+export { computeWaterRecords, pointToSegmentKm, MAJOR_RIVER_MAX_SCALERANK };
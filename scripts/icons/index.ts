@@ -63,14 +63,14 @@ function showHelp(): void {
     console.log(`  ${name.padEnd(12)} ${cmd.description}`);
   }
   console.log('\nGenerate options:');
-  console.log('  --type=<stone|wood|food>  Filter by resource type');
+  console.log('  --type=<stone|wood|food|fiber>  Filter by resource type');
   console.log('  --id=<resource_id>        Generate single resource');
   console.log('  --force                   Regenerate existing icons');
   console.log('  --dry-run                 Preview without API calls');
   console.log('  --limit=<n>               Limit number to generate');
   console.log('  --service=<dalle|replicate|gpt-image>  Force specific generator');
   console.log('\nEvaluate options:');
-  console.log('  --type=<stone|wood|food>  Filter by resource type');
+  console.log('  --type=<stone|wood|food|fiber>  Filter by resource type');
   console.log('  --id=<resource_id>        Evaluate single resource');
   console.log('  --recheck                 Re-evaluate passed icons');
   console.log('  --regen                   Mark failed icons for re-generation');
@@ -78,7 +78,7 @@ function showHelp(): void {
   console.log('  --limit=<n>               Limit number to evaluate');
   console.log('\nGenerator selection:');
   console.log('  - Stones: Replicate Material SD (flat textures)');
-  console.log('  - Woods/Foods: GPT Image (better instruction following)');
+  console.log('  - Woods/Foods/Fibers: GPT Image (better instruction following)');
   console.log('  Use --service to override the default for a type.');
   console.log('\nExample workflow:');
   console.log('  1. npm run icons:research   # Merge appearance data');
@@ -8,6 +8,7 @@ import { ResourceType } from './lib/types';
 import { STONES } from '../../src/data/stones';
 import { WOODS } from '../../src/data/woods';
 import { FOODS } from '../../src/data/foods';
+import { FIBERS } from '../../src/data/fibers';
 
 const ICONS_UTIL_PATH = path.join(SRC_DIR, 'utils', 'icons.ts');
 
@@ -20,7 +21,7 @@ interface IconInfo {
 function scanIcons(): IconInfo[] {
   const icons: IconInfo[] = [];
 
-  const types: ResourceType[] = ['stone', 'wood', 'food'];
+  const types: ResourceType[] = ['stone', 'wood', 'food', 'fiber'];
   for (const type of types) {
     const dir = path.join(SOURCE_ASSETS_DIR, `${type}s`);
     if (!fs.existsSync(dir)) {
@@ -48,6 +49,7 @@ function generateIconLoader(icons: IconInfo[]): string {
   const stoneIcons = icons.filter((i) => i.type === 'stone');
   const woodIcons = icons.filter((i) => i.type === 'wood');
   const foodIcons = icons.filter((i) => i.type === 'food');
+  const fiberIcons = icons.filter((i) => i.type === 'fiber');
 
   // Generate require statements for each type
   const generateRequireMap = (items: IconInfo[], typePlural: string): string => {
@@ -82,11 +84,17 @@ const FOOD_ICONS: Record<string, ImageSourcePropType> = {
 ${generateRequireMap(foodIcons, 'food')}
 };
 
+// Fiber icons
+const FIBER_ICONS: Record<string, ImageSourcePropType> = {
+${generateRequireMap(fiberIcons, 'fiber')}
+};
+
 // Map material types to icon maps
 const ICON_MAPS: Partial<Record<MaterialType, Record<string, ImageSourcePropType>>> = {
   stone: STONE_ICONS,
   wood: WOOD_ICONS,
   food: FOOD_ICONS,
+  fiber: FIBER_ICONS,
 };
 
 /**
@@ -114,15 +122,23 @@ export function hasResourceIcon(type: MaterialType, resourceId: string): boolean
 /**
  * Get counts of available icons.
  */
-export function getIconCounts(): { stones: number; woods: number; foods: number; total: number } {
+export function getIconCounts(): {
+  stones: number;
+  woods: number;
+  foods: number;
+  fibers: number;
+  total: number;
+} {
   const stones = Object.keys(STONE_ICONS).length;
   const woods = Object.keys(WOOD_ICONS).length;
   const foods = Object.keys(FOOD_ICONS).length;
+  const fibers = Object.keys(FIBER_ICONS).length;
   return {
     stones,
     woods,
     foods,
-    total: stones + woods + foods,
+    fibers,
+    total: stones + woods + foods + fibers,
   };
 }
 `;
@@ -139,6 +155,7 @@ export function runIntegrate(): void {
   console.log(`    Stones: ${icons.filter((i) => i.type === 'stone').length}`);
   console.log(`    Woods: ${icons.filter((i) => i.type === 'wood').length}`);
   console.log(`    Foods: ${icons.filter((i) => i.type === 'food').length}`);
+  console.log(`    Fibers: ${icons.filter((i) => i.type === 'fiber').length}`);
 
   // Generate icon loader
   console.log('\nGenerating icon loader...');
@@ -158,25 +175,30 @@ export function runIntegrate(): void {
   const stoneIds = STONES.map((s) => s.id);
   const woodIds = WOODS.map((w) => w.id);
   const foodIds = FOODS.map((f) => f.id);
+  const fiberIds = FIBERS.map((f) => f.id);
 
   const stoneIcons = icons.filter((i) => i.type === 'stone').map((i) => i.id);
   const woodIcons = icons.filter((i) => i.type === 'wood').map((i) => i.id);
   const foodIcons = icons.filter((i) => i.type === 'food').map((i) => i.id);
+  const fiberIcons = icons.filter((i) => i.type === 'fiber').map((i) => i.id);
 
   const stoneCoverage = stoneIds.filter((id) => stoneIcons.includes(id)).length;
   const woodCoverage = woodIds.filter((id) => woodIcons.includes(id)).length;
   const foodCoverage = foodIds.filter((id) => foodIcons.includes(id)).length;
+  const fiberCoverage = fiberIds.filter((id) => fiberIcons.includes(id)).length;
 
   console.log(`  Stones: ${stoneCoverage}/${stoneIds.length}`);
   console.log(`  Woods: ${woodCoverage}/${woodIds.length}`);
   console.log(`  Foods: ${foodCoverage}/${foodIds.length}`);
+  console.log(`  Fibers: ${fiberCoverage}/${fiberIds.length}`);
 
   // List missing icons
   const missingStones = stoneIds.filter((id) => !stoneIcons.includes(id));
   const missingWoods = woodIds.filter((id) => !woodIcons.includes(id));
   const missingFoods = foodIds.filter((id) => !foodIcons.includes(id));
+  const missingFibers = fiberIds.filter((id) => !fiberIcons.includes(id));
 
-  if (missingStones.length + missingWoods.length + missingFoods.length > 0) {
+  if (missingStones.length + missingWoods.length + missingFoods.length + missingFibers.length > 0) {
     console.log('\nMissing icons:');
     if (missingStones.length > 0) {
       console.log(
@@ -193,6 +215,11 @@ export function runIntegrate(): void {
         `  Foods (${missingFoods.length}): ${missingFoods.slice(0, 5).join(', ')}${missingFoods.length > 5 ? '...' : ''}`
       );
     }
+    if (missingFibers.length > 0) {
+      console.log(
+        `  Fibers (${missingFibers.length}): ${missingFibers.slice(0, 5).join(', ')}${missingFibers.length > 5 ? '...' : ''}`
+      );
+    }
   }
 
   console.log('\nIntegration complete!');
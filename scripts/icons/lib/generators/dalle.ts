@@ -6,7 +6,7 @@ import { DALLE_CONFIG, getOpenAIApiKey } from '../config';
 
 /**
  * DALL-E 3 image generator implementation.
- * Good for tree and food icons, but produces spherical 3D objects for stone textures.
+ * Good for tree, food and fiber icons, but produces spherical 3D objects for stone textures.
  */
 export class DalleGenerator implements ImageGenerator {
   readonly name = 'dalle';
@@ -71,7 +71,7 @@ export class DalleGenerator implements ImageGenerator {
   }
 
   supportsType(type: ResourceType): boolean {
-    // DALL-E works well for trees and foods, but produces 3D spheres for stones
-    return type === 'wood' || type === 'food';
+    // DALL-E works well for trees, foods and fibers, but produces 3D spheres for stones
+    return type === 'wood' || type === 'food' || type === 'fiber';
   }
 }
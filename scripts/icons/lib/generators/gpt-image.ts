@@ -95,7 +95,7 @@ export class GptImageGenerator implements ImageGenerator {
   }
 
   supportsType(type: ResourceType): boolean {
-    // GPT Image works well for trees and foods with better instruction following
-    return type === 'wood' || type === 'food';
+    // GPT Image works well for trees, foods and fibers with better instruction following
+    return type === 'wood' || type === 'food' || type === 'fiber';
   }
 }
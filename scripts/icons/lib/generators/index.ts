@@ -31,7 +31,7 @@ export function createGenerator(name: GeneratorName): ImageGenerator {
 /**
  * Get the default generator for a resource type.
  * - Stones: Replicate (Material SD for flat textures)
- * - Woods/Foods: GPT Image (better instruction following than DALL-E)
+ * - Woods/Foods/Fibers: GPT Image (better instruction following than DALL-E)
  */
 export function getDefaultGenerator(type: ResourceType): ImageGenerator {
   return type === 'stone' ? createGenerator('replicate') : createGenerator('gpt-image');
@@ -18,7 +18,7 @@ export interface ImageGenerator {
 
   /**
    * Check if this generator is suitable for a given resource type.
-   * @param type The resource type (stone, wood, food)
+   * @param type The resource type (stone, wood, food, fiber)
    * @returns true if this generator works well for this type
    */
   supportsType(type: ResourceType): boolean;
@@ -102,7 +102,9 @@ export class VisionEvaluator implements ImageEvaluator {
     const disconnectedItemsCheck =
       criteria.type === 'wood'
         ? '4. Are there any floating/detached leaves, branches, or other plant elements that are NOT connected to the main tree? (Look carefully for standalone leaves floating in the air or separate from the tree)'
-        : '4. Are there any disconnected pieces of fruit, leaves, or other items floating separately from the main food item?';
+        : criteria.type === 'fiber'
+          ? '4. Are there any disconnected leaves, stems, or strands floating separately from the main plant material and fibre bundle?'
+          : '4. Are there any disconnected pieces of fruit, leaves, or other items floating separately from the main food item?';
 
     const baseChecks = `1. Are there any human hands visible in the image?
 2. Are there any containers (bowls, baskets, plates) in the image?
@@ -0,0 +1,56 @@
+// Fiber Prompt Generation
+// Optimized for GPT Image (fiber plant illustrations)
+import { ResourceResearch } from '../types';
+
+// Specific style for consistent fiber illustrations - matches food style
+const FIBER_STYLE = [
+  'simple botanical illustration',
+  'watercolor style',
+  'plain white background',
+  'single specimen centered',
+  'clean composition',
+  'single image only',
+  'image does not tile or repeat',
+  'no text or labels',
+].join(', ');
+
+// Category-specific composition guidance
+const FIBER_COMPOSITION: Record<string, string> = {
+  bast: 'A few cut stems lying beside a small bundle of stripped fibre',
+  bark: 'A few long strips of peeled bark loosely bundled',
+  leaf: 'Two or three whole leaves beside a small hank of leaf fibre',
+  grass: 'A small tied bundle of grass stems',
+  seed: 'A short sprig with an open seed pod showing its fibre',
+};
+
+/**
+ * Generate a prompt for fiber icons.
+ * Shows the source plant part alongside the processed fibre.
+ */
+export function generateFiberPrompt(resource: ResourceResearch): string {
+  const { name, scientificName, category, appearance } = resource;
+  const scientificPart = scientificName ? ` (${scientificName})` : '';
+
+  // Get composition guidance for this category
+  const composition = FIBER_COMPOSITION[category] || 'Single specimen';
+
+  // Use texture for shape/form description
+  const form = appearance.texture;
+
+  // Include colors for visual accuracy
+  const colors = appearance.primaryColors.slice(0, 2).join(', ');
+
+  // Include up to 2 distinguishing features for balance
+  const features = appearance.distinguishingFeatures.slice(0, 2).join('. ');
+
+  return [
+    `${name}${scientificPart}.`,
+    `${composition}.`,
+    `${form}.`,
+    `Colors: ${colors}.`,
+    features ? `${features}.` : '',
+    FIBER_STYLE + '.',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
@@ -3,11 +3,13 @@ import { ResourceResearch } from '../types';
 import { generateStonePrompt } from './stones';
 import { generateWoodPrompt } from './woods';
 import { generateFoodPrompt } from './foods';
+import { generateFiberPrompt } from './fibers';
 import { generateAppPrompt } from './apps';
 
 export { generateStonePrompt } from './stones';
 export { generateWoodPrompt } from './woods';
 export { generateFoodPrompt } from './foods';
+export { generateFiberPrompt } from './fibers';
 export { generateAppPrompt } from './apps';
 
 /**
@@ -21,6 +23,8 @@ export function generatePrompt(resource: ResourceResearch): string {
       return generateWoodPrompt(resource);
     case 'food':
       return generateFoodPrompt(resource);
+    case 'fiber':
+      return generateFiberPrompt(resource);
     case 'app':
       return generateAppPrompt(resource);
     default:
@@ -42,6 +42,7 @@ export function runPrompts(): PromptsOutput {
   console.log(`  Stones: ${prompts.filter((p) => p.type === 'stone').length}`);
   console.log(`  Woods: ${prompts.filter((p) => p.type === 'wood').length}`);
   console.log(`  Foods: ${prompts.filter((p) => p.type === 'food').length}`);
+  console.log(`  Fibers: ${prompts.filter((p) => p.type === 'fiber').length}`);
 
   // Show sample prompts
   console.log('\nSample prompts:');
@@ -49,6 +50,7 @@ export function runPrompts(): PromptsOutput {
     prompts.find((p) => p.type === 'stone'),
     prompts.find((p) => p.type === 'wood'),
     prompts.find((p) => p.type === 'food'),
+    prompts.find((p) => p.type === 'fiber'),
   ].filter(Boolean);
 
   for (const sample of samples) {
@@ -6,6 +6,7 @@ import {
   STONES_APPEARANCES,
   WOODS_APPEARANCES,
   FOODS_APPEARANCES,
+  FIBERS_APPEARANCES,
   APPS_APPEARANCES,
 } from './lib/config';
 import {
@@ -20,6 +21,7 @@ import {
 import { STONES } from '../../src/data/stones';
 import { WOODS } from '../../src/data/woods';
 import { FOODS } from '../../src/data/foods';
+import { FIBERS } from '../../src/data/fibers';
 
 function loadAppearanceData(filePath: string): AppearanceDataFile {
   if (!fs.existsSync(filePath)) {
@@ -50,6 +52,7 @@ export function runResearch(): ResearchOutput {
   const stonesAppearances = loadAppearanceData(STONES_APPEARANCES);
   const woodsAppearances = loadAppearanceData(WOODS_APPEARANCES);
   const foodsAppearances = loadAppearanceData(FOODS_APPEARANCES);
+  const fibersAppearances = loadAppearanceData(FIBERS_APPEARANCES);
 
   const resources: ResourceResearch[] = [];
   const missing: { id: string; type: ResourceType; name: string }[] = [];
@@ -130,6 +133,32 @@ export function runResearch(): ResearchOutput {
     }
   }
 
+  // Process fibers
+  console.log(`Processing ${FIBERS.length} fibers...`);
+  for (const fiber of FIBERS) {
+    const appearance = fibersAppearances[fiber.id];
+    if (appearance) {
+      resources.push({
+        id: fiber.id,
+        type: 'fiber',
+        name: fiber.name,
+        scientificName: fiber.scientificName,
+        category: fiber.category,
+        appearance,
+      });
+    } else {
+      missing.push({ id: fiber.id, type: 'fiber', name: fiber.name });
+      resources.push({
+        id: fiber.id,
+        type: 'fiber',
+        name: fiber.name,
+        scientificName: fiber.scientificName,
+        category: fiber.category,
+        appearance: createDefaultAppearance(fiber.name, fiber.color),
+      });
+    }
+  }
+
   // Process app icons
   const appsAppearances = loadAppearanceData(APPS_APPEARANCES);
   console.log(`Processing app icons...`);
@@ -156,6 +185,7 @@ export function runResearch(): ResearchOutput {
   console.log(`  Stones: ${STONES.length}`);
   console.log(`  Woods: ${WOODS.length}`);
   console.log(`  Foods: ${FOODS.length}`);
+  console.log(`  Fibers: ${FIBERS.length}`);
 
   if (missing.length > 0) {
     console.log(`  Missing appearance data: ${missing.length}`);
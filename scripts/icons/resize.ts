@@ -5,7 +5,7 @@ import sharp from 'sharp';
 import { SOURCE_ASSETS_DIR, ASSETS_DIR, IMAGE_SPECS } from './lib/config';
 import { ResourceType } from './lib/types';
 
-const RESOURCE_TYPES: ResourceType[] = ['stone', 'wood', 'food'];
+const RESOURCE_TYPES: ResourceType[] = ['stone', 'wood', 'food', 'fiber'];
 
 interface ResizeStats {
   resized: number;
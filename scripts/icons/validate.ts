@@ -8,6 +8,7 @@ import { ResourceType } from './lib/types';
 import { STONES } from '../../src/data/stones';
 import { WOODS } from '../../src/data/woods';
 import { FOODS } from '../../src/data/foods';
+import { FIBERS } from '../../src/data/fibers';
 
 const ICONS_UTIL_PATH = path.join(SRC_DIR, 'utils', 'icons.ts');
 
@@ -22,6 +23,7 @@ interface ValidationResult {
     stones: { total: number; icons: number };
     woods: { total: number; icons: number };
     foods: { total: number; icons: number };
+    fibers: { total: number; icons: number };
   };
 }
 
@@ -50,18 +52,21 @@ export function runValidation(): ValidationResult {
   const stoneIds = STONES.map((s) => s.id);
   const woodIds = WOODS.map((w) => w.id);
   const foodIds = FOODS.map((f) => f.id);
+  const fiberIds = FIBERS.map((f) => f.id);
 
   const stoneIcons = stoneIds.filter((id) => iconExists('stone', id));
   const woodIcons = woodIds.filter((id) => iconExists('wood', id));
   const foodIcons = foodIds.filter((id) => iconExists('food', id));
+  const fiberIcons = fiberIds.filter((id) => iconExists('fiber', id));
 
   const stats = {
-    totalResources: stoneIds.length + woodIds.length + foodIds.length,
-    totalIcons: stoneIcons.length + woodIcons.length + foodIcons.length,
+    totalResources: stoneIds.length + woodIds.length + foodIds.length + fiberIds.length,
+    totalIcons: stoneIcons.length + woodIcons.length + foodIcons.length + fiberIcons.length,
     coverage: 0,
     stones: { total: stoneIds.length, icons: stoneIcons.length },
     woods: { total: woodIds.length, icons: woodIcons.length },
     foods: { total: foodIds.length, icons: foodIcons.length },
+    fibers: { total: fiberIds.length, icons: fiberIcons.length },
   };
 
   stats.coverage = Math.round((stats.totalIcons / stats.totalResources) * 100);
@@ -77,6 +82,9 @@ export function runValidation(): ValidationResult {
   console.log(
     `  Foods: ${stats.foods.icons}/${stats.foods.total} (${Math.round((stats.foods.icons / stats.foods.total) * 100)}%)`
   );
+  console.log(
+    `  Fibers: ${stats.fibers.icons}/${stats.fibers.total} (${Math.round((stats.fibers.icons / stats.fibers.total) * 100)}%)`
+  );
   console.log(`  Total: ${stats.totalIcons}/${stats.totalResources} (${stats.coverage}%)\n`);
 
   // Check for orphan icons (icons without corresponding resources)
@@ -96,6 +104,7 @@ export function runValidation(): ValidationResult {
   checkOrphans('stone', stoneIds);
   checkOrphans('wood', woodIds);
   checkOrphans('food', foodIds);
+  checkOrphans('fiber', fiberIds);
 
   // Validate icon files (basic check - file size > 0)
   const validateIconFile = (type: ResourceType, id: string): void => {
@@ -120,6 +129,9 @@ export function runValidation(): ValidationResult {
   for (const id of foodIcons) {
     validateIconFile('food', id);
   }
+  for (const id of fiberIcons) {
+    validateIconFile('fiber', id);
+  }
 
   // Check if icon loader is in sync with actual icons
   if (fs.existsSync(ICONS_UTIL_PATH)) {
@@ -129,8 +141,10 @@ export function runValidation(): ValidationResult {
     const stoneMatches = loaderContent.match(/icons\/stones\/[a-z_]+\.png/g) || [];
     const woodMatches = loaderContent.match(/icons\/woods\/[a-z_]+\.png/g) || [];
     const foodMatches = loaderContent.match(/icons\/foods\/[a-z_]+\.png/g) || [];
+    const fiberMatches = loaderContent.match(/icons\/fibers\/[a-z_]+\.png/g) || [];
 
-    const loaderCount = stoneMatches.length + woodMatches.length + foodMatches.length;
+    const loaderCount =
+      stoneMatches.length + woodMatches.length + foodMatches.length + fiberMatches.length;
     if (loaderCount !== stats.totalIcons) {
       warnings.push(
         `Icon loader may be out of sync. Loader references ${loaderCount} icons, but ${stats.totalIcons} exist. Run 'npm run icons:integrate' to update.`
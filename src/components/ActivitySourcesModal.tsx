@@ -0,0 +1,179 @@
+// ActivitySourcesModal - Choose the health data gathering is paid for with
+// Lists the activity sources this platform provides, with what one gather costs in each
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../hooks/useTheme';
+import { ActivitySource } from '../types/health';
+import { ACTIVITY_SOURCES } from '../config/effort';
+import { EFFORT_PER_GATHER } from '../config/gathering';
+
+interface ActivitySourcesModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Sources currently gathered with */
+  selected: ActivitySource[];
+  /** Sources this platform provides */
+  supported: ActivitySource[];
+  onSave: (sources: ActivitySource[]) => void;
+}
+
+// What one gather costs in a source's own unit
+function describeGatherCost(source: ActivitySource): string {
+  const { unit, effortPerUnit } = ACTIVITY_SOURCES[source];
+  const amount = Math.round(EFFORT_PER_GATHER / effortPerUnit);
+  return `One gather: ${amount.toLocaleString()} ${unit}`;
+}
+
+// Inner content component that resets the selection on mount
+function ActivitySourcesModalContent({
+  onClose,
+  selected,
+  supported,
+  onSave,
+}: Omit<ActivitySourcesModalProps, 'visible'>) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const [chosen, setChosen] = useState<ActivitySource[]>(selected);
+
+  const toggle = (source: ActivitySource) => {
+    setChosen((prev) =>
+      prev.includes(source) ? prev.filter((s) => s !== source) : [...prev, source]
+    );
+  };
+
+  const handleSave = () => {
+    onSave(chosen);
+    onClose();
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+          <Text style={[styles.headerButtonText, { color: colors.primary }]}>Cancel</Text>
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.textPrimary }]}>Activity Sources</Text>
+        <TouchableOpacity
+          onPress={handleSave}
+          style={styles.headerButton}
+          disabled={chosen.length === 0}
+        >
+          <Text
+            style={[
+              styles.headerButtonText,
+              styles.saveText,
+              { color: chosen.length === 0 ? colors.textTertiary : colors.primary },
+            ]}
+          >
+            Save
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+          Gathering costs effort, which you can earn by walking, cycling, using a wheelchair or any
+          activity your health app tracks. Sources that measure the same movement, like steps and
+          walking distance, are not added together.
+        </Text>
+
+        {supported.map((source) => {
+          const isChosen = chosen.includes(source);
+          return (
+            <TouchableOpacity
+              key={source}
+              style={[
+                styles.option,
+                { backgroundColor: colors.surfaceSecondary },
+                isChosen && { borderColor: colors.primary },
+              ]}
+              onPress={() => toggle(source)}
+            >
+              <View style={styles.optionInfo}>
+                <Text style={[styles.optionText, { color: colors.textPrimary }]}>
+                  {ACTIVITY_SOURCES[source].label}
+                </Text>
+                <Text style={[styles.optionDetail, { color: colors.textSecondary }]}>
+                  {describeGatherCost(source)}
+                </Text>
+              </View>
+              {isChosen && <Text style={[styles.checkmark, { color: colors.primary }]}>✓</Text>}
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// Wrapper component that handles the Modal
+export default function ActivitySourcesModal({ visible, ...props }: ActivitySourcesModalProps) {
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={props.onClose}>
+      {visible && <ActivitySourcesModalContent {...props} />}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    width: 60,
+  },
+  headerButtonText: {
+    fontSize: 16,
+  },
+  saveText: {
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  helpText: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    padding: 14,
+    marginBottom: 8,
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionText: {
+    fontSize: 15,
+  },
+  optionDetail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  checkmark: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+});
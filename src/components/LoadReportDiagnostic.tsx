@@ -0,0 +1,88 @@
+// Load Report Diagnostic - Dev-only panel listing save records repaired or quarantined on load
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { useGameState } from '../hooks/useGameState';
+import { useTheme } from '../hooks/useTheme';
+import { hasLoadIssues } from '../services/SaveValidationService';
+
+export function LoadReportDiagnostic(): React.ReactElement | null {
+  const { loadReport } = useGameState();
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const insets = useSafeAreaInsets();
+  const [dismissed, setDismissed] = useState(false);
+
+  if (!__DEV__ || dismissed || !loadReport || !hasLoadIssues(loadReport)) return null;
+
+  return (
+    <View
+      accessibilityRole="alert"
+      style={[
+        styles.panel,
+        {
+          paddingTop: insets.top + 6,
+          backgroundColor: colors.warningBackground,
+          borderBottomColor: colors.warning,
+        },
+      ]}
+    >
+      <View style={styles.headerRow}>
+        <Text style={[styles.title, { color: colors.warningText }]}>
+          Save repaired on load: {loadReport.repaired.length} fixed, {loadReport.quarantined.length}{' '}
+          quarantined
+        </Text>
+        <TouchableOpacity onPress={() => setDismissed(true)}>
+          <Text style={[styles.dismiss, { color: colors.warningText }]}>✕</Text>
+        </TouchableOpacity>
+      </View>
+      <ScrollView style={styles.list}>
+        {loadReport.repaired.map((repair, i) => (
+          <Text key={`r${i}`} style={[styles.line, { color: colors.warningText }]}>
+            • {repair.field} {repair.id}: {repair.reason}
+          </Text>
+        ))}
+        {loadReport.quarantined.map((record, i) => (
+          <Text key={`q${i}`} style={[styles.line, { color: colors.warningText }]}>
+            • {record.field}: quarantined ({record.reason})
+          </Text>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    zIndex: 1001,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '600',
+    flex: 1,
+  },
+  dismiss: {
+    fontSize: 16,
+    paddingHorizontal: 8,
+  },
+  list: {
+    maxHeight: 160,
+    marginTop: 4,
+  },
+  line: {
+    fontSize: 12,
+  },
+});
@@ -11,28 +11,43 @@ import {
   ScrollView,
   Pressable,
 } from 'react-native';
-import { OwnedComponent, Craftable, getQualityTier, getUsedMaterialId } from '../types/tools';
+import {
+  OwnedComponent,
+  Tool,
+  CraftedComponent,
+  getQualityTier,
+  getUsedMaterialId,
+  calculateGatheringBonus,
+  isTool,
+} from '../types/tools';
 import { MaterialType, getMaterialConfig, getAllMaterialTypes } from '../config/materials';
 import { useGameState } from '../hooks/useGameState';
 import { useTheme } from '../hooks/useTheme';
 import {
   calculateCraftableQuality,
   calculateMaterialQualityWithWeights,
+  getComponentEfficiencyBonus,
   getQualityColor,
   getQualityDisplayName,
 } from '../utils/qualityCalculation';
 import { getComponentById } from '../data/tools';
 import { ThemeColors } from '../config/theme';
-import { calculateFoodCost } from '../services/CraftingService';
+import {
+  calculateFoodCost,
+  getCraftDuration,
+  selectDefaultComponents,
+} from '../services/CraftingService';
+import { formatDuration } from '../utils/strings';
 
 interface MaterialSelectionModalProps {
   visible: boolean;
   onClose: () => void;
   onConfirm: (selection: MaterialSelection) => void;
   title: string;
-  craftable: Craftable; // The tool or component being crafted
+  craftable: Tool | CraftedComponent; // The tool or component being crafted
   availableMaterials: Partial<Record<MaterialType, string[]>>;
   availableComponentIds?: string[];
+  showQualityPreview?: boolean; // Hidden for repairs, which keep the tool's quality
 }
 
 export interface MaterialSelection {
@@ -275,7 +290,7 @@ function ComponentOption({ component, isSelected, onSelect, colors }: ComponentO
             );
           })}
           <Text style={[styles.componentQuality, { color: colors.textTertiary }]}>
-            Quality: {qualityPercent}%
+            Quality: {qualityPercent}% · Tier {componentDef.properties.qualityTier}
           </Text>
         </View>
       </View>
@@ -292,6 +307,7 @@ export default function MaterialSelectionModal({
   craftable,
   availableMaterials,
   availableComponentIds = [],
+  showQualityPreview = true,
 }: MaterialSelectionModalProps) {
   const { getResourceCount, state } = useGameState();
   const { theme } = useTheme();
@@ -351,18 +367,10 @@ export default function MaterialSelectionModal({
 
       setSelectedMaterials(initialSelections);
 
-      // Auto-select required components
-      const autoSelectedComponents: string[] = [];
-      for (const req of requiredComponents) {
-        const available = availableComponentIds.filter((id) => {
-          const comp = state.ownedComponents.find((c) => c.instanceId === id);
-          return comp?.componentId === req.componentId;
-        });
-        for (let i = 0; i < req.quantity && i < available.length; i++) {
-          autoSelectedComponents.push(available[i]);
-        }
-      }
-      setSelectedComponentIds(autoSelectedComponents);
+      // Auto-select the best of each required component
+      setSelectedComponentIds(
+        selectDefaultComponents(requiredComponents, availableComponentIds, state.ownedComponents)
+      );
 
       // Reset food selections - user will select quantities manually
       setSelectedFoods({});
@@ -381,7 +389,11 @@ export default function MaterialSelectionModal({
     requiredMaterialTypes,
   ]);
 
-  // Calculate quality preview using the craftable's weights
+  const selectedComponents = selectedComponentIds
+    .map((id) => state.ownedComponents.find((c) => c.instanceId === id))
+    .filter((c): c is OwnedComponent => c !== undefined);
+
+  // Calculate quality preview using the craftable's weights and chosen components
   const getQualityPreview = () => {
     // Build usedMaterials in the expected format
     const usedMaterials: Record<string, { resourceId: string; quantity: number }> = {};
@@ -397,12 +409,23 @@ export default function MaterialSelectionModal({
       }
     }
 
-    const score = calculateCraftableQuality(craftable, usedMaterials);
+    const score = calculateCraftableQuality(craftable, usedMaterials, selectedComponents);
     return { tier: getQualityTier(score), score };
   };
 
   const qualityPreview = getQualityPreview();
 
+  // Preview the finished tool's gathering bonus, and how long the craft takes
+  const gatheringBonusPreview =
+    isTool(craftable) && craftable.gatheringMaterial
+      ? calculateGatheringBonus(
+          craftable,
+          qualityPreview.score,
+          getComponentEfficiencyBonus(selectedComponents)
+        )
+      : 0;
+  const craftTimePreview = getCraftDuration(craftable, selectedComponents);
+
   // Calculate actual food cost based on selected materials' workability
   const actualFoodCost = calculateFoodCost(materials, selectedMaterials);
 
@@ -464,13 +487,21 @@ export default function MaterialSelectionModal({
     }));
   };
 
+  // Selecting a component when enough of its type are already chosen swaps out the oldest choice
   const toggleComponent = (instanceId: string) => {
     setSelectedComponentIds((prev) => {
       if (prev.includes(instanceId)) {
         return prev.filter((id) => id !== instanceId);
-      } else {
-        return [...prev, instanceId];
       }
+      const componentId = state.ownedComponents.find(
+        (c) => c.instanceId === instanceId
+      )?.componentId;
+      const needed = requiredComponents.find((r) => r.componentId === componentId)?.quantity ?? 0;
+      const sameType = prev.filter(
+        (id) => state.ownedComponents.find((c) => c.instanceId === id)?.componentId === componentId
+      );
+      const next = sameType.length >= needed ? prev.filter((id) => id !== sameType[0]) : prev;
+      return [...next, instanceId];
     });
   };
 
@@ -503,24 +534,33 @@ export default function MaterialSelectionModal({
 
           <ScrollView style={styles.content}>
             {/* Quality Preview */}
-            <View style={[styles.qualityPreview, { backgroundColor: colors.surfaceSecondary }]}>
-              <Text style={[styles.qualityLabel, { color: colors.textPrimary }]}>
-                Quality Preview:
-              </Text>
-              <View
-                style={[
-                  styles.qualityBadge,
-                  { backgroundColor: getQualityColor(qualityPreview.tier) },
-                ]}
-              >
-                <Text style={styles.qualityBadgeText}>
-                  {getQualityDisplayName(qualityPreview.tier)}
+            {showQualityPreview && (
+              <View style={[styles.qualityPreview, { backgroundColor: colors.surfaceSecondary }]}>
+                <Text style={[styles.qualityLabel, { color: colors.textPrimary }]}>
+                  Quality Preview:
+                </Text>
+                <View
+                  style={[
+                    styles.qualityBadge,
+                    { backgroundColor: getQualityColor(qualityPreview.tier) },
+                  ]}
+                >
+                  <Text style={styles.qualityBadgeText}>
+                    {getQualityDisplayName(qualityPreview.tier)}
+                  </Text>
+                </View>
+                <Text style={[styles.qualityScoreText, { color: colors.textSecondary }]}>
+                  ({Math.round(qualityPreview.score * 100)}%)
                 </Text>
               </View>
-              <Text style={[styles.qualityScoreText, { color: colors.textSecondary }]}>
-                ({Math.round(qualityPreview.score * 100)}%)
+            )}
+            {showQualityPreview && (
+              <Text style={[styles.statsPreview, { color: colors.textSecondary }]}>
+                {gatheringBonusPreview > 0 &&
+                  `Gathering bonus: +${gatheringBonusPreview.toFixed(1)} · `}
+                Craft time: {formatDuration(craftTimePreview)}
               </Text>
-            </View>
+            )}
 
             {/* Quality Weights Info - show weights for each material type being used */}
             {requiredMaterialTypes.map((materialType) => {
@@ -565,8 +605,20 @@ export default function MaterialSelectionModal({
                 <View key={materialType} style={styles.section}>
                   <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
                     Select {config.singularName} ({requirement.quantity} needed)
-                    {requirement.requiresToolstone && config.hasToolstone && (
-                      <Text style={styles.toolstoneNote}> - Toolstone required</Text>
+                    {requirement.allowedResources ? (
+                      <Text style={styles.toolstoneNote}>
+                        {' '}
+                        -{' '}
+                        {requirement.allowedResources
+                          .map((id) => config.getResourceById(id)?.name ?? id)
+                          .join(' or ')}{' '}
+                        only
+                      </Text>
+                    ) : (
+                      requirement.requiresToolstone &&
+                      config.hasToolstone && (
+                        <Text style={styles.toolstoneNote}> - Toolstone required</Text>
+                      )
                     )}
                   </Text>
                   <Text style={[styles.sortNote, { color: colors.textTertiary }]}>
@@ -786,6 +838,12 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginLeft: 8,
   },
+  statsPreview: {
+    fontSize: 12,
+    marginTop: -8,
+    marginBottom: 16,
+    paddingHorizontal: 12,
+  },
   section: {
     marginBottom: 20,
   },
@@ -0,0 +1,284 @@
+// RegionPacksModal - Install and remove offline region packs of detailed GIS data
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../hooks/useTheme';
+import { useGeoData } from '../providers/GeoDataProvider';
+import { RegionPackInfo, RegionPackService } from '../services/RegionPackService';
+import { ThemeColors } from '../config/theme';
+
+interface RegionPacksModalProps {
+  visible: boolean;
+  onClose: () => void;
+  location: { latitude: number; longitude: number } | null;
+}
+
+interface PackRowProps {
+  pack: RegionPackInfo;
+  coversLocation: boolean;
+  onRemove: (pack: RegionPackInfo) => void;
+  colors: ThemeColors;
+}
+
+function PackRow({ pack, coversLocation, onRemove, colors }: PackRowProps) {
+  return (
+    <View style={[styles.packRow, { borderBottomColor: colors.border }]}>
+      <View style={styles.packInfo}>
+        <Text style={[styles.packName, { color: colors.textPrimary }]}>
+          {pack.name}
+          {coversLocation && (
+            <Text style={[styles.packHere, { color: colors.primary }]}> · You are here</Text>
+          )}
+        </Text>
+        <Text style={[styles.packDetail, { color: colors.textSecondary }]}>
+          {RegionPackService.formatBounds(pack.bounds)}
+        </Text>
+        <Text style={[styles.packDetail, { color: colors.textTertiary }]}>
+          {pack.tileCount.toLocaleString()} tiles · precision {pack.maxPrecision}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.removeButton, { borderColor: colors.danger }]}
+        onPress={() => onRemove(pack)}
+      >
+        <Text style={[styles.removeButtonText, { color: colors.danger }]}>Remove</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+// Inner content component that resets state on mount
+function RegionPacksModalContent({ onClose, location }: Omit<RegionPacksModalProps, 'visible'>) {
+  const { regionPacks, installRegionPack, uninstallRegionPack } = useGeoData();
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [url, setUrl] = useState('');
+  const [isInstalling, setIsInstalling] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleInstall = async () => {
+    setIsInstalling(true);
+    setStatus('Downloading...');
+    const result = await installRegionPack(url.trim());
+    setIsInstalling(false);
+    if (result.success) {
+      setStatus(`Installed ${result.info.name}`);
+      setUrl('');
+    } else {
+      setStatus(null);
+      Alert.alert('Install Failed', result.error);
+    }
+  };
+
+  const handleRemove = (pack: RegionPackInfo) => {
+    Alert.alert('Remove Region?', `Detailed data for ${pack.name} will be deleted.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => {
+          void uninstallRegionPack(pack.id).then(() => setStatus(`Removed ${pack.name}`));
+        },
+      },
+    ]);
+  };
+
+  const canInstall = url.trim().length > 0 && !isInstalling;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+          <Text style={[styles.closeButtonText, { color: colors.cheat }]}>Close</Text>
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.textPrimary }]}>Offline Regions</Text>
+        <View style={styles.closeButton} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={[styles.section, { backgroundColor: colors.surfaceSecondary }]}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Installed</Text>
+          {regionPacks.length === 0 ? (
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              No region packs installed. Terrain comes from the built-in ~39km map.
+            </Text>
+          ) : (
+            regionPacks.map((pack) => (
+              <PackRow
+                key={pack.id}
+                pack={pack}
+                coversLocation={
+                  location !== null &&
+                  RegionPackService.packContainsPoint(pack, location.latitude, location.longitude)
+                }
+                onRemove={handleRemove}
+                colors={colors}
+              />
+            ))
+          )}
+        </View>
+
+        <View style={[styles.section, { backgroundColor: colors.surfaceSecondary }]}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Install</Text>
+          <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+            Region packs add ~5km terrain detail for an area. Enter the address of a pack file to
+            download it.
+          </Text>
+          <TextInput
+            style={[
+              styles.urlInput,
+              { backgroundColor: colors.surface, color: colors.textPrimary },
+            ]}
+            value={url}
+            onChangeText={setUrl}
+            placeholder="https://example.com/london.db"
+            placeholderTextColor={colors.textTertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <TouchableOpacity
+            style={[
+              styles.button,
+              { backgroundColor: canInstall ? colors.primary : colors.border },
+            ]}
+            onPress={() => void handleInstall()}
+            disabled={!canInstall}
+          >
+            {isInstalling ? (
+              <ActivityIndicator color={colors.textInverse} />
+            ) : (
+              <Text
+                style={[
+                  styles.buttonText,
+                  { color: canInstall ? colors.textInverse : colors.textTertiary },
+                ]}
+              >
+                Install Pack
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {status && (
+          <Text style={[styles.statusText, { color: colors.textTertiary }]}>{status}</Text>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// Wrapper component that handles the Modal
+export default function RegionPacksModal({ visible, onClose, location }: RegionPacksModalProps) {
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      {visible && <RegionPacksModalContent onClose={onClose} location={location} />}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    width: 60,
+  },
+  closeButtonText: {
+    fontSize: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  packRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  packInfo: {
+    flex: 1,
+  },
+  packName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  packHere: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  packDetail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  removeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    marginLeft: 12,
+  },
+  removeButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  urlInput: {
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  statusText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,382 @@
+// ReportGeologyModal - Report the local rock type, and manage and export past reports
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  Share,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { File, Paths } from 'expo-file-system';
+import { useTheme } from '../hooks/useTheme';
+import { useGameState } from '../hooks/useGameState';
+import { useGeoData } from '../providers/GeoDataProvider';
+import {
+  GeologyOverride,
+  GeologyOverrideService,
+  GEOLOGY_PATCH_FILE_NAME,
+} from '../services/GeologyOverrideService';
+import { MAX_OVERRIDE_EVIDENCE_LENGTH } from '../config/geologyOverrides';
+import { formatSnakeCase } from '../utils/strings';
+import { ThemeColors } from '../config/theme';
+
+interface ReportGeologyModalProps {
+  visible: boolean;
+  onClose: () => void;
+  location: { latitude: number; longitude: number } | null;
+  currentLithology: string | null;
+}
+
+interface ReportRowProps {
+  override: GeologyOverride;
+  onRemove: (override: GeologyOverride) => void;
+  colors: ThemeColors;
+}
+
+function ReportRow({ override, onRemove, colors }: ReportRowProps) {
+  return (
+    <View style={[styles.reportRow, { borderBottomColor: colors.border }]}>
+      <View style={styles.reportInfo}>
+        <Text style={[styles.reportName, { color: colors.textPrimary }]}>
+          {formatSnakeCase(override.lithology)}
+          <Text style={[styles.reportDetail, { color: colors.textSecondary }]}>
+            {' '}
+            · tile {override.geohash}
+          </Text>
+        </Text>
+        {override.evidence.length > 0 && (
+          <Text style={[styles.reportDetail, { color: colors.textSecondary }]} numberOfLines={2}>
+            {override.evidence}
+          </Text>
+        )}
+        <Text style={[styles.reportDetail, { color: colors.textTertiary }]}>
+          {new Date(override.createdAt).toLocaleDateString()}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.removeButton, { borderColor: colors.danger }]}
+        onPress={() => onRemove(override)}
+      >
+        <Text style={[styles.removeButtonText, { color: colors.danger }]}>Remove</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+// Inner content component that resets state on mount
+function ReportGeologyModalContent({
+  onClose,
+  location,
+  currentLithology,
+}: Omit<ReportGeologyModalProps, 'visible'>) {
+  const { state } = useGameState();
+  const { geologyOverrides, reportGeology, removeGeologyOverride } = useGeoData();
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [lithology, setLithology] = useState<string | null>(null);
+  const [evidence, setEvidence] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const canReport = location !== null && lithology !== null && !isSaving;
+
+  const handleReport = async () => {
+    if (!location || !lithology) return;
+    setIsSaving(true);
+    const result = await reportGeology(
+      { lat: location.latitude, lng: location.longitude, lithology, evidence },
+      { id: state.playerId, signingKey: state.signingKey }
+    );
+    setIsSaving(false);
+    if (result.success) {
+      setStatus(`Reported ${formatSnakeCase(lithology)} for tile ${result.override.geohash}`);
+      setLithology(null);
+      setEvidence('');
+    } else {
+      Alert.alert('Report Failed', result.error);
+    }
+  };
+
+  const handleRemove = (override: GeologyOverride) => {
+    Alert.alert(
+      'Remove Report?',
+      `Your ${formatSnakeCase(override.lithology)} report will be deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            void removeGeologyOverride(override.id).then(() => setStatus('Report removed'));
+          },
+        },
+      ]
+    );
+  };
+
+  const handleExport = async () => {
+    const json = GeologyOverrideService.serializeGeologyPatch(
+      GeologyOverrideService.createGeologyPatch(geologyOverrides)
+    );
+    try {
+      const file = new File(Paths.document, GEOLOGY_PATCH_FILE_NAME);
+      if (!file.exists) file.create();
+      file.write(json);
+      setStatus(`Saved to ${GEOLOGY_PATCH_FILE_NAME}`);
+    } catch (error) {
+      console.error('Failed to write geology patch:', error);
+      setStatus('Could not write patch file; use Share instead');
+    }
+    try {
+      await Share.share({ title: 'WalkForage geology reports', message: json });
+    } catch (error) {
+      console.error('Failed to share geology patch:', error);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+          <Text style={[styles.closeButtonText, { color: colors.cheat }]}>Close</Text>
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.textPrimary }]}>Local Geology</Text>
+        <View style={styles.closeButton} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={[styles.section, { backgroundColor: colors.surfaceSecondary }]}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Report</Text>
+          <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+            {currentLithology ? `The map says ${formatSnakeCase(currentLithology)} here. ` : ''}
+            Know better? Pick the rock you find around this ~5km tile.
+          </Text>
+          <View style={styles.choices}>
+            {GeologyOverrideService.getReportableLithologies().map((choice) => {
+              const selected = choice.lithology === lithology;
+              return (
+                <TouchableOpacity
+                  key={choice.lithology}
+                  style={[
+                    styles.choice,
+                    {
+                      backgroundColor: selected ? colors.primary : colors.surface,
+                      borderColor: selected ? colors.primary : colors.border,
+                    },
+                  ]}
+                  onPress={() => setLithology(choice.lithology)}
+                >
+                  <Text
+                    style={[
+                      styles.choiceText,
+                      { color: selected ? colors.textInverse : colors.textPrimary },
+                    ]}
+                  >
+                    {choice.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <TextInput
+            style={[
+              styles.evidenceInput,
+              { backgroundColor: colors.surface, color: colors.textPrimary },
+            ]}
+            value={evidence}
+            onChangeText={setEvidence}
+            placeholder="Evidence (optional): quarry, outcrop, building stone..."
+            placeholderTextColor={colors.textTertiary}
+            maxLength={MAX_OVERRIDE_EVIDENCE_LENGTH}
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: canReport ? colors.primary : colors.border }]}
+            onPress={() => void handleReport()}
+            disabled={!canReport}
+          >
+            <Text
+              style={[
+                styles.buttonText,
+                { color: canReport ? colors.textInverse : colors.textTertiary },
+              ]}
+            >
+              {location ? 'Report Rock Type' : 'Waiting for location...'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.section, { backgroundColor: colors.surfaceSecondary }]}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Your Reports</Text>
+          {geologyOverrides.length === 0 ? (
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              No reports yet. Reports change the rock you find here on this device.
+            </Text>
+          ) : (
+            <>
+              {[...geologyOverrides].reverse().map((override) => (
+                <ReportRow
+                  key={override.id}
+                  override={override}
+                  onRemove={handleRemove}
+                  colors={colors}
+                />
+              ))}
+              <TouchableOpacity
+                style={[styles.button, styles.exportButton, { backgroundColor: colors.primary }]}
+                onPress={() => void handleExport()}
+              >
+                <Text style={[styles.buttonText, { color: colors.textInverse }]}>
+                  Export Reports
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        {status && (
+          <Text style={[styles.statusText, { color: colors.textTertiary }]}>{status}</Text>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// Wrapper component that handles the Modal
+export default function ReportGeologyModal({
+  visible,
+  onClose,
+  location,
+  currentLithology,
+}: ReportGeologyModalProps) {
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      {visible && (
+        <ReportGeologyModalContent
+          onClose={onClose}
+          location={location}
+          currentLithology={currentLithology}
+        />
+      )}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    width: 60,
+  },
+  closeButtonText: {
+    fontSize: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  choices: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  choice: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  choiceText: {
+    fontSize: 13,
+  },
+  evidenceInput: {
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  reportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  reportInfo: {
+    flex: 1,
+  },
+  reportName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  reportDetail: {
+    fontSize: 12,
+    fontWeight: '400',
+    marginTop: 2,
+  },
+  removeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    marginLeft: 12,
+  },
+  removeButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  exportButton: {
+    marginTop: 12,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  statusText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+});
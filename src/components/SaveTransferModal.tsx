@@ -0,0 +1,264 @@
+// SaveTransferModal - Export the game to a save file, or import one over the current game
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  Share,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { File, Paths } from 'expo-file-system';
+import Constants from 'expo-constants';
+import { useGameState } from '../hooks/useGameState';
+import { useTheme } from '../hooks/useTheme';
+import { SaveTransferService, SAVE_FILE_NAME } from '../services/SaveTransferService';
+
+const APP_VERSION = Constants.expoConfig?.version ?? 'unknown';
+
+interface SaveTransferModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Inner content component that resets state on mount
+function SaveTransferModalContent({ onClose }: Omit<SaveTransferModalProps, 'visible'>) {
+  const { exportSave, previewImport, applyImport } = useGameState();
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [importText, setImportText] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    const json = exportSave(APP_VERSION);
+    try {
+      const file = new File(Paths.document, SAVE_FILE_NAME);
+      if (!file.exists) file.create();
+      file.write(json);
+      setStatus(`Saved to ${SAVE_FILE_NAME}`);
+    } catch (error) {
+      console.error('Failed to write save file:', error);
+      setStatus('Could not write save file; use Share instead');
+    }
+    try {
+      await Share.share({ title: 'WalkForage save', message: json });
+    } catch (error) {
+      console.error('Failed to share save:', error);
+    }
+  };
+
+  const handleLoadFile = async () => {
+    try {
+      const file = new File(Paths.document, SAVE_FILE_NAME);
+      if (!file.exists) {
+        setStatus('No exported save file found');
+        return;
+      }
+      setImportText(await file.text());
+      setStatus(`Loaded ${SAVE_FILE_NAME}`);
+    } catch (error) {
+      console.error('Failed to read save file:', error);
+      setStatus('Could not read save file');
+    }
+  };
+
+  const handleImport = () => {
+    const preview = previewImport(importText.trim());
+    if (!preview.success) {
+      Alert.alert('Import Failed', preview.error);
+      return;
+    }
+
+    const { envelope, incoming, summary, report } = preview;
+    const exportedAt = envelope.exportedAt ? new Date(envelope.exportedAt).toLocaleString() : '?';
+    const message = [
+      `Save from app ${envelope.appVersion}, exported ${exportedAt}.`,
+      '',
+      ...SaveTransferService.formatSaveDiff(summary),
+      ...(report.quarantined.length > 0
+        ? ['', `${report.quarantined.length} invalid record(s) will be set aside.`]
+        : []),
+      '',
+      'Your current game will be overwritten.',
+    ].join('\n');
+
+    Alert.alert('Replace Current Game?', message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Import',
+        style: 'destructive',
+        onPress: () => {
+          void applyImport(incoming).then(onClose);
+        },
+      },
+    ]);
+  };
+
+  const canImport = importText.trim().length > 0;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+          <Text style={[styles.closeButtonText, { color: colors.cheat }]}>Close</Text>
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.textPrimary }]}>Backup</Text>
+        <View style={styles.closeButton} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={[styles.section, { backgroundColor: colors.surfaceSecondary }]}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Export</Text>
+          <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+            Save your whole game to a file you can keep or move to another device.
+          </Text>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={() => void handleExport()}
+          >
+            <Text style={[styles.buttonText, { color: colors.textInverse }]}>Export Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.section, { backgroundColor: colors.surfaceSecondary }]}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Import</Text>
+          <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+            Paste a save file below, or load the last exported file. You will see what changes
+            before anything is overwritten.
+          </Text>
+          <TextInput
+            style={[
+              styles.importInput,
+              { backgroundColor: colors.surface, color: colors.textPrimary },
+            ]}
+            value={importText}
+            onChangeText={setImportText}
+            placeholder="Paste save file here"
+            placeholderTextColor={colors.textTertiary}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.rowButton, { backgroundColor: colors.primaryDark }]}
+              onPress={() => void handleLoadFile()}
+            >
+              <Text style={[styles.buttonText, { color: colors.textInverse }]}>Load File</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.rowButton,
+                { backgroundColor: canImport ? colors.danger : colors.border },
+              ]}
+              onPress={handleImport}
+              disabled={!canImport}
+            >
+              <Text
+                style={[
+                  styles.buttonText,
+                  { color: canImport ? colors.textInverse : colors.textTertiary },
+                ]}
+              >
+                Import
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {status && (
+          <Text style={[styles.statusText, { color: colors.textTertiary }]}>{status}</Text>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// Wrapper component that handles the Modal
+export default function SaveTransferModal({ visible, onClose }: SaveTransferModalProps) {
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      {visible && <SaveTransferModalContent onClose={onClose} />}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    width: 60,
+  },
+  closeButtonText: {
+    fontSize: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  importInput: {
+    minHeight: 120,
+    maxHeight: 240,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  rowButton: {
+    flex: 1,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  statusText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+});
@@ -1,5 +1,7 @@
 // StepGatherPanel - UI component for step-based resource gathering
-// Shows available steps and gather buttons dynamically for all gatherable material types
+// Shows available steps (or effort, when gathering with other activity too) and gather
+// buttons dynamically for all gatherable material types. Steps estimated from GPS
+// distance, where there's no health data, are labelled as such.
 
 import React, { useCallback, useMemo, useState } from 'react';
 import {
@@ -12,20 +14,54 @@ import {
   Modal,
 } from 'react-native';
 import { HealthPermissionRationale } from './HealthPermissionRationale';
+import ActivitySourcesModal from './ActivitySourcesModal';
+import StepHistoryModal from './StepHistoryModal';
+import StepSourceModal from './StepSourceModal';
 import { ToastContainer, ToastMessage, ToastType } from './Toast';
 import { UseStepGatheringReturn } from '../hooks/useStepGathering';
 import { LocationGeoData } from '../types/gis';
 import { MaterialType, getGatherableMaterialTypes, getMaterialConfig } from '../config/materials';
 import {
-  STEPS_PER_GATHER,
+  EFFORT_PER_GATHER,
+  StepCreditPolicy,
   calculateGatherableAmount,
   calculateGatheringAbility,
 } from '../config/gathering';
 import { useGameState } from '../hooks/useGameState';
 import { useTheme } from '../hooks/useTheme';
+import { ActivitySource } from '../types/health';
+import { ACTIVITY_SOURCES } from '../config/effort';
 
 let toastId = 0;
 
+const HOUR_MS = 60 * 60 * 1000;
+
+// Describe a duration in whole days or hours
+function formatWindow(ms: number): string {
+  const hours = Math.round(ms / HOUR_MS);
+  if (hours % 24 === 0 && hours >= 24) {
+    return hours === 24 ? '24 hours' : `${hours / 24} days`;
+  }
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+// Explain the step credit policy to the player
+function describeCreditPolicy(policy: StepCreditPolicy): string {
+  const welcome =
+    policy.welcomeWindowMs > 0
+      ? `Your first sync credits the steps from the last ${formatWindow(policy.welcomeWindowMs)}.`
+      : 'Steps are counted from your first sync.';
+  const catchUp = `Each sync credits steps since the last one, reaching back at most ${formatWindow(policy.maxCatchUpMs)}, so open the app at least that often.`;
+  const cap = Number.isFinite(policy.dailyCap)
+    ? `Up to ${policy.dailyCap.toLocaleString()} steps are credited each day. ${
+        policy.overflow === 'carry'
+          ? 'Steps over the cap are held and credited on later days.'
+          : 'Steps over the cap are not credited.'
+      }`
+    : '';
+  return [welcome, catchUp, cap].filter(Boolean).join('\n\n');
+}
+
 export interface StepGatherPanelProps {
   /** Step gathering hook return value */
   stepGathering: UseStepGatheringReturn;
@@ -46,6 +82,9 @@ export function StepGatherPanel({
   const {
     availableSteps,
     totalStepsGathered,
+    stepCarryOver,
+    creditPolicy,
+    stepSource,
     permissionStatus,
     isLoading,
     syncSteps,
@@ -55,6 +94,12 @@ export function StepGatherPanel({
     needsInstall,
     openHealthSettings,
     openPlayStore,
+    preferredStepOrigin,
+    setPreferredStepOrigin,
+    getStepOrigins,
+    activitySources,
+    setActivitySources,
+    supportedActivitySources,
   } = stepGathering;
 
   const { state } = useGameState();
@@ -62,7 +107,12 @@ export function StepGatherPanel({
 
   // Calculate directly from reactive availableSteps to ensure UI updates immediately
   const gatherableCount = calculateGatherableAmount(availableSteps);
+  // Effort is one step's worth each, so players who only walk see steps
+  const effortUnit =
+    activitySources.length === 1 && activitySources[0] === 'steps' ? 'steps' : 'effort';
   const canGather = gatherableCount > 0 && geoData !== null;
+  const isGpsEstimate = stepSource === 'gps';
+  const settingsName = isGpsEstimate ? 'Settings' : 'Health Connect settings';
 
   // Calculate gathering abilities and yield ranges for each material type
   // Filter to only materials that can be gathered (ability >= 1)
@@ -81,6 +131,9 @@ export function StepGatherPanel({
   );
 
   const [showRationale, setShowRationale] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSource, setShowSource] = useState(false);
+  const [showActivitySources, setShowActivitySources] = useState(false);
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
 
   const showToast = useCallback((message: string, type: ToastType = 'success') => {
@@ -99,21 +152,21 @@ export function StepGatherPanel({
     } else if (status === 'denied') {
       Alert.alert(
         'Permission Denied',
-        'Step access was denied. Would you like to open Health Connect settings to grant permission?',
+        `${isGpsEstimate ? 'Location' : 'Step'} access was denied. Would you like to open ${settingsName} to grant permission?`,
         [
           { text: 'Cancel', style: 'cancel' },
           {
             text: 'Open Settings',
             onPress: () => {
               void openHealthSettings().then((ok) => {
-                if (!ok) showToast('Could not open Health Connect settings.', 'error');
+                if (!ok) showToast(`Could not open ${settingsName}.`, 'error');
               });
             },
           },
         ]
       );
     }
-  }, [requestPermission, syncSteps, openHealthSettings, showToast]);
+  }, [requestPermission, syncSteps, openHealthSettings, showToast, isGpsEstimate, settingsName]);
 
   const handleInstallHealthConnect = useCallback(async () => {
     Alert.alert(
@@ -155,7 +208,12 @@ export function StepGatherPanel({
   const handleSync = useCallback(async () => {
     const result = await syncSteps();
     if (result.success && result.newSteps > 0) {
-      showToast(`+${result.newSteps} steps synced!`, 'info');
+      const held = result.carriedOver
+        ? ` (${result.carriedOver.toLocaleString()} held for later)`
+        : '';
+      showToast(`+${result.newSteps} steps synced!${held}`, 'info');
+    } else if (result.success && result.carriedOver) {
+      showToast('Daily step cap reached', 'info');
     } else if (result.success) {
       showToast('No new steps', 'info');
     } else {
@@ -163,6 +221,19 @@ export function StepGatherPanel({
     }
   }, [syncSteps, showToast]);
 
+  const handleSaveActivitySources = useCallback(
+    (sources: ActivitySource[]) => {
+      setActivitySources(sources);
+      // New sources need their own permission
+      void requestPermission(sources);
+    },
+    [setActivitySources, requestPermission]
+  );
+
+  const handleExplainCredit = useCallback(() => {
+    Alert.alert('How Steps Are Credited', describeCreditPolicy(creditPolicy));
+  }, [creditPolicy]);
+
   // Not available on this platform
   if (!isAvailable) {
     return null;
@@ -184,7 +255,7 @@ export function StepGatherPanel({
   }
 
   // Health Connect needs to be installed (Android)
-  if (needsInstall) {
+  if (needsInstall && !isGpsEstimate) {
     return (
       <>
         <ToastContainer toasts={toasts} onDismiss={dismissToast} />
@@ -220,17 +291,25 @@ export function StepGatherPanel({
         ]}
       >
         <Text style={[styles.permissionText, { color: colors.textSecondary }]}>
-          Connect health to gather resources with steps
+          {isGpsEstimate
+            ? 'Allow location to gather resources with steps estimated from your walks'
+            : 'Connect health to gather resources with steps'}
         </Text>
         <TouchableOpacity
           style={[styles.permissionButton, { backgroundColor: colors.primary }]}
           onPress={handleRequestPermission}
         >
-          <Text style={styles.permissionButtonText}>Connect Health</Text>
-        </TouchableOpacity>
-        <TouchableOpacity onPress={() => setShowRationale(true)} style={styles.learnWhyLink}>
-          <Text style={[styles.learnWhyText, { color: colors.info }]}>Learn why we need this</Text>
+          <Text style={styles.permissionButtonText}>
+            {isGpsEstimate ? 'Allow Location' : 'Connect Health'}
+          </Text>
         </TouchableOpacity>
+        {!isGpsEstimate && (
+          <TouchableOpacity onPress={() => setShowRationale(true)} style={styles.learnWhyLink}>
+            <Text style={[styles.learnWhyText, { color: colors.info }]}>
+              Learn why we need this
+            </Text>
+          </TouchableOpacity>
+        )}
         <Modal
           visible={showRationale}
           animationType="slide"
@@ -255,7 +334,7 @@ export function StepGatherPanel({
           ]}
         >
           <Text style={[styles.permissionText, { color: colors.textSecondary }]}>
-            Step access denied. Enable it in Health Connect settings.
+            {isGpsEstimate ? 'Location' : 'Step'} access denied. Enable it in {settingsName}.
           </Text>
           <View style={styles.deniedButtons}>
             <TouchableOpacity
@@ -293,24 +372,34 @@ export function StepGatherPanel({
             { backgroundColor: colors.overlayPanel, shadowColor: colors.shadow },
           ]}
         >
-          <Text style={[styles.compactLabel, { color: colors.textSecondary }]}>Forage</Text>
+          <Text style={[styles.compactLabel, { color: colors.textSecondary }]}>
+            {isGpsEstimate ? 'Forage · steps from GPS' : 'Forage'}
+          </Text>
           <View style={styles.compactHeader}>
             <View>
               <Text style={[styles.stepCount, { color: colors.primary }]}>
-                {availableSteps.toLocaleString()} steps
+                {availableSteps.toLocaleString()} {effortUnit}
               </Text>
               <Text style={[styles.gatherInfo, { color: colors.textTertiary }]}>
                 {gatherableCount > 0
                   ? `${gatherableCount} gather${gatherableCount !== 1 ? 's' : ''} available`
-                  : `${STEPS_PER_GATHER - (availableSteps % STEPS_PER_GATHER)} more for next`}
+                  : `${EFFORT_PER_GATHER - (availableSteps % EFFORT_PER_GATHER)} more for next`}
               </Text>
             </View>
-            <TouchableOpacity
-              onPress={handleSync}
-              style={[styles.syncButton, { backgroundColor: colors.surfaceSecondary }]}
-            >
-              <Text style={[styles.syncButtonText, { color: colors.info }]}>Sync</Text>
-            </TouchableOpacity>
+            <View style={styles.compactActions}>
+              <TouchableOpacity
+                onPress={() => setShowHistory(true)}
+                style={[styles.syncButton, { backgroundColor: colors.surfaceSecondary }]}
+              >
+                <Text style={[styles.syncButtonText, { color: colors.info }]}>History</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleSync}
+                style={[styles.syncButton, { backgroundColor: colors.surfaceSecondary }]}
+              >
+                <Text style={[styles.syncButtonText, { color: colors.info }]}>Sync</Text>
+              </TouchableOpacity>
+            </View>
           </View>
           <View style={styles.compactButtons}>
             {materialGatheringInfo.map(({ materialType, config, yieldRange }) => (
@@ -337,6 +426,7 @@ export function StepGatherPanel({
             </Text>
           )}
         </View>
+        <StepHistoryModal visible={showHistory} onClose={() => setShowHistory(false)} />
       </>
     );
   }
@@ -357,11 +447,13 @@ export function StepGatherPanel({
           <Text style={[styles.stepCount, { color: colors.primary }]}>
             {availableSteps.toLocaleString()}
           </Text>
-          <Text style={[styles.stepLabel, { color: colors.textSecondary }]}>steps available</Text>
+          <Text style={[styles.stepLabel, { color: colors.textSecondary }]}>
+            {effortUnit} available
+          </Text>
           <Text style={[styles.gatherInfoFull, { color: colors.textSecondary }]}>
             {gatherableCount > 0
-              ? `${gatherableCount} gather${gatherableCount !== 1 ? 's' : ''} available (${STEPS_PER_GATHER} steps each)`
-              : `${STEPS_PER_GATHER - (availableSteps % STEPS_PER_GATHER)} more steps for next gather`}
+              ? `${gatherableCount} gather${gatherableCount !== 1 ? 's' : ''} available (${EFFORT_PER_GATHER} ${effortUnit} each)`
+              : `${EFFORT_PER_GATHER - (availableSteps % EFFORT_PER_GATHER)} more ${effortUnit} for next gather`}
           </Text>
           <TouchableOpacity
             onPress={handleSync}
@@ -397,9 +489,64 @@ export function StepGatherPanel({
         )}
 
         <Text style={[styles.totalGathered, { color: colors.textTertiary }]}>
-          Total gathered: {totalStepsGathered.toLocaleString()} steps
+          Total gathered: {totalStepsGathered.toLocaleString()} {effortUnit}
         </Text>
+        <TouchableOpacity onPress={() => setShowHistory(true)} style={styles.learnWhyLink}>
+          <Text style={[styles.learnWhyText, { color: colors.info }]}>Step history</Text>
+        </TouchableOpacity>
+        {stepCarryOver > 0 && (
+          <Text style={[styles.totalGathered, { color: colors.textTertiary }]}>
+            {stepCarryOver.toLocaleString()} {effortUnit} held over the daily cap
+          </Text>
+        )}
+        <TouchableOpacity onPress={handleExplainCredit} style={styles.learnWhyLink}>
+          <Text style={[styles.learnWhyText, { color: colors.info }]}>How steps are credited</Text>
+        </TouchableOpacity>
+        {isGpsEstimate ? (
+          <Text style={[styles.totalGathered, { color: colors.textTertiary }]}>
+            Steps estimated from GPS distance walked while the app is open
+          </Text>
+        ) : (
+          <TouchableOpacity onPress={() => setShowSource(true)} style={styles.learnWhyLink}>
+            <Text style={[styles.learnWhyText, { color: colors.info }]}>
+              Counting steps from: {preferredStepOrigin ?? 'all devices'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {isGpsEstimate && needsInstall && (
+          <TouchableOpacity onPress={handleInstallHealthConnect} style={styles.learnWhyLink}>
+            <Text style={[styles.learnWhyText, { color: colors.info }]}>
+              Install Health Connect to count steps instead
+            </Text>
+          </TouchableOpacity>
+        )}
+        {supportedActivitySources.length > 1 && (
+          <TouchableOpacity
+            onPress={() => setShowActivitySources(true)}
+            style={styles.learnWhyLink}
+          >
+            <Text style={[styles.learnWhyText, { color: colors.info }]}>
+              Gathering with:{' '}
+              {activitySources.map((source) => ACTIVITY_SOURCES[source].label).join(', ')}
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
+      <StepHistoryModal visible={showHistory} onClose={() => setShowHistory(false)} />
+      <StepSourceModal
+        visible={showSource}
+        onClose={() => setShowSource(false)}
+        preferredOrigin={preferredStepOrigin}
+        onSelect={setPreferredStepOrigin}
+        loadOrigins={getStepOrigins}
+      />
+      <ActivitySourcesModal
+        visible={showActivitySources}
+        onClose={() => setShowActivitySources(false)}
+        selected={activitySources}
+        supported={supportedActivitySources}
+        onSave={handleSaveActivitySources}
+      />
     </>
   );
 }
@@ -454,6 +601,10 @@ const styles = StyleSheet.create({
     alignItems: 'flex-start',
     marginBottom: 8,
   },
+  compactActions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
   compactButtons: {
     flexDirection: 'row',
     gap: 8,
@@ -0,0 +1,208 @@
+// StepHistoryModal - Steps walked versus spent per day, from the step ledger
+// Recent days can be expanded to audit each sync and spend
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useGameState } from '../hooks/useGameState';
+import { useTheme } from '../hooks/useTheme';
+import { StepLedgerEntry, StepLedgerService } from '../services/StepLedgerService';
+import { STEP_HISTORY_DAYS } from '../config/stepLedger';
+import { StepSource } from '../types/health';
+import { formatSnakeCase } from '../utils/strings';
+
+const SOURCE_LABELS: Record<StepSource, string> = {
+  health_connect: 'Health Connect',
+  healthkit: 'HealthKit',
+  gps: 'GPS distance',
+  cheat: 'Cheat',
+};
+
+interface StepHistoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+function formatDay(day: string, now: number): string {
+  if (day === StepLedgerService.getLedgerDay(now)) return 'Today';
+  if (day === StepLedgerService.getLedgerDay(now - 24 * 60 * 60 * 1000)) return 'Yesterday';
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+function describeEntry(entry: StepLedgerEntry): string {
+  if (entry.type === 'sync') {
+    const window =
+      entry.since < entry.until ? ` (${formatTime(entry.since)}–${formatTime(entry.until)})` : '';
+    return `+${entry.amount.toLocaleString()} from ${SOURCE_LABELS[entry.source]}${window}`;
+  }
+  return `−${entry.amount.toLocaleString()} on ${formatSnakeCase(entry.spentOn)}`;
+}
+
+// Inner content component that resets state on mount
+function StepHistoryModalContent({ onClose }: Omit<StepHistoryModalProps, 'visible'>) {
+  const { state } = useGameState();
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const [expandedDay, setExpandedDay] = useState<string | null>(null);
+
+  // Fixed when the modal opens, so day labels don't shift while it's shown
+  const [now] = useState(() => Date.now());
+  const history = StepLedgerService.getDailyHistory(state.stepLedger, now);
+  const maxSteps = Math.max(1, ...history.map((d) => Math.max(d.walked, d.spent)));
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+          <Text style={[styles.closeButtonText, { color: colors.primary }]}>Close</Text>
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.textPrimary }]}>Step History</Text>
+        <View style={styles.closeButton} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+          Steps walked and spent over the last {STEP_HISTORY_DAYS} days. Tap a recent day to see
+          each sync and gather.
+        </Text>
+
+        {history.length === 0 && (
+          <Text style={[styles.emptyText, { color: colors.textTertiary }]}>
+            No steps recorded yet
+          </Text>
+        )}
+
+        {history.map(({ day, walked, spent }) => {
+          const entries = StepLedgerService.getEntriesForDay(state.stepLedger, day);
+          const expanded = expandedDay === day && entries.length > 0;
+          return (
+            <TouchableOpacity
+              key={day}
+              style={[styles.dayRow, { backgroundColor: colors.surfaceSecondary }]}
+              onPress={() => setExpandedDay(expanded ? null : day)}
+              disabled={entries.length === 0}
+            >
+              <View style={styles.dayHeader}>
+                <Text style={[styles.dayLabel, { color: colors.textPrimary }]}>
+                  {formatDay(day, now)}
+                </Text>
+                <Text style={[styles.dayTotals, { color: colors.textSecondary }]}>
+                  {walked.toLocaleString()} walked · {spent.toLocaleString()} spent
+                </Text>
+              </View>
+              <View style={[styles.bar, { backgroundColor: colors.border }]}>
+                <View
+                  style={[
+                    styles.barFill,
+                    { width: `${(walked / maxSteps) * 100}%`, backgroundColor: colors.primary },
+                  ]}
+                />
+              </View>
+              <View style={[styles.bar, { backgroundColor: colors.border }]}>
+                <View
+                  style={[
+                    styles.barFill,
+                    { width: `${(spent / maxSteps) * 100}%`, backgroundColor: colors.warning },
+                  ]}
+                />
+              </View>
+              {expanded &&
+                entries.map((entry, index) => (
+                  <Text key={index} style={[styles.entryText, { color: colors.textSecondary }]}>
+                    {formatTime(entry.at)} {describeEntry(entry)}
+                  </Text>
+                ))}
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// Wrapper component that handles the Modal
+export default function StepHistoryModal({ visible, onClose }: StepHistoryModalProps) {
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      {visible && <StepHistoryModalContent onClose={onClose} />}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    width: 60,
+  },
+  closeButtonText: {
+    fontSize: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  helpText: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  dayRow: {
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 6,
+  },
+  dayLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  dayTotals: {
+    fontSize: 12,
+  },
+  bar: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginTop: 3,
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  entryText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
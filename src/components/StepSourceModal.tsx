@@ -0,0 +1,165 @@
+// StepSourceModal - Choose which app's steps count when several devices record the same walk
+// Lists the apps that recorded steps over the last week
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../hooks/useTheme';
+import { StepOrigin } from '../types/health';
+
+interface StepSourceModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Currently preferred origin (null: the platform merges them) */
+  preferredOrigin: string | null;
+  onSelect: (origin: string | null) => void;
+  loadOrigins: () => Promise<StepOrigin[]>;
+}
+
+// Inner content component that reloads origins on mount
+function StepSourceModalContent({
+  onClose,
+  preferredOrigin,
+  onSelect,
+  loadOrigins,
+}: Omit<StepSourceModalProps, 'visible'>) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const [origins, setOrigins] = useState<StepOrigin[] | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    void loadOrigins().then((loaded) => {
+      if (mounted) setOrigins(loaded);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [loadOrigins]);
+
+  // Keep a preferred origin listed even if it recorded nothing this week
+  const options: { id: string | null; name: string }[] = [
+    { id: null, name: 'All devices (merged)' },
+    ...(origins ?? []),
+  ];
+  if (preferredOrigin !== null && origins && !origins.some((o) => o.id === preferredOrigin)) {
+    options.push({ id: preferredOrigin, name: preferredOrigin });
+  }
+
+  const handleSelect = (origin: string | null) => {
+    onSelect(origin);
+    onClose();
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+          <Text style={[styles.closeButtonText, { color: colors.primary }]}>Close</Text>
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.textPrimary }]}>Step Source</Text>
+        <View style={styles.closeButton} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+          When your phone and a watch both count the same walk, only one of them is credited. Pick
+          the device you carry most, or let your health app merge them.
+        </Text>
+
+        {origins === null ? (
+          <ActivityIndicator color={colors.primary} style={styles.loading} />
+        ) : (
+          options.map(({ id, name }) => {
+            const selected = id === preferredOrigin;
+            return (
+              <TouchableOpacity
+                key={id ?? 'merged'}
+                style={[
+                  styles.option,
+                  { backgroundColor: colors.surfaceSecondary },
+                  selected && { borderColor: colors.primary },
+                ]}
+                onPress={() => handleSelect(id)}
+              >
+                <Text style={[styles.optionText, { color: colors.textPrimary }]}>{name}</Text>
+                {selected && <Text style={[styles.checkmark, { color: colors.primary }]}>✓</Text>}
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// Wrapper component that handles the Modal
+export default function StepSourceModal({ visible, ...props }: StepSourceModalProps) {
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={props.onClose}>
+      {visible && <StepSourceModalContent {...props} />}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    width: 60,
+  },
+  closeButtonText: {
+    fontSize: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  helpText: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    padding: 14,
+    marginBottom: 8,
+  },
+  optionText: {
+    fontSize: 15,
+    flex: 1,
+  },
+  checkmark: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+});
@@ -2,7 +2,7 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { TechResourceCost } from '../types/tech';
+import { TechResourceCost, EXPLORATION_RESOURCE } from '../types/tech';
 import { ResourceStack } from '../types/resources';
 import { MaterialType, getMaterialConfig, getAllMaterialTypes } from '../config/materials';
 import { useTheme } from '../hooks/useTheme';
@@ -194,6 +194,10 @@ function TechResourceModalContent({
     resourceCosts.some((c) => c.resourceType === type && c.quantity > 0)
   );
 
+  // Exploration points are spent automatically alongside the selected materials
+  const explorationCost =
+    resourceCosts.find((c) => c.resourceType === EXPLORATION_RESOURCE)?.quantity ?? 0;
+
   // Get cost for a material type
   const getCostForType = (type: MaterialType): number => {
     return resourceCosts.find((c) => c.resourceType === type)?.quantity || 0;
@@ -246,6 +250,11 @@ function TechResourceModalContent({
         <Text style={[styles.instructionText, { color: colors.textTertiary }]}>
           Select which materials to spend on this research:
         </Text>
+        {explorationCost > 0 && (
+          <Text style={[styles.instructionText, { color: colors.textSecondary }]}>
+            Also spends {explorationCost} 🧭 exploration points
+          </Text>
+        )}
 
         {requiredMaterialTypes.map((type) => {
           const cost = getCostForType(type);
@@ -1,5 +1,5 @@
 // GeohashOverlay - Renders colored polygon overlays for geohash tiles
-// Used to visualize biome and lithology data on the map
+// Used to visualize biome, lithology and water data on the map
 
 import React, { useMemo } from 'react';
 import { Polygon } from 'react-native-maps';
@@ -8,11 +8,20 @@ import { geohashBounds } from '../../utils/geohash';
 import {
   getBiomeColor,
   getLithologyColor,
+  getWaterColor,
   BIOME_OVERLAY_OPACITY,
   LITHOLOGY_OVERLAY_OPACITY,
+  WATER_OVERLAY_OPACITY,
 } from '../../config/overlayColors';
+import { getWaterCategory } from '../../config/water';
 
-export type OverlayType = 'biome' | 'lithology';
+export type OverlayType = 'biome' | 'lithology' | 'water';
+
+const OVERLAY_OPACITY: Record<OverlayType, number> = {
+  biome: BIOME_OVERLAY_OPACITY,
+  lithology: LITHOLOGY_OVERLAY_OPACITY,
+  water: WATER_OVERLAY_OPACITY,
+};
 
 interface GeohashOverlayProps {
   tiles: GeoTile[];
@@ -48,18 +57,29 @@ function hexToRgba(hex: string, opacity: number): string {
   return `rgba(${r}, ${g}, ${b}, ${opacity})`;
 }
 
+/**
+ * Get a tile's base color for the given overlay
+ */
+function getTileColor(tile: GeoTile, type: OverlayType): string {
+  switch (type) {
+    case 'biome':
+      return getBiomeColor(tile.biome.type);
+    case 'lithology':
+      return getLithologyColor(tile.geology.primaryLithology);
+    case 'water':
+      return getWaterColor(getWaterCategory(tile.water));
+  }
+}
+
 /**
  * Renders polygon overlays for an array of geohash tiles
  */
 export function GeohashOverlay({ tiles, type }: GeohashOverlayProps) {
   const polygons = useMemo((): PolygonData[] => {
-    const opacity = type === 'biome' ? BIOME_OVERLAY_OPACITY : LITHOLOGY_OVERLAY_OPACITY;
+    const opacity = OVERLAY_OPACITY[type];
 
     return tiles.map((tile) => {
-      const baseColor =
-        type === 'biome'
-          ? getBiomeColor(tile.biome.type)
-          : getLithologyColor(tile.geology.primaryLithology);
+      const baseColor = getTileColor(tile, type);
 
       return {
         key: `${tile.geohash}-${type}`,
@@ -1,12 +1,12 @@
 // MapLayerControls - Floating layer toggle buttons for map overlays
-// Allows switching between biome overlay and lithology overlay
+// Allows switching between the biome, lithology and water overlays
 
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../../hooks/useTheme';
 
-export type MapLayerType = 'biome' | 'lithology';
+export type MapLayerType = 'biome' | 'lithology' | 'water';
 
 interface MapLayerControlsProps {
   activeLayer: MapLayerType;
@@ -23,6 +23,7 @@ interface LayerOption {
 const LAYER_OPTIONS: LayerOption[] = [
   { type: 'biome', icon: '🌲', label: 'Biome' },
   { type: 'lithology', icon: '🪨', label: 'Geology' },
+  { type: 'water', icon: '💧', label: 'Water' },
 ];
 
 export function MapLayerControls({ activeLayer, onLayerChange, isLoading }: MapLayerControlsProps) {
@@ -1,4 +1,4 @@
-// MapLegend - Dynamic color legend showing visible biome/lithology types
+// MapLegend - Dynamic color legend showing visible biome/lithology/water types
 // Extracts unique types from visible tiles and displays their colors
 
 import React, { useMemo } from 'react';
@@ -7,13 +7,52 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { GeoTile } from '../../types/gis';
 import { BiomeCode } from '../../types/resources';
 import { useTheme } from '../../hooks/useTheme';
-import { getBiomeColor, getLithologyColor } from '../../config/overlayColors';
+import { getBiomeColor, getLithologyColor, getWaterColor } from '../../config/overlayColors';
 import { getBiomeDisplayName } from '../../config/biomes';
+import { getWaterCategory, WaterCategory } from '../../config/water';
 import { formatSnakeCase } from '../../utils/strings';
+import { OverlayType } from './GeohashOverlay';
 
 interface MapLegendProps {
   tiles: GeoTile[];
-  type: 'biome' | 'lithology';
+  type: OverlayType;
+}
+
+const LEGEND_TITLES: Record<OverlayType, string> = {
+  biome: 'Biomes',
+  lithology: 'Geology',
+  water: 'Water',
+};
+
+/**
+ * Get the legend key for a tile in the given overlay
+ */
+function getTileKey(tile: GeoTile, type: OverlayType): string {
+  switch (type) {
+    case 'biome':
+      return tile.biome.type;
+    case 'lithology':
+      return tile.geology.primaryLithology;
+    case 'water':
+      return getWaterCategory(tile.water);
+  }
+}
+
+/**
+ * Get the legend label and color for a key in the given overlay
+ */
+function getKeyStyle(key: string, type: OverlayType): { label: string; color: string } {
+  switch (type) {
+    case 'biome':
+      return {
+        label: getBiomeDisplayName(key as BiomeCode),
+        color: getBiomeColor(key as BiomeCode),
+      };
+    case 'lithology':
+      return { label: formatSnakeCase(key), color: getLithologyColor(key) };
+    case 'water':
+      return { label: formatSnakeCase(key), color: getWaterColor(key as WaterCategory) };
+  }
 }
 
 interface LegendItem {
@@ -37,7 +76,7 @@ export function MapLegend({ tiles, type }: MapLegendProps) {
 
     // Count occurrences of each type, skipping "unknown" entries
     for (const tile of tiles) {
-      const key = type === 'biome' ? tile.biome.type : tile.geology.primaryLithology;
+      const key = getTileKey(tile, type);
       if (key === 'unknown') continue;
       countMap.set(key, (countMap.get(key) || 0) + 1);
     }
@@ -45,8 +84,7 @@ export function MapLegend({ tiles, type }: MapLegendProps) {
     // Convert to legend items and sort by count (descending)
     const items: LegendItem[] = Array.from(countMap.entries()).map(([key, count]) => ({
       key,
-      label: type === 'biome' ? getBiomeDisplayName(key as BiomeCode) : formatSnakeCase(key),
-      color: type === 'biome' ? getBiomeColor(key as BiomeCode) : getLithologyColor(key),
+      ...getKeyStyle(key, type),
       count,
     }));
 
@@ -71,9 +109,7 @@ export function MapLegend({ tiles, type }: MapLegendProps) {
         },
       ]}
     >
-      <Text style={[styles.title, { color: colors.textSecondary }]}>
-        {type === 'biome' ? 'Biomes' : 'Geology'}
-      </Text>
+      <Text style={[styles.title, { color: colors.textSecondary }]}>{LEGEND_TITLES[type]}</Text>
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         {visibleItems.map((item) => (
           <View key={item.key} style={styles.item}>
@@ -1,7 +1,7 @@
 // Altitude Configuration - Bias calculation for altitude-based resource spawning
-// Adjusts spawn rates based on GPS altitude data
+// Adjusts spawn rates based on GPS altitude, the bundled DEM, or both
 
-import { AltitudeData } from '../types/gis';
+import { AltitudeData, ElevationData } from '../types/gis';
 import { AltitudePreference } from '../types/resources';
 
 /**
@@ -55,6 +55,72 @@ export function calculateAltitudeConfidence(accuracy: number | null): number {
   return 0;
 }
 
+/**
+ * Most confidence a DEM cell's mean elevation gets, however flat the cell:
+ * it describes the ~5km cell, not the spot the player is standing on
+ */
+export const DEM_MAX_CONFIDENCE = 0.9;
+
+/**
+ * Share of a DEM cell's relief (max - min) taken as the accuracy of its mean,
+ * roughly the spread of ground heights across the cell
+ */
+export const DEM_RELIEF_ACCURACY_FACTOR = 0.3;
+
+/**
+ * Best accuracy claimed for a DEM cell's mean, from the DEM's own vertical error
+ */
+export const DEM_MIN_ACCURACY_M = 10;
+
+/**
+ * Altitude from a DEM cell: its mean elevation, trusted less the more its
+ * ground rises and falls
+ */
+export function buildDemAltitude(elevation: ElevationData): AltitudeData {
+  const relief = Math.max(0, elevation.maxM - elevation.minM);
+  const accuracy = Math.max(relief * DEM_RELIEF_ACCURACY_FACTOR, DEM_MIN_ACCURACY_M);
+  return {
+    value: elevation.meanM,
+    accuracy,
+    confidence: Math.min(calculateAltitudeConfidence(accuracy), DEM_MAX_CONFIDENCE),
+    source: 'dem',
+  };
+}
+
+/**
+ * Combine a GPS altitude with the DEM's for the same spot
+ *
+ * When both are trusted, they're averaged weighted by inverse variance, so a
+ * tight GPS fix dominates a rugged DEM cell and a flat DEM cell steadies a
+ * loose fix. Otherwise the more confident reading is used on its own.
+ */
+export function blendAltitude(
+  gps: AltitudeData | undefined,
+  dem: AltitudeData | undefined
+): AltitudeData | undefined {
+  if (!gps || !dem) return gps ?? dem;
+
+  if (
+    gps.accuracy === null ||
+    gps.confidence < MIN_CONFIDENCE_THRESHOLD ||
+    dem.accuracy === null ||
+    dem.confidence < MIN_CONFIDENCE_THRESHOLD
+  ) {
+    return gps.confidence >= dem.confidence ? gps : dem;
+  }
+
+  // Floor the accuracies so a reported 0m can't take all the weight
+  const gpsWeight = 1 / Math.max(gps.accuracy, 1) ** 2;
+  const demWeight = 1 / Math.max(dem.accuracy, 1) ** 2;
+  const accuracy = 1 / Math.sqrt(gpsWeight + demWeight);
+  return {
+    value: (gps.value * gpsWeight + dem.value * demWeight) / (gpsWeight + demWeight),
+    accuracy,
+    confidence: Math.max(calculateAltitudeConfidence(accuracy), gps.confidence, dem.confidence),
+    source: 'blended',
+  };
+}
+
 /**
  * Linear interpolation helper
  */
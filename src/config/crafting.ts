@@ -0,0 +1,20 @@
+// Configuration constants for timed crafting
+// These values control how the crafting queue behaves
+
+/**
+ * Maximum number of crafting jobs that can be in progress at once.
+ * Further crafts are rejected until a job completes or is cancelled.
+ */
+export const MAX_CONCURRENT_CRAFTING_JOBS = 3;
+
+/**
+ * Quality added to a component's contribution to a tool for each qualityTier above 1.
+ * A tier 3 component of 50% quality counts as 60% towards the tool's quality.
+ */
+export const COMPONENT_TIER_QUALITY_STEP = 0.05;
+
+/**
+ * Fraction of a removed component's materials returned when a tool is rehafted
+ * (rounded down, so small components may return nothing).
+ */
+export const SALVAGE_MATERIAL_FRACTION = 0.5;
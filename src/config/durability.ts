@@ -0,0 +1,145 @@
+// Configuration for tool durability and wear
+// Durability is measured in uses: each gather or craft that relies on a tool wears it down
+
+import { MaterialType, getMaterialConfig, getAllMaterialTypes } from './materials';
+import { OwnedTool, OwnedComponent, UsedMaterials } from '../types/tools';
+import { getComponentById, getToolById } from '../data/tools';
+
+/**
+ * Uses granted per point of material durability (or component durabilityBonus).
+ * A granite hammerstone (durability 9) lasts 135 uses.
+ */
+export const USES_PER_DURABILITY_POINT = 15;
+
+/** Durability lost by each gathering tool used for a gather action */
+export const WEAR_PER_GATHER = 1;
+
+/** Durability lost by each required tool when it is used to craft or repair */
+export const WEAR_PER_CRAFT = 1;
+
+/** Fraction of a tool's original material requirements needed to repair it */
+export const REPAIR_MATERIAL_FRACTION = 0.5;
+
+/**
+ * Minimum max durability for any tool, so tools made mostly from components
+ * (e.g. a digging stick, which is just a crude handle) still last a while.
+ */
+export const MIN_MAX_DURABILITY = 20;
+
+// Durability of a resource, by its material type's durability property
+function resourceDurability(materialType: MaterialType, resourceId: string): number {
+  const config = getMaterialConfig(materialType);
+  const resource = config.getResourceById(resourceId);
+  return resource?.properties[config.durabilityProperty ?? 'durability'] ?? 0;
+}
+
+// Average durability of a material type's resources
+function averageDurability(materialType: MaterialType): number {
+  const resources = getMaterialConfig(materialType).getAllResources();
+  if (resources.length === 0) return 0;
+  const total = resources.reduce(
+    (sum, resource) => sum + resourceDurability(materialType, resource.id),
+    0
+  );
+  return total / resources.length;
+}
+
+// Sum the durability property of each material used
+function materialDurabilityPoints(materials: UsedMaterials): number {
+  let points = 0;
+  for (const materialType of getAllMaterialTypes()) {
+    const used = materials[materialType];
+    if (!used) continue;
+    points += resourceDurability(materialType, used.resourceId);
+  }
+  return points;
+}
+
+// Durability points a component adds when its materials weren't recorded:
+// its bonus, plus an average resource of each material its recipe uses
+function estimateComponentPoints(componentId: string): number {
+  const component = getComponentById(componentId);
+  if (!component) return 0;
+  let points = component.properties.durabilityBonus;
+  for (const materialType of getAllMaterialTypes()) {
+    if (component.materials[materialType]) points += averageDurability(materialType);
+  }
+  return points;
+}
+
+function pointsToUses(points: number): number {
+  return Math.max(MIN_MAX_DURABILITY, Math.round(points * USES_PER_DURABILITY_POINT));
+}
+
+/**
+ * Calculate a tool's maximum durability from the materials and components used.
+ * maxDurability = (sum of material durability + sum of component durabilityBonus)
+ *                 × USES_PER_DURABILITY_POINT, at least MIN_MAX_DURABILITY
+ */
+export function calculateMaxDurability(
+  materials: UsedMaterials,
+  componentIds: string[] = []
+): number {
+  let points = materialDurabilityPoints(materials);
+
+  for (const componentId of componentIds) {
+    points += getComponentById(componentId)?.properties.durabilityBonus ?? 0;
+  }
+
+  return pointsToUses(points);
+}
+
+/**
+ * Calculate max durability for a newly crafted tool from the components consumed.
+ * Each component also contributes the durability of its own materials.
+ */
+export function calculateMaxDurabilityFromComponents(
+  materials: UsedMaterials,
+  components: OwnedComponent[]
+): number {
+  let points = materialDurabilityPoints(materials);
+
+  for (const component of components) {
+    points += materialDurabilityPoints(component.materials);
+    points += getComponentById(component.componentId)?.properties.durabilityBonus ?? 0;
+  }
+
+  return pointsToUses(points);
+}
+
+/**
+ * Estimate max durability for a tool whose components weren't recorded
+ * (e.g. tools from saves made before durability existed).
+ * Assumes the components the recipe requires were used, each made from
+ * average resources, so the estimate matches a typical fresh craft.
+ */
+export function estimateMaxDurabilityForTool(toolId: string, materials: UsedMaterials): number {
+  let points = materialDurabilityPoints(materials);
+  for (const req of getToolById(toolId)?.requiredComponents ?? []) {
+    points += estimateComponentPoints(req.componentId) * req.quantity;
+  }
+  return pointsToUses(points);
+}
+
+/**
+ * Check whether a tool is broken (no durability left)
+ */
+export function isToolBroken(tool: OwnedTool): boolean {
+  return tool.durability <= 0;
+}
+
+/**
+ * Wear down the given tool instances (returns a new array)
+ */
+export function wearTools(
+  ownedTools: OwnedTool[],
+  instanceIds: string[],
+  amount: number
+): OwnedTool[] {
+  if (instanceIds.length === 0 || amount <= 0) return ownedTools;
+  return ownedTools.map((tool) =>
+    instanceIds.includes(tool.instanceId)
+      ? { ...tool, durability: Math.max(0, tool.durability - amount) }
+      : tool
+  );
+}
@@ -0,0 +1,68 @@
+// Configuration for gather effort: the currency gathering is paid in
+// Steps, distance and active energy are each converted into effort units,
+// one step's worth of effort each, so players who cycle or use a wheelchair
+// can gather as well as those who walk.
+
+import { ActivityAmounts, ActivitySource } from '../types/health';
+
+export interface ActivitySourceConfig {
+  label: string;
+  /** Unit the health platform reports the amount in */
+  unit: string;
+  /** Effort units per unit of the amount */
+  effortPerUnit: number;
+}
+
+export const ACTIVITY_SOURCES: Record<ActivitySource, ActivitySourceConfig> = {
+  steps: { label: 'Steps', unit: 'steps', effortPerUnit: 1 },
+  // A walking stride is ~0.74m
+  distance_walking_running: {
+    label: 'Walking and running distance',
+    unit: 'm',
+    effortPerUnit: 1.35,
+  },
+  // Cycling covers ~3.4x the distance of walking for the same effort
+  distance_cycling: { label: 'Cycling distance', unit: 'm', effortPerUnit: 0.4 },
+  distance_wheelchair: { label: 'Wheelchair distance', unit: 'm', effortPerUnit: 1.35 },
+  // Health Connect doesn't say how distance was covered, so it's paid at the cycling rate
+  distance: { label: 'Distance (any activity)', unit: 'm', effortPerUnit: 0.4 },
+  // Each push covers ~1.1m
+  wheelchair_pushes: { label: 'Wheelchair pushes', unit: 'pushes', effortPerUnit: 1.5 },
+  // 1,000 steps burn ~40 kcal
+  active_energy: { label: 'Active energy', unit: 'kcal', effortPerUnit: 25 },
+};
+
+/** Activity sources for new players */
+export const DEFAULT_ACTIVITY_SOURCES: ActivitySource[] = ['steps'];
+
+/** Whether a value is a known activity source */
+export function isActivitySource(value: unknown): value is ActivitySource {
+  return typeof value === 'string' && value in ACTIVITY_SOURCES;
+}
+
+/**
+ * Effort from a single source's amount. Malformed and negative amounts give 0.
+ */
+export function convertToEffort(source: ActivitySource, amount: number | undefined): number {
+  if (amount === undefined || !Number.isFinite(amount) || amount <= 0) return 0;
+  return amount * ACTIVITY_SOURCES[source].effortPerUnit;
+}
+
+/**
+ * Total effort from the chosen sources' amounts, in whole units.
+ *
+ * Sources that can measure the same movement don't add up: steps and walking
+ * distance count the same walk, and wheelchair distance and pushes the same
+ * roll, so the larger of each pair is used. Distance for any activity and active
+ * energy cover every activity, so they are alternatives to the sum of the rest.
+ */
+export function calculateEffort(amounts: ActivityAmounts, sources: ActivitySource[]): number {
+  const chosen = new Set(sources);
+  const effort = (source: ActivitySource) =>
+    chosen.has(source) ? convertToEffort(source, amounts[source]) : 0;
+
+  const walking = Math.max(effort('steps'), effort('distance_walking_running'));
+  const wheelchair = Math.max(effort('distance_wheelchair'), effort('wheelchair_pushes'));
+  const movement = walking + effort('distance_cycling') + wheelchair;
+  return Math.floor(Math.max(movement, effort('distance'), effort('active_energy')));
+}
@@ -0,0 +1,27 @@
+// Configuration for exploration points
+// Points are awarded the first time the player enters a geohash tile or cell
+
+/** Geohash precision of an exploration tile (~4.9km square) */
+export const EXPLORATION_TILE_PRECISION = 5;
+
+/** Geohash precision of an exploration cell (~1.2km x 610m, 32 per tile) */
+export const EXPLORATION_CELL_PRECISION = 6;
+
+/** Base points for the first visit to a precision-5 tile */
+export const NEW_TILE_POINTS = 10;
+
+/** Points for the first visit to a precision-6 cell */
+export const NEW_CELL_POINTS = 1;
+
+/**
+ * Extra tile points at maximum rarity, as a multiple of NEW_TILE_POINTS.
+ * A tile whose biome and lithology have never been visited is worth
+ * NEW_TILE_POINTS × (1 + RARITY_BONUS).
+ */
+export const RARITY_BONUS = 2;
+
+/**
+ * Location fixes less accurate than this are ignored, so GPS jitter
+ * can't award cells the player never entered.
+ */
+export const MAX_VISIT_ACCURACY_METERS = 100;
@@ -1,49 +1,137 @@
-// Configuration constants for step-based resource gathering
-// These values control how steps are converted to resources
+// Configuration constants for effort-based resource gathering
+// These values control how gather effort (see config/effort.ts) is converted to resources
 
 import { MaterialType, getMaterialConfig } from './materials';
 import { OwnedTool, calculateGatheringBonus } from '../types/tools';
 import { getToolById } from '../data/tools';
+import { isToolBroken } from './durability';
+import { RandomSource, defaultRandom } from '../utils/random';
+import { getComponentEfficiencyBonus } from '../utils/qualityCalculation';
 
 /**
- * Steps required per gather action (stone or wood)
- * 1000 steps (~0.7-0.8 km) = 1 gather
+ * Effort required per gather action (stone or wood)
+ * 1000 effort = 1000 steps (~0.7-0.8 km) = 1 gather
  */
-export const STEPS_PER_GATHER = 1000;
+export const EFFORT_PER_GATHER = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
 
 /**
- * Calculate how many gathers are available with current steps
+ * How steps walked outside the app are credited when syncing
  */
-export function calculateGatherableAmount(availableSteps: number): number {
-  return Math.floor(availableSteps / STEPS_PER_GATHER);
+export interface StepCreditPolicy {
+  /** How far back the first sync after authorising credits (0: start fresh) */
+  welcomeWindowMs: number;
+  /** How far back any later sync reaches, however long ago the previous sync was */
+  maxCatchUpMs: number;
+  /** Most effort credited per local day (Infinity: no cap) */
+  dailyCap: number;
+  /** Whether effort over the daily cap is held for later days or lost */
+  overflow: 'carry' | 'lose';
 }
 
 /**
- * Get the sum of gathering bonuses from the best tool of each tool type.
+ * Step credit policy. A day's cap of 30,000 steps (~21-24 km) still rewards long
+ * walks, and a week's catch-up covers a missed weekend without paying out months.
+ */
+export const STEP_CREDIT_POLICY: StepCreditPolicy = {
+  welcomeWindowMs: 24 * HOUR_MS,
+  maxCatchUpMs: 7 * 24 * HOUR_MS,
+  dailyCap: 30000,
+  overflow: 'carry',
+};
+
+/**
+ * Start of the window a sync should read steps over: the previous sync, no
+ * further back than the catch-up window. The first sync (no previous sync)
+ * reads the welcome window.
+ */
+export function getStepSyncWindowStart(
+  lastSyncTimestamp: number,
+  now: number,
+  policy: StepCreditPolicy = STEP_CREDIT_POLICY
+): number {
+  if (!lastSyncTimestamp) return now - Math.max(0, policy.welcomeWindowMs);
+  return Math.max(lastSyncTimestamp, now - Math.max(0, policy.maxCatchUpMs));
+}
+
+/**
+ * Apply the daily cap to newly synced effort plus any held over from earlier days.
+ * Returns the effort to credit now, and that held for later (0 if overflow is lost).
+ */
+export function applyDailyStepCap(
+  newSteps: number,
+  carriedOver: number,
+  creditedToday: number,
+  policy: StepCreditPolicy = STEP_CREDIT_POLICY
+): { credited: number; carriedOver: number } {
+  const pending = Math.max(0, newSteps) + Math.max(0, carriedOver);
+  const room = Math.max(0, policy.dailyCap - creditedToday);
+  const credited = Math.min(pending, room);
+  return {
+    credited,
+    carriedOver: policy.overflow === 'carry' ? pending - credited : 0,
+  };
+}
+
+/**
+ * Calculate how many gathers are available with the current effort
+ */
+export function calculateGatherableAmount(availableEffort: number): number {
+  return Math.floor(availableEffort / EFFORT_PER_GATHER);
+}
+
+/**
+ * Get the gathering bonus of an owned tool, including efficiency from the components
+ * it was built from. Returns 0 for unknown tools and tools that don't help gathering.
+ */
+export function getOwnedToolGatheringBonus(owned: OwnedTool): number {
+  const tool = getToolById(owned.toolId);
+  if (!tool) return 0;
+  return calculateGatheringBonus(
+    tool,
+    owned.quality,
+    getComponentEfficiencyBonus(owned.components ?? [])
+  );
+}
+
+/**
+ * Get the tools that contribute to gathering a material: the best (highest bonus)
+ * unbroken instance of each tool type. These are the tools worn by a gather action.
  * For example, if you have a Stone Knife and a Polished Axe, both for wood,
- * you get the bonus from the best Stone Knife + the bonus from the best Polished Axe.
+ * the best Stone Knife and the best Polished Axe are used.
  */
-function getTotalToolBonusForMaterial(materialType: MaterialType, ownedTools: OwnedTool[]): number {
+export function getGatheringToolsForMaterial(
+  materialType: MaterialType,
+  ownedTools: OwnedTool[]
+): OwnedTool[] {
   // Group tools by toolId, keeping only the best (highest bonus) of each type
-  const bestByToolType = new Map<string, number>(); // toolId -> best bonus
+  const bestByToolType = new Map<string, { tool: OwnedTool; bonus: number }>();
 
   for (const owned of ownedTools) {
+    if (isToolBroken(owned)) continue;
     const tool = getToolById(owned.toolId);
     if (!tool || tool.gatheringMaterial !== materialType) continue;
 
-    const bonus = calculateGatheringBonus(tool, owned.quality);
-    const existingBest = bestByToolType.get(owned.toolId) || 0;
-    if (bonus > existingBest) {
-      bestByToolType.set(owned.toolId, bonus);
+    const bonus = getOwnedToolGatheringBonus(owned);
+    const existingBest = bestByToolType.get(owned.toolId);
+    if (bonus > 0 && (!existingBest || bonus > existingBest.bonus)) {
+      bestByToolType.set(owned.toolId, { tool: owned, bonus });
     }
   }
 
-  // Sum the best bonus from each tool type
+  return Array.from(bestByToolType.values()).map((entry) => entry.tool);
+}
+
+/**
+ * Get the sum of gathering bonuses from the best tool of each tool type.
+ * Broken tools don't count.
+ */
+function getTotalToolBonusForMaterial(materialType: MaterialType, ownedTools: OwnedTool[]): number {
   let totalBonus = 0;
-  for (const bonus of bestByToolType.values()) {
-    totalBonus += bonus;
+  for (const owned of getGatheringToolsForMaterial(materialType, ownedTools)) {
+    totalBonus += getOwnedToolGatheringBonus(owned);
   }
-
   return totalBonus;
 }
 
@@ -78,8 +166,11 @@ export function calculateGatheringAbility(
  * - Ability 3: 1-5
  * - Ability 5: 1-9
  */
-export function calculateGatherYield(gatheringAbility: number): number {
+export function calculateGatherYield(
+  gatheringAbility: number,
+  random: RandomSource = defaultRandom
+): number {
   const maxYield = Math.max(1, Math.floor(2 * gatheringAbility - 1));
   // Random between 1 and maxYield (inclusive)
-  return Math.floor(Math.random() * maxYield) + 1;
+  return Math.floor(random() * maxYield) + 1;
 }
@@ -0,0 +1,151 @@
+// Configuration for geological ages of map units
+// Ages are stored per tile as a period (or era) name, and bias stone spawning
+
+/**
+ * A named span of geological time, in millions of years before present
+ */
+export interface GeologicAge {
+  name: string;
+  startMa: number;
+  endMa: number;
+}
+
+/** Periods, plus the broader names some map units are only dated to (ICS 2023) */
+export const GEOLOGIC_AGES: GeologicAge[] = [
+  { name: 'Quaternary', startMa: 2.58, endMa: 0 },
+  { name: 'Neogene', startMa: 23.03, endMa: 2.58 },
+  { name: 'Paleogene', startMa: 66, endMa: 23.03 },
+  { name: 'Tertiary', startMa: 66, endMa: 2.58 },
+  { name: 'Cenozoic', startMa: 66, endMa: 0 },
+  { name: 'Cretaceous', startMa: 145, endMa: 66 },
+  { name: 'Jurassic', startMa: 201.4, endMa: 145 },
+  { name: 'Triassic', startMa: 251.9, endMa: 201.4 },
+  { name: 'Mesozoic', startMa: 251.9, endMa: 66 },
+  { name: 'Permian', startMa: 298.9, endMa: 251.9 },
+  { name: 'Carboniferous', startMa: 358.9, endMa: 298.9 },
+  { name: 'Devonian', startMa: 419.2, endMa: 358.9 },
+  { name: 'Silurian', startMa: 443.8, endMa: 419.2 },
+  { name: 'Ordovician', startMa: 485.4, endMa: 443.8 },
+  { name: 'Cambrian', startMa: 538.8, endMa: 485.4 },
+  { name: 'Paleozoic', startMa: 538.8, endMa: 251.9 },
+  { name: 'Precambrian', startMa: 4600, endMa: 538.8 },
+];
+
+const AGES_BY_NAME = new Map(GEOLOGIC_AGES.map((age) => [age.name, age]));
+
+/**
+ * Words in Macrostrat interval names (epochs, common stages, eras) and the age
+ * they belong to. Checked in order: "Precambrian" must win over "Cambrian".
+ */
+const INTERVAL_KEYWORDS: [string, string][] = [
+  ['holocene', 'Quaternary'],
+  ['pleistocene', 'Quaternary'],
+  ['quaternary', 'Quaternary'],
+  ['pliocene', 'Neogene'],
+  ['miocene', 'Neogene'],
+  ['neogene', 'Neogene'],
+  ['oligocene', 'Paleogene'],
+  ['eocene', 'Paleogene'],
+  ['paleocene', 'Paleogene'],
+  ['paleogene', 'Paleogene'],
+  ['tertiary', 'Tertiary'],
+  ['cenozoic', 'Cenozoic'],
+  ['maastrichtian', 'Cretaceous'],
+  ['campanian', 'Cretaceous'],
+  ['santonian', 'Cretaceous'],
+  ['coniacian', 'Cretaceous'],
+  ['turonian', 'Cretaceous'],
+  ['cenomanian', 'Cretaceous'],
+  ['cretaceous', 'Cretaceous'],
+  ['jurassic', 'Jurassic'],
+  ['triassic', 'Triassic'],
+  ['mesozoic', 'Mesozoic'],
+  ['permian', 'Permian'],
+  ['pennsylvanian', 'Carboniferous'],
+  ['mississippian', 'Carboniferous'],
+  ['carboniferous', 'Carboniferous'],
+  ['devonian', 'Devonian'],
+  ['silurian', 'Silurian'],
+  ['ordovician', 'Ordovician'],
+  ['precambrian', 'Precambrian'],
+  ['proterozoic', 'Precambrian'],
+  ['archean', 'Precambrian'],
+  ['ediacaran', 'Precambrian'],
+  ['cambrian', 'Cambrian'],
+  ['paleozoic', 'Paleozoic'],
+];
+
+/**
+ * Normalize a Macrostrat interval name ("Late Cretaceous", "Campanian",
+ * "Miocene") to one of GEOLOGIC_AGES. Returns null if it isn't recognised.
+ */
+export function normalizeGeologicAge(interval: string | null | undefined): string | null {
+  if (!interval) return null;
+  const lower = interval.toLowerCase();
+  for (const [keyword, age] of INTERVAL_KEYWORDS) {
+    if (lower.includes(keyword)) return age;
+  }
+  return null;
+}
+
+/**
+ * Look up a normalized age by name
+ */
+export function getGeologicAge(name: string | undefined): GeologicAge | null {
+  return (name && AGES_BY_NAME.get(name)) || null;
+}
+
+/**
+ * Oldest a volcanic unit can be to still hold obsidian.
+ * Volcanic glass devitrifies over time, so older obsidian is rare.
+ */
+export const YOUNG_VOLCANIC_MAX_MA = 23.03;
+
+/** Stones that only spawn from young volcanic units, once a unit's age is known */
+export const YOUNG_VOLCANIC_STONE_IDS = ['obsidian'];
+
+/**
+ * Boosts for stones typical of a lithology laid down in a particular age
+ */
+export interface AgeStoneBoost {
+  ages: string[];
+  lithologies: string[];
+  stoneIds: string[];
+  multiplier: number;
+}
+
+export const AGE_STONE_BOOSTS: AgeStoneBoost[] = [
+  // Flint nodules are characteristic of Cretaceous chalk
+  { ages: ['Cretaceous'], lithologies: ['chalk'], stoneIds: ['flint', 'chert'], multiplier: 3 },
+];
+
+/**
+ * Spawn weight multiplier for a stone, given the lithology it was mapped from
+ * and the age and lith class of the unit. Returns 1 if the age is unknown.
+ */
+export function calculateAgeStoneBias(
+  stoneId: string,
+  lithology: string,
+  age: string | undefined,
+  lithClass: string | undefined
+): number {
+  const known = getGeologicAge(age);
+  if (!known) return 1;
+
+  if (YOUNG_VOLCANIC_STONE_IDS.includes(stoneId)) {
+    const isVolcanic = lithClass === undefined || lithClass === 'igneous';
+    if (!isVolcanic || known.startMa > YOUNG_VOLCANIC_MAX_MA) return 0;
+  }
+
+  let bias = 1;
+  for (const boost of AGE_STONE_BOOSTS) {
+    if (
+      boost.ages.includes(known.name) &&
+      boost.lithologies.includes(lithology) &&
+      boost.stoneIds.includes(stoneId)
+    ) {
+      bias *= boost.multiplier;
+    }
+  }
+  return bias;
+}
@@ -0,0 +1,13 @@
+// Configuration for player-reported geology overrides
+
+/** Geohash precision a report applies to (~4.9km tile) */
+export const GEOLOGY_OVERRIDE_PRECISION = 5;
+
+/**
+ * Confidence given to a reported lithology when it is layered over tile data.
+ * Kept below fully confident mapped data, since reports are unreviewed.
+ */
+export const DEFAULT_OVERRIDE_CONFIDENCE = 0.7;
+
+/** Longest free-text evidence a report can carry */
+export const MAX_OVERRIDE_EVIDENCE_LENGTH = 500;
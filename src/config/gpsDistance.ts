@@ -0,0 +1,95 @@
+// Configuration for estimating steps from GPS distance
+// Used where neither Health Connect nor HealthKit is available. GPS fixes wander
+// even when standing still, so fixes are filtered before their distance counts.
+
+import { ACTIVITY_SOURCES } from './effort';
+
+export interface GpsDistanceFilter {
+  /** Fixes less accurate than this (metres) are ignored */
+  maxAccuracyM: number;
+  /** Movement shorter than this, or than the fix's accuracy, is treated as jitter */
+  minDisplacementM: number;
+  /** Faster movement (m/s) is treated as a vehicle and not counted */
+  maxSpeedMps: number;
+  /** Fixes further apart than this (ms) aren't joined, as the route between is unknown */
+  maxGapMs: number;
+}
+
+export const GPS_DISTANCE_FILTER: GpsDistanceFilter = {
+  maxAccuracyM: 30,
+  minDisplacementM: 10,
+  // A brisk run is ~3.5 m/s; cycling and driving are faster
+  maxSpeedMps: 4,
+  maxGapMs: 5 * 60 * 1000,
+};
+
+/** Step-equivalents per metre walked, matching walking distance from a health app */
+export const GPS_STEPS_PER_METER = ACTIVITY_SOURCES.distance_walking_running.effortPerUnit;
+
+/** How long walked distance is kept for syncing, matching the longest catch-up window */
+export const GPS_DISTANCE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A location fix, as reported by useLocation
+ */
+export interface GpsFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null; // metres, null if unknown
+  timestamp: number; // ms since epoch
+}
+
+const EARTH_RADIUS_M = 6371000;
+
+/**
+ * Great-circle distance between two fixes in metres
+ */
+export function distanceBetween(a: GpsFix, b: GpsFix): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Advance a walked track by one fix. The anchor is the last fix distance was
+ * measured from; it only moves once the player has clearly moved, so jitter
+ * around a standing position never adds up.
+ *
+ * - Fixes with unknown or poor accuracy, or out of order, are ignored.
+ * - Movement within the minimum displacement (or the fix's accuracy) is ignored.
+ * - Movement too fast to be on foot, or across a gap in tracking, moves the
+ *   anchor without counting the distance.
+ */
+export function advanceGpsTrack(
+  anchor: GpsFix | null,
+  fix: GpsFix,
+  filter: GpsDistanceFilter = GPS_DISTANCE_FILTER
+): { anchor: GpsFix | null; meters: number } {
+  if (fix.accuracy === null || !(fix.accuracy <= filter.maxAccuracyM)) {
+    return { anchor, meters: 0 };
+  }
+  if (anchor === null) {
+    return { anchor: fix, meters: 0 };
+  }
+
+  const elapsedMs = fix.timestamp - anchor.timestamp;
+  if (elapsedMs <= 0) {
+    return { anchor, meters: 0 };
+  }
+  if (elapsedMs > filter.maxGapMs) {
+    return { anchor: fix, meters: 0 };
+  }
+
+  const meters = distanceBetween(anchor, fix);
+  if (meters < Math.max(filter.minDisplacementM, fix.accuracy)) {
+    return { anchor, meters: 0 };
+  }
+  if (meters / (elapsedMs / 1000) > filter.maxSpeedMps) {
+    return { anchor: fix, meters: 0 };
+  }
+  return { anchor: fix, meters };
+}
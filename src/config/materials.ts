@@ -5,12 +5,14 @@
 // 2. Adding ResourceSpawnService methods if gatherable
 // 3. Adding an entry here
 
-import { StoneType, WoodType, FoodType, ResourceProperties } from '../types/resources';
+import { StoneType, WoodType, FoodType, FiberType, ResourceProperties } from '../types/resources';
 import { STONES, STONES_BY_ID } from '../data/stones';
 import { WOODS, WOODS_BY_ID } from '../data/woods';
 import { FOODS, FOODS_BY_ID } from '../data/foods';
+import { FIBERS, FIBERS_BY_ID } from '../data/fibers';
 import { LocationGeoData } from '../types/gis';
 import { resourceSpawnService } from '../services/ResourceSpawnService';
+import { RandomSource } from '../utils/random';
 
 // Property definition for material types
 export interface PropertyDefinition {
@@ -35,8 +37,8 @@ export interface BaseResourceType {
 
 // Gathering functions for a material type
 export interface MaterialGatheringConfig<T extends BaseResourceType = BaseResourceType> {
-  getRandomResource: () => T;
-  getRandomResourceForLocation: (geoData: LocationGeoData) => T | null;
+  getRandomResource: (random?: RandomSource) => T;
+  getRandomResourceForLocation: (geoData: LocationGeoData, random?: RandomSource) => T | null;
 }
 
 // Material type configuration
@@ -60,6 +62,9 @@ export interface MaterialTypeConfig<T extends BaseResourceType = BaseResourceTyp
   // Default quality weights for tools that don't specify per-material weights
   defaultQualityWeights: Record<string, number>;
 
+  // Property that adds to the durability of tools made from this material (default 'durability')
+  durabilityProperty?: string;
+
   // Gathering (optional - some materials may not be gatherable)
   gathering?: MaterialGatheringConfig<T>;
 
@@ -102,6 +107,37 @@ const COMMON_PROPERTY_SCHEMA: PropertyDefinition[] = [
   },
 ];
 
+// Property schema for plant fibers
+const FIBER_PROPERTY_SCHEMA: PropertyDefinition[] = [
+  {
+    id: 'tensileStrength',
+    abbreviation: 'T',
+    displayName: 'Tensile Strength',
+    description: 'Load a cord or binding can bear before snapping',
+    color: '#FF9800',
+    minValue: 1,
+    maxValue: 10,
+  },
+  {
+    id: 'flexibility',
+    abbreviation: 'F',
+    displayName: 'Flexibility',
+    description: 'Ease of twisting, knotting and weaving',
+    color: '#9C27B0',
+    minValue: 1,
+    maxValue: 10,
+  },
+  {
+    id: 'rotResistance',
+    abbreviation: 'R',
+    displayName: 'Rot Resistance',
+    description: 'Resistance to damp and decay',
+    color: '#009688',
+    minValue: 1,
+    maxValue: 10,
+  },
+];
+
 // Default quality weights (balanced)
 const DEFAULT_QUALITY_WEIGHTS: Record<string, number> = {
   hardness: 0.33,
@@ -109,6 +145,13 @@ const DEFAULT_QUALITY_WEIGHTS: Record<string, number> = {
   durability: 0.33,
 };
 
+// Default fiber quality weights (strength matters most for cordage)
+const DEFAULT_FIBER_QUALITY_WEIGHTS: Record<string, number> = {
+  tensileStrength: 0.5,
+  flexibility: 0.3,
+  rotResistance: 0.2,
+};
+
 // Registry of all material types
 export const MATERIAL_TYPES = {
   stone: {
@@ -122,9 +165,9 @@ export const MATERIAL_TYPES = {
     propertySchema: COMMON_PROPERTY_SCHEMA,
     defaultQualityWeights: DEFAULT_QUALITY_WEIGHTS,
     gathering: {
-      getRandomResource: () => resourceSpawnService.getRandomStone(),
-      getRandomResourceForLocation: (geo: LocationGeoData) =>
-        resourceSpawnService.getRandomStoneForLocation(geo),
+      getRandomResource: (random?: RandomSource) => resourceSpawnService.getRandomStone(random),
+      getRandomResourceForLocation: (geo: LocationGeoData, random?: RandomSource) =>
+        resourceSpawnService.getRandomStoneForLocation(geo, random),
     },
     baseGatheringAbility: 1,
     hasToolstone: true,
@@ -141,9 +184,9 @@ export const MATERIAL_TYPES = {
     propertySchema: COMMON_PROPERTY_SCHEMA,
     defaultQualityWeights: DEFAULT_QUALITY_WEIGHTS,
     gathering: {
-      getRandomResource: () => resourceSpawnService.getRandomWood(),
-      getRandomResourceForLocation: (geo: LocationGeoData) =>
-        resourceSpawnService.getRandomWoodForLocation(geo),
+      getRandomResource: (random?: RandomSource) => resourceSpawnService.getRandomWood(random),
+      getRandomResourceForLocation: (geo: LocationGeoData, random?: RandomSource) =>
+        resourceSpawnService.getRandomWoodForLocation(geo, random),
     },
     baseGatheringAbility: 1,
   } as MaterialTypeConfig<WoodType>,
@@ -159,12 +202,31 @@ export const MATERIAL_TYPES = {
     propertySchema: [], // Food has no properties
     defaultQualityWeights: {},
     gathering: {
-      getRandomResource: () => resourceSpawnService.getRandomFood(),
-      getRandomResourceForLocation: (geo: LocationGeoData) =>
-        resourceSpawnService.getRandomFoodForLocation(geo),
+      getRandomResource: (random?: RandomSource) => resourceSpawnService.getRandomFood(random),
+      getRandomResourceForLocation: (geo: LocationGeoData, random?: RandomSource) =>
+        resourceSpawnService.getRandomFoodForLocation(geo, random),
     },
     baseGatheringAbility: 1,
   } as MaterialTypeConfig<FoodType>,
+
+  fiber: {
+    id: 'fiber',
+    icon: '🧶',
+    singularName: 'Fiber',
+    pluralName: 'Fibers',
+    buttonColor: '#C0A062',
+    getAllResources: () => FIBERS,
+    getResourceById: (id: string) => FIBERS_BY_ID[id],
+    propertySchema: FIBER_PROPERTY_SCHEMA,
+    defaultQualityWeights: DEFAULT_FIBER_QUALITY_WEIGHTS,
+    durabilityProperty: 'rotResistance',
+    gathering: {
+      getRandomResource: (random?: RandomSource) => resourceSpawnService.getRandomFiber(random),
+      getRandomResourceForLocation: (geo: LocationGeoData, random?: RandomSource) =>
+        resourceSpawnService.getRandomFiberForLocation(geo, random),
+    },
+    baseGatheringAbility: 1,
+  } as MaterialTypeConfig<FiberType>,
 } as const;
 
 // Derived type from registry keys
@@ -1,7 +1,8 @@
 // Map Overlay Color Configuration
-// Color schemes for biome and lithology overlay layers
+// Color schemes for biome, lithology and water overlay layers
 
 import { BiomeCode } from '../types/resources';
+import { WaterCategory } from './water';
 
 // Biome colors based on typical map representations
 export const BIOME_COLORS: Record<BiomeCode, string> = {
@@ -103,9 +104,19 @@ export const LITHOLOGY_COLORS: Record<string, string> = {
   unknown: '#808080', // Gray
 };
 
+// Water proximity colors, from open water to dry inland
+export const WATER_COLORS: Record<WaterCategory, string> = {
+  lake: '#1E90FF', // Dodger blue
+  coast: '#00CED1', // Dark turquoise
+  river: '#87CEFA', // Light sky blue
+  inland: '#F5F5DC', // Beige
+  unknown: '#808080', // Gray
+};
+
 // Default opacity values for overlays
 export const BIOME_OVERLAY_OPACITY = 0.45;
 export const LITHOLOGY_OVERLAY_OPACITY = 0.5;
+export const WATER_OVERLAY_OPACITY = 0.45;
 
 /**
  * Get the color for a lithology type, with fallback to category colors
@@ -135,3 +146,10 @@ export function getLithologyColor(lithology: string): string {
 export function getBiomeColor(biome: BiomeCode): string {
   return BIOME_COLORS[biome] || BIOME_COLORS.unknown;
 }
+
+/**
+ * Get the color for a water category
+ */
+export function getWaterColor(category: WaterCategory): string {
+  return WATER_COLORS[category];
+}
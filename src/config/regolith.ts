@@ -0,0 +1,68 @@
+// Configuration for the regolith layer: unconsolidated material over the bedrock
+// A stone is either picked up from what's underfoot or broken from a bedrock outcrop
+
+import { AltitudeData, RegolithData, WaterData } from '../types/gis';
+import { isNearRiver } from './water';
+
+/**
+ * Surface materials, with the chance a stone comes from them rather than the
+ * bedrock where they cover a whole tile. Thick, widespread deposits bury the
+ * bedrock almost everywhere; thinner ones leave more outcrops.
+ * Each material has a stone mapping in lithologyToStones.json.
+ * Colluvium and residual soils are broken-down local bedrock, so aren't recorded.
+ */
+export const REGOLITH_UNDERFOOT_CHANCE: Record<string, number> = {
+  glacial_till: 0.75,
+  glacial_outwash: 0.75,
+  loess: 0.85,
+  aeolian_sand: 0.85,
+  alluvium: 0.8,
+  lacustrine: 0.7,
+  coastal_sediment: 0.7,
+  peat: 0.6,
+  laterite: 0.6,
+  pyroclastic: 0.6,
+};
+
+export const REGOLITH_MATERIALS = Object.keys(REGOLITH_UNDERFOOT_CHANCE);
+
+/** Outcrops are always possible, however thick the cover */
+export const MAX_UNDERFOOT_CHANCE = 0.9;
+
+/** Altitude above which cover thins on slopes and ridges */
+export const UPLAND_ALTITUDE_M = 600;
+
+/** Underfoot chance multiplier in uplands, at full altitude confidence */
+export const UPLAND_UNDERFOOT_FACTOR = 0.5;
+
+/** Underfoot chance multiplier on valley floors near a major river */
+export const VALLEY_UNDERFOOT_FACTOR = 1.25;
+
+export function isRegolithMaterial(material: string): boolean {
+  return material in REGOLITH_UNDERFOOT_CHANCE;
+}
+
+/**
+ * Chance that a stone found here comes from the surface material rather than
+ * the bedrock, weighted by how much of the tile it covers and the terrain.
+ * Returns 0 for unrecognised materials.
+ */
+export function calculateUnderfootChance(
+  regolith: RegolithData,
+  altitude?: AltitudeData,
+  water?: WaterData
+): number {
+  if (!isRegolithMaterial(regolith.material)) return 0;
+
+  let chance = REGOLITH_UNDERFOOT_CHANCE[regolith.material] * regolith.cover;
+
+  if (altitude && altitude.value >= UPLAND_ALTITUDE_M) {
+    // Trust the altitude only as far as its confidence goes
+    chance *= 1 - (1 - UPLAND_UNDERFOOT_FACTOR) * altitude.confidence;
+  }
+  if (isNearRiver(water)) {
+    chance *= VALLEY_UNDERFOOT_FACTOR;
+  }
+
+  return Math.max(0, Math.min(chance, MAX_UNDERFOOT_CHANCE));
+}
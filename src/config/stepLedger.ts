@@ -0,0 +1,11 @@
+// Configuration for the step ledger
+// Every step sync and spend is recorded; old entries are folded into daily totals
+
+/**
+ * Days of individual ledger entries kept, counting today. Older entries are
+ * compacted into per-day walked/spent totals.
+ */
+export const LEDGER_DETAIL_DAYS = 14;
+
+/** Days shown in the step history view, counting today */
+export const STEP_HISTORY_DAYS = 30;
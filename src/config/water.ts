@@ -0,0 +1,52 @@
+// Configuration for the water layer: coast, river and lake proximity per tile
+// Distances are measured offline from each precision-4 tile's centre
+
+import { WaterData } from '../types/gis';
+import { BiomeCode } from '../types/resources';
+
+/** Distances further than this are not recorded; the tile is treated as far from water */
+export const WATER_SEARCH_RADIUS_KM = 50;
+
+/**
+ * Distance from a tile centre within which the tile counts as coastal.
+ * About half a precision-4 tile, so most of the tile is within walking reach.
+ */
+export const NEAR_COAST_KM = 10;
+
+/** Distance from a tile centre within which the tile counts as on a major river */
+export const NEAR_RIVER_KM = 8;
+
+/**
+ * Chance that a stone found near a river or coast is a water-rounded cobble
+ * carried in from elsewhere, rather than drawn from the local lithology
+ */
+export const WATER_COBBLE_CHANCE = 0.25;
+
+/** Stones hard and tough enough to survive transport as cobbles (hammerstone material) */
+export const COBBLE_MIN_HARDNESS = 7;
+export const COBBLE_MIN_DURABILITY = 8;
+
+/** Biomes whose resources only grow on the coast where coast data is known */
+export const COASTAL_ONLY_BIOMES: BiomeCode[] = ['mangrove'];
+
+export type WaterCategory = 'lake' | 'coast' | 'river' | 'inland' | 'unknown';
+
+export function isNearCoast(water: WaterData | undefined): boolean {
+  return water?.coastDistanceKm !== undefined && water.coastDistanceKm <= NEAR_COAST_KM;
+}
+
+export function isNearRiver(water: WaterData | undefined): boolean {
+  return water?.riverDistanceKm !== undefined && water.riverDistanceKm <= NEAR_RIVER_KM;
+}
+
+/**
+ * Classify a tile's water for the map overlay. Lakes win over coast, coast over river.
+ * Returns 'unknown' for tiles built without water data.
+ */
+export function getWaterCategory(water: WaterData | undefined): WaterCategory {
+  if (!water) return 'unknown';
+  if (water.isLake) return 'lake';
+  if (isNearCoast(water)) return 'coast';
+  if (isNearRiver(water)) return 'river';
+  return 'inland';
+}
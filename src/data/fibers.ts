@@ -0,0 +1,398 @@
+// Fiber Resources - Plant fibers for cordage and bindings, based on biogeographic realms
+// Properties: tensile strength, flexibility and rot resistance (1-10)
+// ~24 species mapped to realm+biome combinations
+// Icons aren't generated yet; run `npm run icons:all -- --type=fiber` with image API keys set
+
+import { FiberType, BiomeCode } from '../types/resources';
+import { createByIdMap } from '../utils/collections';
+
+export const FIBERS: FiberType[] = [
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PALEARCTIC (Europe, North Africa, Northern Asia)
+  // ═══════════════════════════════════════════════════════════════════════════
+  {
+    id: 'nettle',
+    name: 'Nettle',
+    scientificName: 'Urtica dioica',
+    category: 'bast',
+    description: 'Fibres retted from nettle stalks. Fine and strong, spun since the Bronze Age.',
+    properties: { tensileStrength: 6, flexibility: 7, rotResistance: 4 },
+    rarity: 0.45,
+    biomes: ['temperate_broadleaf_mixed', 'temperate_conifer', 'boreal', 'temperate_grassland'],
+    realmBiomes: ['PA04', 'PA05', 'PA06', 'PA08', 'NE04', 'NE06'],
+    nativeRealms: ['Palearctic', 'Nearctic'],
+    altitudePreference: { optimal: [0, 1500], viable: [0, 2500] },
+    color: '#6B8E23',
+  },
+  {
+    id: 'flax',
+    name: 'Flax',
+    scientificName: 'Linum usitatissimum',
+    category: 'bast',
+    description: 'Long, lustrous bast fibres from flax stems. The source of linen.',
+    properties: { tensileStrength: 7, flexibility: 6, rotResistance: 5 },
+    rarity: 0.35,
+    biomes: ['temperate_broadleaf_mixed', 'temperate_grassland', 'mediterranean'],
+    realmBiomes: ['PA04', 'PA08', 'PA12'],
+    nativeRealms: ['Palearctic'],
+    altitudePreference: { optimal: [0, 1000], viable: [0, 1800] },
+    color: '#D8C7A0',
+  },
+  {
+    id: 'hemp',
+    name: 'Hemp',
+    scientificName: 'Cannabis sativa',
+    category: 'bast',
+    description: 'Coarse, very strong stem fibres that resist rot in damp conditions.',
+    properties: { tensileStrength: 8, flexibility: 5, rotResistance: 7 },
+    rarity: 0.3,
+    biomes: ['temperate_grassland', 'montane', 'tropical_dry_broadleaf'],
+    realmBiomes: ['PA08', 'PA10', 'IN02', 'IN10'],
+    nativeRealms: ['Palearctic', 'Indomalayan'],
+    altitudePreference: { optimal: [0, 1500], viable: [0, 3000] },
+    color: '#9C9A5B',
+  },
+  {
+    id: 'lime_bast',
+    name: 'Lime Bast',
+    scientificName: 'Tilia cordata',
+    category: 'bark',
+    description: 'Inner bark of the lime tree, soaked and stripped into flat, pliable strands.',
+    properties: { tensileStrength: 5, flexibility: 6, rotResistance: 6 },
+    rarity: 0.3,
+    biomes: ['temperate_broadleaf_mixed', 'temperate_conifer'],
+    realmBiomes: ['PA04', 'PA05'],
+    nativeRealms: ['Palearctic'],
+    altitudePreference: { optimal: [0, 800], viable: [0, 1500] },
+    color: '#C9B27C',
+  },
+  {
+    id: 'willow_bast',
+    name: 'Willow Bast',
+    scientificName: 'Salix spp.',
+    category: 'bark',
+    description: 'Strips of willow inner bark, found wherever willows line wet ground.',
+    properties: { tensileStrength: 4, flexibility: 7, rotResistance: 4 },
+    rarity: 0.35,
+    biomes: ['boreal', 'flooded_grassland', 'tundra'],
+    realmBiomes: ['PA06', 'PA09', 'PA11', 'NE06', 'NE11'],
+    nativeRealms: ['Palearctic', 'Nearctic'],
+    altitudePreference: { optimal: [0, 1000], viable: [0, 2000] },
+    color: '#A39264',
+  },
+  {
+    id: 'esparto',
+    name: 'Esparto',
+    scientificName: 'Macrochloa tenacissima',
+    category: 'grass',
+    description: 'Tough wiry grass of dry Mediterranean hills, twisted into rope and sandals.',
+    properties: { tensileStrength: 6, flexibility: 5, rotResistance: 7 },
+    rarity: 0.35,
+    biomes: ['mediterranean', 'desert'],
+    realmBiomes: ['PA12', 'PA13'],
+    nativeRealms: ['Palearctic'],
+    altitudePreference: { optimal: [0, 1200], viable: [0, 2000] },
+    color: '#BDB76B',
+  },
+  // ═══════════════════════════════════════════════════════════════════════════
+  // NEARCTIC (North America)
+  // ═══════════════════════════════════════════════════════════════════════════
+  {
+    id: 'dogbane',
+    name: 'Dogbane',
+    scientificName: 'Apocynum cannabinum',
+    category: 'bast',
+    description: 'Indian hemp: reddish stalks yielding fine, strong cordage for nets and snares.',
+    properties: { tensileStrength: 7, flexibility: 7, rotResistance: 5 },
+    rarity: 0.3,
+    biomes: ['temperate_broadleaf_mixed', 'temperate_grassland', 'flooded_grassland'],
+    realmBiomes: ['NE04', 'NE08', 'NE09'],
+    nativeRealms: ['Nearctic'],
+    altitudePreference: { optimal: [0, 1200], viable: [0, 2000] },
+    color: '#8B4513',
+  },
+  {
+    id: 'milkweed',
+    name: 'Milkweed',
+    scientificName: 'Asclepias syriaca',
+    category: 'bast',
+    description: 'Soft, silky stem fibres from a common prairie plant.',
+    properties: { tensileStrength: 5, flexibility: 7, rotResistance: 3 },
+    rarity: 0.3,
+    biomes: ['temperate_broadleaf_mixed', 'temperate_grassland'],
+    realmBiomes: ['NE04', 'NE08'],
+    nativeRealms: ['Nearctic'],
+    altitudePreference: { optimal: [0, 1000], viable: [0, 1800] },
+    color: '#B5C99A',
+  },
+  {
+    id: 'cedar_bark',
+    name: 'Cedar Bark',
+    scientificName: 'Thuja plicata',
+    category: 'bark',
+    description: 'Pounded inner bark of the western red cedar. Naturally rot resistant.',
+    properties: { tensileStrength: 5, flexibility: 6, rotResistance: 9 },
+    rarity: 0.35,
+    biomes: ['temperate_conifer', 'boreal'],
+    realmBiomes: ['NE05', 'NE06'],
+    nativeRealms: ['Nearctic'],
+    altitudePreference: { optimal: [0, 1000], viable: [0, 2000] },
+    color: '#8B3A1A',
+  },
+  {
+    id: 'yucca',
+    name: 'Yucca',
+    scientificName: 'Yucca glauca',
+    category: 'leaf',
+    description: 'Stiff sword-shaped leaves that split into tough cordage fibres.',
+    properties: { tensileStrength: 6, flexibility: 4, rotResistance: 7 },
+    rarity: 0.35,
+    biomes: ['temperate_grassland', 'mediterranean', 'desert'],
+    realmBiomes: ['NE08', 'NE12', 'NE13', 'NO13'],
+    nativeRealms: ['Nearctic', 'Neotropic'],
+    altitudePreference: { optimal: [0, 2000], viable: [0, 2800] },
+    color: '#9DB17C',
+  },
+  // ═══════════════════════════════════════════════════════════════════════════
+  // NEOTROPIC (Central & South America)
+  // ═══════════════════════════════════════════════════════════════════════════
+  {
+    id: 'agave',
+    name: 'Agave',
+    scientificName: 'Agave americana',
+    category: 'leaf',
+    description: 'Long leaf fibres scraped from agave, the source of pita and sisal rope.',
+    properties: { tensileStrength: 7, flexibility: 4, rotResistance: 7 },
+    rarity: 0.35,
+    biomes: ['tropical_dry_broadleaf', 'tropical_conifer', 'montane', 'desert'],
+    realmBiomes: ['NO02', 'NO03', 'NO10', 'NO13', 'NE13'],
+    nativeRealms: ['Neotropic', 'Nearctic'],
+    altitudePreference: { optimal: [0, 2500], viable: [0, 3200] },
+    color: '#7BA05B',
+  },
+  {
+    id: 'cotton',
+    name: 'Wild Cotton',
+    scientificName: 'Gossypium hirsutum',
+    category: 'seed',
+    description: 'Soft seed hairs of wild cotton, easily spun into thread.',
+    properties: { tensileStrength: 4, flexibility: 9, rotResistance: 3 },
+    rarity: 0.25,
+    biomes: ['tropical_dry_broadleaf', 'tropical_grassland'],
+    realmBiomes: ['NO02', 'NO07', 'AF02', 'IN02'],
+    nativeRealms: ['Neotropic', 'Afrotropic', 'Indomalayan'],
+    altitudePreference: { optimal: [0, 1000], viable: [0, 1800] },
+    color: '#F5F5F0',
+  },
+  {
+    id: 'chambira',
+    name: 'Chambira',
+    scientificName: 'Astrocaryum chambira',
+    category: 'leaf',
+    description: 'Fibre from young chambira palm leaves, woven into Amazonian hammocks.',
+    properties: { tensileStrength: 7, flexibility: 6, rotResistance: 6 },
+    rarity: 0.3,
+    biomes: ['tropical_moist_broadleaf', 'flooded_grassland'],
+    realmBiomes: ['NO01', 'NO09'],
+    nativeRealms: ['Neotropic'],
+    altitudePreference: { optimal: [0, 600], viable: [0, 1200] },
+    color: '#C2B280',
+  },
+  // ═══════════════════════════════════════════════════════════════════════════
+  // AFROTROPIC (Sub-Saharan Africa)
+  // ═══════════════════════════════════════════════════════════════════════════
+  {
+    id: 'raffia',
+    name: 'Raffia',
+    scientificName: 'Raphia farinifera',
+    category: 'leaf',
+    description: 'Long ribbons stripped from the leaves of the raffia palm.',
+    properties: { tensileStrength: 5, flexibility: 7, rotResistance: 5 },
+    rarity: 0.35,
+    biomes: ['tropical_moist_broadleaf', 'flooded_grassland', 'mangrove'],
+    realmBiomes: ['AF01', 'AF09', 'AF14'],
+    nativeRealms: ['Afrotropic'],
+    altitudePreference: { optimal: [0, 800], viable: [0, 1500] },
+    color: '#E3C77D',
+  },
+  {
+    id: 'bowstring_hemp',
+    name: 'Bowstring Hemp',
+    scientificName: 'Sansevieria hyacinthoides',
+    category: 'leaf',
+    description: 'Succulent leaves yielding strong white fibre, once used for bowstrings.',
+    properties: { tensileStrength: 7, flexibility: 5, rotResistance: 6 },
+    rarity: 0.3,
+    biomes: ['tropical_dry_broadleaf', 'tropical_grassland', 'desert'],
+    realmBiomes: ['AF02', 'AF07', 'AF13'],
+    nativeRealms: ['Afrotropic'],
+    altitudePreference: { optimal: [0, 1200], viable: [0, 2000] },
+    color: '#4F7942',
+  },
+  {
+    id: 'baobab_bast',
+    name: 'Baobab Bast',
+    scientificName: 'Adansonia digitata',
+    category: 'bark',
+    description: 'Fibrous inner bark of the baobab, which regrows after stripping.',
+    properties: { tensileStrength: 6, flexibility: 5, rotResistance: 6 },
+    rarity: 0.25,
+    biomes: ['tropical_dry_broadleaf', 'tropical_grassland'],
+    realmBiomes: ['AF02', 'AF07'],
+    nativeRealms: ['Afrotropic'],
+    altitudePreference: { optimal: [0, 1000], viable: [0, 1500] },
+    color: '#A67B5B',
+  },
+  {
+    id: 'papyrus',
+    name: 'Papyrus',
+    scientificName: 'Cyperus papyrus',
+    category: 'grass',
+    description: 'Tall swamp sedge whose stems were twisted into rope and woven into boats.',
+    properties: { tensileStrength: 5, flexibility: 6, rotResistance: 5 },
+    rarity: 0.3,
+    biomes: ['flooded_grassland', 'tropical_moist_broadleaf'],
+    realmBiomes: ['AF09', 'AF01', 'PA09'],
+    nativeRealms: ['Afrotropic', 'Palearctic'],
+    altitudePreference: { optimal: [0, 1200], viable: [0, 2000] },
+    color: '#8DB600',
+  },
+  // ═══════════════════════════════════════════════════════════════════════════
+  // INDOMALAYAN (South & Southeast Asia)
+  // ═══════════════════════════════════════════════════════════════════════════
+  {
+    id: 'jute',
+    name: 'Jute',
+    scientificName: 'Corchorus capsularis',
+    category: 'bast',
+    description: 'Golden bast fibre from the stems of a fast-growing monsoon plant.',
+    properties: { tensileStrength: 6, flexibility: 4, rotResistance: 4 },
+    rarity: 0.35,
+    biomes: ['tropical_moist_broadleaf', 'flooded_grassland', 'mangrove'],
+    realmBiomes: ['IN01', 'IN09', 'IN14'],
+    nativeRealms: ['Indomalayan'],
+    altitudePreference: { optimal: [0, 500], viable: [0, 1000] },
+    color: '#C8A951',
+  },
+  {
+    id: 'ramie',
+    name: 'Ramie',
+    scientificName: 'Boehmeria nivea',
+    category: 'bast',
+    description: 'One of the strongest plant fibres, from the stems of a nettle relative.',
+    properties: { tensileStrength: 8, flexibility: 5, rotResistance: 6 },
+    rarity: 0.3,
+    biomes: ['tropical_moist_broadleaf', 'montane', 'temperate_broadleaf_mixed'],
+    realmBiomes: ['IN01', 'IN10', 'PA04'],
+    nativeRealms: ['Indomalayan', 'Palearctic'],
+    altitudePreference: { optimal: [0, 1500], viable: [0, 2500] },
+    color: '#E8E4C9',
+  },
+  {
+    id: 'coconut_coir',
+    name: 'Coconut Coir',
+    scientificName: 'Cocos nucifera',
+    category: 'seed',
+    description: 'Coarse fibre from coconut husks. Stands up to salt water like no other.',
+    properties: { tensileStrength: 5, flexibility: 4, rotResistance: 9 },
+    rarity: 0.35,
+    biomes: ['tropical_moist_broadleaf', 'mangrove'],
+    realmBiomes: ['IN01', 'IN14', 'OC01', 'AU01', 'AF14', 'NO14'],
+    nativeRealms: ['Indomalayan', 'Oceania', 'Australasia', 'Afrotropic', 'Neotropic'],
+    altitudePreference: { optimal: [0, 300], viable: [0, 600] },
+    color: '#7B5B3A',
+  },
+  {
+    id: 'pandanus',
+    name: 'Pandanus',
+    scientificName: 'Pandanus tectorius',
+    category: 'leaf',
+    description: 'Screwpine leaves, de-thorned and split into strips for mats, sails and cord.',
+    properties: { tensileStrength: 5, flexibility: 6, rotResistance: 6 },
+    rarity: 0.35,
+    biomes: ['mangrove', 'tropical_moist_broadleaf', 'tropical_dry_broadleaf'],
+    realmBiomes: ['IN14', 'OC01', 'OC02', 'AU01', 'AU14'],
+    nativeRealms: ['Indomalayan', 'Oceania', 'Australasia'],
+    altitudePreference: { optimal: [0, 300], viable: [0, 600] },
+    color: '#9ACD32',
+  },
+  // ═══════════════════════════════════════════════════════════════════════════
+  // AUSTRALASIA & OCEANIA
+  // ═══════════════════════════════════════════════════════════════════════════
+  {
+    id: 'nz_flax',
+    name: 'New Zealand Flax',
+    scientificName: 'Phormium tenax',
+    category: 'leaf',
+    description: 'Harakeke: long, strong leaf fibre at the heart of Maori weaving.',
+    properties: { tensileStrength: 8, flexibility: 5, rotResistance: 6 },
+    rarity: 0.35,
+    biomes: ['temperate_broadleaf_mixed', 'montane'],
+    realmBiomes: ['AU04', 'AU10', 'OC04'],
+    nativeRealms: ['Australasia', 'Oceania'],
+    altitudePreference: { optimal: [0, 1200], viable: [0, 1800] },
+    color: '#556B2F',
+  },
+  {
+    id: 'kurrajong',
+    name: 'Kurrajong',
+    scientificName: 'Brachychiton populneus',
+    category: 'bark',
+    description: 'Inner bark of the kurrajong tree, rolled into string for fishing nets.',
+    properties: { tensileStrength: 6, flexibility: 6, rotResistance: 5 },
+    rarity: 0.3,
+    biomes: ['temperate_broadleaf_mixed', 'tropical_grassland', 'mediterranean'],
+    realmBiomes: ['AU04', 'AU07', 'AU12'],
+    nativeRealms: ['Australasia'],
+    altitudePreference: { optimal: [0, 900], viable: [0, 1400] },
+    color: '#8F9779',
+  },
+  {
+    id: 'lomandra',
+    name: 'Lomandra',
+    scientificName: 'Lomandra longifolia',
+    category: 'grass',
+    description: 'Spiny-headed mat rush. Its split leaves are woven into baskets and dilly bags.',
+    properties: { tensileStrength: 5, flexibility: 6, rotResistance: 5 },
+    rarity: 0.35,
+    biomes: ['tropical_grassland', 'temperate_grassland', 'mediterranean', 'desert'],
+    realmBiomes: ['AU07', 'AU08', 'AU12', 'AU13'],
+    nativeRealms: ['Australasia'],
+    altitudePreference: { optimal: [0, 1000], viable: [0, 1600] },
+    color: '#708238',
+  },
+];
+
+// Lookup tables
+export const FIBERS_BY_ID = createByIdMap(FIBERS);
+
+// Helper functions
+export function getFibersByBiome(biome: BiomeCode | string): FiberType[] {
+  return FIBERS.filter((f) => f.biomes.includes(biome as BiomeCode));
+}
+
+export function getFibersByRealmBiome(realmBiome: string): FiberType[] {
+  return FIBERS.filter((f) => f.realmBiomes?.includes(realmBiome));
+}
+
+export function getFibersByRealm(realm: string): FiberType[] {
+  return FIBERS.filter((f) => f.nativeRealms?.includes(realm));
+}
+
+export function getFibersByCategory(category: string): FiberType[] {
+  return FIBERS.filter((f) => f.category === category);
+}
+
+// Get all biomes that have fibers
+export function getFiberBiomes(): BiomeCode[] {
+  const biomes = new Set<BiomeCode>();
+  FIBERS.forEach((f) => f.biomes.forEach((b) => biomes.add(b)));
+  return Array.from(biomes);
+}
+
+// Get all realm-biome codes that have fiber mappings
+export function getMappedFiberRealmBiomes(): string[] {
+  const realmBiomes = new Set<string>();
+  FIBERS.forEach((f) => f.realmBiomes?.forEach((rb) => realmBiomes.add(rb)));
+  return Array.from(realmBiomes);
+}
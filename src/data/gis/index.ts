@@ -3,6 +3,7 @@
 
 import lithologyToStones from './mappings/lithologyToStones.json';
 import { LithologyMapping } from '../../types/gis';
+import { STONES_BY_ID } from '../stones';
 
 // Filter out metadata fields (_comment, _source) and cast to proper types
 const filterMetadata = <T>(obj: Record<string, unknown>): Record<string, T> => {
@@ -29,3 +30,12 @@ export function getLithologyMapping(lithology: string): LithologyMapping | null
 export function getKnownLithologies(): string[] {
   return Object.keys(LITHOLOGY_MAPPINGS).filter((k) => !k.startsWith('_'));
 }
+
+// Macrostrat lith class of a lithology, from the category of its main stone
+export function getLithClass(lithology: string): string | null {
+  const key = lithology.toLowerCase().replace(/\s+/g, '_');
+  const mapping = key !== 'unknown' ? LITHOLOGY_MAPPINGS[key] : undefined;
+  const category = mapping && STONES_BY_ID[mapping.stoneIds[0]]?.category;
+  if (!category || category === 'ore') return null;
+  return category.startsWith('igneous') ? 'igneous' : category;
+}
@@ -1,12 +1,13 @@
 /**
  * GIS Mappings Module
- * Provides realm+biome to wood species mappings
+ * Provides realm+biome to wood, food and fiber species mappings
  */
 
 import { RealmBiomeMapping } from '../../../types/gis';
 import { BiomeCode } from '../../../types/resources';
 import realmBiomeMappings from './realmBiomesToWoods.json';
 import realmBiomeFoodMappings from './realmBiomesToFoods.json';
+import realmBiomeFiberMappings from './realmBiomesToFibers.json';
 
 // Realm name to code mapping
 const REALM_CODES: Record<string, string> = {
@@ -54,6 +55,14 @@ interface RawRealmBiomeFoodMapping {
   weights: number[];
 }
 
+// Type for the raw JSON structure (fiber)
+interface RawRealmBiomeFiberMapping {
+  realm: string;
+  biome: string;
+  fiberIds: string[];
+  weights: number[];
+}
+
 // Food mapping type
 export interface RealmBiomeFoodMapping {
   realmBiome: string;
@@ -63,6 +72,15 @@ export interface RealmBiomeFoodMapping {
   weights: number[];
 }
 
+// Fiber mapping type
+export interface RealmBiomeFiberMapping {
+  realmBiome: string;
+  realm: string;
+  biome: BiomeCode;
+  fiberIds: string[];
+  weights: number[];
+}
+
 // Cache the processed mappings
 let processedMappings: Record<string, RealmBiomeMapping> | null = null;
 
@@ -212,3 +230,69 @@ export function getAvailableFoodRealmBiomes(): string[] {
   const mappings = getRealmBiomeFoodMappings();
   return Object.keys(mappings);
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Fiber Mappings
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Cache the processed fiber mappings
+let processedFiberMappings: Record<string, RealmBiomeFiberMapping> | null = null;
+
+/**
+ * Get all realm-biome fiber mappings
+ */
+export function getRealmBiomeFiberMappings(): Record<string, RealmBiomeFiberMapping> {
+  if (processedFiberMappings) {
+    return processedFiberMappings;
+  }
+
+  processedFiberMappings = {};
+
+  for (const [key, value] of Object.entries(realmBiomeFiberMappings)) {
+    // Skip metadata
+    if (key === '_meta') continue;
+
+    const raw = value as RawRealmBiomeFiberMapping;
+    processedFiberMappings[key] = {
+      realmBiome: key,
+      realm: raw.realm,
+      biome: raw.biome as BiomeCode,
+      fiberIds: raw.fiberIds,
+      weights: raw.weights,
+    };
+  }
+
+  return processedFiberMappings;
+}
+
+/**
+ * Get fiber mapping for a realm and biome type
+ * @param realm e.g., "Palearctic"
+ * @param biome e.g., "temperate_broadleaf_mixed"
+ */
+export function getRealmBiomeFiberMapping(
+  realm: string,
+  biome: BiomeCode
+): RealmBiomeFiberMapping | null {
+  const code = buildRealmBiomeCode(realm, biome);
+  if (!code) {
+    return null;
+  }
+  const mappings = getRealmBiomeFiberMappings();
+  return mappings[code] || null;
+}
+
+/**
+ * Check if a realm and biome type has a fiber mapping
+ */
+export function hasRealmBiomeFiberMapping(realm: string, biome: BiomeCode): boolean {
+  return getRealmBiomeFiberMapping(realm, biome) !== null;
+}
+
+/**
+ * Get all available realm+biome codes for fibers
+ */
+export function getAvailableFiberRealmBiomes(): string[] {
+  const mappings = getRealmBiomeFiberMappings();
+  return Object.keys(mappings);
+}
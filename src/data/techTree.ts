@@ -1,7 +1,7 @@
-// Technology Tree - Lithic Era (Stone Age) Technologies
-// Focused on realistic stone age tool progression
+// Technology Tree - Stone Age through the Copper Age
+// Focused on realistic tool progression, from knapping to the first smelted metal
 
-import { Technology, LithicEra } from '../types/tech';
+import { Technology, TechEra, EXPLORATION_RESOURCE } from '../types/tech';
 import { createByIdMap } from '../utils/collections';
 
 export const TECHNOLOGIES: Technology[] = [
@@ -122,14 +122,66 @@ export const TECHNOLOGIES: Technology[] = [
       { resourceType: 'wood', quantity: 40 },
       { resourceType: 'food', quantity: 40 },
     ],
-    unlocks: [],
+    unlocks: ['pottery'],
     enablesRecipes: ['polished_axe', 'sickle', 'polished_pick'],
   },
+
+  // ===== NEOLITHIC (~10K - 4.5K years ago) =====
+  // Settled life: fired clay vessels
+  {
+    id: 'pottery',
+    name: 'Pottery',
+    era: 'neolithic',
+    description:
+      'Shaping clay and firing it hard. Pots store and cook food, and crucibles can withstand the heat of smelting.',
+    prerequisites: ['polished_stone'],
+    resourceCost: [
+      { resourceType: 'stone', quantity: 120 },
+      { resourceType: 'wood', quantity: 60 },
+      { resourceType: 'food', quantity: 50 },
+    ],
+    unlocks: ['smelting'],
+    enablesRecipes: ['clay_pot', 'clay_crucible'],
+  },
+
+  // ===== CHALCOLITHIC (~6.5K - 3.5K years ago) =====
+  // The Copper Age: the first smelted metal
+  {
+    id: 'smelting',
+    name: 'Smelting',
+    era: 'chalcolithic',
+    description:
+      'Heating ore with charcoal in a crucible to draw out metal. Copper is freed from green malachite, found by prospecting far afield.',
+    prerequisites: ['pottery'],
+    resourceCost: [
+      { resourceType: 'stone', quantity: 150 },
+      { resourceType: 'wood', quantity: 80 },
+      { resourceType: 'food', quantity: 60 },
+      { resourceType: EXPLORATION_RESOURCE, quantity: 50 },
+    ],
+    unlocks: ['copper_working'],
+    enablesRecipes: ['copper_ingot'],
+  },
+  {
+    id: 'copper_working',
+    name: 'Copper Working',
+    era: 'chalcolithic',
+    description:
+      'Casting and hammering copper into blades and points that outlast stone and can be re-sharpened.',
+    prerequisites: ['smelting'],
+    resourceCost: [
+      { resourceType: 'stone', quantity: 150 },
+      { resourceType: 'wood', quantity: 100 },
+      { resourceType: 'food', quantity: 80 },
+    ],
+    unlocks: [],
+    enablesRecipes: ['copper_axe', 'copper_pick'],
+  },
 ];
 
 export const TECH_BY_ID = createByIdMap(TECHNOLOGIES);
 
-export function getTechsByEra(era: LithicEra): Technology[] {
+export function getTechsByEra(era: TechEra): Technology[] {
   return TECHNOLOGIES.filter((t) => t.era === era);
 }
 
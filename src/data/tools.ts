@@ -24,6 +24,10 @@ const QUALITY_WEIGHTS: Record<ToolCategory, QualityWeights> = {
     stone: { hardness: 0.2, workability: 0.4, durability: 0.4 },
     wood: { hardness: 0.2, workability: 0.4, durability: 0.4 },
   },
+  metalworking: {
+    stone: { hardness: 0.1, workability: 0.5, durability: 0.4 },
+    wood: { hardness: 0.2, workability: 0.3, durability: 0.5 },
+  },
   general: {
     stone: { hardness: 0.33, workability: 0.34, durability: 0.33 },
     wood: { hardness: 0.33, workability: 0.34, durability: 0.33 },
@@ -34,6 +38,7 @@ const QUALITY_WEIGHTS: Record<ToolCategory, QualityWeights> = {
 const COMPONENT_QUALITY_WEIGHTS: QualityWeights = {
   stone: { hardness: 0.2, workability: 0.5, durability: 0.3 },
   wood: { hardness: 0.2, workability: 0.5, durability: 0.3 },
+  fiber: { tensileStrength: 0.5, flexibility: 0.3, rotResistance: 0.2 },
 };
 
 // ===== COMPONENTS =====
@@ -79,11 +84,30 @@ export const COMPONENTS: CraftedComponent[] = [
     requiredTech: 'cordage_making',
     requiredTools: [],
     requiredComponents: [],
-    materials: { wood: { quantity: 5 } }, // Using wood as proxy for plant fiber
+    materials: { fiber: { quantity: 5 } },
     qualityWeights: COMPONENT_QUALITY_WEIGHTS,
     baseCraftTime: 60,
     properties: { durabilityBonus: 0, efficiencyBonus: 0, qualityTier: 1 },
   },
+
+  // ===== INGOTS =====
+  {
+    id: 'copper_ingot',
+    name: 'Copper Ingot',
+    category: 'ingot',
+    era: 'chalcolithic',
+    description: 'Copper smelted from malachite in a crucible over a charcoal fire.',
+    requiredTech: 'smelting',
+    requiredTools: ['clay_crucible'],
+    requiredComponents: [],
+    materials: {
+      stone: { quantity: 10, allowedResources: ['malachite'] },
+      wood: { quantity: 15 }, // Charcoal fuel
+    },
+    qualityWeights: COMPONENT_QUALITY_WEIGHTS,
+    baseCraftTime: 600,
+    properties: { durabilityBonus: 10, efficiencyBonus: 0.2, qualityTier: 3 },
+  },
 ];
 
 // ===== TOOLS =====
@@ -375,6 +399,81 @@ export const TOOLS: Tool[] = [
     qualityWeights: QUALITY_WEIGHTS.knapping,
     baseCraftTime: 900,
   },
+
+  // ========== NEOLITHIC - POTTERY ==========
+  {
+    id: 'clay_pot',
+    name: 'Clay Pot',
+    category: 'foraging',
+    era: 'neolithic',
+    description: 'A fired clay vessel for storing and cooking foraged foods.',
+    requiredTech: 'pottery',
+    requiredTools: [],
+    requiredComponents: [],
+    materials: {
+      stone: { quantity: 15, allowedResources: ['clay'] },
+      wood: { quantity: 10 }, // Firing fuel
+    },
+    baseStats: { gatheringBonus: 8 },
+    gatheringMaterial: 'food',
+    qualityWeights: QUALITY_WEIGHTS.foraging,
+    baseCraftTime: 900,
+  },
+  {
+    id: 'clay_crucible',
+    name: 'Clay Crucible',
+    category: 'metalworking',
+    era: 'neolithic',
+    description: 'A thick-walled fired clay vessel that can hold molten metal.',
+    requiredTech: 'pottery',
+    requiredTools: [],
+    requiredComponents: [],
+    materials: {
+      stone: { quantity: 10, allowedResources: ['clay'] },
+      wood: { quantity: 10 }, // Firing fuel
+    },
+    baseStats: { gatheringBonus: 0 },
+    qualityWeights: QUALITY_WEIGHTS.metalworking,
+    baseCraftTime: 900,
+  },
+
+  // ========== CHALCOLITHIC - COPPER TOOLS ==========
+  {
+    id: 'copper_axe',
+    name: 'Copper Axe',
+    category: 'woodworking',
+    era: 'chalcolithic',
+    description: 'A cast copper blade hafted to a handle. Holds an edge that can be re-sharpened.',
+    requiredTech: 'copper_working',
+    requiredTools: ['hammerstone'],
+    requiredComponents: [
+      { componentId: 'copper_ingot', quantity: 1 },
+      { componentId: 'shaped_handle', quantity: 1 },
+    ],
+    materials: { wood: { quantity: 5 } }, // Fuel for annealing the blade
+    baseStats: { gatheringBonus: 14 },
+    gatheringMaterial: 'wood',
+    qualityWeights: QUALITY_WEIGHTS.woodworking,
+    baseCraftTime: 1500,
+  },
+  {
+    id: 'copper_pick',
+    name: 'Copper Pick',
+    category: 'knapping',
+    era: 'chalcolithic',
+    description: 'A copper-pointed pick for working ore veins and hard stone.',
+    requiredTech: 'copper_working',
+    requiredTools: ['hammerstone'],
+    requiredComponents: [
+      { componentId: 'copper_ingot', quantity: 1 },
+      { componentId: 'shaped_handle', quantity: 1 },
+    ],
+    materials: { wood: { quantity: 5 } }, // Fuel for annealing the point
+    baseStats: { gatheringBonus: 11 },
+    gatheringMaterial: 'stone',
+    qualityWeights: QUALITY_WEIGHTS.knapping,
+    baseCraftTime: 1500,
+  },
 ];
 
 // ===== HELPER FUNCTIONS =====
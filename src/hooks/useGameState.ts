@@ -14,15 +14,25 @@ import React, {
 } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
 import { Inventory, ResourceStack, createEmptyInventory } from '../types/resources';
 import { MaterialType, getAllMaterialTypes } from '../config/materials';
-import { OwnedTool, OwnedComponent, CraftingJob, Tool, CraftedComponent } from '../types/tools';
+import {
+  OwnedTool,
+  OwnedComponent,
+  CraftingJob,
+  Tool,
+  CraftedComponent,
+  UsedMaterials,
+} from '../types/tools';
 import {
   CraftingService,
   CraftCheckResult,
   CraftParams,
-  CraftingState,
+  CraftingQueueState,
 } from '../services/CraftingService';
+import { WEAR_PER_GATHER, wearTools } from '../config/durability';
+import { getGatheringToolsForMaterial } from '../config/gathering';
 import {
   addResource as addResourcePure,
   removeResource as removeResourcePure,
@@ -30,42 +40,109 @@ import {
   getResourceCount as getResourceCountPure,
 } from '../services/InventoryService';
 import { hasTech as hasTechPure } from '../services/TechService';
+import {
+  ExplorationService,
+  ExplorationState,
+  VisitTerrain,
+  createEmptyExplorationState,
+} from '../services/ExplorationService';
+import {
+  LoadReport,
+  QuarantinedRecord,
+  createLoadReport,
+  sanitiseCount,
+  sanitiseCountMap,
+  withFullDurability,
+  validateOwnedTools,
+  validateOwnedComponents,
+  validateCraftingQueue,
+  validateUnlockedTechs,
+  validateQuarantine,
+} from '../services/SaveValidationService';
+import {
+  SaveTransferService,
+  SaveDiffSummary,
+  SaveEnvelope,
+} from '../services/SaveTransferService';
+import {
+  StepLedger,
+  StepLedgerEntry,
+  DailyStepTotals,
+  StepLedgerService,
+  createEmptyStepLedger,
+} from '../services/StepLedgerService';
+import { ActivitySource, StepSource } from '../types/health';
+import { DEFAULT_ACTIVITY_SOURCES, isActivitySource } from '../config/effort';
+import { SIGNING_KEY_BYTES, isSigningKey, toHex } from '../utils/signing';
 
 const STORAGE_KEY = 'walkforage_gamestate';
-const SCHEMA_VERSION = 1;
+const SCHEMA_VERSION = 2;
 
 export interface GameState {
+  playerId: string; // Random per-install id, salts per-player spawn seeds
+  signingKey: string; // Random per-install key (hex), signs the player's geology reports
   inventory: Inventory;
   unlockedTechs: string[];
   ownedTools: OwnedTool[];
   ownedComponents: OwnedComponent[];
   craftingQueue: CraftingJob[];
   explorationPoints: number;
+  exploration: ExplorationState; // Visited geohash cells and terrain tallies
+  quarantine: QuarantinedRecord[]; // Saved records that failed validation on load
   // Step gathering state (inlined from PersistedStepGatheringState)
+  // Steps are counted in gather effort units, one step's worth each (see config/effort)
   availableSteps: number;
   lastSyncTimestamp: number;
   totalStepsGathered: number;
+  stepCarryOver: number; // Synced steps held back by the daily cap, credited on later days
+  stepLedger: StepLedger; // Every step sync and spend, compacted to daily totals over time
+  preferredStepOrigin: string | null; // App to count when devices overlap (null: platform merges)
+  activitySources: ActivitySource[]; // Health data the player gathers with
 }
 
 const INITIAL_STATE: GameState = {
+  playerId: '', // Assigned on first load
+  signingKey: '', // Assigned on first load
   inventory: createEmptyInventory(),
   unlockedTechs: [], // Start with no techs unlocked
   ownedTools: [],
   ownedComponents: [],
   craftingQueue: [],
   explorationPoints: 0,
+  exploration: createEmptyExplorationState(),
+  quarantine: [],
   availableSteps: 0,
   lastSyncTimestamp: 0,
   totalStepsGathered: 0,
+  stepCarryOver: 0,
+  stepLedger: createEmptyStepLedger(),
+  preferredStepOrigin: null,
+  activitySources: DEFAULT_ACTIVITY_SOURCES,
 };
 
 type PersistedObject = Record<string, unknown>;
+
+function createPlayerId(): string {
+  return `player_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function createSigningKey(): string {
+  return toHex(Crypto.getRandomBytes(SIGNING_KEY_BYTES));
+}
 type Migration = (obj: PersistedObject) => PersistedObject;
 
 // Ordered migrations keyed by the version they migrate FROM.
 // v0 = unversioned legacy save. Identity/tag migration -> v1.
+// v1 -> v2: tools gained durability; existing tools start at full durability.
 const migrations: Record<number, Migration> = {
   0: (obj) => ({ ...obj, schemaVersion: 1 }),
+  1: (obj) => ({
+    ...obj,
+    ownedTools: Array.isArray(obj.ownedTools)
+      ? obj.ownedTools.map(withFullDurability)
+      : obj.ownedTools,
+    schemaVersion: 2,
+  }),
 };
 
 function toPersisted(s: GameState): GameState & { schemaVersion: number } {
@@ -95,14 +172,6 @@ function migratePersisted(obj: PersistedObject): PersistedObject {
   return current;
 }
 
-function sanitiseCount(x: unknown, fallback: number): number {
-  return typeof x === 'number' && Number.isFinite(x) ? Math.max(0, Math.floor(x)) : fallback;
-}
-
-function asArrayOr<T>(x: unknown, fallback: T[]): T[] {
-  return Array.isArray(x) ? (x as T[]) : fallback;
-}
-
 function sanitiseStacks(x: unknown): ResourceStack[] {
   if (!Array.isArray(x)) return [];
   const out: ResourceStack[] = [];
@@ -115,15 +184,166 @@ function sanitiseStacks(x: unknown): ResourceStack[] {
   return out;
 }
 
+function sanitiseExploration(x: unknown): ExplorationState {
+  if (x === null || typeof x !== 'object' || Array.isArray(x)) {
+    return createEmptyExplorationState();
+  }
+  const rec = x as Record<string, unknown>;
+  const visitedCells: Record<string, number> = {};
+  if (rec.visitedCells !== null && typeof rec.visitedCells === 'object') {
+    for (const [tile, mask] of Object.entries(rec.visitedCells as Record<string, unknown>)) {
+      if (typeof mask === 'number' && Number.isInteger(mask)) visitedCells[tile] = mask >>> 0;
+    }
+  }
+  return {
+    visitedCells,
+    biomeVisits: sanitiseCountMap(rec.biomeVisits),
+    lithologyVisits: sanitiseCountMap(rec.lithologyVisits),
+  };
+}
+
+const STEP_SOURCES: StepSource[] = ['health_connect', 'healthkit', 'gps', 'cheat'];
+
+function isTimestamp(x: unknown): x is number {
+  return typeof x === 'number' && Number.isFinite(x) && x >= 0;
+}
+
+function sanitiseLedgerEntry(x: unknown): StepLedgerEntry | null {
+  if (x === null || typeof x !== 'object' || Array.isArray(x)) return null;
+  const rec = x as Record<string, unknown>;
+  const amount = sanitiseCount(rec.amount, 0);
+  if (!isTimestamp(rec.at) || amount === 0) return null;
+  if (
+    rec.type === 'sync' &&
+    STEP_SOURCES.includes(rec.source as StepSource) &&
+    isTimestamp(rec.since) &&
+    isTimestamp(rec.until)
+  ) {
+    return {
+      type: 'sync',
+      at: rec.at,
+      amount,
+      source: rec.source as StepSource,
+      since: rec.since,
+      until: rec.until,
+    };
+  }
+  if (rec.type === 'spend' && typeof rec.spentOn === 'string') {
+    return { type: 'spend', at: rec.at, amount, spentOn: rec.spentOn };
+  }
+  return null;
+}
+
+function sanitiseActivitySources(x: unknown): ActivitySource[] {
+  const sources = Array.isArray(x) ? [...new Set(x.filter(isActivitySource))] : [];
+  return sources.length > 0 ? sources : INITIAL_STATE.activitySources;
+}
+
+function sanitiseStepLedger(x: unknown): StepLedger {
+  if (x === null || typeof x !== 'object' || Array.isArray(x)) {
+    return createEmptyStepLedger();
+  }
+  const rec = x as Record<string, unknown>;
+  const entries = (Array.isArray(rec.entries) ? rec.entries : [])
+    .map(sanitiseLedgerEntry)
+    .filter((entry): entry is StepLedgerEntry => entry !== null);
+  const days: DailyStepTotals[] = [];
+  for (const el of Array.isArray(rec.days) ? rec.days : []) {
+    if (el === null || typeof el !== 'object' || Array.isArray(el)) continue;
+    const day = el as Record<string, unknown>;
+    if (typeof day.day !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(day.day)) continue;
+    days.push({
+      day: day.day,
+      walked: sanitiseCount(day.walked, 0),
+      spent: sanitiseCount(day.spent, 0),
+    });
+  }
+  return { entries, days };
+}
+
+// Rebuild a full GameState from a parsed save (stored or imported).
+// Migrates older schemas, then validates every field; throws if migration fails.
+// Records that fail validation are moved to the quarantine and listed in the report.
+function restorePersisted(raw: unknown): { state: GameState; report: LoadReport } {
+  // Migrate unversioned/older saves up to current schema before validation.
+  const base: PersistedObject =
+    raw !== null && typeof raw === 'object' && !Array.isArray(raw) ? (raw as PersistedObject) : {};
+  const migrated = migratePersisted(base);
+
+  // Rebuild inventory: only accept well-formed stacks per material type.
+  const mergedInventory = createEmptyInventory();
+  const migratedInventory =
+    migrated.inventory !== null &&
+    typeof migrated.inventory === 'object' &&
+    !Array.isArray(migrated.inventory)
+      ? (migrated.inventory as Record<string, unknown>)
+      : {};
+  for (const type of getAllMaterialTypes()) {
+    mergedInventory[type] = sanitiseStacks(migratedInventory[type]);
+  }
+
+  const report = createLoadReport();
+  const state: GameState = {
+    ...INITIAL_STATE,
+    playerId:
+      typeof migrated.playerId === 'string' && migrated.playerId.length > 0
+        ? migrated.playerId
+        : INITIAL_STATE.playerId,
+    signingKey: isSigningKey(migrated.signingKey) ? migrated.signingKey : INITIAL_STATE.signingKey,
+    inventory: mergedInventory,
+    unlockedTechs: validateUnlockedTechs(migrated.unlockedTechs, report),
+    ownedTools: validateOwnedTools(migrated.ownedTools, report),
+    ownedComponents: validateOwnedComponents(migrated.ownedComponents, report),
+    craftingQueue: validateCraftingQueue(migrated.craftingQueue, report),
+    explorationPoints: sanitiseCount(migrated.explorationPoints, INITIAL_STATE.explorationPoints),
+    exploration: sanitiseExploration(migrated.exploration),
+    availableSteps: sanitiseCount(migrated.availableSteps, INITIAL_STATE.availableSteps),
+    totalStepsGathered: sanitiseCount(
+      migrated.totalStepsGathered,
+      INITIAL_STATE.totalStepsGathered
+    ),
+    lastSyncTimestamp:
+      typeof migrated.lastSyncTimestamp === 'number' && Number.isFinite(migrated.lastSyncTimestamp)
+        ? Math.max(0, migrated.lastSyncTimestamp)
+        : INITIAL_STATE.lastSyncTimestamp,
+    stepCarryOver: sanitiseCount(migrated.stepCarryOver, INITIAL_STATE.stepCarryOver),
+    stepLedger: sanitiseStepLedger(migrated.stepLedger),
+    preferredStepOrigin:
+      typeof migrated.preferredStepOrigin === 'string' && migrated.preferredStepOrigin
+        ? migrated.preferredStepOrigin
+        : INITIAL_STATE.preferredStepOrigin,
+    activitySources: sanitiseActivitySources(migrated.activitySources),
+  };
+  state.quarantine = [...validateQuarantine(migrated.quarantine), ...report.quarantined];
+  return { state, report };
+}
+
 // Parameters for crafting (used by both tools and components)
 export interface CraftItemParams extends CraftParams {
   craftable: Tool | CraftedComponent;
 }
 
+// Parameters for repairing an owned tool
+export interface RepairToolParams extends CraftParams {
+  instanceId: string;
+}
+
+// Result of reading a save file for import
+export type ImportPreview =
+  | {
+      success: true;
+      envelope: SaveEnvelope;
+      incoming: GameState;
+      summary: SaveDiffSummary;
+      report: LoadReport;
+    }
+  | { success: false; error: string };
+
 export interface GameStateHook {
   state: GameState;
   isLoading: boolean;
   saveError: boolean;
+  loadReport: LoadReport | null; // What validation repaired or quarantined on the last load
 
   // Inventory actions
   addResource: (category: keyof Inventory, resourceId: string, quantity: number) => void;
@@ -141,22 +361,48 @@ export interface GameStateHook {
   getBestTool: (toolId: string) => OwnedTool | null;
   getOwnedComponents: (componentId: string) => OwnedComponent[];
 
-  // Unified crafting via CraftingService
+  // Unified crafting via CraftingService (timed: crafts are queued as jobs)
   canCraft: (craftable: Tool | CraftedComponent) => CraftCheckResult;
-  craft: (params: CraftItemParams) => { success: boolean; error?: string };
+  startCraft: (params: CraftItemParams) => { success: boolean; error?: string };
+  cancelCraft: (jobId: string) => { success: boolean; error?: string };
+
+  // Tool durability
+  canRepairTool: (instanceId: string) => CraftCheckResult;
+  repairTool: (params: RepairToolParams) => { success: boolean; error?: string };
+  getToolUpgradeOptions: (instanceId: string) => OwnedComponent[];
+  upgradeTool: (
+    instanceId: string,
+    replacementComponentId: string
+  ) => { success: boolean; error?: string; upgradedTool?: OwnedTool; salvaged?: UsedMaterials };
+  wearGatheringTools: (materialType: MaterialType) => void;
 
   // Exploration actions
   addExplorationPoints: (points: number) => void;
+  spendExplorationPoints: (points: number) => void;
+  recordVisit: (latitude: number, longitude: number, terrain: VisitTerrain | null) => void;
 
   // Step gathering actions
-  syncSteps: (newSteps: number) => void;
-  spendSteps: (amount: number) => void;
+  // Credit steps from a source; since defaults to the previous sync, and the
+  // steps held back by the daily cap are left alone unless carriedOver is given
+  syncSteps: (newSteps: number, source: StepSource, since?: number, carriedOver?: number) => void;
+  spendSteps: (amount: number, spentOn: string) => void;
+  setPreferredStepOrigin: (origin: string | null) => void;
+  setActivitySources: (sources: ActivitySource[]) => void;
   getStepGatheringState: () => {
     availableSteps: number;
     lastSyncTimestamp: number;
     totalStepsGathered: number;
+    stepCarryOver: number;
+    stepLedger: StepLedger;
+    preferredStepOrigin: string | null;
+    activitySources: ActivitySource[];
   };
 
+  // Save export/import
+  exportSave: (appVersion: string) => string;
+  previewImport: (text: string) => ImportPreview;
+  applyImport: (incoming: GameState) => Promise<void>;
+
   // Persistence
   saveGame: () => Promise<void>;
   loadGame: () => Promise<void>;
@@ -180,6 +426,7 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
   const [state, setState] = useState<GameState>(INITIAL_STATE);
   const [isLoading, setIsLoading] = useState(true);
   const [saveError, setSaveError] = useState(false);
+  const [loadReport, setLoadReport] = useState<LoadReport | null>(null);
   const pendingSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastSaveTimeRef = useRef<number>(0);
   const stateRef = useRef<GameState>(state);
@@ -195,52 +442,23 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
     try {
       const saved = await AsyncStorage.getItem(STORAGE_KEY);
       if (saved) {
-        const rawParsed = JSON.parse(saved) as unknown;
-        // Migrate unversioned/older saves up to current schema before validation.
-        const base: PersistedObject =
-          rawParsed !== null && typeof rawParsed === 'object' && !Array.isArray(rawParsed)
-            ? (rawParsed as PersistedObject)
-            : {};
-        const migrated = migratePersisted(base);
-
-        // Rebuild inventory: only accept well-formed stacks per material type.
-        const mergedInventory = createEmptyInventory();
-        const migratedInventory =
-          migrated.inventory !== null &&
-          typeof migrated.inventory === 'object' &&
-          !Array.isArray(migrated.inventory)
-            ? (migrated.inventory as Record<string, unknown>)
-            : {};
-        for (const type of getAllMaterialTypes()) {
-          mergedInventory[type] = sanitiseStacks(migratedInventory[type]);
-        }
-
-        setState({
-          ...INITIAL_STATE,
-          inventory: mergedInventory,
-          unlockedTechs: asArrayOr(migrated.unlockedTechs, INITIAL_STATE.unlockedTechs),
-          ownedTools: asArrayOr(migrated.ownedTools, INITIAL_STATE.ownedTools),
-          ownedComponents: asArrayOr(migrated.ownedComponents, INITIAL_STATE.ownedComponents),
-          craftingQueue: asArrayOr(migrated.craftingQueue, INITIAL_STATE.craftingQueue),
-          explorationPoints: sanitiseCount(
-            migrated.explorationPoints,
-            INITIAL_STATE.explorationPoints
-          ),
-          availableSteps: sanitiseCount(migrated.availableSteps, INITIAL_STATE.availableSteps),
-          totalStepsGathered: sanitiseCount(
-            migrated.totalStepsGathered,
-            INITIAL_STATE.totalStepsGathered
-          ),
-          lastSyncTimestamp:
-            typeof migrated.lastSyncTimestamp === 'number' &&
-            Number.isFinite(migrated.lastSyncTimestamp)
-              ? Math.max(0, migrated.lastSyncTimestamp)
-              : INITIAL_STATE.lastSyncTimestamp,
-        });
+        const restored = restorePersisted(JSON.parse(saved) as unknown);
+        setState(restored.state);
+        setLoadReport(restored.report);
       }
     } catch (error) {
       console.error('Failed to load game:', error);
     } finally {
+      // New games (and saves from before player ids or signing keys) get a fresh id and key
+      setState((prev) =>
+        prev.playerId && prev.signingKey
+          ? prev
+          : {
+              ...prev,
+              playerId: prev.playerId || createPlayerId(),
+              signingKey: prev.signingKey || createSigningKey(),
+            }
+      );
       setIsLoading(false);
     }
   }, []);
@@ -294,21 +512,45 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
   const resetGame = useCallback(async () => {
     try {
       await AsyncStorage.removeItem(STORAGE_KEY);
-      setState(INITIAL_STATE);
+      // Progress is reset, but the player keeps their id and key
+      setState((prev) => ({
+        ...INITIAL_STATE,
+        playerId: prev.playerId,
+        signingKey: prev.signingKey,
+      }));
     } catch (error) {
       console.error('Failed to reset game:', error);
     }
   }, []);
 
+  // Move finished crafting jobs into owned tools/components
+  const completeFinishedJobs = useCallback(() => {
+    setState((prev) => {
+      const { newState, completedItems } = CraftingService.completeCraftingJobs(prev);
+      return completedItems.length > 0 ? { ...prev, ...newState } : prev;
+    });
+  }, []);
+
   // Load game on mount
   useEffect(() => {
     void loadGame();
   }, [loadGame]);
 
-  // Save when app goes to background
+  // Complete the next crafting job when it finishes. Jobs use wall-clock start
+  // times, so jobs that finished while the app was closed complete right after load.
+  useEffect(() => {
+    if (state.craftingQueue.length === 0) return;
+    const nextEndTime = Math.min(...state.craftingQueue.map(CraftingService.getJobEndTime));
+    const timeout = setTimeout(completeFinishedJobs, Math.max(0, nextEndTime - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [state.craftingQueue, completeFinishedJobs]);
+
+  // Save when app goes to background; catch up crafting jobs when it returns
   useEffect(() => {
     const handleAppStateChange = (nextAppState: AppStateStatus) => {
-      if (nextAppState === 'background' || nextAppState === 'inactive') {
+      if (nextAppState === 'active') {
+        completeFinishedJobs();
+      } else if (nextAppState === 'background' || nextAppState === 'inactive') {
         // Cancel any pending throttled save and save immediately
         if (pendingSaveRef.current) {
           clearTimeout(pendingSaveRef.current);
@@ -323,7 +565,7 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
     return () => {
       subscription.remove();
     };
-  }, [enqueueSave]);
+  }, [enqueueSave, completeFinishedJobs]);
 
   // Auto-save periodically (backup, in case throttled saves miss something)
   useEffect(() => {
@@ -442,15 +684,22 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
     [state.ownedComponents]
   );
 
-  // Helper to get CraftingState from GameState
-  const getCraftingState = useCallback((): CraftingState => {
+  // Helper to get CraftingQueueState from GameState
+  const getCraftingState = useCallback((): CraftingQueueState => {
     return {
       inventory: state.inventory,
       unlockedTechs: state.unlockedTechs,
       ownedTools: state.ownedTools,
       ownedComponents: state.ownedComponents,
+      craftingQueue: state.craftingQueue,
     };
-  }, [state.inventory, state.unlockedTechs, state.ownedTools, state.ownedComponents]);
+  }, [
+    state.inventory,
+    state.unlockedTechs,
+    state.ownedTools,
+    state.ownedComponents,
+    state.craftingQueue,
+  ]);
 
   // Unified canCraft using CraftingService
   const canCraft = useCallback(
@@ -460,12 +709,12 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
     [getCraftingState]
   );
 
-  // Unified craft using CraftingService
-  const craft = useCallback(
+  // Start a timed craft using CraftingService (reserves inputs, queues a job)
+  const startCraft = useCallback(
     (params: CraftItemParams): { success: boolean; error?: string } => {
       const { craftable, selectedMaterials, selectedComponentIds, selectedFoods } = params;
 
-      const result = CraftingService.craft(
+      const result = CraftingService.startCraft(
         craftable,
         { selectedMaterials, selectedComponentIds, selectedFoods },
         getCraftingState()
@@ -481,6 +730,61 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
         inventory: result.newState.inventory,
         ownedTools: result.newState.ownedTools,
         ownedComponents: result.newState.ownedComponents,
+        craftingQueue: result.newState.craftingQueue,
+      }));
+
+      return { success: true };
+    },
+    [getCraftingState]
+  );
+
+  // Cancel a queued craft, refunding its reserved inputs
+  const cancelCraft = useCallback(
+    (jobId: string): { success: boolean; error?: string } => {
+      const result = CraftingService.cancelCraftingJob(jobId, getCraftingState());
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      setState((prev) => ({
+        ...prev,
+        inventory: result.newState.inventory,
+        ownedComponents: result.newState.ownedComponents,
+        craftingQueue: result.newState.craftingQueue,
+      }));
+
+      return { success: true };
+    },
+    [getCraftingState]
+  );
+
+  // Repair helpers using CraftingService
+  const canRepairTool = useCallback(
+    (instanceId: string): CraftCheckResult => {
+      return CraftingService.canRepair(instanceId, getCraftingState());
+    },
+    [getCraftingState]
+  );
+
+  const repairTool = useCallback(
+    (params: RepairToolParams): { success: boolean; error?: string } => {
+      const { instanceId, selectedMaterials, selectedFoods } = params;
+
+      const result = CraftingService.repair(
+        instanceId,
+        { selectedMaterials, selectedFoods },
+        getCraftingState()
+      );
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      setState((prev) => ({
+        ...prev,
+        inventory: result.newState.inventory,
+        ownedTools: result.newState.ownedTools,
       }));
 
       return { success: true };
@@ -488,6 +792,58 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
     [getCraftingState]
   );
 
+  // Upgrade (rehafting) helpers using CraftingService
+  const getToolUpgradeOptions = useCallback(
+    (instanceId: string): OwnedComponent[] => {
+      return CraftingService.getUpgradeOptions(instanceId, getCraftingState());
+    },
+    [getCraftingState]
+  );
+
+  const upgradeTool = useCallback(
+    (instanceId: string, replacementComponentId: string) => {
+      const result = CraftingService.upgrade(
+        instanceId,
+        replacementComponentId,
+        getCraftingState()
+      );
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      setState((prev) => ({
+        ...prev,
+        inventory: result.newState.inventory,
+        ownedTools: result.newState.ownedTools,
+        ownedComponents: result.newState.ownedComponents,
+      }));
+
+      return {
+        success: true,
+        upgradedTool: result.upgradedTool,
+        salvaged: result.salvagedMaterials,
+      };
+    },
+    [getCraftingState]
+  );
+
+  // Wear the tools that contributed to a gather action
+  const wearGatheringTools = useCallback((materialType: MaterialType) => {
+    setState((prev) => {
+      const used = getGatheringToolsForMaterial(materialType, prev.ownedTools);
+      if (used.length === 0) return prev;
+      return {
+        ...prev,
+        ownedTools: wearTools(
+          prev.ownedTools,
+          used.map((t) => t.instanceId),
+          WEAR_PER_GATHER
+        ),
+      };
+    });
+  }, []);
+
   // Exploration helpers
   const addExplorationPoints = useCallback((points: number) => {
     setState((prev) => ({
@@ -496,21 +852,78 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
     }));
   }, []);
 
-  // Step gathering helpers
-  const syncSteps = useCallback((newSteps: number) => {
+  const spendExplorationPoints = useCallback((points: number) => {
     setState((prev) => ({
       ...prev,
-      availableSteps: prev.availableSteps + newSteps,
-      lastSyncTimestamp: Date.now(),
+      explorationPoints: Math.max(0, prev.explorationPoints - points),
     }));
   }, []);
 
-  const spendSteps = useCallback((amount: number) => {
-    setState((prev) => ({
-      ...prev,
-      availableSteps: Math.max(0, prev.availableSteps - amount),
-      totalStepsGathered: prev.totalStepsGathered + amount,
-    }));
+  // Record the player entering a location; first visits to a cell earn points
+  const recordVisit = useCallback(
+    (latitude: number, longitude: number, terrain: VisitTerrain | null) => {
+      setState((prev) => {
+        const { newState, pointsAwarded } = ExplorationService.recordVisit(
+          prev.exploration,
+          latitude,
+          longitude,
+          terrain
+        );
+        if (pointsAwarded === 0) return prev;
+        return {
+          ...prev,
+          exploration: newState,
+          explorationPoints: prev.explorationPoints + pointsAwarded,
+        };
+      });
+    },
+    []
+  );
+
+  // Step gathering helpers
+  // Every sync and spend is recorded in the step ledger
+  const syncSteps = useCallback(
+    (newSteps: number, source: StepSource, since?: number, carriedOver?: number) => {
+      setState((prev) => {
+        const now = Date.now();
+        const ledger = StepLedgerService.recordSync(
+          prev.stepLedger,
+          newSteps,
+          source,
+          since ?? (prev.lastSyncTimestamp || now),
+          now
+        );
+        return {
+          ...prev,
+          availableSteps: prev.availableSteps + newSteps,
+          lastSyncTimestamp: now,
+          stepCarryOver: carriedOver ?? prev.stepCarryOver,
+          stepLedger: StepLedgerService.compactLedger(ledger, now),
+        };
+      });
+    },
+    []
+  );
+
+  const spendSteps = useCallback((amount: number, spentOn: string) => {
+    setState((prev) => {
+      const now = Date.now();
+      const ledger = StepLedgerService.recordSpend(prev.stepLedger, amount, spentOn, now);
+      return {
+        ...prev,
+        availableSteps: Math.max(0, prev.availableSteps - amount),
+        totalStepsGathered: prev.totalStepsGathered + amount,
+        stepLedger: StepLedgerService.compactLedger(ledger, now),
+      };
+    });
+  }, []);
+
+  const setPreferredStepOrigin = useCallback((origin: string | null) => {
+    setState((prev) => ({ ...prev, preferredStepOrigin: origin }));
+  }, []);
+
+  const setActivitySources = useCallback((sources: ActivitySource[]) => {
+    setState((prev) => ({ ...prev, activitySources: sanitiseActivitySources(sources) }));
   }, []);
 
   // Use stateRef to return truly fresh state, avoiding stale closure issues
@@ -519,9 +932,59 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
       availableSteps: stateRef.current.availableSteps,
       lastSyncTimestamp: stateRef.current.lastSyncTimestamp,
       totalStepsGathered: stateRef.current.totalStepsGathered,
+      stepCarryOver: stateRef.current.stepCarryOver,
+      stepLedger: stateRef.current.stepLedger,
+      preferredStepOrigin: stateRef.current.preferredStepOrigin,
+      activitySources: stateRef.current.activitySources,
     };
   }, []);
 
+  // Serialise the current game as a save file
+  const exportSave = useCallback((appVersion: string): string => {
+    const envelope = SaveTransferService.createSaveEnvelope(
+      toPersisted(stateRef.current),
+      appVersion
+    );
+    return SaveTransferService.serializeSaveEnvelope(envelope);
+  }, []);
+
+  // Verify, migrate and sanitise a save file, and summarise what importing it would change.
+  // Does not modify state; call applyImport with the result once the player confirms.
+  const previewImport = useCallback((text: string): ImportPreview => {
+    const parsed = SaveTransferService.parseSaveEnvelope(text, SCHEMA_VERSION);
+    if (!parsed.success) {
+      return parsed;
+    }
+    try {
+      const { state: incoming, report } = restorePersisted(parsed.envelope.state);
+      return {
+        success: true,
+        envelope: parsed.envelope,
+        incoming,
+        summary: SaveTransferService.summarizeSaveDiff(stateRef.current, incoming),
+        report,
+      };
+    } catch (error) {
+      console.error('Failed to read imported save:', error);
+      return { success: false, error: 'Save file could not be upgraded to this version' };
+    }
+  }, []);
+
+  // Replace the current game with an imported one and save it straight away
+  const applyImport = useCallback(
+    async (incoming: GameState): Promise<void> => {
+      const next = {
+        ...incoming,
+        playerId: incoming.playerId || stateRef.current.playerId,
+        signingKey: incoming.signingKey || stateRef.current.signingKey,
+      };
+      stateRef.current = next;
+      setState(next);
+      await enqueueSave();
+    },
+    [enqueueSave]
+  );
+
   // Memoize context value to prevent unnecessary re-renders of consumers.
   // Every field below is either a state slice or a useCallback; the callbacks
   // whose identity tracks a state slice are listed explicitly so consumers
@@ -531,6 +994,7 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
       state,
       isLoading,
       saveError,
+      loadReport,
       addResource,
       removeResource,
       hasResource,
@@ -542,11 +1006,24 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
       getBestTool,
       getOwnedComponents,
       canCraft,
-      craft,
+      startCraft,
+      cancelCraft,
+      canRepairTool,
+      repairTool,
+      getToolUpgradeOptions,
+      upgradeTool,
+      wearGatheringTools,
       addExplorationPoints,
+      spendExplorationPoints,
+      recordVisit,
       syncSteps,
       spendSteps,
+      setPreferredStepOrigin,
+      setActivitySources,
       getStepGatheringState,
+      exportSave,
+      previewImport,
+      applyImport,
       saveGame,
       loadGame,
       resetGame,
@@ -555,6 +1032,7 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
       state,
       isLoading,
       saveError,
+      loadReport,
       addResource,
       removeResource,
       hasResource,
@@ -566,11 +1044,24 @@ export function GameStateProvider({ children }: GameStateProviderProps) {
       getBestTool,
       getOwnedComponents,
       canCraft,
-      craft,
+      startCraft,
+      cancelCraft,
+      canRepairTool,
+      repairTool,
+      getToolUpgradeOptions,
+      upgradeTool,
+      wearGatheringTools,
       addExplorationPoints,
+      spendExplorationPoints,
+      recordVisit,
       syncSteps,
       spendSteps,
+      setPreferredStepOrigin,
+      setActivitySources,
       getStepGatheringState,
+      exportSave,
+      previewImport,
+      applyImport,
       saveGame,
       loadGame,
       resetGame,
@@ -1,50 +1,91 @@
 // useStepGathering - Hook for step-based resource gathering
-// Syncs steps from HealthConnect/HealthKit and allows spending steps for resources
+// Syncs steps and other activity from HealthConnect/HealthKit as gather effort,
+// and allows spending effort for resources. Without either, steps are estimated
+// from GPS distance walked.
 // Uses useGameState for persistence across screen changes
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { healthService } from '../services/HealthService';
+import { gpsStepService } from '../services/GpsStepService';
 import { useGameState } from './useGameState';
-import { HealthPermissionStatus, GatherResult, StepSyncResult } from '../types/health';
+import {
+  ActivitySource,
+  HealthPermissionStatus,
+  GatherResult,
+  StepDataService,
+  StepOrigin,
+  StepSource,
+  StepSyncResult,
+} from '../types/health';
+import { calculateEffort } from '../config/effort';
+import { GpsFix } from '../config/gpsDistance';
 import { LocationGeoData } from '../types/gis';
 import { MaterialType, getMaterialConfig, getGatherableMaterialTypes } from '../config/materials';
 import {
-  STEPS_PER_GATHER,
+  EFFORT_PER_GATHER,
+  STEP_CREDIT_POLICY,
+  StepCreditPolicy,
+  applyDailyStepCap,
   calculateGatherableAmount,
   calculateGatheringAbility,
   calculateGatherYield,
+  getStepSyncWindowStart,
 } from '../config/gathering';
+import { StepLedgerService } from '../services/StepLedgerService';
+import { deriveSpawnSeed, getSpawnDay } from '../services/ResourceSpawnService';
+import { RandomSource, createSeededRandom, defaultRandom } from '../utils/random';
+
+// A seeded random stream, recreated when its seed changes
+interface SeededStream {
+  seed: number;
+  random: RandomSource;
+}
+
+// Return the stream for a seed, reusing the current one so rolls advance through it
+function streamFor(current: SeededStream | null, seed: number): SeededStream {
+  return current && current.seed === seed ? current : { seed, random: createSeededRandom(seed) };
+}
 
 export interface UseStepGatheringOptions {
   /** Callback when resources are gathered - receives category, resourceId, quantity */
   onGather?: (category: MaterialType, resourceId: string, quantity: number) => void;
   /** Auto-sync interval in milliseconds (0 to disable) */
   autoSyncInterval?: number;
+  /** How synced steps are credited (defaults to STEP_CREDIT_POLICY) */
+  creditPolicy?: StepCreditPolicy;
+  /** Current location from useLocation, walked distance from which is used without health data */
+  location?: GpsFix | null;
 }
 
 export interface UseStepGatheringReturn {
-  /** Steps available for gathering (reactive - use for render) */
+  /** Effort available for gathering, in step-equivalent units (reactive - use for render) */
   availableSteps: number;
   /** Timestamp of last step sync */
   lastSyncTimestamp: number;
   /** Total steps ever used for gathering */
   totalStepsGathered: number;
-  /** Current health permission status */
+  /** Synced steps held back by the daily cap, credited on later days */
+  stepCarryOver: number;
+  /** How synced steps are credited */
+  creditPolicy: StepCreditPolicy;
+  /** Where steps are read from: 'gps' when estimated from distance walked */
+  stepSource: StepSource;
+  /** Current health (or, for GPS, location) permission status */
   permissionStatus: HealthPermissionStatus;
   /** Whether service is loading/initializing */
   isLoading: boolean;
   /** Sync steps from health service */
   syncSteps: () => Promise<StepSyncResult>;
-  /** Request health permission */
-  requestPermission: () => Promise<HealthPermissionStatus>;
+  /** Request health permission for the given activity sources (default: the chosen ones) */
+  requestPermission: (sources?: ActivitySource[]) => Promise<HealthPermissionStatus>;
   /** Generic gather function for any material type */
   gatherMaterial: (
     materialType: MaterialType,
     geoData: LocationGeoData | null
   ) => Promise<GatherResult>;
-  /** Spend steps (used by external state management) */
-  spendSteps: (amount: number) => void;
-  /** Check if health service is available */
+  /** Spend effort (used by external state management), recorded in the ledger as spentOn */
+  spendSteps: (amount: number, spentOn?: string) => void;
+  /** Check if a step source is available */
   isAvailable: boolean;
   /** Whether Health Connect needs to be installed (Android) */
   needsInstall: boolean;
@@ -54,10 +95,27 @@ export interface UseStepGatheringReturn {
   openPlayStore: () => Promise<boolean>;
   /** Get list of gatherable material types */
   gatherableMaterialTypes: MaterialType[];
+  /** App whose steps count when devices overlap (null: the platform merges them) */
+  preferredStepOrigin: string | null;
+  /** Choose the app whose steps count when devices overlap */
+  setPreferredStepOrigin: (origin: string | null) => void;
+  /** Apps that recorded steps recently, to choose a preferred one from */
+  getStepOrigins: () => Promise<StepOrigin[]>;
+  /** Health data the player gathers with */
+  activitySources: ActivitySource[];
+  /** Choose the health data to gather with (request permission for new ones separately) */
+  setActivitySources: (sources: ActivitySource[]) => void;
+  /** Health data this platform can provide */
+  supportedActivitySources: ActivitySource[];
 }
 
 export function useStepGathering(options: UseStepGatheringOptions = {}): UseStepGatheringReturn {
-  const { onGather, autoSyncInterval = 0 } = options;
+  const {
+    onGather,
+    autoSyncInterval = 0,
+    creditPolicy = STEP_CREDIT_POLICY,
+    location = null,
+  } = options;
 
   // Get persisted state and update functions from useGameState
   const {
@@ -65,8 +123,42 @@ export function useStepGathering(options: UseStepGatheringOptions = {}): UseStep
     getStepGatheringState, // Keep for callbacks that need fresh data
     syncSteps: persistSyncSteps,
     spendSteps: persistSpendSteps,
+    setPreferredStepOrigin,
+    setActivitySources,
+    wearGatheringTools,
   } = useGameState();
 
+  // Seeded streams for the current cell and day. Resource rolls are shared by every
+  // player in the cell; yield rolls are salted with the player id.
+  const spawnStreamRef = useRef<SeededStream | null>(null);
+  const yieldStreamRef = useRef<SeededStream | null>(null);
+
+  const getRandomSources = useCallback(
+    (geoData: LocationGeoData | null): { spawn: RandomSource; yield: RandomSource } => {
+      if (!geoData?.cellGeohash) {
+        return { spawn: defaultRandom, yield: defaultRandom };
+      }
+      const day = getSpawnDay(Date.now());
+      spawnStreamRef.current = streamFor(
+        spawnStreamRef.current,
+        deriveSpawnSeed(geoData.cellGeohash, day)
+      );
+      yieldStreamRef.current = streamFor(
+        yieldStreamRef.current,
+        deriveSpawnSeed(geoData.cellGeohash, day, gameState.playerId)
+      );
+      return { spawn: spawnStreamRef.current.random, yield: yieldStreamRef.current.random };
+    },
+    [gameState.playerId]
+  );
+
+  // Where steps are read from, chosen on init. Callbacks read the ref, which the
+  // mount-only init effect's closures can't see go stale.
+  const [stepService, setStepService] = useState<StepDataService>(() =>
+    healthService.isAvailable() ? healthService : gpsStepService
+  );
+  const stepServiceRef = useRef<StepDataService>(stepService);
+
   // Permission status is ephemeral - checked with health service on each init
   const [permissionStatus, setPermissionStatus] =
     useState<HealthPermissionStatus>('not_determined');
@@ -77,26 +169,25 @@ export function useStepGathering(options: UseStepGatheringOptions = {}): UseStep
     let mounted = true;
 
     async function init() {
-      const available = healthService.isAvailable();
-      if (!available) {
-        if (mounted) {
-          setPermissionStatus('unavailable');
-          setIsLoading(false);
-        }
-        return;
-      }
-
-      const initialized = await healthService.initialize();
+      // Fall back to GPS distance where there's no health platform to read
+      const service =
+        healthService.isAvailable() && (await healthService.initialize())
+          ? healthService
+          : gpsStepService;
+      stepServiceRef.current = service;
+      if (mounted) setStepService(service);
+
+      const initialized = await service.initialize();
       if (!initialized) {
         if (mounted) {
-          setPermissionStatus(healthService.getPermissionStatus());
+          setPermissionStatus(service.getPermissionStatus());
           setIsLoading(false);
         }
         return;
       }
 
       // Check if we already have permission
-      const status = await healthService.checkPermission();
+      const status = await service.checkPermission(getStepGatheringState().activitySources);
       if (mounted) {
         setPermissionStatus(status);
         setIsLoading(false);
@@ -115,7 +206,7 @@ export function useStepGathering(options: UseStepGatheringOptions = {}): UseStep
       mounted = false;
     };
     // Mount-only init: doSyncSteps reads live state via getStepGatheringState() and live
-    // permission via healthService, so an empty dep array can't capture stale step data.
+    // permission via the step service ref, so an empty dep array can't capture stale step data.
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -131,19 +222,27 @@ export function useStepGathering(options: UseStepGatheringOptions = {}): UseStep
     }, autoSyncInterval);
 
     return () => clearInterval(interval);
-    // doSyncSteps reads live state via getStepGatheringState()/healthService each tick,
+    // doSyncSteps reads live state via getStepGatheringState()/stepServiceRef each tick,
     // so omitting it from deps can't read stale step data; re-run only on the listed deps.
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [autoSyncInterval, permissionStatus]);
 
+  // The GPS fallback counts distance between tracked locations
+  useEffect(() => {
+    if (location && stepService === gpsStepService) {
+      gpsStepService.recordLocation(location);
+    }
+  }, [location, stepService]);
+
   // Internal sync function that uses persisted state
   const doSyncSteps = useCallback(async (): Promise<StepSyncResult> => {
     // Get fresh state to avoid stale closure issues
     const currentState = getStepGatheringState();
+    const service = stepServiceRef.current;
 
     // Check permission via service to avoid stale closure issues
     // (permissionStatus from closure may be stale when called from init effect)
-    const currentPermission = healthService.getPermissionStatus();
+    const currentPermission = service.getPermissionStatus();
     if (currentPermission !== 'authorized') {
       return {
         newSteps: 0,
@@ -167,18 +266,41 @@ export function useStepGathering(options: UseStepGatheringOptions = {}): UseStep
     }
 
     try {
-      // Get steps since last sync
-      // On first launch (no timestamp), start fresh - don't credit historical steps
-      const isFirstSync = !currentState.lastSyncTimestamp;
-      const syncSince = currentState.lastSyncTimestamp || Date.now();
-      const newSteps = isFirstSync ? 0 : await healthService.getStepsSince(syncSince);
-
-      // Persist the new steps to game state (also updates lastSyncTimestamp)
-      persistSyncSteps(newSteps);
+      // Get steps since last sync, as far back as the credit policy allows
+      // (the first sync reads the welcome window)
+      const now = Date.now();
+      const syncSince = getStepSyncWindowStart(currentState.lastSyncTimestamp, now, creditPolicy);
+      // Chosen sources the service provides, or all it provides if it has none of them
+      const supported = service.getSupportedActivitySources();
+      const chosen = currentState.activitySources.filter((s) => supported.includes(s));
+      const sources = chosen.length > 0 ? chosen : supported;
+      const walked =
+        syncSince < now
+          ? calculateEffort(
+              await service.getActivitySince(syncSince, sources, currentState.preferredStepOrigin),
+              sources
+            )
+          : 0;
+
+      // Cap what's credited today across all sources; the rest is held for later days or lost
+      const creditedToday = StepLedgerService.getCreditedOnDay(
+        currentState.stepLedger,
+        StepLedgerService.getLedgerDay(now)
+      );
+      const { credited, carriedOver } = applyDailyStepCap(
+        walked,
+        currentState.stepCarryOver,
+        creditedToday,
+        creditPolicy
+      );
+
+      // Persist the new steps to game state (also updates lastSyncTimestamp and the ledger)
+      persistSyncSteps(credited, service.getStepSource(), syncSince, carriedOver);
 
       return {
-        newSteps,
-        totalAvailable: currentState.availableSteps + newSteps,
+        newSteps: credited,
+        totalAvailable: currentState.availableSteps + credited,
+        carriedOver,
         success: true,
       };
     } catch (error) {
@@ -189,30 +311,35 @@ export function useStepGathering(options: UseStepGatheringOptions = {}): UseStep
         error: error instanceof Error ? error.message : 'Sync failed',
       };
     }
-  }, [getStepGatheringState, persistSyncSteps]);
+  }, [getStepGatheringState, persistSyncSteps, creditPolicy]);
+
+  const requestPermission = useCallback(
+    async (sources?: ActivitySource[]): Promise<HealthPermissionStatus> => {
+      setIsLoading(true);
+      try {
+        const status = await stepServiceRef.current.requestPermission(
+          sources ?? getStepGatheringState().activitySources
+        );
+        setPermissionStatus(status);
 
-  const requestPermission = useCallback(async (): Promise<HealthPermissionStatus> => {
-    setIsLoading(true);
-    try {
-      const status = await healthService.requestPermission();
-      setPermissionStatus(status);
-
-      // If permission granted, sync (debounce will prevent rapid re-syncs)
-      if (status === 'authorized') {
-        void doSyncSteps().then((r) => {
-          if (!r.success) console.warn('step sync failed:', r.error);
-        });
-      }
+        // If permission granted, sync (debounce will prevent rapid re-syncs)
+        if (status === 'authorized') {
+          void doSyncSteps().then((r) => {
+            if (!r.success) console.warn('step sync failed:', r.error);
+          });
+        }
 
-      return status;
-    } finally {
-      setIsLoading(false);
-    }
-  }, [doSyncSteps]);
+        return status;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [doSyncSteps, getStepGatheringState]
+  );
 
   const spendSteps = useCallback(
-    (amount: number) => {
-      persistSpendSteps(amount);
+    (amount: number, spentOn: string = 'other') => {
+      persistSpendSteps(amount, spentOn);
     },
     [persistSpendSteps]
   );
@@ -243,8 +370,9 @@ export function useStepGathering(options: UseStepGatheringOptions = {}): UseStep
       }
 
       // Get geo-appropriate resource using the material's gathering config
+      const random = getRandomSources(geoData);
       const resource = geoData
-        ? config.gathering.getRandomResourceForLocation(geoData)
+        ? config.gathering.getRandomResourceForLocation(geoData, random.spawn)
         : config.gathering.getRandomResource();
 
       if (!resource) {
@@ -252,10 +380,13 @@ export function useStepGathering(options: UseStepGatheringOptions = {}): UseStep
       }
 
       // Calculate yield based on tool bonuses
-      const quantity = calculateGatherYield(gatheringAbility);
+      const quantity = calculateGatherYield(gatheringAbility, random.yield);
+
+      // Spend effort (persisted)
+      spendSteps(EFFORT_PER_GATHER, materialType);
 
-      // Spend steps (persisted)
-      spendSteps(STEPS_PER_GATHER);
+      // Gathering wears down the tools that contributed to the yield
+      wearGatheringTools(materialType);
 
       // Notify via callback
       if (onGather) {
@@ -266,35 +397,56 @@ export function useStepGathering(options: UseStepGatheringOptions = {}): UseStep
         success: true,
         resourceId: resource.id,
         quantity,
-        stepsSpent: STEPS_PER_GATHER,
+        effortSpent: EFFORT_PER_GATHER,
       };
     },
-    [getStepGatheringState, gameState.ownedTools, spendSteps, onGather]
+    [
+      getStepGatheringState,
+      getRandomSources,
+      gameState.ownedTools,
+      spendSteps,
+      wearGatheringTools,
+      onGather,
+    ]
   );
 
   const openHealthSettings = useCallback(async (): Promise<boolean> => {
-    return healthService.openHealthSettings();
+    return stepServiceRef.current.openHealthSettings();
   }, []);
 
+  // Health Connect can still be installed while steps are estimated from GPS
   const openPlayStore = useCallback(async (): Promise<boolean> => {
     return healthService.openHealthConnectPlayStore();
   }, []);
 
+  const getStepOrigins = useCallback(async (): Promise<StepOrigin[]> => {
+    return stepServiceRef.current.getStepOrigins();
+  }, []);
+
   return {
     availableSteps: gameState.availableSteps,
     lastSyncTimestamp: gameState.lastSyncTimestamp,
     totalStepsGathered: gameState.totalStepsGathered,
+    stepCarryOver: gameState.stepCarryOver,
+    creditPolicy,
+    stepSource: stepService.getStepSource(),
     permissionStatus,
     isLoading,
     syncSteps: doSyncSteps,
     requestPermission,
     gatherMaterial,
     spendSteps,
-    isAvailable: healthService.isAvailable(),
+    isAvailable: stepService.isAvailable(),
     needsInstall: healthService.needsHealthConnectInstall(),
     openHealthSettings,
     openPlayStore,
     gatherableMaterialTypes: getGatherableMaterialTypes(),
+    preferredStepOrigin: gameState.preferredStepOrigin,
+    setPreferredStepOrigin,
+    getStepOrigins,
+    activitySources: gameState.activitySources,
+    setActivitySources,
+    supportedActivitySources: stepService.getSupportedActivitySources(),
   };
 }
 
@@ -2,19 +2,65 @@
  * GeoDataProvider - React context provider for GeoDataService
  *
  * Provides the GeoDataService to the React component tree.
- * Handles initialization and cleanup of the service.
+ * Handles initialization and cleanup of the service, the installed
+ * region packs layered over the bundled tiles, and the player's geology
+ * reports layered over both.
  */
 
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
 import { GeoDataService } from '../services/GeoDataService';
 import { ExpoTileLoader } from '../services/ExpoTileLoader';
 import { TileLoader } from '../services/TileLoader';
+import { CompositeTileLoader } from '../services/CompositeTileLoader';
+import { RegionPackTileLoader, InstalledRegionPack } from '../services/RegionPackTileLoader';
+import { GeologyOverrideTileLoader } from '../services/GeologyOverrideTileLoader';
+import { RegionPackInfo } from '../services/RegionPackService';
+import {
+  downloadRegionPack,
+  installRegionPack as installStagedPack,
+  listInstalledRegionPacks,
+  openRegionPack,
+  stageRegionPack,
+  uninstallRegionPack as deleteRegionPack,
+} from '../services/RegionPackStore';
+import {
+  CreateOverrideResult,
+  GeologyOverride,
+  GeologyReport,
+  OverrideAuthor,
+  createGeologyOverride,
+} from '../services/GeologyOverrideService';
+import {
+  deleteGeologyOverride,
+  loadGeologyOverrides,
+  saveGeologyOverride,
+} from '../services/GeologyOverrideStore';
+
+/**
+ * Result of installing a region pack
+ */
+export type InstallRegionPackResult =
+  | { success: true; info: RegionPackInfo }
+  | { success: false; error: string };
 
 interface GeoDataContextValue {
   geoDataService: GeoDataService | null;
   tileLoader: TileLoader | null;
   isLoading: boolean;
   error: Error | null;
+  regionPacks: RegionPackInfo[];
+  installRegionPack: (url: string) => Promise<InstallRegionPackResult>;
+  uninstallRegionPack: (id: string) => Promise<void>;
+  geologyOverrides: GeologyOverride[];
+  reportGeology: (report: GeologyReport, author: OverrideAuthor) => Promise<CreateOverrideResult>;
+  removeGeologyOverride: (id: string) => Promise<void>;
 }
 
 const GeoDataContext = createContext<GeoDataContextValue>({
@@ -22,6 +68,12 @@ const GeoDataContext = createContext<GeoDataContextValue>({
   tileLoader: null,
   isLoading: true,
   error: null,
+  regionPacks: [],
+  installRegionPack: async () => ({ success: false, error: 'GIS data is not loaded yet' }),
+  uninstallRegionPack: async () => {},
+  geologyOverrides: [],
+  reportGeology: async () => ({ success: false, error: 'GIS data is not loaded yet' }),
+  removeGeologyOverride: async () => {},
 });
 
 interface GeoDataProviderProps {
@@ -34,6 +86,10 @@ interface GeoDataProviderProps {
 export function GeoDataProvider({ children }: GeoDataProviderProps) {
   const [geoDataService, setGeoDataService] = useState<GeoDataService | null>(null);
   const [tileLoader, setTileLoader] = useState<TileLoader | null>(null);
+  const [packLoader, setPackLoader] = useState<RegionPackTileLoader | null>(null);
+  const [overrideLoader, setOverrideLoader] = useState<GeologyOverrideTileLoader | null>(null);
+  const [regionPacks, setRegionPacks] = useState<RegionPackInfo[]>([]);
+  const [geologyOverrides, setGeologyOverrides] = useState<GeologyOverride[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
@@ -43,13 +99,34 @@ export function GeoDataProvider({ children }: GeoDataProviderProps) {
 
     async function initialize() {
       try {
-        const loader = new ExpoTileLoader();
+        let packs: InstalledRegionPack[] = [];
+        try {
+          packs = await listInstalledRegionPacks();
+        } catch (err) {
+          console.warn('Failed to list region packs:', err);
+        }
+        let overrides: GeologyOverride[] = [];
+        try {
+          overrides = await loadGeologyOverrides();
+        } catch (err) {
+          console.warn('Failed to load geology overrides:', err);
+        }
+        const regionPackLoader = new RegionPackTileLoader(new ExpoTileLoader(), packs);
+        const geologyOverrideLoader = new GeologyOverrideTileLoader(overrides);
+        const loader = new CompositeTileLoader([
+          { loader: geologyOverrideLoader },
+          { loader: regionPackLoader },
+        ]);
         service = new GeoDataService({ tileLoader: loader });
         await service.initialize();
 
         if (mounted) {
           setGeoDataService(service);
           setTileLoader(loader);
+          setPackLoader(regionPackLoader);
+          setOverrideLoader(geologyOverrideLoader);
+          setRegionPacks(regionPackLoader.getPacks().map((pack) => pack.info));
+          setGeologyOverrides(overrides);
           setIsLoading(false);
         }
       } catch (err) {
@@ -70,8 +147,102 @@ export function GeoDataProvider({ children }: GeoDataProviderProps) {
     };
   }, []);
 
+  const installRegionPack = useCallback(
+    async (url: string): Promise<InstallRegionPackResult> => {
+      if (!packLoader) {
+        return { success: false, error: 'GIS data is not loaded yet' };
+      }
+      const download = await downloadRegionPack(url);
+      if (!download.success) {
+        return download;
+      }
+      try {
+        // Stage the download first, so the pack it replaces stays in use if that fails
+        const staged = stageRegionPack(download);
+        const replaced = packLoader.getPacks().find((pack) => pack.info.id === download.info.id);
+        // Close any pack being replaced before its file is swapped out
+        await packLoader.removePack(download.info.id);
+        let installed: InstalledRegionPack;
+        try {
+          installed = installStagedPack(staged);
+        } catch (err) {
+          // A failed swap puts the replaced pack's file back, so reopen it
+          if (replaced) {
+            await packLoader.addPack(openRegionPack(replaced.info));
+          }
+          throw err;
+        }
+        await packLoader.addPack(installed);
+      } catch (err) {
+        console.error('Failed to install region pack:', err);
+        return { success: false, error: 'Could not install the region pack' };
+      } finally {
+        setRegionPacks(packLoader.getPacks().map((pack) => pack.info));
+      }
+      return { success: true, info: download.info };
+    },
+    [packLoader]
+  );
+
+  const uninstallRegionPack = useCallback(
+    async (id: string): Promise<void> => {
+      if (!packLoader) return;
+      await packLoader.removePack(id);
+      deleteRegionPack(id);
+      setRegionPacks(packLoader.getPacks().map((pack) => pack.info));
+    },
+    [packLoader]
+  );
+
+  const reportGeology = useCallback(
+    async (report: GeologyReport, author: OverrideAuthor): Promise<CreateOverrideResult> => {
+      if (!overrideLoader) {
+        return { success: false, error: 'GIS data is not loaded yet' };
+      }
+      const result = createGeologyOverride(report, author);
+      if (!result.success) {
+        return result;
+      }
+      try {
+        await saveGeologyOverride(result.override);
+      } catch (err) {
+        console.error('Failed to save geology report:', err);
+        return { success: false, error: 'Could not save the report' };
+      }
+      const next = [...geologyOverrides, result.override];
+      overrideLoader.setOverrides(next);
+      setGeologyOverrides(next);
+      return result;
+    },
+    [overrideLoader, geologyOverrides]
+  );
+
+  const removeGeologyOverride = useCallback(
+    async (id: string): Promise<void> => {
+      if (!overrideLoader) return;
+      await deleteGeologyOverride(id);
+      const next = geologyOverrides.filter((override) => override.id !== id);
+      overrideLoader.setOverrides(next);
+      setGeologyOverrides(next);
+    },
+    [overrideLoader, geologyOverrides]
+  );
+
   return (
-    <GeoDataContext.Provider value={{ geoDataService, tileLoader, isLoading, error }}>
+    <GeoDataContext.Provider
+      value={{
+        geoDataService,
+        tileLoader,
+        isLoading,
+        error,
+        regionPacks,
+        installRegionPack,
+        uninstallRegionPack,
+        geologyOverrides,
+        reportGeology,
+        removeGeologyOverride,
+      }}
+    >
       {children}
     </GeoDataContext.Provider>
   );
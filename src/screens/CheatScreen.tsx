@@ -75,7 +75,7 @@ export default function CheatScreen() {
   const handleAddSteps = () => {
     const amount = parseInt(stepsAmount, 10);
     if (!isNaN(amount) && amount > 0) {
-      syncSteps(amount);
+      syncSteps(amount, 'cheat');
     }
   };
 
@@ -150,7 +150,7 @@ export default function CheatScreen() {
           <TouchableOpacity
             key={amount}
             style={[styles.quickButton, { backgroundColor: colors.surfaceSecondary }]}
-            onPress={() => syncSteps(amount)}
+            onPress={() => syncSteps(amount, 'cheat')}
           >
             <Text style={[styles.quickButtonText, { color: colors.primary }]}>+{amount}</Text>
           </TouchableOpacity>
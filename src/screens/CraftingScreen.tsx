@@ -1,12 +1,15 @@
 // Crafting Screen - Tool and component crafting interface
 // Updated for lithic era material selection system
 
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useGameState } from '../hooks/useGameState';
 import { useTheme } from '../hooks/useTheme';
-import { CraftCheckResult } from '../services/CraftingService';
+import { CraftCheckResult, CraftingService } from '../services/CraftingService';
+import { MAX_CONCURRENT_CRAFTING_JOBS } from '../config/crafting';
+import { isToolBroken } from '../config/durability';
+import { getOwnedToolGatheringBonus } from '../config/gathering';
 import { ThemeColors } from '../config/theme';
 import {
   TOOLS,
@@ -22,30 +25,41 @@ import {
   CraftedComponent,
   OwnedTool,
   OwnedComponent,
+  CraftingJob,
   getQualityTier,
-  calculateGatheringBonus,
   getUsedMaterialId,
 } from '../types/tools';
 import { ERA_COLORS, ERA_LABELS } from '../types/tech';
 import { getMaterialConfig, getAllMaterialTypes, getMaterialIcon } from '../config/materials';
 import MaterialSelectionModal, { MaterialSelection } from '../components/MaterialSelectionModal';
 import { getQualityColor, getQualityDisplayName } from '../utils/qualityCalculation';
-import { humanizeId } from '../utils/strings';
+import { humanizeId, formatDuration } from '../utils/strings';
 
 type TabType = 'owned' | 'tools' | 'components';
 
 interface OwnedToolItemProps {
   owned: OwnedTool;
+  canUpgrade: boolean;
+  onRepair: (owned: OwnedTool) => void;
+  onUpgrade: (owned: OwnedTool) => void;
   colors: ThemeColors;
 }
 
-const OwnedToolItem = React.memo(function OwnedToolItem({ owned, colors }: OwnedToolItemProps) {
+const OwnedToolItem = React.memo(function OwnedToolItem({
+  owned,
+  canUpgrade,
+  onRepair,
+  onUpgrade,
+  colors,
+}: OwnedToolItemProps) {
   const tool = getToolById(owned.toolId);
   if (!tool) return null;
 
   const qualityTier = getQualityTier(owned.quality);
   const qualityColor = getQualityColor(qualityTier);
-  const gatheringBonus = calculateGatheringBonus(tool, owned.quality);
+  const gatheringBonus = getOwnedToolGatheringBonus(owned);
+  const broken = isToolBroken(owned);
+  const worn = owned.durability < owned.maxDurability;
 
   return (
     <View style={[styles.ownedToolItem, { borderBottomColor: colors.border }]}>
@@ -91,7 +105,46 @@ const OwnedToolItem = React.memo(function OwnedToolItem({ owned, colors }: Owned
               </View>
             );
           })}
+          {/* Components the tool was built from */}
+          {owned.components?.map((component) => (
+            <View
+              key={component.instanceId}
+              style={[styles.materialTag, { backgroundColor: colors.surfaceSecondary }]}
+            >
+              <Text style={[styles.materialTagText, { color: colors.textSecondary }]}>
+                {getComponentById(component.componentId)?.name ?? component.componentId}{' '}
+                {Math.round(component.quality * 100)}%
+              </Text>
+            </View>
+          ))}
         </View>
+
+        {/* Durability */}
+        <Text
+          style={[styles.durabilityText, { color: broken ? colors.error : colors.textTertiary }]}
+        >
+          {broken
+            ? 'Broken - repair to use again'
+            : `Durability ${owned.durability}/${owned.maxDurability}`}
+        </Text>
+      </View>
+      <View>
+        {worn && (
+          <TouchableOpacity
+            style={[styles.repairButton, { borderColor: colors.primary }]}
+            onPress={() => onRepair(owned)}
+          >
+            <Text style={[styles.repairButtonText, { color: colors.primary }]}>Repair</Text>
+          </TouchableOpacity>
+        )}
+        {canUpgrade && (
+          <TouchableOpacity
+            style={[styles.repairButton, styles.upgradeButton, { borderColor: colors.primary }]}
+            onPress={() => onUpgrade(owned)}
+          >
+            <Text style={[styles.repairButtonText, { color: colors.primary }]}>Rehaft</Text>
+          </TouchableOpacity>
+        )}
       </View>
     </View>
   );
@@ -178,6 +231,54 @@ const OwnedComponentItem = React.memo(function OwnedComponentItem({
   );
 });
 
+interface CraftingJobItemProps {
+  job: CraftingJob;
+  now: number;
+  onCancel: (job: CraftingJob) => void;
+  colors: ThemeColors;
+}
+
+const CraftingJobItem = React.memo(function CraftingJobItem({
+  job,
+  now,
+  onCancel,
+  colors,
+}: CraftingJobItemProps) {
+  const craftable =
+    job.recipeType === 'tool' ? getToolById(job.recipeId) : getComponentById(job.recipeId);
+  const progress = CraftingService.getJobProgress(job, now);
+  const remainingSeconds = (CraftingService.getJobEndTime(job) - now) / 1000;
+
+  return (
+    <View style={[styles.craftingJobItem, { borderBottomColor: colors.borderLight }]}>
+      <View style={styles.recipeInfo}>
+        <View style={styles.recipeHeader}>
+          <Text style={[styles.recipeName, { color: colors.textPrimary }]}>
+            {craftable?.name || humanizeId(job.recipeId)}
+          </Text>
+          <Text style={[styles.craftingJobRemaining, { color: colors.textTertiary }]}>
+            {progress >= 1 ? 'Finishing…' : `${formatDuration(remainingSeconds)} left`}
+          </Text>
+        </View>
+        <View style={[styles.progressTrack, { backgroundColor: colors.border }]}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${Math.round(progress * 100)}%`, backgroundColor: colors.primary },
+            ]}
+          />
+        </View>
+      </View>
+      <TouchableOpacity
+        style={[styles.cancelButton, { borderColor: colors.error }]}
+        onPress={() => onCancel(job)}
+      >
+        <Text style={[styles.cancelButtonText, { color: colors.error }]}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+});
+
 interface ToolRecipeItemProps {
   tool: Tool;
   craftCheck: CraftCheckResult;
@@ -223,7 +324,7 @@ const ToolRecipeItem = React.memo(function ToolRecipeItem({
               Materials:{' '}
               {[
                 tool.materials.stone &&
-                  `${tool.materials.stone.quantity}x stone${tool.materials.stone.requiresToolstone ? ' (toolstone)' : ''}`,
+                  `${tool.materials.stone.quantity}x stone${CraftingService.describeRequirementRestriction(tool.materials.stone, 'stone')}`,
                 tool.materials.wood && `${tool.materials.wood.quantity}x wood`,
               ]
                 .filter(Boolean)
@@ -355,16 +456,38 @@ function groupToolsByType(tools: OwnedTool[]) {
 }
 
 export default function CraftingScreen() {
-  const { state, canCraft, craft, hasTech, getOwnedComponents } = useGameState();
+  const {
+    state,
+    canCraft,
+    startCraft,
+    cancelCraft,
+    canRepairTool,
+    repairTool,
+    getToolUpgradeOptions,
+    upgradeTool,
+    hasTech,
+    getOwnedComponents,
+  } = useGameState();
   const { theme } = useTheme();
   const { colors } = theme;
   const [activeTab, setActiveTab] = useState<TabType>('owned');
 
+  // Tick once a second while jobs are running so progress bars stay current
+  const [now, setNow] = useState(() => Date.now());
+  const hasActiveJobs = state.craftingQueue.length > 0;
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs]);
+
   // Modal state - stores the actual craftable object instead of just id/type
   const [modalVisible, setModalVisible] = useState(false);
+  // repairInstanceId is set when the modal is selecting materials for a repair
   const [selectedRecipe, setSelectedRecipe] = useState<{
     craftable: Tool | CraftedComponent;
     craftCheck: CraftCheckResult;
+    repairInstanceId?: string;
   } | null>(null);
 
   const handleCraft = useCallback(
@@ -378,13 +501,96 @@ export default function CraftingScreen() {
     [canCraft]
   );
 
+  const handleRepair = useCallback(
+    (owned: OwnedTool) => {
+      const tool = getToolById(owned.toolId);
+      if (!tool) return;
+
+      const craftCheck = canRepairTool(owned.instanceId);
+      if (!craftCheck.canCraft) {
+        Alert.alert('Cannot Repair', craftCheck.missingRequirements.join('\n'));
+        return;
+      }
+
+      setSelectedRecipe({
+        craftable: CraftingService.getRepairRecipe(tool),
+        craftCheck,
+        repairInstanceId: owned.instanceId,
+      });
+      setModalVisible(true);
+    },
+    [canRepairTool]
+  );
+
+  // Rehaft a tool with one of the best components that fit it
+  const handleUpgrade = useCallback(
+    (owned: OwnedTool) => {
+      const options = getToolUpgradeOptions(owned.instanceId)
+        .sort((a, b) => b.quality - a.quality)
+        .slice(0, 2);
+      if (options.length === 0) return;
+
+      const applyUpgrade = (component: OwnedComponent) => {
+        const result = upgradeTool(owned.instanceId, component.instanceId);
+        if (!result.success || !result.upgradedTool) {
+          Alert.alert('Failed', result.error || 'Could not rehaft.');
+          return;
+        }
+        const salvaged = getAllMaterialTypes()
+          .map((type) => {
+            const used = result.salvaged?.[type];
+            if (!used) return null;
+            const name = getMaterialConfig(type).getResourceById(used.resourceId)?.name;
+            return `${used.quantity} ${name ?? used.resourceId}`;
+          })
+          .filter(Boolean);
+        Alert.alert(
+          'Rehafted',
+          `Quality ${Math.round(owned.quality * 100)}% → ${Math.round(result.upgradedTool.quality * 100)}%.` +
+            (salvaged.length > 0 ? `\nSalvaged ${salvaged.join(', ')}.` : '')
+        );
+      };
+
+      Alert.alert(
+        'Rehaft Tool',
+        'Swap in a new component? The old one is taken apart and some of its materials returned.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          ...options.map((component) => ({
+            text: `${getComponentById(component.componentId)?.name ?? component.componentId} (${Math.round(component.quality * 100)}%)`,
+            onPress: () => applyUpgrade(component),
+          })),
+        ]
+      );
+    },
+    [getToolUpgradeOptions, upgradeTool]
+  );
+
   const handleMaterialConfirm = (selection: MaterialSelection) => {
     if (!selectedRecipe) return;
 
     setModalVisible(false);
-    const { craftable } = selectedRecipe;
+    const { craftable, repairInstanceId } = selectedRecipe;
+
+    if (repairInstanceId) {
+      const result = repairTool({
+        instanceId: repairInstanceId,
+        selectedMaterials: selection.selectedMaterials,
+        selectedFoods: selection.selectedFoods,
+      });
+      if (result.success) {
+        Alert.alert('Repaired', `${craftable.name} is back to full durability.`);
+      } else {
+        Alert.alert('Failed', result.error || 'Could not repair.');
+      }
+      setSelectedRecipe(null);
+      return;
+    }
 
-    const result = craft({
+    const components = state.ownedComponents.filter((c) =>
+      selection.componentIds?.includes(c.instanceId)
+    );
+    const result = startCraft({
       craftable,
       selectedMaterials: selection.selectedMaterials,
       selectedComponentIds: selection.componentIds,
@@ -392,7 +598,10 @@ export default function CraftingScreen() {
     });
 
     if (result.success) {
-      Alert.alert('Success', `Crafted ${craftable.name}!`);
+      Alert.alert(
+        'Crafting Started',
+        `${craftable.name} will be ready in ${formatDuration(CraftingService.getCraftDuration(craftable, components))}.`
+      );
     } else {
       Alert.alert('Failed', result.error || 'Could not craft.');
     }
@@ -400,6 +609,25 @@ export default function CraftingScreen() {
     setSelectedRecipe(null);
   };
 
+  const handleCancelJob = useCallback(
+    (job: CraftingJob) => {
+      Alert.alert('Cancel Crafting', 'Stop this craft and get its materials back?', [
+        { text: 'Keep Crafting', style: 'cancel' },
+        {
+          text: 'Cancel Craft',
+          style: 'destructive',
+          onPress: () => {
+            const result = cancelCraft(job.id);
+            if (!result.success) {
+              Alert.alert('Failed', result.error || 'Could not cancel.');
+            }
+          },
+        },
+      ]);
+    },
+    [cancelCraft]
+  );
+
   const availableTools = useMemo(
     () => TOOLS.filter((tool) => hasTech(tool.requiredTech)),
     [hasTech]
@@ -441,7 +669,7 @@ export default function CraftingScreen() {
       const bestTool = tools[0]; // First is best (sorted by quality)
       const bestQualityTier = getQualityTier(bestTool.quality);
       const bestQualityColor = getQualityColor(bestQualityTier);
-      const gatheringBonus = toolDef ? calculateGatheringBonus(toolDef, bestTool.quality) : 0;
+      const gatheringBonus = getOwnedToolGatheringBonus(bestTool);
 
       return (
         <View key={toolId} style={[styles.toolGroup, { backgroundColor: colors.surfaceSecondary }]}>
@@ -493,7 +721,14 @@ export default function CraftingScreen() {
           </TouchableOpacity>
           {isExpanded &&
             tools.map((owned) => (
-              <OwnedToolItem key={owned.instanceId} owned={owned} colors={colors} />
+              <OwnedToolItem
+                key={owned.instanceId}
+                owned={owned}
+                canUpgrade={getToolUpgradeOptions(owned.instanceId).length > 0}
+                onRepair={handleRepair}
+                onUpgrade={handleUpgrade}
+                colors={colors}
+              />
             ))}
         </View>
       );
@@ -555,6 +790,23 @@ export default function CraftingScreen() {
     );
   };
 
+  const renderCraftingQueue = () => (
+    <View style={[styles.section, { backgroundColor: colors.surface, shadowColor: colors.shadow }]}>
+      <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+        Crafting ({state.craftingQueue.length}/{MAX_CONCURRENT_CRAFTING_JOBS})
+      </Text>
+      {state.craftingQueue.map((job) => (
+        <CraftingJobItem
+          key={job.id}
+          job={job}
+          now={now}
+          onCancel={handleCancelJob}
+          colors={colors}
+        />
+      ))}
+    </View>
+  );
+
   const renderToolRecipes = () => (
     <View style={[styles.section, { backgroundColor: colors.surface, shadowColor: colors.shadow }]}>
       <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
@@ -612,10 +864,11 @@ export default function CraftingScreen() {
   // Get modal props - unified for both tools and components
   const getModalProps = () => {
     if (!selectedRecipe) return null;
-    const { craftable, craftCheck } = selectedRecipe;
+    const { craftable, craftCheck, repairInstanceId } = selectedRecipe;
 
     return {
-      title: `Craft ${craftable.name}`,
+      title: repairInstanceId ? `Repair ${craftable.name}` : `Craft ${craftable.name}`,
+      showQualityPreview: !repairInstanceId,
       craftable,
       availableMaterials: craftCheck.availableMaterials,
       availableComponentIds: craftCheck.availableComponents,
@@ -682,6 +935,7 @@ export default function CraftingScreen() {
         </View>
 
         <ScrollView style={styles.scrollView}>
+          {hasActiveJobs && renderCraftingQueue()}
           {activeTab === 'owned' && renderOwnedTools()}
           {activeTab === 'tools' && renderToolRecipes()}
           {activeTab === 'components' && renderComponentRecipes()}
@@ -757,6 +1011,25 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingVertical: 20,
   },
+  durabilityText: {
+    fontSize: 11,
+    marginTop: 4,
+  },
+  repairButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginLeft: 10,
+    alignSelf: 'center',
+  },
+  upgradeButton: {
+    marginTop: 6,
+  },
+  repairButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   ownedToolItem: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -978,6 +1251,37 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  craftingJobItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  craftingJobRemaining: {
+    fontSize: 12,
+    marginLeft: 8,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginTop: 6,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  cancelButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginLeft: 10,
+  },
+  cancelButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   bottomPadding: {
     height: 30,
   },
@@ -1,7 +1,7 @@
 // Forage Screen - Main walking/gathering interface
 // Shows map with current location and terrain info
 import React, { useEffect, useState, useCallback } from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import MapView, { PROVIDER_GOOGLE, Region } from 'react-native-maps';
 import { useLocation } from '../hooks/useLocation';
@@ -10,14 +10,17 @@ import { useTheme } from '../hooks/useTheme';
 import { useStepGathering } from '../hooks/useStepGathering';
 import { useMapOverlay } from '../hooks/useMapOverlay';
 import { useGeoData } from '../providers/GeoDataProvider';
+import { ExplorationService } from '../services/ExplorationService';
 import { StepGatherPanel } from '../components/StepGatherPanel';
 import { GeohashOverlay } from '../components/map/GeohashOverlay';
 import { MapLayerControls, MapLayerType } from '../components/map/MapLayerControls';
 import { MapLegend } from '../components/map/MapLegend';
+import RegionPacksModal from '../components/RegionPacksModal';
+import ReportGeologyModal from '../components/ReportGeologyModal';
 import { LocationGeoData } from '../types/gis';
 import { MaterialType } from '../config/materials';
 import { getBiomeDisplayName } from '../config/biomes';
-import { formatSnakeCase } from '../utils/strings';
+import { formatLithology, formatSnakeCase } from '../utils/strings';
 
 // Custom map style to hide POIs and labels for cleaner overlay display
 const MAP_STYLE = [
@@ -44,13 +47,15 @@ const MAP_STYLE = [
 ];
 
 export default function ForageScreen() {
-  const { addResource } = useGameState();
+  const { addResource, recordVisit } = useGameState();
   const { theme } = useTheme();
   const { colors } = theme;
   const insets = useSafeAreaInsets();
-  const { geoDataService, tileLoader } = useGeoData();
+  const { geoDataService, tileLoader, regionPacks, geologyOverrides } = useGeoData();
   const [geoData, setGeoData] = useState<LocationGeoData | null>(null);
   const [activeLayer, setActiveLayer] = useState<MapLayerType>('biome');
+  const [showRegions, setShowRegions] = useState(false);
+  const [showReportGeology, setShowReportGeology] = useState(false);
 
   // Map overlay tile loading - always enabled since we always show an overlay
   const {
@@ -70,13 +75,14 @@ export default function ForageScreen() {
     [addResource]
   );
 
+  const { location, error, status, startTracking } = useLocation();
+
   const stepGathering = useStepGathering({
     onGather: handleStepGather,
     autoSyncInterval: 60000, // Sync every minute
+    location, // Steps are estimated from distance walked without health data
   });
 
-  const { location, error, status, startTracking } = useLocation();
-
   // Auto-start tracking on mount
   useEffect(() => {
     void startTracking();
@@ -107,7 +113,15 @@ export default function ForageScreen() {
           altitudeAccuracy: location.altitudeAccuracy,
         })
         .then((d) => {
-          if (!cancelled) setGeoData(d);
+          if (cancelled) return;
+          setGeoData(d);
+          // Award exploration points for entering new cells (skip imprecise fixes)
+          if (ExplorationService.isAccurateEnough(location.accuracy)) {
+            recordVisit(location.latitude, location.longitude, {
+              biome: d.biome.type,
+              lithology: d.geology.primaryLithology,
+            });
+          }
         })
         .catch((err: Error) => console.warn('Failed to get geo data:', err));
     }
@@ -115,7 +129,7 @@ export default function ForageScreen() {
       cancelled = true;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [location?.latitude, location?.longitude, geoDataService]);
+  }, [location?.latitude, location?.longitude, geoDataService, geologyOverrides]);
 
   const { overlayPanel } = colors;
 
@@ -188,18 +202,64 @@ export default function ForageScreen() {
           <View style={styles.terrainRow}>
             <Text style={styles.terrainIcon}>🪨</Text>
             <Text style={[styles.terrainText, { color: colors.textPrimary }]}>
-              {formatSnakeCase(geoData.geology.primaryLithology)}
+              {geoData.geology.dominantLithology &&
+              geoData.geology.dominantLithology !== geoData.geology.primaryLithology ? (
+                <>
+                  {formatSnakeCase(geoData.geology.dominantLithology)}
+                  <Text style={[styles.terrainSubtext, { color: colors.textSecondary }]}>
+                    {' '}
+                    · {formatLithology(geoData.geology.primaryLithology, geoData.geology.age)} area
+                  </Text>
+                </>
+              ) : (
+                formatLithology(geoData.geology.primaryLithology, geoData.geology.age)
+              )}
             </Text>
           </View>
+          {geoData.regolith && (
+            <View style={styles.terrainRow}>
+              <Text style={styles.terrainIcon}>🟫</Text>
+              <Text style={[styles.terrainText, { color: colors.textPrimary }]}>
+                {formatSnakeCase(geoData.regolith.material)}
+                <Text style={[styles.terrainSubtext, { color: colors.textSecondary }]}>
+                  {' '}
+                  underfoot
+                </Text>
+              </Text>
+            </View>
+          )}
           <View style={styles.terrainRow}>
             <Text style={styles.terrainIcon}>🌲</Text>
             <Text style={[styles.terrainText, { color: colors.textPrimary }]}>
               {getBiomeDisplayName(geoData.biome.type)}
             </Text>
           </View>
+          <TouchableOpacity onPress={() => setShowRegions(true)} style={styles.regionsLink}>
+            <Text style={[styles.regionsLinkText, { color: colors.primary }]}>
+              🗺️ Offline regions{regionPacks.length > 0 ? ` (${regionPacks.length})` : ''}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setShowReportGeology(true)} style={styles.regionsLink}>
+            <Text style={[styles.regionsLinkText, { color: colors.primary }]}>
+              ✏️ Report local geology
+            </Text>
+          </TouchableOpacity>
         </View>
       )}
 
+      <RegionPacksModal
+        visible={showRegions}
+        onClose={() => setShowRegions(false)}
+        location={location}
+      />
+
+      <ReportGeologyModal
+        visible={showReportGeology}
+        onClose={() => setShowReportGeology(false)}
+        location={location}
+        currentLithology={geoData?.geology.primaryLithology ?? null}
+      />
+
       {/* Forage panel */}
       <View style={styles.forageOverlay}>
         <StepGatherPanel
@@ -244,6 +304,13 @@ const styles = StyleSheet.create({
     elevation: 5,
     minWidth: 120,
   },
+  regionsLink: {
+    marginTop: 6,
+  },
+  regionsLinkText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   terrainLabel: {
     fontSize: 12,
     fontWeight: '600',
@@ -264,6 +331,9 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '500',
   },
+  terrainSubtext: {
+    fontWeight: '400',
+  },
   forageOverlay: {
     position: 'absolute',
     bottom: 40,
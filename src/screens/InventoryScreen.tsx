@@ -10,6 +10,7 @@ import { MaterialType, getAllMaterialTypes, getMaterialConfig } from '../config/
 import { ThemeColors } from '../config/theme';
 import { getResourceIcon } from '../utils/icons';
 import { getScientificName } from '../utils/resourceDetails';
+import SaveTransferModal from '../components/SaveTransferModal';
 
 interface ResourceItemProps {
   stack: ResourceStack;
@@ -103,6 +104,7 @@ export default function InventoryScreen() {
 
   // Track collapsed sections (default all expanded)
   const [collapsedSections, setCollapsedSections] = useState<Set<MaterialType>>(new Set());
+  const [showBackup, setShowBackup] = useState(false);
 
   const toggleSection = useCallback((type: MaterialType) => {
     setCollapsedSections((prev) => {
@@ -195,8 +197,26 @@ export default function InventoryScreen() {
           );
         })}
 
+        {/* Save export/import */}
+        <TouchableOpacity
+          style={[
+            styles.section,
+            styles.sectionHeader,
+            { backgroundColor: colors.surface, shadowColor: colors.shadow },
+          ]}
+          onPress={() => setShowBackup(true)}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+            💾 Backup & Restore
+          </Text>
+          <Text style={[styles.chevron, { color: colors.textTertiary }]}>▶</Text>
+        </TouchableOpacity>
+
         <View style={styles.bottomPadding} />
       </ScrollView>
+
+      <SaveTransferModal visible={showBackup} onClose={() => setShowBackup(false)} />
     </SafeAreaView>
   );
 }
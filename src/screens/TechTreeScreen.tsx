@@ -5,16 +5,37 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useGameState } from '../hooks/useGameState';
 import { useTheme } from '../hooks/useTheme';
 import { TECHNOLOGIES, TECH_BY_ID, getAvailableTechs, getTechsByEra } from '../data/techTree';
-import { Technology, LITHIC_ERAS, ERA_COLORS, ERA_NAMES, TechResourceCost } from '../types/tech';
+import {
+  Technology,
+  TECH_AGES,
+  ERAS_BY_AGE,
+  AGE_NAMES,
+  ERA_COLORS,
+  ERA_NAMES,
+  TechResourceCost,
+  TechResourceType,
+  EXPLORATION_RESOURCE,
+} from '../types/tech';
 import { getMaterialIcon, MaterialType } from '../config/materials';
 import { ThemeColors } from '../config/theme';
 import TechResourceModal, { ResourceSelection } from '../components/TechResourceModal';
 import TechUnlockedModal from '../components/TechUnlockedModal';
 
+const EXPLORATION_ICON = '🧭';
+
+function getResourceIcon(resourceType: TechResourceType): string {
+  return resourceType === EXPLORATION_RESOURCE ? EXPLORATION_ICON : getMaterialIcon(resourceType);
+}
+
+// Exploration points needed by a tech (spent without a material selection)
+function getExplorationCost(tech: Technology): number {
+  return tech.resourceCost.find((c) => c.resourceType === EXPLORATION_RESOURCE)?.quantity ?? 0;
+}
+
 // Format resource costs as a readable string with icons
 function formatResourceCost(costs: TechResourceCost[]): string {
   if (costs.length === 0) return 'Free';
-  return costs.map((c) => `${c.quantity} ${getMaterialIcon(c.resourceType)}`).join('  ');
+  return costs.map((c) => `${c.quantity} ${getResourceIcon(c.resourceType)}`).join('  ');
 }
 
 interface TechNodeProps {
@@ -67,7 +88,7 @@ interface TechTreeScreenProps {
 }
 
 export default function TechTreeScreen({ onEnableCheatMode }: TechTreeScreenProps) {
-  const { state, hasTech, unlockTech, removeResource } = useGameState();
+  const { state, hasTech, unlockTech, removeResource, spendExplorationPoints } = useGameState();
   const { theme } = useTheme();
   const { colors } = theme;
 
@@ -101,11 +122,12 @@ export default function TechTreeScreen({ onEnableCheatMode }: TechTreeScreenProp
 
   // Get total count of a resource type across all specific resources
   const getTotalResourceCount = useCallback(
-    (resourceType: MaterialType): number => {
+    (resourceType: TechResourceType): number => {
+      if (resourceType === EXPLORATION_RESOURCE) return state.explorationPoints;
       const stacks = state.inventory[resourceType];
       return stacks.reduce((sum, stack) => sum + stack.quantity, 0);
     },
-    [state.inventory]
+    [state.inventory, state.explorationPoints]
   );
 
   const handleTechPress = useCallback(
@@ -134,14 +156,15 @@ export default function TechTreeScreen({ onEnableCheatMode }: TechTreeScreenProp
 
       if (missingResources.length > 0) {
         const missing = missingResources
-          .map((r) => `${r.quantity} ${getMaterialIcon(r.resourceType)}`)
+          .map((r) => `${r.quantity} ${getResourceIcon(r.resourceType)}`)
           .join(', ');
         Alert.alert('Insufficient Resources', `Need: ${missing}`);
         return;
       }
 
-      // If no resources required, just unlock directly
-      if (tech.resourceCost.length === 0) {
+      // If no materials required, just unlock directly
+      if (tech.resourceCost.every((c) => c.resourceType === EXPLORATION_RESOURCE)) {
+        spendExplorationPoints(getExplorationCost(tech));
         unlockTech(tech.id);
         Alert.alert('Unlocked!', `${tech.name} is now available.`);
         return;
@@ -151,7 +174,7 @@ export default function TechTreeScreen({ onEnableCheatMode }: TechTreeScreenProp
       setSelectedTech(tech);
       setModalVisible(true);
     },
-    [hasTech, unlockTech, getTotalResourceCount]
+    [hasTech, unlockTech, spendExplorationPoints, getTotalResourceCount]
   );
 
   const handleModalConfirm = (selection: ResourceSelection) => {
@@ -167,6 +190,7 @@ export default function TechTreeScreen({ onEnableCheatMode }: TechTreeScreenProp
     }
 
     // Unlock the tech
+    spendExplorationPoints(getExplorationCost(selectedTech));
     unlockTech(selectedTech.id);
     Alert.alert('Unlocked!', `${selectedTech.name} is now available.`);
 
@@ -184,35 +208,43 @@ export default function TechTreeScreen({ onEnableCheatMode }: TechTreeScreenProp
           <Text style={[styles.headerSubtitle, { color: colors.textTertiary }]}>
             {state.unlockedTechs.length} / {TECHNOLOGIES.length} unlocked
           </Text>
+          <Text style={[styles.headerSubtitle, { color: colors.textTertiary }]}>
+            {EXPLORATION_ICON} {state.explorationPoints} exploration points
+          </Text>
         </View>
 
-        {LITHIC_ERAS.map((era) => {
-          const eraTechs = getTechsByEra(era);
-          if (eraTechs.length === 0) return null;
-
-          return (
-            <View key={era} style={[styles.eraSection, { backgroundColor: colors.surface }]}>
-              <View style={[styles.eraHeader, { backgroundColor: ERA_COLORS[era] }]}>
-                <Text style={styles.eraTitle}>{ERA_NAMES[era]}</Text>
-                <Text style={styles.eraCount}>
-                  {eraTechs.filter((t) => hasTech(t.id)).length} / {eraTechs.length}
-                </Text>
-              </View>
-              <View style={[styles.techGrid, { backgroundColor: colors.surfaceSecondary }]}>
-                {eraTechs.map((tech) => (
-                  <TechNode
-                    key={tech.id}
-                    tech={tech}
-                    isUnlocked={hasTech(tech.id)}
-                    isAvailable={availableTechIds.has(tech.id)}
-                    onPress={handleTechPress}
-                    colors={colors}
-                  />
-                ))}
-              </View>
-            </View>
-          );
-        })}
+        {TECH_AGES.map((age) => (
+          <View key={age}>
+            <Text style={[styles.ageTitle, { color: colors.textSecondary }]}>{AGE_NAMES[age]}</Text>
+            {ERAS_BY_AGE[age].map((era) => {
+              const eraTechs = getTechsByEra(era);
+              if (eraTechs.length === 0) return null;
+
+              return (
+                <View key={era} style={[styles.eraSection, { backgroundColor: colors.surface }]}>
+                  <View style={[styles.eraHeader, { backgroundColor: ERA_COLORS[era] }]}>
+                    <Text style={styles.eraTitle}>{ERA_NAMES[era]}</Text>
+                    <Text style={styles.eraCount}>
+                      {eraTechs.filter((t) => hasTech(t.id)).length} / {eraTechs.length}
+                    </Text>
+                  </View>
+                  <View style={[styles.techGrid, { backgroundColor: colors.surfaceSecondary }]}>
+                    {eraTechs.map((tech) => (
+                      <TechNode
+                        key={tech.id}
+                        tech={tech}
+                        isUnlocked={hasTech(tech.id)}
+                        isAvailable={availableTechIds.has(tech.id)}
+                        onPress={handleTechPress}
+                        colors={colors}
+                      />
+                    ))}
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        ))}
 
         <View style={styles.bottomPadding} />
 
@@ -264,6 +296,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 5,
   },
+  ageTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginHorizontal: 14,
+    marginBottom: 8,
+  },
   eraSection: {
     marginBottom: 16,
     marginHorizontal: 10,
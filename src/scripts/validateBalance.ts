@@ -10,32 +10,33 @@
  * 3. GIS data quality is acceptable
  *
  * Run with: npm run validate:balance
+ * Runs are reproducible: each location's RNG is seeded from its name plus a base
+ * seed (default 0). Pass a different base seed with: npm run validate:balance -- --seed=42
  */
 
 import { LocationGeoData } from '../types/gis';
-import { Inventory, createEmptyInventory, StoneType, WoodType, FoodType } from '../types/resources';
-import { LithicEra, LITHIC_ERAS, ERA_NAMES } from '../types/tech';
-import { Technology } from '../types/tech';
+import { Inventory, createEmptyInventory } from '../types/resources';
+import { TechEra, TECH_ERAS, ERA_NAMES } from '../types/tech';
+import { Technology, isMaterialCost } from '../types/tech';
 import { Tool, CraftedComponent, isTool } from '../types/tools';
 import { MaterialType, getMaterialConfig } from '../config/materials';
+import { WEAR_PER_GATHER, isToolBroken, wearTools } from '../config/durability';
+import { calculateGatherYield, getGatheringToolsForMaterial } from '../config/gathering';
 import { TECHNOLOGIES, getTechsByEra, TECH_BY_ID } from '../data/techTree';
 import { TOOLS_BY_ID, COMPONENTS_BY_ID } from '../data/tools';
-import { STONES_BY_ID } from '../data/stones';
-import { WOODS_BY_ID } from '../data/woods';
-import { FOODS_BY_ID } from '../data/foods';
-import { getLithologyMapping } from '../data/gis';
-import { getRealmBiomeMapping, getRealmBiomeFoodMapping } from '../data/gis/mappings';
 import {
   CraftingService,
   CraftingState,
   CraftParams,
   calculateFoodCost,
+  selectDefaultComponents,
   selectFoodForCost,
 } from '../services/CraftingService';
 import { addResource, getTotalResourceCount } from '../services/InventoryService';
 import { canUnlockTech, SelectedTechResources } from '../services/TechService';
 import { GeoDataService } from '../services/GeoDataService';
 import { NodeTileLoader } from '../services/NodeTileLoader';
+import { RandomSource, createSeededRandom, hashString } from '../utils/random';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Types
@@ -51,6 +52,8 @@ interface LocationCoords {
   name: string;
   lat: number;
   lng: number;
+  /** Surveyed ground altitude in meters, fed in as the player's GPS fix */
+  altitudeM: number;
 }
 
 interface Milestone {
@@ -63,7 +66,7 @@ interface SimulationResult {
   location: string;
   geoData: LocationGeoData;
   milestones: Milestone[];
-  eraCompletions: Partial<Record<LithicEra, number>>;
+  eraCompletions: Partial<Record<TechEra, number>>;
   finalGatherCount: number;
   success: boolean;
   error?: string;
@@ -84,47 +87,42 @@ interface SimulationState extends CraftingState {
 
 // Era completion bounds (cumulative from game start)
 // Assuming 10 gathers per day
-const ERA_BOUNDS: Record<LithicEra, EraBounds> = {
+const ERA_BOUNDS: Record<TechEra, EraBounds> = {
   lower_paleolithic: { minGathers: 70, maxGathers: 300 },
   middle_paleolithic: { minGathers: 140, maxGathers: 450 },
   upper_paleolithic: { minGathers: 210, maxGathers: 750 },
   mesolithic: { minGathers: 280, maxGathers: 950 },
+  neolithic: { minGathers: 350, maxGathers: 1200 },
+  chalcolithic: { minGathers: 420, maxGathers: 1400 },
 };
 
 // Test locations chosen for geographic diversity
 const LOCATIONS: LocationCoords[] = [
-  { name: 'Edinburgh', lat: 55.9533, lng: -3.1883 },
-  { name: 'Nairobi', lat: -1.2864, lng: 36.8172 },
-  { name: 'Reykjavik', lat: 64.1355, lng: -21.8954 },
-  { name: 'Athens', lat: 37.9838, lng: 23.7275 },
-  { name: 'Singapore', lat: 1.3521, lng: 103.8198 },
-  { name: 'Lima', lat: -12.0464, lng: -77.0428 },
+  { name: 'Edinburgh', lat: 55.9533, lng: -3.1883, altitudeM: 47 },
+  { name: 'Nairobi', lat: -1.2864, lng: 36.8172, altitudeM: 1795 },
+  { name: 'Reykjavik', lat: 64.1355, lng: -21.8954, altitudeM: 15 },
+  { name: 'Athens', lat: 37.9838, lng: 23.7275, altitudeM: 70 },
+  { name: 'Singapore', lat: 1.3521, lng: 103.8198, altitudeM: 15 },
+  { name: 'Lima', lat: -12.0464, lng: -77.0428, altitudeM: 154 },
 ];
 
+// Vertical accuracy reported with the simulated GPS fix, typical of a phone outdoors
+const SIMULATED_ALTITUDE_ACCURACY_M = 15;
+
 // Maximum gathers before we consider simulation stuck
 const MAX_GATHERS = 10000;
 
-// ═══════════════════════════════════════════════════════════════════════════
-// Seeded Random Number Generator (Mulberry32)
-// ═══════════════════════════════════════════════════════════════════════════
-
-function hashString(str: string): number {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32-bit integer
+/**
+ * Read the base seed from a --seed=<integer> argument (default 0)
+ */
+function parseSeedArg(argv: string[]): number {
+  const arg = argv.find((a) => a.startsWith('--seed='));
+  if (!arg) return 0;
+  const seed = Number(arg.slice('--seed='.length));
+  if (!Number.isInteger(seed)) {
+    throw new Error(`Invalid --seed value: ${arg}`);
   }
-  return Math.abs(hash);
-}
-
-function createSeededRandom(seed: number): () => number {
-  return function () {
-    let t = (seed += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
+  return seed;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -135,115 +133,11 @@ async function getLocationGeoData(
   geoDataService: GeoDataService,
   location: LocationCoords
 ): Promise<LocationGeoData> {
-  return geoDataService.getLocationData(location.lat, location.lng);
-}
-
-// ═══════════════════════════════════════════════════════════════════════════
-// Resource Selection (mirrors ResourceSpawnService logic)
-// ═══════════════════════════════════════════════════════════════════════════
-
-function weightedRandomSelect<T>(items: T[], weights: number[], rng: () => number): T {
-  if (items.length === 0) {
-    throw new Error('Cannot select from empty array');
-  }
-
-  if (items.length !== weights.length) {
-    return items[Math.floor(rng() * items.length)];
-  }
-
-  const totalWeight = weights.reduce((a, b) => a + b, 0);
-  if (totalWeight === 0) {
-    return items[Math.floor(rng() * items.length)];
-  }
-
-  let random = rng() * totalWeight;
-  for (let i = 0; i < items.length; i++) {
-    random -= weights[i];
-    if (random <= 0) {
-      return items[i];
-    }
-  }
-
-  return items[items.length - 1];
-}
-
-function selectStoneForLocation(geoData: LocationGeoData, rng: () => number): StoneType | null {
-  const { primaryLithology, confidence } = geoData.geology;
-
-  // Low confidence = random stone
-  if (confidence < 0.2) {
-    const config = getMaterialConfig('stone');
-    const allStones = config.getAllResources() as StoneType[];
-    const weights = allStones.map((s) => s.rarity);
-    return weightedRandomSelect(allStones, weights, rng);
-  }
-
-  // Get mapping for primary lithology
-  const mapping = getLithologyMapping(primaryLithology);
-  if (mapping && mapping.stoneIds.length > 0) {
-    const stoneId = weightedRandomSelect(mapping.stoneIds, mapping.weights, rng);
-    return STONES_BY_ID[stoneId] || null;
-  }
-
-  // Fallback to random
-  const config = getMaterialConfig('stone');
-  const allStones = config.getAllResources() as StoneType[];
-  const weights = allStones.map((s) => s.rarity);
-  return weightedRandomSelect(allStones, weights, rng);
-}
-
-function selectWoodForLocation(geoData: LocationGeoData, rng: () => number): WoodType | null {
-  const { type: biomeType, realm, confidence } = geoData.biome;
-
-  // Low confidence = random wood
-  if (confidence < 0.2) {
-    const config = getMaterialConfig('wood');
-    const allWoods = config.getAllResources() as WoodType[];
-    const weights = allWoods.map((w) => w.rarity);
-    return weightedRandomSelect(allWoods, weights, rng);
-  }
-
-  // Try realm+biome mapping
-  if (realm) {
-    const mapping = getRealmBiomeMapping(realm, biomeType);
-    if (mapping && mapping.woodIds.length > 0) {
-      const woodId = weightedRandomSelect(mapping.woodIds, mapping.weights, rng);
-      return WOODS_BY_ID[woodId] || null;
-    }
-  }
-
-  // Fallback to random
-  const config = getMaterialConfig('wood');
-  const allWoods = config.getAllResources() as WoodType[];
-  const weights = allWoods.map((w) => w.rarity);
-  return weightedRandomSelect(allWoods, weights, rng);
-}
-
-function selectFoodForLocation(geoData: LocationGeoData, rng: () => number): FoodType | null {
-  const { type: biomeType, realm, confidence } = geoData.biome;
-
-  // Low confidence = random food
-  if (confidence < 0.2) {
-    const config = getMaterialConfig('food');
-    const allFoods = config.getAllResources() as FoodType[];
-    const weights = allFoods.map((f) => f.rarity);
-    return weightedRandomSelect(allFoods, weights, rng);
-  }
-
-  // Try realm+biome mapping
-  if (realm) {
-    const mapping = getRealmBiomeFoodMapping(realm, biomeType);
-    if (mapping && mapping.foodIds.length > 0) {
-      const foodId = weightedRandomSelect(mapping.foodIds, mapping.weights, rng);
-      return FOODS_BY_ID[foodId] || null;
-    }
-  }
-
-  // Fallback to random
-  const config = getMaterialConfig('food');
-  const allFoods = config.getAllResources() as FoodType[];
-  const weights = allFoods.map((f) => f.rarity);
-  return weightedRandomSelect(allFoods, weights, rng);
+  // Blended with the bundle's DEM elevation where it has one, as in the app
+  return geoDataService.getLocationData(location.lat, location.lng, {
+    altitude: location.altitudeM,
+    altitudeAccuracy: SIMULATED_ALTITUDE_ACCURACY_M,
+  });
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -255,8 +149,9 @@ function calculateGatheringAbility(state: SimulationState, materialType: Materia
   const config = getMaterialConfig(materialType);
   let ability = config.baseGatheringAbility ?? 1;
 
-  // Add tool bonuses
+  // Add tool bonuses (broken tools don't count)
   for (const ownedTool of state.ownedTools) {
+    if (isToolBroken(ownedTool)) continue;
     const tool = TOOLS_BY_ID[ownedTool.toolId];
     if (tool && tool.gatheringMaterial === materialType) {
       // Quality scales the bonus
@@ -272,38 +167,29 @@ function gatherResource(
   state: SimulationState,
   materialType: MaterialType,
   geoData: LocationGeoData,
-  rng: () => number
+  rng: RandomSource
 ): void {
-  let resource: { id: string } | null = null;
-
-  switch (materialType) {
-    case 'stone':
-      resource = selectStoneForLocation(geoData, rng);
-      break;
-    case 'wood':
-      resource = selectWoodForLocation(geoData, rng);
-      break;
-    case 'food':
-      resource = selectFoodForLocation(geoData, rng);
-      break;
-  }
-
-  if (!resource) {
-    // Fallback if no resource selected
-    const config = getMaterialConfig(materialType);
-    const allResources = config.getAllResources();
-    if (allResources.length > 0) {
-      resource = allResources[Math.floor(rng() * allResources.length)];
-    }
-  }
+  // Same spawn selection as the app, driven by the simulation's seeded RNG
+  const config = getMaterialConfig(materialType);
+  const resource =
+    config.gathering?.getRandomResourceForLocation(geoData, rng) ??
+    config.gathering?.getRandomResource(rng) ??
+    null;
 
   if (resource) {
     // Calculate yield based on gathering ability
     const ability = calculateGatheringAbility(state, materialType);
-    const maxYield = Math.max(1, Math.floor(2 * ability - 1));
-    const quantity = 1 + Math.floor(rng() * maxYield);
+    const quantity = calculateGatherYield(ability, rng);
 
     state.inventory = addResource(state.inventory, materialType, resource.id, quantity);
+
+    // Gathering wears down the contributing tools, as in useStepGathering
+    const usedTools = getGatheringToolsForMaterial(materialType, state.ownedTools);
+    state.ownedTools = wearTools(
+      state.ownedTools,
+      usedTools.map((t) => t.instanceId),
+      WEAR_PER_GATHER
+    );
   }
 
   state.gatherCount++;
@@ -327,18 +213,23 @@ function allTechsUnlocked(state: SimulationState): boolean {
   return TECHNOLOGIES.every((tech) => state.unlockedTechs.includes(tech.id));
 }
 
-function isEraComplete(state: SimulationState, era: LithicEra): boolean {
+function isEraComplete(state: SimulationState, era: TechEra): boolean {
   const eraTechs = getTechsByEra(era);
   return eraTechs.every((tech) => state.unlockedTechs.includes(tech.id));
 }
 
+/**
+ * Check if we own an unbroken instance of a tool
+ */
+function ownsUsableTool(state: SimulationState, toolId: string): boolean {
+  return state.ownedTools.some((t) => t.toolId === toolId && !isToolBroken(t));
+}
+
 /**
  * Check if we have the required tools to craft something
  */
 function hasRequiredTools(craftable: Tool | CraftedComponent, state: SimulationState): boolean {
-  return craftable.requiredTools.every((toolId) =>
-    state.ownedTools.some((t) => t.toolId === toolId)
-  );
+  return craftable.requiredTools.every((toolId) => ownsUsableTool(state, toolId));
 }
 
 /**
@@ -365,6 +256,47 @@ function hasRequiredComponents(
   );
 }
 
+/**
+ * Check whether we've found any of the specific resources a craftable (or the components and
+ * tools it still needs) is restricted to. Recipes limited to e.g. clay or copper ore are only
+ * pursued once some turns up, since not every location has them.
+ */
+function hasFoundRestrictedMaterials(
+  craftable: Tool | CraftedComponent,
+  state: SimulationState
+): boolean {
+  for (const [matType, req] of Object.entries(craftable.materials)) {
+    const allowed = req?.allowedResources;
+    if (
+      allowed &&
+      !state.inventory[matType as MaterialType].some((s) => allowed.includes(s.resourceId))
+    ) {
+      return false;
+    }
+  }
+  for (const compReq of craftable.requiredComponents) {
+    const component = COMPONENTS_BY_ID[compReq.componentId];
+    if (
+      component &&
+      !hasEnoughComponents(compReq.componentId, compReq.quantity, state) &&
+      !hasFoundRestrictedMaterials(component, state)
+    ) {
+      return false;
+    }
+  }
+  for (const reqToolId of craftable.requiredTools) {
+    const reqTool = TOOLS_BY_ID[reqToolId];
+    if (
+      reqTool &&
+      !ownsUsableTool(state, reqToolId) &&
+      !hasFoundRestrictedMaterials(reqTool, state)
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
 /**
  * Find a tool or component that we should target next, considering dependencies
  */
@@ -383,7 +315,7 @@ function findNextCraftTarget(
   // First priority: Find tools we can craft RIGHT NOW (all prereqs met, all materials available)
   for (const recipeId of enabledRecipes) {
     const tool = TOOLS_BY_ID[recipeId];
-    if (tool && !state.ownedTools.some((t) => t.toolId === tool.id)) {
+    if (tool && !ownsUsableTool(state, tool.id)) {
       const checkResult = CraftingService.canCraft(tool, state);
       if (checkResult.canCraft) {
         return { type: 'tool', item: tool };
@@ -394,10 +326,10 @@ function findNextCraftTarget(
   // Second priority: Find tools we're working towards
   for (const recipeId of enabledRecipes) {
     const tool = TOOLS_BY_ID[recipeId];
-    if (tool && !state.ownedTools.some((t) => t.toolId === tool.id)) {
+    if (tool && !ownsUsableTool(state, tool.id) && hasFoundRestrictedMaterials(tool, state)) {
       // Check if we're missing required tools
       for (const reqToolId of tool.requiredTools) {
-        if (!state.ownedTools.some((t) => t.toolId === reqToolId)) {
+        if (!ownsUsableTool(state, reqToolId)) {
           const reqTool = TOOLS_BY_ID[reqToolId];
           if (reqTool && state.unlockedTechs.includes(reqTool.requiredTech)) {
             // Recursively check if we can craft or should work toward this tool
@@ -436,7 +368,7 @@ function findNextCraftTarget(
           if (component && state.unlockedTechs.includes(component.requiredTech)) {
             // Check if component needs tools we don't have
             for (const reqToolId of component.requiredTools) {
-              if (!state.ownedTools.some((t) => t.toolId === reqToolId)) {
+              if (!ownsUsableTool(state, reqToolId)) {
                 const reqTool = TOOLS_BY_ID[reqToolId];
                 if (reqTool && state.unlockedTechs.includes(reqTool.requiredTech)) {
                   return { type: 'tool', item: reqTool };
@@ -523,10 +455,16 @@ function getToolstoneNeeded(state: SimulationState, requirement: { quantity: num
 /**
  * Get the maximum stack quantity for a material type in inventory.
  * For crafting, we need a SINGLE stack with enough quantity.
+ * If allowedResources is given, only those resources' stacks count.
  */
-function getMaxStackQuantity(inventory: Inventory, materialType: MaterialType): number {
+function getMaxStackQuantity(
+  inventory: Inventory,
+  materialType: MaterialType,
+  allowedResources?: string[]
+): number {
   let maxQuantity = 0;
   for (const stack of inventory[materialType]) {
+    if (allowedResources && !allowedResources.includes(stack.resourceId)) continue;
     if (stack.quantity > maxQuantity) {
       maxQuantity = stack.quantity;
     }
@@ -550,8 +488,8 @@ function getMaterialsNeeded(
         `  [DEBUG getMaterialsNeeded] Tech ${target.id}: resourceCost = ${JSON.stringify(target.resourceCost)}`
       );
     }
-    // It's a Technology
-    for (const cost of target.resourceCost) {
+    // It's a Technology (exploration costs aren't gathered, see tryUnlockTech)
+    for (const cost of target.resourceCost.filter(isMaterialCost)) {
       const have = getTotalResourceCount(state.inventory, cost.resourceType);
       if (have < cost.quantity) {
         needs.push({ materialType: cost.resourceType, needed: cost.quantity - have });
@@ -579,7 +517,11 @@ function getMaterialsNeeded(
           }
         } else {
           // Check max stack quantity, not total (need a single stack with enough)
-          const maxStack = getMaxStackQuantity(state.inventory, matType as MaterialType);
+          const maxStack = getMaxStackQuantity(
+            state.inventory,
+            matType as MaterialType,
+            req.allowedResources
+          );
           if (maxStack < req.quantity) {
             needs.push({ materialType: matType as MaterialType, needed: req.quantity - maxStack });
           }
@@ -631,7 +573,7 @@ function getMaterialsNeeded(
 
     // Check required tools' material needs (if we don't have the tool yet)
     for (const reqToolId of craftable.requiredTools) {
-      if (!state.ownedTools.some((t) => t.toolId === reqToolId)) {
+      if (!ownsUsableTool(state, reqToolId)) {
         const reqTool = TOOLS_BY_ID[reqToolId];
         if (reqTool) {
           const toolNeeds = getMaterialsNeeded(reqTool, state);
@@ -657,7 +599,7 @@ function getMaterialsNeeded(
 function tryCraft(
   state: SimulationState,
   craftable: Tool | CraftedComponent,
-  rng: () => number
+  rng: RandomSource
 ): boolean {
   const checkResult = CraftingService.canCraft(craftable, state);
   if (!checkResult.canCraft) {
@@ -691,8 +633,12 @@ function tryCraft(
   const actualFoodCost = calculateFoodCost(craftable.materials, selectedMaterials);
   const selectedFoods = selectFoodForCost(state.inventory.food, actualFoodCost) || {};
 
-  // Select components
-  const selectedComponentIds = checkResult.availableComponents;
+  // Select components (the best instances of each)
+  const selectedComponentIds = selectDefaultComponents(
+    craftable.requiredComponents,
+    checkResult.availableComponents,
+    state.ownedComponents
+  );
 
   const params: CraftParams = {
     selectedMaterials,
@@ -726,14 +672,17 @@ function tryCraft(
  * Try to unlock a tech
  */
 function tryUnlockTech(state: SimulationState, tech: Technology): boolean {
-  const check = canUnlockTech(tech, state.unlockedTechs, state.inventory);
+  // The simulation gathers from a single location, so exploration costs are treated as met
+  const check = canUnlockTech(tech, state.unlockedTechs, state.inventory, Number.POSITIVE_INFINITY);
   if (!check.canUnlock) {
     return false;
   }
 
+  const materialCosts = tech.resourceCost.filter(isMaterialCost);
+
   // Select resources for each cost
   const selectedResources: SelectedTechResources = {};
-  for (const cost of tech.resourceCost) {
+  for (const cost of materialCosts) {
     const stacks = state.inventory[cost.resourceType];
     const selections: { resourceId: string; quantity: number }[] = [];
     let remaining = cost.quantity;
@@ -749,7 +698,7 @@ function tryUnlockTech(state: SimulationState, tech: Technology): boolean {
   }
 
   // Consume resources manually (simplified version of TechService.unlockTech)
-  for (const cost of tech.resourceCost) {
+  for (const cost of materialCosts) {
     const selections = selectedResources[cost.resourceType] || [];
     for (const selection of selections) {
       const stacks = [...state.inventory[cost.resourceType]];
@@ -786,14 +735,18 @@ if (DEBUG) {
 /**
  * Run a full simulation for a location
  */
-function simulatePlaythrough(location: LocationCoords, geoData: LocationGeoData): SimulationResult {
+function simulatePlaythrough(
+  location: LocationCoords,
+  geoData: LocationGeoData,
+  baseSeed: number
+): SimulationResult {
   const state = createInitialState();
   const milestones: Milestone[] = [];
-  const eraCompletions: Partial<Record<LithicEra, number>> = {};
-  const rng = createSeededRandom(hashString(location.name));
+  const eraCompletions: Partial<Record<TechEra, number>> = {};
+  const rng = createSeededRandom(hashString(location.name) + baseSeed);
 
   // Track completed eras
-  const completedEras = new Set<LithicEra>();
+  const completedEras = new Set<TechEra>();
 
   // Debug: track last target to detect loops
   let lastTargetId = '';
@@ -801,7 +754,7 @@ function simulatePlaythrough(location: LocationCoords, geoData: LocationGeoData)
 
   while (!allTechsUnlocked(state) && state.gatherCount < MAX_GATHERS) {
     // Check for era completions
-    for (const era of LITHIC_ERAS) {
+    for (const era of TECH_ERAS) {
       if (!completedEras.has(era) && isEraComplete(state, era)) {
         completedEras.add(era);
         eraCompletions[era] = state.gatherCount;
@@ -894,7 +847,7 @@ function simulatePlaythrough(location: LocationCoords, geoData: LocationGeoData)
   }
 
   // Final era check
-  for (const era of LITHIC_ERAS) {
+  for (const era of TECH_ERAS) {
     if (!completedEras.has(era) && isEraComplete(state, era)) {
       completedEras.add(era);
       eraCompletions[era] = state.gatherCount;
@@ -932,12 +885,9 @@ function validateBalance(results: SimulationResult[]): ValidationResult {
   };
 
   // Analyze results
-  const eraRanges: Record<LithicEra, { min: number; max: number; locations: string[] }> = {
-    lower_paleolithic: { min: Infinity, max: 0, locations: [] },
-    middle_paleolithic: { min: Infinity, max: 0, locations: [] },
-    upper_paleolithic: { min: Infinity, max: 0, locations: [] },
-    mesolithic: { min: Infinity, max: 0, locations: [] },
-  };
+  const eraRanges = Object.fromEntries(
+    TECH_ERAS.map((era) => [era, { min: Infinity, max: 0, locations: [] as string[] }])
+  ) as Record<TechEra, { min: number; max: number; locations: string[] }>;
 
   for (const simResult of results) {
     // Check for simulation failures
@@ -959,7 +909,7 @@ function validateBalance(results: SimulationResult[]): ValidationResult {
     }
 
     // Track era completion ranges
-    for (const era of LITHIC_ERAS) {
+    for (const era of TECH_ERAS) {
       const gatherCount = simResult.eraCompletions[era];
       if (gatherCount !== undefined) {
         if (gatherCount < eraRanges[era].min) {
@@ -989,7 +939,7 @@ function validateBalance(results: SimulationResult[]): ValidationResult {
   }
 
   // Summary info
-  for (const era of LITHIC_ERAS) {
+  for (const era of TECH_ERAS) {
     const range = eraRanges[era];
     const bounds = ERA_BOUNDS[era];
     if (range.min !== Infinity) {
@@ -1012,12 +962,15 @@ function createNodeGeoDataService(): GeoDataService {
 }
 
 async function main() {
+  const baseSeed = parseSeedArg(process.argv.slice(2));
+
   // Initialize GIS service
   const geoDataService = createNodeGeoDataService();
   await geoDataService.initialize();
 
   console.log('='.repeat(60));
   console.log('Balance Validation Report');
+  console.log(`Seed: ${baseSeed}`);
   console.log('='.repeat(60));
   console.log('');
 
@@ -1025,7 +978,7 @@ async function main() {
   const simResults: SimulationResult[] = [];
   for (const location of LOCATIONS) {
     const geoData = await getLocationGeoData(geoDataService, location);
-    const simResult = simulatePlaythrough(location, geoData);
+    const simResult = simulatePlaythrough(location, geoData, baseSeed);
     simResults.push(simResult);
 
     console.log(
@@ -1034,13 +987,18 @@ async function main() {
     console.log(
       `  GIS Lookup: ${geoData.biome.realm}, ${geoData.biome.type}, ${geoData.geology.primaryLithology} (confidence: ${geoData.geology.confidence.toFixed(2)})`
     );
+    if (geoData.altitude) {
+      console.log(
+        `  Altitude: ${Math.round(geoData.altitude.value)}m from ${geoData.altitude.source} (confidence: ${geoData.altitude.confidence.toFixed(2)})`
+      );
+    }
     console.log('-'.repeat(40));
 
     // Print milestones
     for (const milestone of simResult.milestones) {
       if (milestone.type === 'era') {
         console.log(
-          `  ERA COMPLETE: ${ERA_NAMES[milestone.id as LithicEra]} at gather ${milestone.gatherCount}`
+          `  ERA COMPLETE: ${ERA_NAMES[milestone.id as TechEra]} at gather ${milestone.gatherCount}`
         );
       } else {
         const typeLabel = milestone.type.charAt(0).toUpperCase() + milestone.type.slice(1);
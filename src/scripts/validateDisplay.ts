@@ -8,6 +8,7 @@
 import { TOOLS, COMPONENTS } from '../data/tools';
 import { STONES } from '../data/stones';
 import { WOODS } from '../data/woods';
+import { FIBERS } from '../data/fibers';
 import { DISPLAY_CONSTRAINTS, getMaxChars, TextConstraint } from '../config/displayConstraints';
 
 interface ValidationResult {
@@ -112,9 +113,25 @@ function validateDisplay(): ValidationResult {
     );
   }
 
+  // Validate fiber names and descriptions
+  for (const fiber of FIBERS) {
+    validateTextFits(
+      { id: fiber.id, text: fiber.name, category: 'Fiber', field: 'name' },
+      DISPLAY_CONSTRAINTS.resourceName,
+      result
+    );
+    validateTextFits(
+      { id: fiber.id, text: fiber.description, category: 'Fiber', field: 'description' },
+      DISPLAY_CONSTRAINTS.resourceDescription,
+      result
+    );
+  }
+
   // Summary statistics
   result.info.push(`Validated ${TOOLS.length} tools, ${COMPONENTS.length} components`);
-  result.info.push(`Validated ${STONES.length} stones, ${WOODS.length} woods`);
+  result.info.push(
+    `Validated ${STONES.length} stones, ${WOODS.length} woods, ${FIBERS.length} fibers`
+  );
   result.info.push(
     `Display constraints: tool desc ${getMaxChars(DISPLAY_CONSTRAINTS.toolDescription)} chars, ` +
       `resource desc ${getMaxChars(DISPLAY_CONSTRAINTS.resourceDescription)} chars`
@@ -14,13 +14,15 @@
  * 10. Gathering material consistency - gatheringMaterial and gatheringBonus must be set together
  * 11. Gathering material validity - gatheringMaterial must be a valid GatherableMaterial
  * 12. Tech enables something - every tech must enable at least one unlock or recipe
+ * 13. Material registry consistency - materials, allowed resources and quality weights must
+ *     reference registered material types and properties from their schema
  *
  * Run with: npx ts-node src/scripts/validateRecipes.ts
  */
 
 import { TOOLS, COMPONENTS, TOOLS_BY_ID } from '../data/tools';
 import { TECHNOLOGIES, TECH_BY_ID } from '../data/techTree';
-import { getAllMaterialTypes } from '../config/materials';
+import { MaterialType, getAllMaterialTypes, getMaterialConfig } from '../config/materials';
 
 interface ValidationResult {
   errors: string[];
@@ -288,6 +290,43 @@ function validateRecipes(): ValidationResult {
     result.info.push(`Starting tools (no prereqs): ${startingTools.map((t) => t.id).join(', ')}`);
   }
 
+  // ========== 7b. Validate Materials Against the Material Registry ==========
+  const materialTypes = new Set<string>(getAllMaterialTypes());
+  for (const craftable of [...TOOLS, ...COMPONENTS]) {
+    for (const [materialType, requirement] of Object.entries(craftable.materials)) {
+      if (!materialTypes.has(materialType)) {
+        result.errors.push(`"${craftable.id}" requires unknown material type "${materialType}"`);
+        continue;
+      }
+      const config = getMaterialConfig(materialType as MaterialType);
+      for (const resourceId of requirement?.allowedResources ?? []) {
+        if (!config.getResourceById(resourceId)) {
+          result.errors.push(
+            `"${craftable.id}" allows non-existent ${materialType} resource "${resourceId}"`
+          );
+        }
+      }
+    }
+
+    for (const [materialType, weights] of Object.entries(craftable.qualityWeights)) {
+      if (!materialTypes.has(materialType)) {
+        result.errors.push(
+          `"${craftable.id}" has quality weights for unknown material type "${materialType}"`
+        );
+        continue;
+      }
+      const config = getMaterialConfig(materialType as MaterialType);
+      const propertyIds = new Set(config.propertySchema.map((p) => p.id));
+      for (const propertyId of Object.keys(weights ?? {})) {
+        if (!propertyIds.has(propertyId)) {
+          result.errors.push(
+            `"${craftable.id}" weights ${materialType} property "${propertyId}", which isn't in its schema`
+          );
+        }
+      }
+    }
+  }
+
   // ========== 8. Summary Statistics ==========
   result.info.push(`Total tools: ${TOOLS.length}`);
   result.info.push(`Total components: ${COMPONENTS.length}`);
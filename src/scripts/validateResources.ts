@@ -10,15 +10,19 @@
  * 6. Spawn weight validation (weights should sum to ~1.0)
  * 7. Realm-biome mapping validation
  * 8. Toolstone coverage - which lithologies have toolstones available
+ * 9. Fiber types have valid biomes and realm-biome codes, and every biome has a fiber
+ * 10. realmBiomesToFibers.json references existing fibers with matching weights
  *
  * Run with: npx tsx src/scripts/validateResources.ts
  */
 
 import { WOODS, getWoodsByBiome, getMappedRealmBiomes } from '../data/woods';
 import { STONES, getToolstones } from '../data/stones';
+import { FIBERS, getFibersByBiome } from '../data/fibers';
 import { BiomeCode } from '../types/resources';
 import lithologyToStonesData from '../data/gis/mappings/lithologyToStones.json';
 import realmBiomesToWoodsData from '../data/gis/mappings/realmBiomesToWoods.json';
+import realmBiomesToFibersData from '../data/gis/mappings/realmBiomesToFibers.json';
 
 interface ValidationResult {
   errors: string[];
@@ -58,6 +62,13 @@ interface RealmBiomeMapping {
   weights: number[];
 }
 
+interface RealmBiomeFiberMapping {
+  realm: string;
+  biome: string;
+  fiberIds: string[];
+  weights: number[];
+}
+
 function validateResources(): ValidationResult {
   const result: ValidationResult = {
     errors: [],
@@ -299,9 +310,77 @@ function validateResources(): ValidationResult {
     }
   }
 
-  // ========== 8. Summary Statistics ==========
+  // ========== 9. Validate Fiber Types ==========
+  result.info.push('--- Validating Fiber Types ---');
+
+  const allFiberIds = new Set(FIBERS.map((f) => f.id));
+  for (const fiber of FIBERS) {
+    for (const biome of fiber.biomes) {
+      if (!validBiomeSet.has(biome)) {
+        result.errors.push(`Fiber "${fiber.id}" has invalid biome "${biome}"`);
+      }
+    }
+
+    for (const rb of fiber.realmBiomes ?? []) {
+      if (!/^[A-Z]{2}\d{2}$/.test(rb)) {
+        result.errors.push(
+          `Fiber "${fiber.id}" has invalid realmBiome format "${rb}" (expected XX##)`
+        );
+      }
+    }
+
+    if (fiber.rarity < 0 || fiber.rarity > 1) {
+      result.errors.push(`Fiber "${fiber.id}" has invalid rarity ${fiber.rarity} (should be 0-1)`);
+    }
+  }
+
+  // Every biome needs a fiber so getFibersByBiome() works as a fallback
+  for (const biome of VALID_BIOMES) {
+    if (getFibersByBiome(biome).length === 0) {
+      result.errors.push(`Biome "${biome}" has no fiber types in FIBERS.biomes array`);
+    }
+  }
+
+  // ========== 10. Validate Fiber Realm-Biome Mappings ==========
+  result.info.push('--- Validating Fiber Realm-Biome Mappings ---');
+
+  const fiberMappings = Object.entries(realmBiomesToFibersData)
+    .filter(([key]) => !key.startsWith('_'))
+    .map(([key, value]) => [key, value as RealmBiomeFiberMapping] as const);
+
+  for (const [realmBiome, mapping] of fiberMappings) {
+    if (!/^[A-Z]{2}\d{2}$/.test(realmBiome)) {
+      result.errors.push(
+        `realmBiomesToFibers.json has invalid key "${realmBiome}" (expected XX##)`
+      );
+    }
+
+    const sum = mapping.weights.reduce((a, b) => a + b, 0);
+    if (Math.abs(sum - 1.0) > 0.01) {
+      result.warnings.push(
+        `Fiber realm-biome "${realmBiome}" weights sum to ${sum.toFixed(3)} (expected ~1.0)`
+      );
+    }
+
+    if (mapping.fiberIds.length !== mapping.weights.length) {
+      result.errors.push(
+        `Fiber realm-biome "${realmBiome}" has ${mapping.fiberIds.length} fibers but ${mapping.weights.length} weights`
+      );
+    }
+
+    for (const fiberId of mapping.fiberIds) {
+      if (!allFiberIds.has(fiberId)) {
+        result.errors.push(
+          `Fiber realm-biome "${realmBiome}" references non-existent fiber "${fiberId}"`
+        );
+      }
+    }
+  }
+
+  // ========== 11. Summary Statistics ==========
   result.info.push('--- Summary Statistics ---');
   result.info.push(`Total wood types: ${WOODS.length}`);
+  result.info.push(`Total fiber types: ${FIBERS.length}`);
   result.info.push(`Total stone types: ${STONES.length}`);
   result.info.push(`Valid biomes: ${VALID_BIOMES.length}`);
   result.info.push(`Mapped lithologies: ${lithologyMappings.length}`);
@@ -0,0 +1,100 @@
+/**
+ * Composite Tile Loader
+ *
+ * TileLoader that queries an ordered list of layers, e.g. user overrides,
+ * region packs, then the base bundle. The first layer holding a geohash wins;
+ * a layer can limit which geohashes it is asked for with `covers`.
+ */
+
+import { TileLoader, TileCacheStats } from './TileLoader';
+import { GeoTile } from '../types/gis';
+
+/**
+ * A loader in the stack, optionally limited to the geohashes it can hold
+ */
+export interface TileLayer {
+  loader: TileLoader;
+  covers?: (geohash: string) => boolean;
+}
+
+export class CompositeTileLoader implements TileLoader {
+  private layers: TileLayer[];
+
+  constructor(layers: TileLayer[]) {
+    this.layers = layers;
+  }
+
+  /**
+   * Get the layers, highest priority first
+   */
+  getLayers(): TileLayer[] {
+    return this.layers;
+  }
+
+  async getTile(geohash: string): Promise<GeoTile | null> {
+    for (const layer of this.layers) {
+      if (layer.covers && !layer.covers(geohash)) continue;
+      const tile = await layer.loader.getTile(geohash);
+      if (tile) return tile;
+    }
+    return null;
+  }
+
+  async getTiles(geohashes: string[]): Promise<GeoTile[]> {
+    const tiles: GeoTile[] = [];
+    let remaining = [...new Set(geohashes)];
+
+    for (const layer of this.layers) {
+      if (remaining.length === 0) break;
+      const asked = layer.covers ? remaining.filter(layer.covers) : remaining;
+      if (asked.length === 0) continue;
+
+      const found = new Map<string, GeoTile>();
+      for (const tile of await layer.loader.getTiles(asked)) {
+        found.set(tile.geohash, tile);
+      }
+      tiles.push(...found.values());
+      remaining = remaining.filter((geohash) => !found.has(geohash));
+    }
+    return tiles;
+  }
+
+  async prefetch(geohashes: string[]): Promise<void> {
+    for (const layer of this.layers) {
+      await layer.loader.prefetch(layer.covers ? geohashes.filter(layer.covers) : geohashes);
+    }
+  }
+
+  async initialize(): Promise<void> {
+    for (const layer of this.layers) {
+      await layer.loader.initialize();
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const layer of this.layers) {
+      await layer.loader.close();
+    }
+  }
+
+  clearCache(): void {
+    this.layers.forEach((layer) => layer.loader.clearCache());
+  }
+
+  getCacheStats(): TileCacheStats {
+    return this.layers.reduce(
+      (total, layer) => {
+        const stats = layer.loader.getCacheStats();
+        return {
+          filesCached: total.filesCached + stats.filesCached,
+          tilesCached: total.tilesCached + stats.tilesCached,
+          bytesCached: total.bytesCached + stats.bytesCached,
+          hits: total.hits + stats.hits,
+          misses: total.misses + stats.misses,
+          evictions: total.evictions + stats.evictions,
+        };
+      },
+      { filesCached: 0, tilesCached: 0, bytesCached: 0, hits: 0, misses: 0, evictions: 0 }
+    );
+  }
+}
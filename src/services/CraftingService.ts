@@ -8,12 +8,28 @@ import {
   OwnedTool,
   OwnedComponent,
   UsedMaterials,
+  CraftingJob,
   MaterialRequirements,
   MaterialRequirement,
+  ComponentRequirement,
   isTool,
 } from '../types/tools';
 import { MaterialType, getMaterialConfig, getAllMaterialTypes } from '../config/materials';
-import { calculateCraftableQuality } from '../utils/qualityCalculation';
+import { MAX_CONCURRENT_CRAFTING_JOBS, SALVAGE_MATERIAL_FRACTION } from '../config/crafting';
+import {
+  REPAIR_MATERIAL_FRACTION,
+  WEAR_PER_CRAFT,
+  calculateMaxDurabilityFromComponents,
+  isToolBroken,
+  wearTools,
+} from '../config/durability';
+import { getToolById, getComponentById } from '../data/tools';
+import {
+  calculateCraftableQuality,
+  getComponentEfficiencyBonus,
+  getComponentQualityScore,
+} from '../utils/qualityCalculation';
+import { addResource } from './InventoryService';
 
 // State required for crafting operations
 export interface CraftingState {
@@ -29,7 +45,7 @@ export interface CraftCheckResult {
   missingRequirements: string[];
   // Available materials keyed by material type
   availableMaterials: Partial<Record<MaterialType, string[]>>;
-  // Available component instance IDs
+  // Available component instance IDs, best first within each required component
   availableComponents: string[];
   // Food cost for this craft (represents time/effort)
   foodCost: number;
@@ -62,6 +78,74 @@ interface CraftFailureResult {
 
 export type CraftResult = CraftSuccessResult | CraftFailureResult;
 
+// State required for timed (queued) crafting operations
+export interface CraftingQueueState extends CraftingState {
+  craftingQueue: CraftingJob[];
+}
+
+// Successful start of a timed craft
+interface StartCraftSuccessResult {
+  success: true;
+  newState: CraftingQueueState;
+  job: CraftingJob;
+}
+
+export type StartCraftResult = StartCraftSuccessResult | CraftFailureResult;
+
+// Successful cancellation of a timed craft
+interface CancelCraftSuccessResult {
+  success: true;
+  newState: CraftingQueueState;
+}
+
+export type CancelCraftResult = CancelCraftSuccessResult | CraftFailureResult;
+
+// Successful repair result
+interface RepairSuccessResult {
+  success: true;
+  newState: CraftingState;
+  repairedTool: OwnedTool;
+}
+
+export type RepairResult = RepairSuccessResult | CraftFailureResult;
+
+// Successful upgrade (rehafting) result
+interface UpgradeSuccessResult {
+  success: true;
+  newState: CraftingState;
+  upgradedTool: OwnedTool;
+  salvagedMaterials: UsedMaterials; // Returned from the removed component
+}
+
+export type UpgradeResult = UpgradeSuccessResult | CraftFailureResult;
+
+// Result of completing finished jobs
+export interface CompleteJobsResult {
+  newState: CraftingQueueState;
+  completedItems: (OwnedTool | OwnedComponent)[];
+}
+
+// Helper: Check a resource against a requirement's allowed resources, if it has any
+function isResourceAllowed(requirement: MaterialRequirement, resourceId: string): boolean {
+  return !requirement.allowedResources || requirement.allowedResources.includes(resourceId);
+}
+
+/**
+ * Describe the restriction on a material requirement for display, e.g. ' (toolstone)'.
+ * Returns an empty string for unrestricted requirements.
+ */
+export function describeRequirementRestriction(
+  requirement: MaterialRequirement,
+  materialType: MaterialType
+): string {
+  if (requirement.allowedResources) {
+    const config = getMaterialConfig(materialType);
+    const names = requirement.allowedResources.map((id) => config.getResourceById(id)?.name ?? id);
+    return ` (${names.join(' or ')})`;
+  }
+  return requirement.requiresToolstone ? ' (toolstone)' : '';
+}
+
 // Helper: Find materials in inventory that meet a requirement
 function findAvailableMaterials(
   stacks: ResourceStack[],
@@ -72,7 +156,10 @@ function findAvailableMaterials(
   const config = getMaterialConfig(materialType);
 
   for (const stack of stacks) {
-    if (stack.quantity >= requirement.quantity) {
+    if (
+      stack.quantity >= requirement.quantity &&
+      isResourceAllowed(requirement, stack.resourceId)
+    ) {
       const resource = config.getResourceById(stack.resourceId);
       if (resource) {
         // Check toolstone requirement if applicable
@@ -89,17 +176,52 @@ function findAvailableMaterials(
   return available;
 }
 
-// Helper: Check if player owns a specific tool
+// Helper: Check if player owns a specific tool that isn't broken
 function hasTool(ownedTools: OwnedTool[], toolId: string): boolean {
-  return ownedTools.some((t) => t.toolId === toolId);
+  return ownedTools.some((t) => t.toolId === toolId && !isToolBroken(t));
+}
+
+// Helper: Pick the best (highest quality) unbroken instance of each required tool
+function selectRequiredToolInstances(ownedTools: OwnedTool[], requiredTools: string[]): string[] {
+  const instanceIds: string[] = [];
+  for (const toolId of requiredTools) {
+    let best: OwnedTool | null = null;
+    for (const owned of ownedTools) {
+      if (owned.toolId !== toolId || isToolBroken(owned)) continue;
+      if (!best || owned.quality > best.quality) best = owned;
+    }
+    if (best) instanceIds.push(best.instanceId);
+  }
+  return instanceIds;
 }
 
-// Helper: Get owned components by component ID
+// Helper: Get owned components by component ID, best first
 function getOwnedComponentsByType(
   ownedComponents: OwnedComponent[],
   componentId: string
 ): OwnedComponent[] {
-  return ownedComponents.filter((c) => c.componentId === componentId);
+  return ownedComponents
+    .filter((c) => c.componentId === componentId)
+    .sort((a, b) => getComponentQualityScore(b) - getComponentQualityScore(a));
+}
+
+/**
+ * Pick the default component instances for a recipe: the first `quantity` of each
+ * required component from availableComponentIds (which canCraft lists best first).
+ */
+export function selectDefaultComponents(
+  requiredComponents: ComponentRequirement[],
+  availableComponentIds: string[],
+  ownedComponents: OwnedComponent[]
+): string[] {
+  const selected: string[] = [];
+  for (const req of requiredComponents) {
+    const ofType = availableComponentIds.filter(
+      (id) => ownedComponents.find((c) => c.instanceId === id)?.componentId === req.componentId
+    );
+    selected.push(...ofType.slice(0, req.quantity));
+  }
+  return selected;
 }
 
 // Helper: Get resource count from inventory
@@ -273,7 +395,8 @@ export function canCraft(
   // Check tool requirements
   for (const reqToolId of craftable.requiredTools) {
     if (!hasTool(state.ownedTools, reqToolId)) {
-      missing.push(`Tool: ${reqToolId}`);
+      const ownsBroken = state.ownedTools.some((t) => t.toolId === reqToolId);
+      missing.push(`Tool: ${reqToolId}${ownsBroken ? ' (broken)' : ''}`);
     }
   }
 
@@ -283,10 +406,8 @@ export function canCraft(
     if (ownedComps.length < comp.quantity) {
       missing.push(`Component: ${comp.quantity}x ${comp.componentId}`);
     } else {
-      // Add available component instance IDs (up to required quantity)
-      for (let i = 0; i < comp.quantity && i < ownedComps.length; i++) {
-        availableComponentIds.push(ownedComps[i].instanceId);
-      }
+      // Offer every owned instance so the player can choose which to build with
+      availableComponentIds.push(...ownedComps.map((c) => c.instanceId));
     }
   }
 
@@ -307,9 +428,9 @@ export function canCraft(
       availableMaterials[materialType] = available;
 
       if (available.length === 0) {
-        const toolstoneNote = requirement.requiresToolstone ? ' (toolstone)' : '';
+        const restriction = describeRequirementRestriction(requirement, materialType);
         missing.push(
-          `Material: ${requirement.quantity}x ${config.singularName.toLowerCase()}${toolstoneNote}`
+          `Material: ${requirement.quantity}x ${config.singularName.toLowerCase()}${restriction}`
         );
       }
     }
@@ -367,6 +488,10 @@ function validateMaterialSelection(
       return { error: `Not enough ${selectedId}` };
     }
 
+    if (!isResourceAllowed(requirement, selectedId)) {
+      return { error: `${selectedId} can't be used for this recipe` };
+    }
+
     // Check toolstone requirement if applicable
     if (requirement.requiresToolstone && config.hasToolstone) {
       const resource = config.getResourceById(selectedId);
@@ -400,7 +525,15 @@ function validateComponentSelection(
     return { error: 'Components not selected' };
   }
 
-  // Verify each selected component exists and matches requirements
+  // Verify each selected component exists and is needed by the recipe
+  for (const id of selectedComponentIds) {
+    const owned = ownedComponents.find((c) => c.instanceId === id);
+    if (!owned || !requiredComponents.some((req) => req.componentId === owned.componentId)) {
+      return { error: `Component ${id} can't be used for this recipe` };
+    }
+  }
+
+  // Verify exactly the required number of each component is selected
   for (const req of requiredComponents) {
     const matchingSelected = selectedComponentIds.filter((id) => {
       const owned = ownedComponents.find((c) => c.instanceId === id);
@@ -409,24 +542,39 @@ function validateComponentSelection(
     if (matchingSelected.length < req.quantity) {
       return { error: `Not enough ${req.componentId} components selected` };
     }
+    if (matchingSelected.length > req.quantity) {
+      return { error: `Too many ${req.componentId} components selected` };
+    }
   }
 
   return { valid: true };
 }
 
+// Inputs removed from the player's state for a craft, plus the derived quality
+interface CraftReservation {
+  newInventory: Inventory;
+  newOwnedTools: OwnedTool[];
+  newOwnedComponents: OwnedComponent[];
+  usedMaterials: UsedMaterials;
+  consumedFoods: Record<string, number>;
+  reservedComponents: OwnedComponent[];
+  quality: number;
+}
+
 /**
- * Craft a tool or component
- * Returns the new state and the crafted item, or an error
+ * Validate a craft and remove its inputs (materials, food, components) from state.
+ * Required tools are worn by WEAR_PER_CRAFT.
+ * Shared by instant crafting, the timed crafting queue and repairs.
  */
-export function craft(
+function reserveCraftInputs(
   craftable: Tool | CraftedComponent,
   params: CraftParams,
   state: CraftingState
-): CraftResult {
+): CraftReservation | { error: string } {
   // First check if crafting is possible
   const checkResult = canCraft(craftable, state);
   if (!checkResult.canCraft) {
-    return { success: false, error: checkResult.missingRequirements.join(', ') };
+    return { error: checkResult.missingRequirements.join(', ') };
   }
 
   // Validate material selection
@@ -436,7 +584,7 @@ export function craft(
     state.inventory
   );
   if ('error' in materialValidation) {
-    return { success: false, error: materialValidation.error };
+    return { error: materialValidation.error };
   }
   const { usedMaterials } = materialValidation;
 
@@ -446,7 +594,7 @@ export function craft(
   // Validate food selection if there's a cost
   if (actualFoodCost > 0) {
     if (!params.selectedFoods || Object.keys(params.selectedFoods).length === 0) {
-      return { success: false, error: 'Food not selected for crafting effort' };
+      return { error: 'Food not selected for crafting effort' };
     }
 
     // Check total selected quantity meets the cost
@@ -456,7 +604,6 @@ export function craft(
     );
     if (totalSelectedFood < actualFoodCost) {
       return {
-        success: false,
         error: `Not enough food selected (need ${actualFoodCost}, selected ${totalSelectedFood})`,
       };
     }
@@ -466,10 +613,7 @@ export function craft(
       if (quantity <= 0) continue;
       const available = getResourceCount(state.inventory.food, foodId);
       if (available < quantity) {
-        return {
-          success: false,
-          error: `Not enough ${foodId} (need ${quantity}, have ${available})`,
-        };
+        return { error: `Not enough ${foodId} (need ${quantity}, have ${available})` };
       }
     }
   }
@@ -481,12 +625,9 @@ export function craft(
     state.ownedComponents
   );
   if ('error' in componentValidation) {
-    return { success: false, error: componentValidation.error };
+    return { error: componentValidation.error };
   }
 
-  // Calculate quality from materials
-  const quality = calculateCraftableQuality(craftable, usedMaterials);
-
   // Build new inventory (consume materials) - now dynamic
   const newInventory: Inventory = { ...state.inventory };
   for (const materialType of getAllMaterialTypes()) {
@@ -504,11 +645,13 @@ export function craft(
   }
 
   // Consume food for crafting effort
+  const consumedFoods: Record<string, number> = {};
   if (actualFoodCost > 0 && params.selectedFoods) {
     let foodStacks = [...state.inventory.food];
     for (const [foodId, quantity] of Object.entries(params.selectedFoods)) {
       if (quantity > 0) {
         foodStacks = consumeFromStacks(foodStacks, foodId, quantity);
+        consumedFoods[foodId] = quantity;
       }
     }
     newInventory.food = foodStacks;
@@ -516,46 +659,457 @@ export function craft(
 
   // Consume components
   let newOwnedComponents = state.ownedComponents;
+  let reservedComponents: OwnedComponent[] = [];
   if (params.selectedComponentIds && params.selectedComponentIds.length > 0) {
-    newOwnedComponents = newOwnedComponents.filter(
-      (c) => !params.selectedComponentIds!.includes(c.instanceId)
-    );
+    const selectedIds = params.selectedComponentIds;
+    reservedComponents = newOwnedComponents.filter((c) => selectedIds.includes(c.instanceId));
+    newOwnedComponents = newOwnedComponents.filter((c) => !selectedIds.includes(c.instanceId));
   }
 
-  // Create the crafted item and update appropriate inventory
-  if (isTool(craftable)) {
-    const newTool: OwnedTool = {
-      instanceId: generateInstanceId(craftable.id),
-      toolId: craftable.id,
-      materials: usedMaterials,
+  // Calculate quality from materials and the chosen component instances
+  const quality = calculateCraftableQuality(craftable, usedMaterials, reservedComponents);
+
+  // Wear the required tools used for this craft
+  const newOwnedTools = wearTools(
+    state.ownedTools,
+    selectRequiredToolInstances(state.ownedTools, craftable.requiredTools),
+    WEAR_PER_CRAFT
+  );
+
+  return {
+    newInventory,
+    newOwnedTools,
+    newOwnedComponents,
+    usedMaterials,
+    consumedFoods,
+    reservedComponents,
+    quality,
+  };
+}
+
+/**
+ * Create a new owned tool or component instance for a finished craft
+ */
+function createCraftedItem(
+  recipeType: CraftingJob['recipeType'],
+  recipeId: string,
+  materials: UsedMaterials,
+  quality: number,
+  components: OwnedComponent[]
+): OwnedTool | OwnedComponent {
+  if (recipeType === 'tool') {
+    const maxDurability = calculateMaxDurabilityFromComponents(materials, components);
+    return {
+      instanceId: generateInstanceId(recipeId),
+      toolId: recipeId,
+      materials,
       quality,
+      durability: maxDurability,
+      maxDurability,
+      components,
     };
+  }
+  return { instanceId: generateInstanceId(recipeId), componentId: recipeId, materials, quality };
+}
+
+/**
+ * Add a finished item to the matching owned list (returns new state)
+ */
+function addCraftedItem<T extends CraftingState>(state: T, item: OwnedTool | OwnedComponent): T {
+  if ('toolId' in item) {
+    return { ...state, ownedTools: [...state.ownedTools, item] };
+  }
+  return { ...state, ownedComponents: [...state.ownedComponents, item] };
+}
 
-    const newState: CraftingState = {
-      inventory: newInventory,
+/**
+ * Craft a tool or component
+ * Returns the new state and the crafted item, or an error
+ */
+export function craft(
+  craftable: Tool | CraftedComponent,
+  params: CraftParams,
+  state: CraftingState
+): CraftResult {
+  const reservation = reserveCraftInputs(craftable, params, state);
+  if ('error' in reservation) {
+    return { success: false, error: reservation.error };
+  }
+
+  // Create the crafted item and update appropriate inventory
+  const craftedItem = createCraftedItem(
+    isTool(craftable) ? 'tool' : 'component',
+    craftable.id,
+    reservation.usedMaterials,
+    reservation.quality,
+    reservation.reservedComponents
+  );
+
+  const newState = addCraftedItem<CraftingState>(
+    {
+      inventory: reservation.newInventory,
       unlockedTechs: state.unlockedTechs,
-      ownedTools: [...state.ownedTools, newTool],
-      ownedComponents: newOwnedComponents,
+      ownedTools: reservation.newOwnedTools,
+      ownedComponents: reservation.newOwnedComponents,
+    },
+    craftedItem
+  );
+
+  return { success: true, newState, craftedItem };
+}
+
+/**
+ * Get how long a craft takes, in seconds.
+ * Efficient components (e.g. a shaped handle) shorten the time to assemble a tool.
+ */
+export function getCraftDuration(
+  craftable: Tool | CraftedComponent,
+  components: OwnedComponent[] = []
+): number {
+  return Math.round(craftable.baseCraftTime / (1 + getComponentEfficiencyBonus(components)));
+}
+
+/**
+ * Get the wall-clock time (ms) at which a job finishes
+ */
+export function getJobEndTime(job: CraftingJob): number {
+  return job.startTime + job.duration * 1000;
+}
+
+/**
+ * Get job progress from 0 (just started) to 1 (finished)
+ */
+export function getJobProgress(job: CraftingJob, now: number = Date.now()): number {
+  if (job.duration <= 0) return 1;
+  const elapsed = (now - job.startTime) / (job.duration * 1000);
+  return Math.min(1, Math.max(0, elapsed));
+}
+
+/**
+ * Start a timed craft.
+ * Inputs are reserved immediately; the item is created by completeCraftingJobs
+ * once the job's duration has elapsed (measured from wall-clock startTime, so
+ * jobs keep progressing while the app is closed).
+ */
+export function startCraft(
+  craftable: Tool | CraftedComponent,
+  params: CraftParams,
+  state: CraftingQueueState,
+  now: number = Date.now()
+): StartCraftResult {
+  if (state.craftingQueue.length >= MAX_CONCURRENT_CRAFTING_JOBS) {
+    return {
+      success: false,
+      error: `Crafting queue is full (max ${MAX_CONCURRENT_CRAFTING_JOBS} jobs)`,
     };
+  }
 
-    return { success: true, newState, craftedItem: newTool };
-  } else {
-    const newComponent: OwnedComponent = {
-      instanceId: generateInstanceId(craftable.id),
-      componentId: craftable.id,
-      materials: usedMaterials,
-      quality,
+  const reservation = reserveCraftInputs(craftable, params, state);
+  if ('error' in reservation) {
+    return { success: false, error: reservation.error };
+  }
+
+  const job: CraftingJob = {
+    id: generateInstanceId(`job_${craftable.id}`),
+    recipeType: isTool(craftable) ? 'tool' : 'component',
+    recipeId: craftable.id,
+    startTime: now,
+    duration: getCraftDuration(craftable, reservation.reservedComponents),
+    selectedMaterials: reservation.usedMaterials,
+    selectedFoods: reservation.consumedFoods,
+    reservedComponents: reservation.reservedComponents,
+    quality: reservation.quality,
+  };
+
+  const newState: CraftingQueueState = {
+    ...state,
+    inventory: reservation.newInventory,
+    ownedTools: reservation.newOwnedTools,
+    ownedComponents: reservation.newOwnedComponents,
+    craftingQueue: [...state.craftingQueue, job],
+  };
+
+  return { success: true, newState, job };
+}
+
+/**
+ * Complete every job whose duration has elapsed by `now`.
+ * Finished items are added in the order their jobs finished.
+ */
+export function completeCraftingJobs(
+  state: CraftingQueueState,
+  now: number = Date.now()
+): CompleteJobsResult {
+  const finished = state.craftingQueue
+    .filter((job) => getJobEndTime(job) <= now)
+    .sort((a, b) => getJobEndTime(a) - getJobEndTime(b));
+
+  if (finished.length === 0) {
+    return { newState: state, completedItems: [] };
+  }
+
+  let newState: CraftingQueueState = {
+    ...state,
+    craftingQueue: state.craftingQueue.filter((job) => getJobEndTime(job) > now),
+  };
+  const completedItems: (OwnedTool | OwnedComponent)[] = [];
+  for (const job of finished) {
+    const item = createCraftedItem(
+      job.recipeType,
+      job.recipeId,
+      job.selectedMaterials,
+      job.quality,
+      job.reservedComponents
+    );
+    newState = addCraftedItem(newState, item);
+    completedItems.push(item);
+  }
+
+  return { newState, completedItems };
+}
+
+/**
+ * Cancel an in-progress job, refunding its materials, food and components.
+ * Wear already applied to the required tools is not refunded.
+ */
+export function cancelCraftingJob(jobId: string, state: CraftingQueueState): CancelCraftResult {
+  const job = state.craftingQueue.find((j) => j.id === jobId);
+  if (!job) {
+    return { success: false, error: 'Crafting job not found' };
+  }
+
+  let inventory = state.inventory;
+  for (const materialType of getAllMaterialTypes()) {
+    // Food requirements are refunded through selectedFoods below
+    if (materialType === 'food') continue;
+
+    const used = job.selectedMaterials[materialType];
+    if (used) {
+      inventory = addResource(inventory, materialType, used.resourceId, used.quantity);
+    }
+  }
+  for (const [foodId, quantity] of Object.entries(job.selectedFoods)) {
+    if (quantity > 0) {
+      inventory = addResource(inventory, 'food', foodId, quantity);
+    }
+  }
+
+  const newState: CraftingQueueState = {
+    ...state,
+    inventory,
+    ownedComponents: [...state.ownedComponents, ...job.reservedComponents],
+    craftingQueue: state.craftingQueue.filter((j) => j.id !== jobId),
+  };
+
+  return { success: true, newState };
+}
+
+/**
+ * Get the materials needed to repair a tool: REPAIR_MATERIAL_FRACTION of each
+ * non-food material in the original recipe (rounded up, at least 1).
+ */
+export function getRepairMaterials(tool: Tool): MaterialRequirements {
+  const repairMaterials: MaterialRequirements = {};
+  for (const materialType of getAllMaterialTypes()) {
+    if (materialType === 'food') continue;
+    const requirement = tool.materials[materialType];
+    if (!requirement) continue;
+    repairMaterials[materialType] = {
+      ...requirement,
+      quantity: Math.max(1, Math.ceil(requirement.quantity * REPAIR_MATERIAL_FRACTION)),
     };
+  }
+  return repairMaterials;
+}
 
-    const newState: CraftingState = {
-      inventory: newInventory,
-      unlockedTechs: state.unlockedTechs,
-      ownedTools: state.ownedTools,
-      ownedComponents: [...newOwnedComponents, newComponent],
+/**
+ * Get the recipe used to repair a tool. Repairs need the same tech and tools as
+ * the original craft and fresh materials, but no components.
+ */
+export function getRepairRecipe(tool: Tool): Tool {
+  return { ...tool, materials: getRepairMaterials(tool), requiredComponents: [] };
+}
+
+/**
+ * Check if an owned tool can be repaired.
+ * Returns the same shape as canCraft so repairs can reuse the material selection UI.
+ */
+export function canRepair(instanceId: string, state: CraftingState): CraftCheckResult {
+  const ownedTool = state.ownedTools.find((t) => t.instanceId === instanceId);
+  const tool = ownedTool ? getToolById(ownedTool.toolId) : undefined;
+  if (!ownedTool || !tool) {
+    return {
+      canCraft: false,
+      missingRequirements: ['Tool not found'],
+      availableMaterials: {},
+      availableComponents: [],
+      foodCost: 0,
+      availableFoods: [],
     };
+  }
+
+  const result = canCraft(getRepairRecipe(tool), state);
+  if (ownedTool.durability >= ownedTool.maxDurability) {
+    return {
+      ...result,
+      canCraft: false,
+      missingRequirements: ['Already at full durability', ...result.missingRequirements],
+    };
+  }
+  return result;
+}
+
+/**
+ * Repair an owned tool to full durability using fresh materials and food.
+ * Required tools are worn as for crafting.
+ */
+export function repair(
+  instanceId: string,
+  params: CraftParams,
+  state: CraftingState
+): RepairResult {
+  const check = canRepair(instanceId, state);
+  const ownedTool = state.ownedTools.find((t) => t.instanceId === instanceId);
+  const tool = ownedTool ? getToolById(ownedTool.toolId) : undefined;
+  if (!check.canCraft || !ownedTool || !tool) {
+    return { success: false, error: check.missingRequirements.join(', ') };
+  }
+
+  const reservation = reserveCraftInputs(getRepairRecipe(tool), params, state);
+  if ('error' in reservation) {
+    return { success: false, error: reservation.error };
+  }
+
+  const repairedTool: OwnedTool = { ...ownedTool, durability: ownedTool.maxDurability };
+  const newState: CraftingState = {
+    inventory: reservation.newInventory,
+    unlockedTechs: state.unlockedTechs,
+    ownedTools: reservation.newOwnedTools.map((t) =>
+      t.instanceId === instanceId ? repairedTool : t
+    ),
+    ownedComponents: reservation.newOwnedComponents,
+  };
+
+  return { success: true, newState, repairedTool };
+}
+
+// Find the recorded component a replacement would take the place of: the one in the same
+// category (handle, binding, ...). Replacements can't be of a lower qualityTier.
+function findReplacedComponent(
+  ownedTool: OwnedTool,
+  replacement: OwnedComponent
+): OwnedComponent | { error: string } {
+  const replacementDef = getComponentById(replacement.componentId);
+  if (!replacementDef) {
+    return { error: `Unknown component ${replacement.componentId}` };
+  }
+  if (!ownedTool.components || ownedTool.components.length === 0) {
+    return { error: 'This tool has no recorded components to replace' };
+  }
+
+  // With several of a category (e.g. two bindings), the worst is replaced
+  const replaced = ownedTool.components
+    .filter((c) => getComponentById(c.componentId)?.category === replacementDef.category)
+    .sort((a, b) => getComponentQualityScore(a) - getComponentQualityScore(b))[0];
+  if (!replaced) {
+    return { error: `This tool has no ${replacementDef.category} to replace` };
+  }
+
+  const replacedDef = getComponentById(replaced.componentId);
+  if (replacedDef && replacementDef.properties.qualityTier < replacedDef.properties.qualityTier) {
+    return {
+      error: `${replacementDef.name} is a lower tier than the tool's ${replacedDef.name}`,
+    };
+  }
+  return replaced;
+}
+
+/**
+ * Get the owned components that could replace one of a tool's recorded components.
+ * Broken tools have none; they must be repaired first.
+ */
+export function getUpgradeOptions(instanceId: string, state: CraftingState): OwnedComponent[] {
+  const ownedTool = state.ownedTools.find((t) => t.instanceId === instanceId);
+  if (!ownedTool || isToolBroken(ownedTool)) return [];
+  return state.ownedComponents.filter((c) => !('error' in findReplacedComponent(ownedTool, c)));
+}
+
+/**
+ * Get the materials salvaged when a component is taken out of a tool:
+ * SALVAGE_MATERIAL_FRACTION of each of its materials, rounded down.
+ */
+export function getSalvagedMaterials(component: OwnedComponent): UsedMaterials {
+  const salvaged: UsedMaterials = {};
+  for (const materialType of getAllMaterialTypes()) {
+    const used = component.materials[materialType];
+    if (!used) continue;
+    const quantity = Math.floor(used.quantity * SALVAGE_MATERIAL_FRACTION);
+    if (quantity > 0) {
+      salvaged[materialType] = { resourceId: used.resourceId, quantity };
+    }
+  }
+  return salvaged;
+}
 
-    return { success: true, newState, craftedItem: newComponent };
+/**
+ * Upgrade (rehaft) an owned tool by swapping one of its recorded components for an owned one
+ * of the same category, e.g. replacing a crude handle with a shaped handle.
+ * The tool's quality and max durability are recalculated; wear already taken is kept.
+ * The removed component is taken apart and part of its materials returned.
+ * Broken tools can't be upgraded, as the new component's extra durability would mend them.
+ */
+export function upgrade(
+  instanceId: string,
+  replacementComponentId: string,
+  state: CraftingState
+): UpgradeResult {
+  const ownedTool = state.ownedTools.find((t) => t.instanceId === instanceId);
+  const tool = ownedTool ? getToolById(ownedTool.toolId) : undefined;
+  if (!ownedTool || !tool) {
+    return { success: false, error: 'Tool not found' };
+  }
+  if (isToolBroken(ownedTool)) {
+    return { success: false, error: 'Repair the tool before upgrading it' };
   }
+
+  const replacement = state.ownedComponents.find((c) => c.instanceId === replacementComponentId);
+  if (!replacement) {
+    return { success: false, error: 'Component not found' };
+  }
+
+  const replaced = findReplacedComponent(ownedTool, replacement);
+  if ('error' in replaced) {
+    return { success: false, error: replaced.error };
+  }
+
+  const components = (ownedTool.components ?? []).map((c) => (c === replaced ? replacement : c));
+  const maxDurability = calculateMaxDurabilityFromComponents(ownedTool.materials, components);
+  const wear = ownedTool.maxDurability - ownedTool.durability;
+  const upgradedTool: OwnedTool = {
+    ...ownedTool,
+    components,
+    quality: calculateCraftableQuality(tool, ownedTool.materials, components),
+    maxDurability,
+    durability: Math.max(0, maxDurability - wear),
+  };
+
+  const salvagedMaterials = getSalvagedMaterials(replaced);
+  let inventory = state.inventory;
+  for (const materialType of getAllMaterialTypes()) {
+    const salvaged = salvagedMaterials[materialType];
+    if (salvaged) {
+      inventory = addResource(inventory, materialType, salvaged.resourceId, salvaged.quantity);
+    }
+  }
+
+  const newState: CraftingState = {
+    inventory,
+    unlockedTechs: state.unlockedTechs,
+    ownedTools: state.ownedTools.map((t) => (t.instanceId === instanceId ? upgradedTool : t)),
+    ownedComponents: state.ownedComponents.filter((c) => c.instanceId !== replacementComponentId),
+  };
+
+  return { success: true, newState, upgradedTool, salvagedMaterials };
 }
 
 // Export the service as a namespace-like object
@@ -563,5 +1117,20 @@ export const CraftingService = {
   canCraft,
   craft,
   calculateFoodCost,
+  describeRequirementRestriction,
+  selectDefaultComponents,
   selectFoodForCost,
+  getCraftDuration,
+  getJobEndTime,
+  getJobProgress,
+  startCraft,
+  completeCraftingJobs,
+  cancelCraftingJob,
+  getRepairMaterials,
+  getRepairRecipe,
+  canRepair,
+  repair,
+  getUpgradeOptions,
+  getSalvagedMaterials,
+  upgrade,
 };
@@ -0,0 +1,172 @@
+// ExplorationService - Pure exploration tracking operations
+// Records visited geohash tiles/cells and awards points for first visits
+
+import { BASE32, encodeGeohash } from '../utils/geohash';
+import {
+  EXPLORATION_TILE_PRECISION,
+  EXPLORATION_CELL_PRECISION,
+  NEW_TILE_POINTS,
+  NEW_CELL_POINTS,
+  RARITY_BONUS,
+  MAX_VISIT_ACCURACY_METERS,
+} from '../config/exploration';
+
+/**
+ * Visited cells, stored compactly.
+ * Maps each visited precision-5 tile to a bitmask of its visited precision-6
+ * cells (bit i = child cell ending in BASE32[i]).
+ */
+export type VisitedCells = Record<string, number>;
+
+/**
+ * Persisted exploration state
+ */
+export interface ExplorationState {
+  visitedCells: VisitedCells;
+  biomeVisits: Record<string, number>; // Visited tiles per biome
+  lithologyVisits: Record<string, number>; // Visited tiles per primary lithology
+}
+
+/**
+ * Terrain of the tile being visited, used to weight points by rarity
+ */
+export interface VisitTerrain {
+  biome: string;
+  lithology: string;
+}
+
+/**
+ * Result of recording a visit
+ */
+export interface VisitResult {
+  newState: ExplorationState;
+  pointsAwarded: number;
+  newTile: boolean;
+  newCell: boolean;
+}
+
+/**
+ * Create an empty exploration state
+ */
+export function createEmptyExplorationState(): ExplorationState {
+  return { visitedCells: {}, biomeVisits: {}, lithologyVisits: {} };
+}
+
+/**
+ * Check whether a location fix is accurate enough to count as a visit.
+ * Fixes with unknown accuracy are accepted.
+ */
+export function isAccurateEnough(accuracy: number | null | undefined): boolean {
+  return accuracy === null || accuracy === undefined || accuracy <= MAX_VISIT_ACCURACY_METERS;
+}
+
+/**
+ * Check if a precision-5 tile or precision-6 cell has been visited
+ */
+export function hasVisited(visitedCells: VisitedCells, geohash: string): boolean {
+  const tile = geohash.slice(0, EXPLORATION_TILE_PRECISION);
+  const mask = visitedCells[tile];
+  if (mask === undefined) return false;
+  if (geohash.length <= EXPLORATION_TILE_PRECISION) return true;
+
+  const index = BASE32.indexOf(geohash[EXPLORATION_TILE_PRECISION]);
+  return index >= 0 && ((mask >>> index) & 1) === 1;
+}
+
+/**
+ * Count visited tiles (precision 5) and cells (precision 6)
+ */
+export function getVisitCounts(visitedCells: VisitedCells): { tiles: number; cells: number } {
+  let cells = 0;
+  const masks = Object.values(visitedCells);
+  for (const mask of masks) {
+    for (let bits = mask >>> 0; bits !== 0; bits >>>= 1) {
+      cells += bits & 1;
+    }
+  }
+  return { tiles: masks.length, cells };
+}
+
+/**
+ * Rarity of a tile's terrain compared with tiles already visited (0-1).
+ * 1 = neither the biome nor the lithology has been seen before;
+ * 0 = every visited tile shares both. With no visited tiles there is
+ * nothing to compare against, so rarity is 0.
+ */
+export function calculateRarity(state: ExplorationState, terrain: VisitTerrain): number {
+  const totalTiles = Object.keys(state.visitedCells).length;
+  if (totalTiles === 0) return 0;
+
+  const biomeShare = (state.biomeVisits[terrain.biome] ?? 0) / totalTiles;
+  const lithologyShare = (state.lithologyVisits[terrain.lithology] ?? 0) / totalTiles;
+  const rarity = 1 - (biomeShare + lithologyShare) / 2;
+  return Math.min(1, Math.max(0, rarity));
+}
+
+/**
+ * Points for the first visit to a tile with the given terrain
+ */
+export function calculateTilePoints(state: ExplorationState, terrain: VisitTerrain | null): number {
+  const rarity = terrain ? calculateRarity(state, terrain) : 0;
+  return Math.round(NEW_TILE_POINTS * (1 + RARITY_BONUS * rarity));
+}
+
+/**
+ * Record a visit to a location, awarding points for a first visit.
+ * A new tile earns rarity-weighted tile points plus cell points;
+ * a new cell in a known tile earns cell points only.
+ */
+export function recordVisit(
+  state: ExplorationState,
+  latitude: number,
+  longitude: number,
+  terrain: VisitTerrain | null
+): VisitResult {
+  const cell = encodeGeohash(latitude, longitude, EXPLORATION_CELL_PRECISION);
+  const tile = cell.slice(0, EXPLORATION_TILE_PRECISION);
+  const bit = (1 << BASE32.indexOf(cell[EXPLORATION_TILE_PRECISION])) >>> 0;
+
+  const existingMask = state.visitedCells[tile];
+  const newTile = existingMask === undefined;
+  const newCell = newTile || (existingMask & bit) === 0;
+
+  if (!newCell) {
+    return { newState: state, pointsAwarded: 0, newTile: false, newCell: false };
+  }
+
+  let pointsAwarded = NEW_CELL_POINTS;
+  let { biomeVisits, lithologyVisits } = state;
+
+  if (newTile) {
+    pointsAwarded += calculateTilePoints(state, terrain);
+    if (terrain) {
+      biomeVisits = { ...biomeVisits, [terrain.biome]: (biomeVisits[terrain.biome] ?? 0) + 1 };
+      lithologyVisits = {
+        ...lithologyVisits,
+        [terrain.lithology]: (lithologyVisits[terrain.lithology] ?? 0) + 1,
+      };
+    }
+  }
+
+  return {
+    newState: {
+      visitedCells: { ...state.visitedCells, [tile]: ((existingMask ?? 0) | bit) >>> 0 },
+      biomeVisits,
+      lithologyVisits,
+    },
+    pointsAwarded,
+    newTile,
+    newCell,
+  };
+}
+
+// Export the service as a namespace-like object for consistency
+export const ExplorationService = {
+  createEmptyExplorationState,
+  isAccurateEnough,
+  hasVisited,
+  getVisitCounts,
+  calculateRarity,
+  calculateTilePoints,
+  recordVisit,
+};
@@ -3,44 +3,93 @@
  *
  * TileLoader implementation using expo-sqlite for the React Native app.
  * Uses a pre-bundled SQLite database containing all geology and biome tile data.
+ * Delta packs dropped into the document directory's gis-deltas folder are applied
+ * to the working copy when it is opened. Can also open another tiles database,
+ * such as an installed region pack, as-is.
  */
 
 import * as SQLite from 'expo-sqlite';
 import { Asset } from 'expo-asset';
 import { File, Directory, Paths } from 'expo-file-system';
-import { TileLoader } from './TileLoader';
-import { GeoTile, BiomeData, GeologyData } from '../types/gis';
+import { TileLoader, TileCacheStats } from './TileLoader';
+import { TileCache, TileCacheOptions } from './TileCache';
+import {
+  TileRow,
+  DeltaDatabase,
+  DeltaPackSource,
+  applyDeltaPacks,
+  initializeWorkingCopy,
+  migrateTilesTable,
+} from './TileDeltaService';
+import { GeoTile, BiomeData, GeologyData, RegolithData, WaterData } from '../types/gis';
+import { decodeElevationCells } from '../utils/elevation';
 import { BiomeCode } from '../types/resources';
+import manifest from '../data/gis/manifest.json';
+
+/** Folder in the document directory that downloaded delta packs are saved to */
+export const DELTA_DIRECTORY = 'gis-deltas';
+
+/**
+ * Adapt an expo-sqlite database for applying delta packs
+ */
+function createDeltaDatabase(db: SQLite.SQLiteDatabase): DeltaDatabase {
+  return {
+    run: async (sql, params) => {
+      await db.runAsync(sql, params);
+    },
+    getFirst: (sql, params) => db.getFirstAsync(sql, params),
+    transaction: (task) => db.withTransactionAsync(task),
+  };
+}
+
+/**
+ * Delta packs saved as JSON files in the document directory
+ */
+function createDocumentDeltaSource(): DeltaPackSource {
+  const directory = new Directory(Paths.document, DELTA_DIRECTORY);
+  return {
+    list: async () =>
+      directory.exists
+        ? directory
+            .list()
+            .filter((entry): entry is File => entry instanceof File && entry.name.endsWith('.json'))
+            .map((file) => file.name)
+        : [],
+    read: (name) => new File(directory, name).text(),
+    remove: async (name) => new File(directory, name).delete(),
+  };
+}
 
 /**
- * Database row type from tiles table
+ * Options for creating an ExpoTileLoader
  */
-interface TileRow {
-  geohash: string;
-  prefix: string;
-  primary_lithology: string;
-  secondary_lithologies: string;
-  geology_confidence: number;
-  biome_type: string;
-  biome_confidence: number;
-  ecoregion_id: number | null;
-  realm_biome: string | null;
-  realm: string | null;
+export interface ExpoTileLoaderOptions {
+  /** Open this database file instead of the working copy of the bundled tiles.db */
+  file?: File;
+  /** Limits for the tile cache */
+  cache?: TileCacheOptions;
 }
 
 /**
  * Expo-based tile loader using expo-sqlite
  */
 export class ExpoTileLoader implements TileLoader {
+  private file: File | null;
   private db: SQLite.SQLiteDatabase | null = null;
   private dbInitialized = false;
   private initPromise: Promise<SQLite.SQLiteDatabase> | null = null;
-  private tileCache = new Map<string, GeoTile | null>();
+  private tileCache: TileCache;
+
+  constructor(options: ExpoTileLoaderOptions = {}) {
+    this.file = options.file ?? null;
+    this.tileCache = new TileCache(options.cache);
+  }
 
   async getTile(geohash: string): Promise<GeoTile | null> {
     // Check cache first
-    if (this.tileCache.has(geohash)) {
-      return this.tileCache.get(geohash) || null;
+    const cached = this.tileCache.get(geohash);
+    if (cached !== undefined) {
+      return cached;
     }
 
     try {
@@ -68,18 +117,8 @@ export class ExpoTileLoader implements TileLoader {
   async getTiles(geohashes: string[]): Promise<GeoTile[]> {
     if (geohashes.length === 0) return [];
 
-    const tiles: GeoTile[] = [];
-    const uncached: string[] = [];
-
     // Check cache first
-    for (const geohash of geohashes) {
-      if (this.tileCache.has(geohash)) {
-        const cached = this.tileCache.get(geohash);
-        if (cached) tiles.push(cached);
-      } else {
-        uncached.push(geohash);
-      }
-    }
+    const { tiles, missing: uncached } = this.tileCache.getMany(geohashes);
 
     if (uncached.length === 0) return tiles;
 
@@ -96,21 +135,10 @@ export class ExpoTileLoader implements TileLoader {
           batch
         );
 
-        // Build a set of found geohashes
-        const foundSet = new Set<string>();
-        for (const row of rows) {
-          const tile = this.rowToTile(row);
-          this.tileCache.set(row.geohash, tile);
-          tiles.push(tile);
-          foundSet.add(row.geohash);
-        }
-
-        // Cache misses for geohashes not found
-        for (const geohash of batch) {
-          if (!foundSet.has(geohash)) {
-            this.tileCache.set(geohash, null);
-          }
-        }
+        // Cache found tiles, and misses for geohashes not found
+        const found = rows.map((row) => this.rowToTile(row));
+        this.tileCache.setMany(batch, found);
+        tiles.push(...found);
       }
 
       return tiles;
@@ -124,6 +152,11 @@ export class ExpoTileLoader implements TileLoader {
     await this.initDatabase();
   }
 
+  async prefetch(geohashes: string[]): Promise<void> {
+    this.tileCache.pin(geohashes);
+    await this.getTiles(geohashes);
+  }
+
   async close(): Promise<void> {
     if (this.db) {
       await this.db.closeAsync();
@@ -137,11 +170,8 @@ export class ExpoTileLoader implements TileLoader {
     this.tileCache.clear();
   }
 
-  getCacheStats(): { filesCached: number; tilesCached: number } {
-    return {
-      filesCached: 0,
-      tilesCached: this.tileCache.size,
-    };
+  getCacheStats(): TileCacheStats {
+    return this.tileCache.getStats();
   }
 
   /**
@@ -163,6 +193,13 @@ export class ExpoTileLoader implements TileLoader {
   }
 
   private async openDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (this.file) {
+      const db = await SQLite.openDatabaseAsync(this.file.name, {}, this.file.parentDirectory.uri);
+      this.db = db;
+      this.dbInitialized = true;
+      return db;
+    }
+
     const dbName = 'tiles.db';
 
     // Get the default database directory from expo-sqlite
@@ -170,7 +207,8 @@ export class ExpoTileLoader implements TileLoader {
     const dbFile = new File(sqliteDir, dbName);
 
     // Check if database already exists in SQLite directory
-    if (!dbFile.exists) {
+    const copied = !dbFile.exists;
+    if (copied) {
       // Ensure SQLite directory exists
       if (!sqliteDir.exists) {
         sqliteDir.create();
@@ -191,12 +229,36 @@ export class ExpoTileLoader implements TileLoader {
     // Open the database from the SQLite directory
     const dbDirectory = new Directory(Paths.document, 'SQLite');
     const db = await SQLite.openDatabaseAsync(dbName, {}, dbDirectory.uri);
+    await this.updateWorkingCopy(db, copied);
     this.db = db;
     this.dbInitialized = true;
 
     return db;
   }
 
+  /**
+   * Bring the working copy's schema up to date and apply any downloaded delta packs.
+   * Failures are logged and leave the working copy at its last good version.
+   */
+  private async updateWorkingCopy(db: SQLite.SQLiteDatabase, copied: boolean): Promise<void> {
+    const deltaDb = createDeltaDatabase(db);
+    try {
+      if (copied) {
+        await initializeWorkingCopy(deltaDb, manifest.version);
+      }
+      await migrateTilesTable(deltaDb);
+      const result = await applyDeltaPacks(deltaDb, createDocumentDeltaSource());
+      for (const skipped of result.skipped) {
+        console.warn(`Skipped tile delta pack ${skipped.name}: ${skipped.error}`);
+      }
+      if (result.error) {
+        console.warn('Failed to apply tile delta pack:', result.error);
+      }
+    } catch (error) {
+      console.warn('Failed to update tile database:', error);
+    }
+  }
+
   /**
    * Convert database row to GeoTile object
    */
@@ -204,6 +266,8 @@ export class ExpoTileLoader implements TileLoader {
     const geology: GeologyData = {
       primaryLithology: row.primary_lithology,
       secondaryLithologies: JSON.parse(row.secondary_lithologies || '[]'),
+      ...(row.lith_class != null && { lithClass: row.lith_class }),
+      ...(row.age != null && { age: row.age }),
       confidence: row.geology_confidence,
     };
 
@@ -214,10 +278,27 @@ export class ExpoTileLoader implements TileLoader {
       ...(row.realm != null && { realm: row.realm }),
     };
 
+    const water: WaterData | undefined =
+      row.is_lake != null
+        ? {
+            isLake: row.is_lake === 1,
+            ...(row.coast_distance_km != null && { coastDistanceKm: row.coast_distance_km }),
+            ...(row.river_distance_km != null && { riverDistanceKm: row.river_distance_km }),
+          }
+        : undefined;
+
+    const regolith: RegolithData | undefined =
+      row.regolith != null ? { material: row.regolith, cover: row.regolith_cover ?? 1 } : undefined;
+
+    const elevation = row.elevation != null ? decodeElevationCells(row.elevation) : undefined;
+
     return {
       geohash: row.geohash,
       geology,
       biome,
+      ...(water && { water }),
+      ...(regolith && { regolith }),
+      ...(elevation && { elevation }),
     };
   }
 }
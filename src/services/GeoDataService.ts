@@ -2,12 +2,18 @@
 // Uses geohash-indexed tiles for efficient spatial lookup
 // Hierarchical lookup: detailed tile -> coarse tile -> nearby tiles -> latitude estimation
 
-import { LocationGeoData, AltitudeData } from '../types/gis';
-import { encodeGeohash } from '../utils/geohash';
+import { LocationGeoData, AltitudeData, ElevationData } from '../types/gis';
+import { encodeGeohash, geohashNeighbors } from '../utils/geohash';
 import { TileLoader } from './TileLoader';
-import { resolveTileFallbacks, resolveLocationFallbacks } from '../utils/tileFallbacks';
+import {
+  resolveTileFallbacks,
+  resolveLocationFallbacks,
+  overlayFinerTile,
+} from '../utils/tileFallbacks';
 import { estimateRealmFromCoordinates } from '../utils/geoFallbacks';
-import { calculateAltitudeConfidence } from '../config/altitude';
+import { blendAltitude, buildDemAltitude, calculateAltitudeConfidence } from '../config/altitude';
+import { getCellElevation } from '../utils/elevation';
+import { mixSubCellGeology, SUB_CELL_PRECISION } from '../utils/subCellGeology';
 
 /**
  * Options for creating a GeoDataService
@@ -32,23 +38,30 @@ export interface AltitudeOptions {
  * - In scripts/tests: Create directly with NodeTileLoader
  */
 /**
- * Build AltitudeData from raw GPS values
+ * Build AltitudeData from raw GPS values and the DEM cell, blending the two
+ * when both are usable and falling back to whichever is
  */
-function buildAltitudeData(options?: AltitudeOptions): AltitudeData | undefined {
-  if (!options || options.altitude === null) {
-    return undefined;
-  }
-
-  return {
-    value: options.altitude,
-    accuracy: options.altitudeAccuracy,
-    confidence: calculateAltitudeConfidence(options.altitudeAccuracy),
-  };
+function buildAltitudeData(
+  options?: AltitudeOptions,
+  elevation?: ElevationData
+): AltitudeData | undefined {
+  const gps: AltitudeData | undefined =
+    options && options.altitude !== null
+      ? {
+          value: options.altitude,
+          accuracy: options.altitudeAccuracy,
+          confidence: calculateAltitudeConfidence(options.altitudeAccuracy),
+          source: 'gps',
+        }
+      : undefined;
+
+  return blendAltitude(gps, elevation && buildDemAltitude(elevation));
 }
 
 export class GeoDataService {
   private initialized = false;
   private tileLoader: TileLoader;
+  private neighbourhoodHash: string | null = null;
 
   constructor(options: GeoDataServiceOptions) {
     this.tileLoader = options.tileLoader;
@@ -67,11 +80,16 @@ export class GeoDataService {
   /**
    * Look up geological and biome data for a location
    * Uses hierarchical lookup with unified fallback chain:
-   * 1. Detailed tile (precision-4)
+   * 1. Detailed tile (precision-5 from region packs or city data, over precision-4)
    * 2. Coarse tile (precision-3)
    * 3. Nearby tiles within max distance
    * 4. Latitude-based estimation
    *
+   * The tile's lithologies are then mixed for the precision-6 sub-cell, so the
+   * dominant lithology varies between neighbourhoods within a tile.
+   *
+   * Altitude comes from GPS, the precision-5 cell's DEM elevation, or a blend.
+   *
    * @param lat Latitude
    * @param lng Longitude
    * @param altitudeOptions Optional altitude data from GPS
@@ -86,11 +104,19 @@ export class GeoDataService {
       await this.initialize();
     }
 
-    // Generate geohash at detailed precision
+    // Generate geohashes at fine and detailed precision
+    const fineHash = encodeGeohash(lat, lng, 5); // ~5km precision
     const detailedHash = encodeGeohash(lat, lng, 4); // ~39km precision
+    const cellHash = encodeGeohash(lat, lng, SUB_CELL_PRECISION); // ~1.2km cell for spawn seeding
+
+    await this.prefetchNeighbourhood(fineHash);
 
-    // Try detailed tile first
-    const detailedTile = await this.tileLoader.getTile(detailedHash);
+    // Try detailed tile first, with any finer data layered over it
+    const precision4Tile = await this.tileLoader.getTile(detailedHash);
+    const detailedTile = overlayFinerTile(await this.tileLoader.getTile(fineHash), precision4Tile);
+
+    // The DEM is summarised per precision-5 cell on the precision-4 tile
+    const altitude = buildAltitudeData(altitudeOptions, getCellElevation(precision4Tile, fineHash));
 
     if (detailedTile) {
       // Use unified fallback logic for unknown values
@@ -99,20 +125,28 @@ export class GeoDataService {
       });
 
       return {
-        geology: {
-          primaryLithology: resolved.geology.primaryLithology,
-          secondaryLithologies: resolved.geology.secondaryLithologies,
-          confidence: resolved.geology.confidence,
-        },
+        geology: mixSubCellGeology(
+          {
+            primaryLithology: resolved.geology.primaryLithology,
+            secondaryLithologies: resolved.geology.secondaryLithologies,
+            lithClass: resolved.geology.lithClass,
+            age: resolved.geology.age,
+            confidence: resolved.geology.confidence,
+          },
+          cellHash
+        ),
         biome: {
           type: resolved.biome.type,
           ecoregionId: resolved.biome.ecoregionId,
           realm: resolved.biome.realm || estimateRealmFromCoordinates(lat, lng),
           confidence: resolved.biome.confidence,
         },
-        altitude: buildAltitudeData(altitudeOptions),
+        altitude,
+        water: detailedTile.water,
+        regolith: detailedTile.regolith,
         dataSource: 'detailed',
-        geohash: detailedHash,
+        geohash: detailedTile.geohash,
+        cellGeohash: cellHash,
       };
     }
 
@@ -122,29 +156,55 @@ export class GeoDataService {
     });
 
     return {
-      geology: {
-        primaryLithology: resolved.geology.primaryLithology,
-        secondaryLithologies: resolved.geology.secondaryLithologies,
-        confidence: resolved.geology.confidence,
-      },
+      geology: mixSubCellGeology(
+        {
+          primaryLithology: resolved.geology.primaryLithology,
+          secondaryLithologies: resolved.geology.secondaryLithologies,
+          lithClass: resolved.geology.lithClass,
+          age: resolved.geology.age,
+          confidence: resolved.geology.confidence,
+        },
+        cellHash
+      ),
       biome: {
         type: resolved.biome.type,
         ecoregionId: resolved.biome.ecoregionId,
         realm: resolved.biome.realm || estimateRealmFromCoordinates(lat, lng),
         confidence: resolved.biome.confidence,
       },
-      altitude: buildAltitudeData(altitudeOptions),
+      altitude,
       dataSource: 'fallback',
       geohash: detailedHash,
+      cellGeohash: cellHash,
     };
   }
 
+  /**
+   * Keep the tiles around a location cached, so map scrolling can't evict them.
+   * Covers the fine and detailed cells with their neighbours, and the coarse cell
+   * used for fallbacks. Only reloads when the fine cell changes.
+   */
+  private async prefetchNeighbourhood(fineHash: string): Promise<void> {
+    if (fineHash === this.neighbourhoodHash) return;
+    this.neighbourhoodHash = fineHash;
+
+    const detailedHash = fineHash.substring(0, 4);
+    await this.tileLoader.prefetch([
+      fineHash,
+      ...geohashNeighbors(fineHash),
+      detailedHash,
+      ...geohashNeighbors(detailedHash),
+      fineHash.substring(0, 3),
+    ]);
+  }
+
   /**
    * Close the service and release resources
    */
   async close(): Promise<void> {
     await this.tileLoader.close();
     this.initialized = false;
+    this.neighbourhoodHash = null;
   }
 
   /**
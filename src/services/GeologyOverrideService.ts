@@ -0,0 +1,354 @@
+// GeologyOverrideService - Player-submitted corrections to tile geology
+// Pure override, signing and patch logic, plus table access through a small database adapter
+//
+// A player who knows their local rock can report it for the precision-5 tile they stand in.
+// Reports are kept in a local SQLite table and layered over the tile data, and can be
+// exported as a patch file for the next data build (buildSqliteBundle.ts --overrides=...).
+//
+// Patch file format (JSON):
+// {
+//   "format": "walkforage-geology-patch",
+//   "formatVersion": 1,
+//   "exportedAt": "2024-06-01T12:00:00.000Z",
+//   "confidence": 0.7,                      // Confidence to give the overrides in tiles
+//   "overrides": [{
+//     "id": "...", "geohash": "gcpvj", "lithology": "chalk",
+//     "evidence": "Chalk pits on the common",
+//     "createdAt": "2024-05-30T09:00:00.000Z",
+//     "authorId": "player_...",             // The reporting player's id
+//     "publicKey": "3d40...",               // The author's public key (hex)
+//     "signature": "9a1f..."                // Ed25519 signature of the fields above
+//   }]
+// }
+//
+// Each install has its own signing key, kept with its player id. Reports are signed with it,
+// so a report can't be edited without the signature failing, and every report from one
+// install carries the same public key. The data build drops reports whose signatures fail
+// and lists the public keys each patch was signed with.
+
+import { getPublicKey, isSigningKey, signMessage, verifyMessage } from '../utils/signing';
+import { encodeGeohash } from '../utils/geohash';
+import { STONES } from '../data/stones';
+import {
+  GEOLOGY_OVERRIDE_PRECISION,
+  MAX_OVERRIDE_EVIDENCE_LENGTH,
+  DEFAULT_OVERRIDE_CONFIDENCE,
+} from '../config/geologyOverrides';
+
+export const GEOLOGY_PATCH_FORMAT = 'walkforage-geology-patch';
+export const GEOLOGY_PATCH_FORMAT_VERSION = 1;
+export const GEOLOGY_PATCH_FILE_NAME = 'walkforage-geology-patch.json';
+
+/**
+ * A player's report of the rock in a tile
+ */
+export interface GeologyOverride {
+  id: string;
+  geohash: string;
+  lithology: string;
+  evidence: string;
+  createdAt: string; // ISO date string
+  authorId: string;
+  publicKey: string;
+  signature: string;
+}
+
+/**
+ * The reporting player: their id and the per-install key their reports are signed with
+ */
+export interface OverrideAuthor {
+  id: string;
+  signingKey: string;
+}
+
+/**
+ * What the player reports, before it is placed and signed
+ */
+export interface GeologyReport {
+  lat: number;
+  lng: number;
+  lithology: string;
+  evidence: string;
+}
+
+/**
+ * Exported overrides, ready for the data build
+ */
+export interface GeologyPatch {
+  format: typeof GEOLOGY_PATCH_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  confidence: number;
+  overrides: GeologyOverride[];
+}
+
+export type CreateOverrideResult =
+  | { success: true; override: GeologyOverride }
+  | { success: false; error: string };
+
+export type ParsePatchResult =
+  | { success: true; patch: GeologyPatch; rejected: number }
+  | { success: false; error: string };
+
+/**
+ * Minimal database surface used for the overrides table,
+ * so expo-sqlite (app) and better-sqlite3 (tests) can both be adapted
+ */
+export interface OverrideDatabase {
+  run(sql: string, params: (string | number)[]): Promise<void>;
+  getAll<T>(sql: string, params: (string | number)[]): Promise<T[]>;
+}
+
+interface OverrideRow {
+  id: string;
+  geohash: string;
+  lithology: string;
+  evidence: string;
+  created_at: string;
+  author_id: string;
+  public_key: string;
+  signature: string;
+}
+
+/**
+ * Lithologies a player can report: the main lithology of each stone
+ */
+export function getReportableLithologies(): { lithology: string; name: string }[] {
+  return STONES.map((stone) => ({ lithology: stone.lithologies[0], name: stone.name })).filter(
+    (entry, index, all) => all.findIndex((e) => e.lithology === entry.lithology) === index
+  );
+}
+
+function isReportableLithology(lithology: string): boolean {
+  return getReportableLithologies().some((entry) => entry.lithology === lithology);
+}
+
+/**
+ * The text an override's signature covers: every field but the signature
+ */
+export function getOverrideSignedText(override: Omit<GeologyOverride, 'signature'>): string {
+  return [
+    override.id,
+    override.geohash,
+    override.lithology,
+    override.evidence,
+    override.createdAt,
+    override.authorId,
+    override.publicKey,
+  ].join('\n');
+}
+
+/**
+ * Check an override is well formed and signed by its public key
+ */
+export function isValidOverride(override: GeologyOverride): boolean {
+  return (
+    typeof override.id === 'string' &&
+    typeof override.geohash === 'string' &&
+    override.geohash.length === GEOLOGY_OVERRIDE_PRECISION &&
+    typeof override.lithology === 'string' &&
+    override.lithology.length > 0 &&
+    typeof override.evidence === 'string' &&
+    typeof override.createdAt === 'string' &&
+    !Number.isNaN(Date.parse(override.createdAt)) &&
+    typeof override.authorId === 'string' &&
+    override.authorId.length > 0 &&
+    typeof override.publicKey === 'string' &&
+    verifyMessage(getOverrideSignedText(override), override.signature, override.publicKey)
+  );
+}
+
+/**
+ * Place a report in its tile, timestamp it and sign it with the author's key
+ */
+export function createGeologyOverride(
+  report: GeologyReport,
+  author: OverrideAuthor,
+  now: number = Date.now()
+): CreateOverrideResult {
+  const evidence = report.evidence.trim();
+  if (!isReportableLithology(report.lithology)) {
+    return { success: false, error: 'Choose a rock type to report' };
+  }
+  if (evidence.length > MAX_OVERRIDE_EVIDENCE_LENGTH) {
+    return {
+      success: false,
+      error: `Evidence must be ${MAX_OVERRIDE_EVIDENCE_LENGTH} characters or fewer`,
+    };
+  }
+  if (!author.id || !isSigningKey(author.signingKey)) {
+    return { success: false, error: 'Player id is not ready yet' };
+  }
+
+  const geohash = encodeGeohash(report.lat, report.lng, GEOLOGY_OVERRIDE_PRECISION);
+  const fields = {
+    id: `${geohash}_${now.toString(36)}`,
+    geohash,
+    lithology: report.lithology,
+    evidence,
+    createdAt: new Date(now).toISOString(),
+    authorId: author.id,
+    publicKey: getPublicKey(author.signingKey),
+  };
+  const signature = signMessage(getOverrideSignedText(fields), author.signingKey);
+  return { success: true, override: { ...fields, signature } };
+}
+
+/**
+ * Keep the latest override for each geohash
+ */
+export function getLatestOverrides(overrides: GeologyOverride[]): Map<string, GeologyOverride> {
+  const latest = new Map<string, GeologyOverride>();
+  for (const override of overrides) {
+    const current = latest.get(override.geohash);
+    if (!current || override.createdAt >= current.createdAt) {
+      latest.set(override.geohash, override);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Wrap overrides in a patch file for the data build
+ */
+export function createGeologyPatch(
+  overrides: GeologyOverride[],
+  confidence: number = DEFAULT_OVERRIDE_CONFIDENCE,
+  now: number = Date.now()
+): GeologyPatch {
+  return {
+    format: GEOLOGY_PATCH_FORMAT,
+    formatVersion: GEOLOGY_PATCH_FORMAT_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    confidence,
+    overrides,
+  };
+}
+
+export function serializeGeologyPatch(patch: GeologyPatch): string {
+  return JSON.stringify(patch, null, 2);
+}
+
+/**
+ * Parse a patch file. Overrides that are malformed or wrongly signed are dropped and counted.
+ */
+export function parseGeologyPatch(json: string): ParsePatchResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { success: false, error: 'Patch is not valid JSON' };
+  }
+  if (data === null || typeof data !== 'object') {
+    return { success: false, error: 'Not a WalkForage geology patch' };
+  }
+
+  const patch = data as Partial<GeologyPatch>;
+  if (patch.format !== GEOLOGY_PATCH_FORMAT) {
+    return { success: false, error: 'Not a WalkForage geology patch' };
+  }
+  if (
+    typeof patch.formatVersion !== 'number' ||
+    patch.formatVersion > GEOLOGY_PATCH_FORMAT_VERSION
+  ) {
+    return { success: false, error: 'Patch format is newer than this version supports' };
+  }
+  if (!Array.isArray(patch.overrides)) {
+    return { success: false, error: 'Patch has no overrides' };
+  }
+
+  const overrides = patch.overrides.filter(
+    (o): o is GeologyOverride => o !== null && typeof o === 'object' && isValidOverride(o)
+  );
+  const confidence =
+    typeof patch.confidence === 'number' && patch.confidence >= 0 && patch.confidence <= 1
+      ? patch.confidence
+      : DEFAULT_OVERRIDE_CONFIDENCE;
+
+  return {
+    success: true,
+    patch: {
+      format: GEOLOGY_PATCH_FORMAT,
+      formatVersion: patch.formatVersion,
+      exportedAt: typeof patch.exportedAt === 'string' ? patch.exportedAt : '',
+      confidence,
+      overrides,
+    },
+    rejected: patch.overrides.length - overrides.length,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Overrides table
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const CREATE_OVERRIDE_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS geology_overrides (
+    id TEXT PRIMARY KEY,
+    geohash TEXT NOT NULL,
+    lithology TEXT NOT NULL,
+    evidence TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    author_id TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    signature TEXT NOT NULL
+  )
+`;
+
+export async function saveOverride(db: OverrideDatabase, override: GeologyOverride): Promise<void> {
+  await db.run(
+    `INSERT OR REPLACE INTO geology_overrides
+     (id, geohash, lithology, evidence, created_at, author_id, public_key, signature)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      override.id,
+      override.geohash,
+      override.lithology,
+      override.evidence,
+      override.createdAt,
+      override.authorId,
+      override.publicKey,
+      override.signature,
+    ]
+  );
+}
+
+export async function deleteOverride(db: OverrideDatabase, id: string): Promise<void> {
+  await db.run('DELETE FROM geology_overrides WHERE id = ?', [id]);
+}
+
+/**
+ * Read all overrides, oldest first. Rows whose signature no longer matches are skipped.
+ */
+export async function listOverrides(db: OverrideDatabase): Promise<GeologyOverride[]> {
+  const rows = await db.getAll<OverrideRow>(
+    'SELECT * FROM geology_overrides ORDER BY created_at, id',
+    []
+  );
+  return rows
+    .map((row) => ({
+      id: row.id,
+      geohash: row.geohash,
+      lithology: row.lithology,
+      evidence: row.evidence,
+      createdAt: row.created_at,
+      authorId: row.author_id,
+      publicKey: row.public_key,
+      signature: row.signature,
+    }))
+    .filter(isValidOverride);
+}
+
+export const GeologyOverrideService = {
+  getReportableLithologies,
+  getOverrideSignedText,
+  isValidOverride,
+  createGeologyOverride,
+  getLatestOverrides,
+  createGeologyPatch,
+  serializeGeologyPatch,
+  parseGeologyPatch,
+  saveOverride,
+  deleteOverride,
+  listOverrides,
+};
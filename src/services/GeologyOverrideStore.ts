@@ -0,0 +1,59 @@
+/**
+ * Geology Override Store
+ *
+ * Keeps player-reported geology overrides in a local SQLite database,
+ * separate from tiles.db so data updates never touch them.
+ */
+
+import * as SQLite from 'expo-sqlite';
+import {
+  CREATE_OVERRIDE_TABLE_SQL,
+  GeologyOverride,
+  OverrideDatabase,
+  deleteOverride,
+  listOverrides,
+  saveOverride,
+} from './GeologyOverrideService';
+
+const OVERRIDE_DB_NAME = 'geology-overrides.db';
+
+let databasePromise: Promise<OverrideDatabase> | null = null;
+
+/**
+ * Adapt an expo-sqlite database for the overrides table
+ */
+function createOverrideDatabase(db: SQLite.SQLiteDatabase): OverrideDatabase {
+  return {
+    run: async (sql, params) => {
+      await db.runAsync(sql, params);
+    },
+    getAll: (sql, params) => db.getAllAsync(sql, params),
+  };
+}
+
+async function openOverrideDatabase(): Promise<OverrideDatabase> {
+  const db = await SQLite.openDatabaseAsync(OVERRIDE_DB_NAME);
+  await db.execAsync(CREATE_OVERRIDE_TABLE_SQL);
+  return createOverrideDatabase(db);
+}
+
+function getDatabase(): Promise<OverrideDatabase> {
+  databasePromise ??= openOverrideDatabase().catch((error) => {
+    // Allow a later call to retry after a failed open.
+    databasePromise = null;
+    throw error;
+  });
+  return databasePromise;
+}
+
+export async function loadGeologyOverrides(): Promise<GeologyOverride[]> {
+  return listOverrides(await getDatabase());
+}
+
+export async function saveGeologyOverride(override: GeologyOverride): Promise<void> {
+  await saveOverride(await getDatabase(), override);
+}
+
+export async function deleteGeologyOverride(id: string): Promise<void> {
+  await deleteOverride(await getDatabase(), id);
+}
@@ -0,0 +1,67 @@
+/**
+ * Geology Override Tile Loader
+ *
+ * In-memory TileLoader serving player-reported geology as precision-5 tiles.
+ * Meant as the top layer of a CompositeTileLoader: the tiles carry no biome,
+ * so GeoDataService fills it in from the precision-4 tile underneath.
+ */
+
+import { TileLoader, TileCacheStats } from './TileLoader';
+import { GeologyOverride, getLatestOverrides } from './GeologyOverrideService';
+import { DEFAULT_OVERRIDE_CONFIDENCE } from '../config/geologyOverrides';
+import { getLithClass } from '../data/gis';
+import { GeoTile } from '../types/gis';
+
+export class GeologyOverrideTileLoader implements TileLoader {
+  private tiles = new Map<string, GeoTile>();
+  private confidence: number;
+
+  constructor(overrides: GeologyOverride[] = [], confidence = DEFAULT_OVERRIDE_CONFIDENCE) {
+    this.confidence = confidence;
+    this.setOverrides(overrides);
+  }
+
+  /**
+   * Replace the overrides being served (the latest report per geohash wins)
+   */
+  setOverrides(overrides: GeologyOverride[]): void {
+    this.tiles = new Map();
+    for (const [geohash, override] of getLatestOverrides(overrides)) {
+      const lithClass = getLithClass(override.lithology);
+      this.tiles.set(geohash, {
+        geohash,
+        geology: {
+          primaryLithology: override.lithology,
+          secondaryLithologies: [],
+          ...(lithClass && { lithClass }),
+          confidence: this.confidence,
+        },
+        biome: { type: 'unknown', confidence: 0 },
+      });
+    }
+  }
+
+  getTile(geohash: string): GeoTile | null {
+    return this.tiles.get(geohash) ?? null;
+  }
+
+  getTiles(geohashes: string[]): GeoTile[] {
+    return [...new Set(geohashes)].flatMap((geohash) => this.tiles.get(geohash) ?? []);
+  }
+
+  prefetch(): void {
+    // Everything is already in memory
+  }
+
+  initialize(): void {}
+
+  close(): void {}
+
+  clearCache(): void {
+    // Overrides are the data, not a cache
+  }
+
+  getCacheStats(): TileCacheStats {
+    return { filesCached: 0, tilesCached: 0, bytesCached: 0, hits: 0, misses: 0, evictions: 0 };
+  }
+}
@@ -0,0 +1,190 @@
+// GpsStepService - Step-equivalents estimated from GPS distance walked
+// Fallback for web and devices without Health Connect/HealthKit, with the same
+// interface as HealthService. Only distance tracked while the app is open counts.
+
+import { Linking } from 'react-native';
+import * as Location from 'expo-location';
+import {
+  ActivityAmounts,
+  ActivitySource,
+  HealthPermissionStatus,
+  StepDataService,
+  StepOrigin,
+  StepSource,
+} from '../types/health';
+import {
+  GPS_DISTANCE_FILTER,
+  GPS_DISTANCE_RETENTION_MS,
+  GPS_STEPS_PER_METER,
+  GpsDistanceFilter,
+  GpsFix,
+  advanceGpsTrack,
+} from '../config/gpsDistance';
+
+// Distance walked up to a fix
+interface WalkedSegment {
+  at: number; // Timestamp of the fix that ended the segment
+  meters: number;
+}
+
+function toPermissionStatus(status: Location.PermissionStatus): HealthPermissionStatus {
+  switch (status) {
+    case Location.PermissionStatus.GRANTED:
+      return 'authorized';
+    case Location.PermissionStatus.DENIED:
+      return 'denied';
+    default:
+      return 'not_determined';
+  }
+}
+
+export class GpsStepService implements StepDataService {
+  private permissionStatus: HealthPermissionStatus = 'not_determined';
+  private anchor: GpsFix | null = null;
+  private segments: WalkedSegment[] = [];
+
+  constructor(private readonly filter: GpsDistanceFilter = GPS_DISTANCE_FILTER) {}
+
+  /**
+   * Record a location fix from tracking. Distance is only counted once jitter,
+   * inaccurate fixes and vehicle speeds have been filtered out.
+   */
+  recordLocation(fix: GpsFix): void {
+    const { anchor, meters } = advanceGpsTrack(this.anchor, fix, this.filter);
+    this.anchor = anchor;
+    if (meters > 0) {
+      this.segments.push({ at: fix.timestamp, meters });
+    }
+    const oldest = fix.timestamp - GPS_DISTANCE_RETENTION_MS;
+    if (this.segments.length > 0 && this.segments[0].at < oldest) {
+      this.segments = this.segments.filter((segment) => segment.at >= oldest);
+    }
+  }
+
+  /**
+   * Distance walked after a timestamp, in metres
+   */
+  getDistanceSince(sinceTimestamp: number): number {
+    return this.segments
+      .filter((segment) => segment.at > sinceTimestamp)
+      .reduce((total, segment) => total + segment.meters, 0);
+  }
+
+  /**
+   * Nothing to set up; location permission is checked separately
+   */
+  async initialize(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Check if location permission is already granted (without requesting)
+   */
+  async checkPermission(): Promise<HealthPermissionStatus> {
+    try {
+      const { status } = await Location.getForegroundPermissionsAsync();
+      this.permissionStatus = toPermissionStatus(status);
+    } catch (error) {
+      console.warn('Check location permission failed:', error);
+    }
+    return this.permissionStatus;
+  }
+
+  /**
+   * Request location permission
+   */
+  async requestPermission(): Promise<HealthPermissionStatus> {
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      this.permissionStatus = toPermissionStatus(status);
+    } catch (error) {
+      console.error('Location permission request failed:', error);
+    }
+    return this.permissionStatus;
+  }
+
+  /**
+   * Step-equivalents walked since a timestamp. There's only one device, so
+   * the preferred origin is ignored.
+   */
+  async getStepsSince(sinceTimestamp: number): Promise<number> {
+    return Math.floor(this.getDistanceSince(sinceTimestamp) * GPS_STEPS_PER_METER);
+  }
+
+  /**
+   * Step-equivalents since a timestamp, for whichever sources include steps
+   */
+  async getActivitySince(
+    sinceTimestamp: number,
+    sources: ActivitySource[]
+  ): Promise<ActivityAmounts> {
+    return sources.includes('steps') ? { steps: await this.getStepsSince(sinceTimestamp) } : {};
+  }
+
+  /**
+   * Only steps can be estimated from distance walked
+   */
+  getSupportedActivitySources(): ActivitySource[] {
+    return ['steps'];
+  }
+
+  /**
+   * GPS has no apps or devices to choose between
+   */
+  async getStepOrigins(): Promise<StepOrigin[]> {
+    return [];
+  }
+
+  /**
+   * Get today's step-equivalents
+   */
+  async getTodaySteps(): Promise<number> {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    return this.getStepsSince(startOfDay.getTime());
+  }
+
+  getPermissionStatus(): HealthPermissionStatus {
+    return this.permissionStatus;
+  }
+
+  /**
+   * Location is available on every platform, including web
+   */
+  isAvailable(): boolean {
+    return true;
+  }
+
+  getStepSource(): StepSource {
+    return 'gps';
+  }
+
+  isInitialized(): boolean {
+    return true;
+  }
+
+  needsHealthConnectInstall(): boolean {
+    return false;
+  }
+
+  /**
+   * Open the app's settings, where location permission is managed
+   */
+  async openHealthSettings(): Promise<boolean> {
+    try {
+      await Linking.openSettings();
+      return true;
+    } catch (error) {
+      console.error('Failed to open settings:', error);
+      return false;
+    }
+  }
+
+  async openHealthConnectPlayStore(): Promise<boolean> {
+    return false;
+  }
+}
+
+// Export singleton instance
+export const gpsStepService = new GpsStepService();
+export default gpsStepService;
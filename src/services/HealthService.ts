@@ -1,8 +1,19 @@
 // HealthService - Cross-platform wrapper for step counting
 // Uses HealthConnect on Android and HealthKit on iOS
+// Steps written by several devices (e.g. phone and watch) are only counted once
+// Distance, wheelchair pushes and active energy are read too, where the platform has them
 
 import { Platform, Linking } from 'react-native';
-import { HealthPermissionStatus } from '../types/health';
+import {
+  ActivityAmounts,
+  ActivitySource,
+  HealthPermissionStatus,
+  StepDataService,
+  StepOrigin,
+  StepSource,
+} from '../types/health';
+import { DEFAULT_ACTIVITY_SOURCES } from '../config/effort';
+import { StepRecordSample, mergeStepRecordsByOrigin } from '../utils/stepRecords';
 
 // Conditional imports - these will be resolved at build time
 let HealthConnect: typeof import('react-native-health-connect') | null = null;
@@ -15,6 +26,49 @@ const SDK_STATUS = {
   SDK_AVAILABLE: 3,
 } as const;
 
+// Origin for records that don't say which app wrote them
+const UNKNOWN_ORIGIN = 'unknown';
+
+// How far back to look for devices the player can choose between
+const STEP_ORIGIN_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Health Connect record type for each activity source it provides
+const HEALTH_CONNECT_RECORD_TYPES = {
+  steps: 'Steps',
+  distance: 'Distance',
+  wheelchair_pushes: 'WheelchairPushes',
+  active_energy: 'ActiveCaloriesBurned',
+} as const satisfies Partial<Record<ActivitySource, string>>;
+
+// HealthKit quantity type and unit for each activity source it provides
+const HEALTHKIT_QUANTITY_TYPES = {
+  steps: { identifier: 'HKQuantityTypeIdentifierStepCount', unit: 'count' },
+  distance_walking_running: {
+    identifier: 'HKQuantityTypeIdentifierDistanceWalkingRunning',
+    unit: 'm',
+  },
+  distance_cycling: { identifier: 'HKQuantityTypeIdentifierDistanceCycling', unit: 'm' },
+  distance_wheelchair: { identifier: 'HKQuantityTypeIdentifierDistanceWheelchair', unit: 'm' },
+  wheelchair_pushes: { identifier: 'HKQuantityTypeIdentifierPushCount', unit: 'count' },
+  active_energy: { identifier: 'HKQuantityTypeIdentifierActiveEnergyBurned', unit: 'kcal' },
+} as const satisfies Partial<Record<ActivitySource, { identifier: string; unit: string }>>;
+
+type HealthConnectSource = keyof typeof HEALTH_CONNECT_RECORD_TYPES;
+type HealthKitSource = keyof typeof HEALTHKIT_QUANTITY_TYPES;
+
+function isHealthConnectSource(source: ActivitySource): source is HealthConnectSource {
+  return source in HEALTH_CONNECT_RECORD_TYPES;
+}
+
+function isHealthKitSource(source: ActivitySource): source is HealthKitSource {
+  return source in HEALTHKIT_QUANTITY_TYPES;
+}
+
+// Health Connect record types to read for the given sources
+function getHealthConnectRecordTypes(sources: ActivitySource[]) {
+  return sources.filter(isHealthConnectSource).map((s) => HEALTH_CONNECT_RECORD_TYPES[s]);
+}
+
 // Lazy load platform-specific health modules
 async function loadHealthModule(): Promise<void> {
   try {
@@ -28,7 +82,7 @@ async function loadHealthModule(): Promise<void> {
   }
 }
 
-export class HealthService {
+export class HealthService implements StepDataService {
   private initialized = false;
   private permissionStatus: HealthPermissionStatus = 'not_determined';
   private sdkStatus: number = SDK_STATUS.SDK_UNAVAILABLE;
@@ -90,8 +144,11 @@ export class HealthService {
 
   /**
    * Check if we already have permission (without requesting)
+   * @param sources - Activity sources to check; any one granted counts as authorized
    */
-  async checkPermission(): Promise<HealthPermissionStatus> {
+  async checkPermission(
+    sources: ActivitySource[] = DEFAULT_ACTIVITY_SOURCES
+  ): Promise<HealthPermissionStatus> {
     if (!this.initialized) {
       const success = await this.initialize();
       if (!success) return this.permissionStatus;
@@ -100,12 +157,13 @@ export class HealthService {
     try {
       if (Platform.OS === 'android' && HealthConnect) {
         // Check existing permissions without requesting
+        const recordTypes: string[] = getHealthConnectRecordTypes(sources);
         const granted = await HealthConnect.getGrantedPermissions();
-        const hasStepsPermission = granted.some(
-          (p) => p.recordType === 'Steps' && p.accessType === 'read'
+        const hasReadPermission = granted.some(
+          (p) => recordTypes.includes(p.recordType) && p.accessType === 'read'
         );
 
-        this.permissionStatus = hasStepsPermission ? 'authorized' : 'not_determined';
+        this.permissionStatus = hasReadPermission ? 'authorized' : 'not_determined';
         return this.permissionStatus;
       }
     } catch (error) {
@@ -116,9 +174,12 @@ export class HealthService {
   }
 
   /**
-   * Request permission to read step data
+   * Request permission to read activity data
+   * @param sources - Activity sources to read; any one granted counts as authorized
    */
-  async requestPermission(): Promise<HealthPermissionStatus> {
+  async requestPermission(
+    sources: ActivitySource[] = DEFAULT_ACTIVITY_SOURCES
+  ): Promise<HealthPermissionStatus> {
     if (!this.initialized) {
       const success = await this.initialize();
       if (!success) {
@@ -129,10 +190,11 @@ export class HealthService {
 
     try {
       if (Platform.OS === 'android' && HealthConnect) {
-        // First check if we already have permission
+        // First check if we already have permission for every source
+        const recordTypes = getHealthConnectRecordTypes(sources);
         const granted = await HealthConnect.getGrantedPermissions();
-        const alreadyHasPermission = granted.some(
-          (p) => p.recordType === 'Steps' && p.accessType === 'read'
+        const alreadyHasPermission = recordTypes.every((recordType) =>
+          granted.some((p) => p.recordType === recordType && p.accessType === 'read')
         );
 
         if (alreadyHasPermission) {
@@ -144,24 +206,26 @@ export class HealthService {
         if (__DEV__) {
           console.log('Requesting Health Connect permission...');
         }
-        const permissions = await HealthConnect.requestPermission([
-          { accessType: 'read', recordType: 'Steps' },
-        ]);
+        const permissions = await HealthConnect.requestPermission(
+          recordTypes.map((recordType) => ({ accessType: 'read' as const, recordType }))
+        );
         if (__DEV__) {
           console.log('Permission response:', JSON.stringify(permissions));
         }
 
-        // Check if steps permission was granted
-        const hasStepsPermission = permissions.some(
-          (p) => p.recordType === 'Steps' && p.accessType === 'read'
+        // Check if any read permission was granted
+        const hasReadPermission = permissions.some(
+          (p) => (recordTypes as string[]).includes(p.recordType) && p.accessType === 'read'
         );
 
-        this.permissionStatus = hasStepsPermission ? 'authorized' : 'denied';
+        this.permissionStatus = hasReadPermission ? 'authorized' : 'denied';
         return this.permissionStatus;
       } else if (Platform.OS === 'ios' && HealthKit) {
-        // Request authorization for step count
+        // Request authorization for each source's quantity type
         await HealthKit.requestAuthorization({
-          toRead: ['HKQuantityTypeIdentifierStepCount'],
+          toRead: sources
+            .filter(isHealthKitSource)
+            .map((source) => HEALTHKIT_QUANTITY_TYPES[source].identifier),
         });
 
         // iOS doesn't tell us if permission was granted, assume authorized
@@ -180,11 +244,17 @@ export class HealthService {
   }
 
   /**
-   * Get step count since a given timestamp
+   * Get step count since a given timestamp, counting overlapping records from
+   * different devices once
    * @param sinceTimestamp - Start time for step count (ms since epoch)
+   * @param preferredOrigin - App whose steps to count when devices overlap
+   *   (null lets the platform merge sources)
    * @returns Number of steps since the given time
    */
-  async getStepsSince(sinceTimestamp: number): Promise<number> {
+  async getStepsSince(
+    sinceTimestamp: number,
+    preferredOrigin: string | null = null
+  ): Promise<number> {
     if (!this.initialized) {
       const success = await this.initialize();
       if (!success) return 0;
@@ -193,6 +263,180 @@ export class HealthService {
     const startDate = new Date(sinceTimestamp);
     const endDate = new Date();
 
+    try {
+      if (Platform.OS === 'android' && HealthConnect) {
+        const timeRangeFilter = {
+          operator: 'between' as const,
+          startTime: startDate.toISOString(),
+          endTime: endDate.toISOString(),
+        };
+
+        // Without a preference, Health Connect's aggregate merges origins using
+        // the app priority the user set in Health Connect
+        if (preferredOrigin === null) {
+          try {
+            const aggregate = await HealthConnect.aggregateRecord({
+              recordType: 'Steps',
+              timeRangeFilter,
+            });
+            return Math.floor(Number(aggregate?.COUNT_TOTAL) || 0);
+          } catch (error) {
+            // Older Health Connect providers can't aggregate; merge records ourselves
+            console.warn('Step aggregation failed, merging records:', error);
+          }
+        }
+
+        const result = await HealthConnect.readRecords('Steps', { timeRangeFilter });
+        return Math.floor(
+          mergeStepRecordsByOrigin(toStepRecordSamples(result?.records), preferredOrigin)
+        );
+      } else if (Platform.OS === 'ios' && HealthKit) {
+        // Statistics queries merge overlapping samples from every source
+        const options = { filter: { date: { startDate, endDate } }, unit: 'count' };
+
+        if (preferredOrigin !== null) {
+          const bySource = await HealthKit.queryStatisticsForQuantitySeparateBySource(
+            'HKQuantityTypeIdentifierStepCount',
+            ['cumulativeSum'],
+            options
+          );
+          const preferred = (bySource ?? []).find(
+            (stats) => stats?.source?.bundleIdentifier === preferredOrigin
+          );
+          // Fall back to every source if the preferred one recorded nothing
+          const preferredSteps = Number(preferred?.sumQuantity?.quantity) || 0;
+          if (preferredSteps > 0) return Math.floor(preferredSteps);
+        }
+
+        const stats = await HealthKit.queryStatisticsForQuantity(
+          'HKQuantityTypeIdentifierStepCount',
+          ['cumulativeSum'],
+          options
+        );
+        // Defensive: malformed/NaN payload -> 0
+        return Math.floor(Number(stats?.sumQuantity?.quantity) || 0);
+      }
+
+      return 0;
+    } catch (error) {
+      console.error('Failed to read steps:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the amount of each activity source since a given timestamp, in each
+   * source's unit. Sources the platform doesn't provide, or that can't be read,
+   * are 0.
+   * @param sinceTimestamp - Start time (ms since epoch)
+   * @param sources - Activity sources to read
+   * @param preferredOrigin - App whose steps to count when devices overlap
+   */
+  async getActivitySince(
+    sinceTimestamp: number,
+    sources: ActivitySource[],
+    preferredOrigin: string | null = null
+  ): Promise<ActivityAmounts> {
+    const amounts: ActivityAmounts = {};
+    for (const source of sources) {
+      amounts[source] =
+        source === 'steps'
+          ? await this.getStepsSince(sinceTimestamp, preferredOrigin)
+          : await this.getActivityAmountSince(source, sinceTimestamp);
+    }
+    return amounts;
+  }
+
+  /**
+   * Read one non-step activity source, merged across apps by the platform
+   */
+  private async getActivityAmountSince(
+    source: ActivitySource,
+    sinceTimestamp: number
+  ): Promise<number> {
+    if (!this.initialized) {
+      const success = await this.initialize();
+      if (!success) return 0;
+    }
+
+    const startDate = new Date(sinceTimestamp);
+    const endDate = new Date();
+
+    try {
+      if (Platform.OS === 'android' && HealthConnect && isHealthConnectSource(source)) {
+        const timeRangeFilter = {
+          operator: 'between' as const,
+          startTime: startDate.toISOString(),
+          endTime: endDate.toISOString(),
+        };
+        // Defensive: malformed/NaN payload -> 0
+        switch (HEALTH_CONNECT_RECORD_TYPES[source]) {
+          case 'Distance': {
+            const result = await HealthConnect.aggregateRecord({
+              recordType: 'Distance',
+              timeRangeFilter,
+            });
+            return Number(result?.DISTANCE?.inMeters) || 0;
+          }
+          case 'WheelchairPushes': {
+            const result = await HealthConnect.aggregateRecord({
+              recordType: 'WheelchairPushes',
+              timeRangeFilter,
+            });
+            return Number(result?.COUNT_TOTAL) || 0;
+          }
+          case 'ActiveCaloriesBurned': {
+            const result = await HealthConnect.aggregateRecord({
+              recordType: 'ActiveCaloriesBurned',
+              timeRangeFilter,
+            });
+            return Number(result?.ACTIVE_CALORIES_TOTAL?.inKilocalories) || 0;
+          }
+          default:
+            return 0;
+        }
+      } else if (Platform.OS === 'ios' && HealthKit && isHealthKitSource(source)) {
+        const { identifier, unit } = HEALTHKIT_QUANTITY_TYPES[source];
+        const stats = await HealthKit.queryStatisticsForQuantity(identifier, ['cumulativeSum'], {
+          filter: { date: { startDate, endDate } },
+          unit,
+        });
+        return Number(stats?.sumQuantity?.quantity) || 0;
+      }
+
+      return 0;
+    } catch (error) {
+      console.warn(`Failed to read ${source}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Activity sources this platform can provide
+   */
+  getSupportedActivitySources(): ActivitySource[] {
+    if (Platform.OS === 'android') {
+      return Object.keys(HEALTH_CONNECT_RECORD_TYPES) as ActivitySource[];
+    }
+    if (Platform.OS === 'ios') {
+      return Object.keys(HEALTHKIT_QUANTITY_TYPES) as ActivitySource[];
+    }
+    return [];
+  }
+
+  /**
+   * Get the apps that recorded steps over the last week, for choosing a preferred
+   * source device. Returns an empty list if steps can't be read.
+   */
+  async getStepOrigins(): Promise<StepOrigin[]> {
+    if (!this.initialized) {
+      const success = await this.initialize();
+      if (!success) return [];
+    }
+
+    const startDate = new Date(Date.now() - STEP_ORIGIN_LOOKBACK_MS);
+    const endDate = new Date();
+
     try {
       if (Platform.OS === 'android' && HealthConnect) {
         const result = await HealthConnect.readRecords('Steps', {
@@ -202,38 +446,31 @@ export class HealthService {
             endTime: endDate.toISOString(),
           },
         });
-
-        // Sum up all step records (defensive: malformed/NaN payload -> 0)
-        const totalSteps = (result?.records ?? []).reduce(
-          (sum, record) => sum + (Number(record?.count) || 0),
-          0
-        );
-        return Math.floor(totalSteps);
+        const origins = new Map<string, StepOrigin>();
+        for (const record of result?.records ?? []) {
+          const id = record?.metadata?.dataOrigin;
+          if (!id || origins.has(id)) continue;
+          const device = [record.metadata?.device?.manufacturer, record.metadata?.device?.model]
+            .filter(Boolean)
+            .join(' ');
+          origins.set(id, { id, name: device ? `${device} (${id})` : id });
+        }
+        return [...origins.values()];
       } else if (Platform.OS === 'ios' && HealthKit) {
-        // Query step samples from HealthKit
-        const samples = await HealthKit.queryQuantitySamples('HKQuantityTypeIdentifierStepCount', {
-          limit: 0, // 0 or negative means no limit
-          filter: {
-            date: {
-              startDate,
-              endDate,
-            },
-          },
-          unit: 'count',
-        });
-
-        // Sum up all step samples (defensive: malformed/NaN payload -> 0)
-        const totalSteps = (samples ?? []).reduce(
-          (sum, sample) => sum + (Number(sample?.quantity) || 0),
-          0
+        const bySource = await HealthKit.queryStatisticsForQuantitySeparateBySource(
+          'HKQuantityTypeIdentifierStepCount',
+          ['cumulativeSum'],
+          { filter: { date: { startDate, endDate } }, unit: 'count' }
         );
-        return Math.floor(totalSteps);
+        return (bySource ?? [])
+          .filter((stats) => stats?.source?.bundleIdentifier)
+          .map(({ source }) => ({ id: source.bundleIdentifier, name: source.name }));
       }
 
-      return 0;
+      return [];
     } catch (error) {
-      console.error('Failed to read steps:', error);
-      return 0;
+      console.error('Failed to read step origins:', error);
+      return [];
     }
   }
 
@@ -260,6 +497,13 @@ export class HealthService {
     return Platform.OS === 'android' || Platform.OS === 'ios';
   }
 
+  /**
+   * Where synced steps come from on this platform, for the step ledger
+   */
+  getStepSource(): StepSource {
+    return Platform.OS === 'ios' ? 'healthkit' : 'health_connect';
+  }
+
   /**
    * Check if service is initialized
    */
@@ -343,6 +587,20 @@ export class HealthService {
   }
 }
 
+// Reduce Health Connect step records to what merging needs
+// (defensive: malformed/NaN payload -> 0 steps)
+function toStepRecordSamples(
+  records:
+    | { count?: unknown; startTime?: unknown; metadata?: { dataOrigin?: string } }[]
+    | undefined
+): StepRecordSample[] {
+  return (records ?? []).map((record) => ({
+    origin: record?.metadata?.dataOrigin || UNKNOWN_ORIGIN,
+    startTime: typeof record?.startTime === 'string' ? Date.parse(record.startTime) : NaN,
+    count: Number(record?.count) || 0,
+  }));
+}
+
 // Export singleton instance
 export const healthService = new HealthService();
 export default healthService;
@@ -6,39 +6,33 @@
 
 import Database from 'better-sqlite3';
 import { resolve } from 'path';
-import { TileLoader } from './TileLoader';
-import { GeoTile, BiomeData, GeologyData } from '../types/gis';
+import { TileLoader, TileCacheStats } from './TileLoader';
+import { TileCache, TileCacheOptions } from './TileCache';
+import { TileRow } from './TileDeltaService';
+import { GeoTile, BiomeData, GeologyData, RegolithData, WaterData } from '../types/gis';
+import { decodeElevationCells } from '../utils/elevation';
 import { BiomeCode } from '../types/resources';
 
-/**
- * Database row type from tiles table
- */
-interface TileRow {
-  geohash: string;
-  prefix: string;
-  primary_lithology: string;
-  secondary_lithologies: string;
-  geology_confidence: number;
-  biome_type: string;
-  biome_confidence: number;
-  ecoregion_id: number | null;
-  realm_biome: string | null;
-  realm: string | null;
-}
-
 /**
  * Node.js-based tile loader using better-sqlite3
  */
 export class NodeTileLoader implements TileLoader {
   private db: Database.Database | null = null;
   private dbPath: string;
+  private tileCache: TileCache;
 
-  constructor(dbPath?: string) {
+  constructor(dbPath?: string, cacheOptions?: TileCacheOptions) {
     // Default path relative to this file's location
     this.dbPath = dbPath || resolve(__dirname, '../../assets/gis/tiles.db');
+    this.tileCache = new TileCache(cacheOptions);
   }
 
   getTile(geohash: string): GeoTile | null {
+    const cached = this.tileCache.get(geohash);
+    if (cached !== undefined) {
+      return cached;
+    }
+
     if (!this.db) {
       this.initialize();
     }
@@ -49,8 +43,9 @@ export class NodeTileLoader implements TileLoader {
       const stmt = this.db.prepare('SELECT * FROM tiles WHERE geohash = ?');
       const row = stmt.get(geohash) as TileRow | undefined;
 
-      if (!row) return null;
-      return this.rowToTile(row);
+      const tile = row ? this.rowToTile(row) : null;
+      this.tileCache.set(geohash, tile);
+      return tile;
     } catch (error) {
       console.warn(`Failed to get tile ${geohash}:`, error);
       return null;
@@ -60,23 +55,33 @@ export class NodeTileLoader implements TileLoader {
   getTiles(geohashes: string[]): GeoTile[] {
     if (geohashes.length === 0) return [];
 
+    const { tiles, missing } = this.tileCache.getMany(geohashes);
+    if (missing.length === 0) return tiles;
+
     if (!this.db) {
       this.initialize();
     }
 
-    if (!this.db) return [];
+    if (!this.db) return tiles;
 
     try {
-      const placeholders = geohashes.map(() => '?').join(',');
+      const placeholders = missing.map(() => '?').join(',');
       const stmt = this.db.prepare(`SELECT * FROM tiles WHERE geohash IN (${placeholders})`);
-      const rows = stmt.all(...geohashes) as TileRow[];
-      return rows.map((row) => this.rowToTile(row));
+      const rows = stmt.all(...missing) as TileRow[];
+      const found = rows.map((row) => this.rowToTile(row));
+      this.tileCache.setMany(missing, found);
+      return [...tiles, ...found];
     } catch (error) {
       console.warn('Failed to get tiles batch:', error);
-      return [];
+      return tiles;
     }
   }
 
+  prefetch(geohashes: string[]): void {
+    this.tileCache.pin(geohashes);
+    this.getTiles(geohashes);
+  }
+
   initialize(): void {
     if (this.db) return;
 
@@ -96,18 +101,19 @@ export class NodeTileLoader implements TileLoader {
   }
 
   clearCache(): void {
-    // No caching in NodeTileLoader - prepared statements are reused but not cached
+    this.tileCache.clear();
   }
 
-  getCacheStats(): { filesCached: number; tilesCached: number } {
-    // No caching in NodeTileLoader
-    return { filesCached: 0, tilesCached: 0 };
+  getCacheStats(): TileCacheStats {
+    return this.tileCache.getStats();
   }
 
   private rowToTile(row: TileRow): GeoTile {
     const geology: GeologyData = {
       primaryLithology: row.primary_lithology,
       secondaryLithologies: JSON.parse(row.secondary_lithologies || '[]'),
+      ...(row.lith_class != null && { lithClass: row.lith_class }),
+      ...(row.age != null && { age: row.age }),
       confidence: row.geology_confidence,
     };
 
@@ -118,10 +124,27 @@ export class NodeTileLoader implements TileLoader {
       ...(row.realm != null && { realm: row.realm }),
     };
 
+    const water: WaterData | undefined =
+      row.is_lake != null
+        ? {
+            isLake: row.is_lake === 1,
+            ...(row.coast_distance_km != null && { coastDistanceKm: row.coast_distance_km }),
+            ...(row.river_distance_km != null && { riverDistanceKm: row.river_distance_km }),
+          }
+        : undefined;
+
+    const regolith: RegolithData | undefined =
+      row.regolith != null ? { material: row.regolith, cover: row.regolith_cover ?? 1 } : undefined;
+
+    const elevation = row.elevation != null ? decodeElevationCells(row.elevation) : undefined;
+
     return {
       geohash: row.geohash,
       geology,
       biome,
+      ...(water && { water }),
+      ...(regolith && { regolith }),
+      ...(elevation && { elevation }),
     };
   }
 }
@@ -0,0 +1,211 @@
+// RegionPackService - Offline region packs of detailed GIS tiles
+// Pure pack metadata, bounds and ordering logic; file and database access stays in the loaders
+//
+// A region pack is a small SQLite file with the same `tiles` table as tiles.db,
+// covering one bounding box down to precision-5 (~5km). Its `metadata` table holds:
+//   format        "walkforage-region-pack"
+//   formatVersion 1
+//   id            File-safe id, also the pack's file name ("london" → london.db)
+//   name          Display name ("London")
+//   bounds        JSON GeohashBounds of the area covered
+//   baseVersion   Manifest version of the tiles.db bundle the pack was built against
+//   generatedAt   ISO date string
+//   tileCount     Number of rows in tiles
+//   maxPrecision  Longest geohash in tiles
+
+import { GeohashBounds } from '../types/gis';
+import { geohashBounds } from '../utils/geohash';
+
+export const REGION_PACK_FORMAT = 'walkforage-region-pack';
+export const REGION_PACK_FORMAT_VERSION = 1;
+
+/** Folder in the document directory that installed packs are kept in */
+export const REGION_PACK_DIRECTORY = 'gis-regions';
+
+/**
+ * What a region pack covers, read from its metadata table
+ */
+export interface RegionPackInfo {
+  id: string;
+  name: string;
+  bounds: GeohashBounds;
+  baseVersion: string;
+  generatedAt: string;
+  tileCount: number;
+  maxPrecision: number;
+}
+
+/**
+ * A row of a pack's metadata table
+ */
+export interface MetadataRow {
+  key: string;
+  value: string;
+}
+
+/**
+ * Result of reading a pack's metadata
+ */
+export type ParseRegionPackResult =
+  | { success: true; info: RegionPackInfo }
+  | { success: false; error: string };
+
+/**
+ * Check a pack id is safe to use as a file name
+ */
+export function isValidRegionPackId(id: string): boolean {
+  return /^[a-z0-9][a-z0-9_-]*$/.test(id);
+}
+
+/**
+ * File name a pack is installed under
+ */
+export function getRegionPackFileName(id: string): string {
+  return `${id}.db`;
+}
+
+function isValidBounds(bounds: GeohashBounds): boolean {
+  const { minLat, maxLat, minLng, maxLng } = bounds;
+  return (
+    [minLat, maxLat, minLng, maxLng].every(Number.isFinite) &&
+    minLat >= -90 &&
+    maxLat <= 90 &&
+    minLng >= -180 &&
+    maxLng <= 180 &&
+    minLat < maxLat &&
+    minLng < maxLng
+  );
+}
+
+/**
+ * Parse a "minLat,minLng,maxLat,maxLng" bounding box
+ */
+export function parseBounds(text: string): GeohashBounds | null {
+  const parts = text.split(',').map((part) => Number(part.trim()));
+  if (parts.length !== 4) return null;
+  const [minLat, minLng, maxLat, maxLng] = parts;
+  const bounds = { minLat, minLng, maxLat, maxLng };
+  return isValidBounds(bounds) ? bounds : null;
+}
+
+/**
+ * Build the metadata rows written into a pack
+ */
+export function createRegionPackMetadata(info: RegionPackInfo): MetadataRow[] {
+  return [
+    { key: 'format', value: REGION_PACK_FORMAT },
+    { key: 'formatVersion', value: String(REGION_PACK_FORMAT_VERSION) },
+    { key: 'id', value: info.id },
+    { key: 'name', value: info.name },
+    { key: 'bounds', value: JSON.stringify(info.bounds) },
+    { key: 'baseVersion', value: info.baseVersion },
+    { key: 'generatedAt', value: info.generatedAt },
+    { key: 'tileCount', value: String(info.tileCount) },
+    { key: 'maxPrecision', value: String(info.maxPrecision) },
+  ];
+}
+
+/**
+ * Read and check a pack's metadata.
+ * Rejects files that aren't region packs, come from a newer format, or have bad bounds.
+ */
+export function parseRegionPackMetadata(rows: MetadataRow[]): ParseRegionPackResult {
+  const meta = new Map(rows.map((row) => [row.key, row.value]));
+
+  if (meta.get('format') !== REGION_PACK_FORMAT) {
+    return { success: false, error: 'Not a WalkForage region pack' };
+  }
+  const formatVersion = Number(meta.get('formatVersion'));
+  if (!Number.isInteger(formatVersion) || formatVersion > REGION_PACK_FORMAT_VERSION) {
+    return { success: false, error: 'Region pack format is newer than this app supports' };
+  }
+
+  const id = meta.get('id') ?? '';
+  if (!isValidRegionPackId(id)) {
+    return { success: false, error: 'Region pack has an invalid id' };
+  }
+
+  let bounds: GeohashBounds;
+  try {
+    bounds = JSON.parse(meta.get('bounds') ?? '');
+  } catch {
+    return { success: false, error: 'Region pack has no bounds' };
+  }
+  if (bounds === null || typeof bounds !== 'object' || !isValidBounds(bounds)) {
+    return { success: false, error: 'Region pack has invalid bounds' };
+  }
+
+  return {
+    success: true,
+    info: {
+      id,
+      name: meta.get('name') || id,
+      bounds: {
+        minLat: bounds.minLat,
+        maxLat: bounds.maxLat,
+        minLng: bounds.minLng,
+        maxLng: bounds.maxLng,
+      },
+      baseVersion: meta.get('baseVersion') ?? 'unknown',
+      generatedAt: meta.get('generatedAt') ?? '',
+      tileCount: Number(meta.get('tileCount')) || 0,
+      maxPrecision: Number(meta.get('maxPrecision')) || 0,
+    },
+  };
+}
+
+/**
+ * Check whether a point lies in a pack's area
+ */
+export function packContainsPoint(pack: RegionPackInfo, lat: number, lng: number): boolean {
+  const { minLat, maxLat, minLng, maxLng } = pack.bounds;
+  return lat >= minLat && lat <= maxLat && lng >= minLng && lng <= maxLng;
+}
+
+/**
+ * Check whether a geohash cell overlaps a pack's area (so the pack may hold it)
+ */
+export function packCoversGeohash(pack: RegionPackInfo, geohash: string): boolean {
+  const cell = geohashBounds(geohash);
+  const { minLat, maxLat, minLng, maxLng } = pack.bounds;
+  return (
+    cell.minLat <= maxLat && cell.maxLat >= minLat && cell.minLng <= maxLng && cell.maxLng >= minLng
+  );
+}
+
+function boundsArea(bounds: GeohashBounds): number {
+  return (bounds.maxLat - bounds.minLat) * (bounds.maxLng - bounds.minLng);
+}
+
+/**
+ * Order packs most detailed first: finest precision, then smallest area
+ */
+export function sortPacksByDetail<T extends { info: RegionPackInfo }>(packs: T[]): T[] {
+  return [...packs].sort(
+    (a, b) =>
+      b.info.maxPrecision - a.info.maxPrecision ||
+      boundsArea(a.info.bounds) - boundsArea(b.info.bounds) ||
+      a.info.id.localeCompare(b.info.id)
+  );
+}
+
+/**
+ * Short description of the area a pack covers
+ */
+export function formatBounds(bounds: GeohashBounds): string {
+  const lat = (v: number) => `${Math.abs(v).toFixed(2)}°${v >= 0 ? 'N' : 'S'}`;
+  const lng = (v: number) => `${Math.abs(v).toFixed(2)}°${v >= 0 ? 'E' : 'W'}`;
+  return `${lat(bounds.minLat)}–${lat(bounds.maxLat)}, ${lng(bounds.minLng)}–${lng(bounds.maxLng)}`;
+}
+
+export const RegionPackService = {
+  isValidRegionPackId,
+  getRegionPackFileName,
+  parseBounds,
+  createRegionPackMetadata,
+  parseRegionPackMetadata,
+  packContainsPoint,
+  packCoversGeohash,
+  sortPacksByDetail,
+  formatBounds,
+};
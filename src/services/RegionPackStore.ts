@@ -0,0 +1,184 @@
+/**
+ * Region Pack Store
+ *
+ * Downloads, installs, lists and removes region packs in the document directory.
+ * Downloads land in the cache directory and are only installed once their
+ * metadata checks out, so a bad download never replaces a working pack.
+ * Installing stages the download beside the pack it replaces and then swaps the
+ * two, so a failed install leaves the installed pack in place.
+ */
+
+import * as SQLite from 'expo-sqlite';
+import { File, Directory, Paths } from 'expo-file-system';
+import { ExpoTileLoader } from './ExpoTileLoader';
+import { InstalledRegionPack } from './RegionPackTileLoader';
+import {
+  MetadataRow,
+  ParseRegionPackResult,
+  RegionPackInfo,
+  REGION_PACK_DIRECTORY,
+  getRegionPackFileName,
+  parseRegionPackMetadata,
+} from './RegionPackService';
+
+/**
+ * A pack file and the metadata read from it
+ */
+export interface RegionPackFile {
+  info: RegionPackInfo;
+  file: File;
+}
+
+/**
+ * Result of downloading a pack, before it is installed
+ */
+export type DownloadRegionPackResult =
+  | ({ success: true } & RegionPackFile)
+  | { success: false; error: string };
+
+/** Suffix of a downloaded pack moved into the pack directory, not yet swapped in */
+const STAGED_SUFFIX = '.installing';
+
+/** Suffix of an installed pack while it is being replaced */
+const REPLACED_SUFFIX = '.replaced';
+
+function getPackDirectory(): Directory {
+  const directory = new Directory(Paths.document, REGION_PACK_DIRECTORY);
+  if (!directory.exists) {
+    directory.create();
+  }
+  return directory;
+}
+
+/**
+ * Open a pack file and read its metadata, checking it has a tiles table
+ */
+async function readPackInfo(file: File): Promise<ParseRegionPackResult> {
+  let db: SQLite.SQLiteDatabase | null = null;
+  try {
+    db = await SQLite.openDatabaseAsync(file.name, {}, file.parentDirectory.uri);
+    const rows = await db.getAllAsync<MetadataRow>('SELECT key, value FROM metadata');
+    const parsed = parseRegionPackMetadata(rows);
+    if (parsed.success) {
+      await db.getFirstAsync('SELECT geohash FROM tiles LIMIT 1');
+    }
+    return parsed;
+  } catch (error) {
+    console.warn(`Failed to read region pack ${file.name}:`, error);
+    return { success: false, error: 'Not a readable region pack' };
+  } finally {
+    await db?.closeAsync();
+  }
+}
+
+/**
+ * List the installed packs, each with a loader for its file.
+ * Files that aren't valid packs are skipped.
+ */
+export async function listInstalledRegionPacks(): Promise<InstalledRegionPack[]> {
+  const packs: InstalledRegionPack[] = [];
+  const files = getPackDirectory()
+    .list()
+    .filter((entry): entry is File => entry instanceof File && entry.name.endsWith('.db'));
+
+  for (const file of files) {
+    const parsed = await readPackInfo(file);
+    if (!parsed.success) {
+      console.warn(`Skipped region pack ${file.name}: ${parsed.error}`);
+      continue;
+    }
+    packs.push({ info: parsed.info, loader: new ExpoTileLoader({ file }) });
+  }
+  return packs;
+}
+
+/**
+ * Download a pack and check it, without installing it yet
+ */
+export async function downloadRegionPack(url: string): Promise<DownloadRegionPackResult> {
+  const file = new File(Paths.cache, `region-pack-${Date.now()}.db`);
+  try {
+    await File.downloadFileAsync(url, file);
+  } catch (error) {
+    console.warn('Failed to download region pack:', error);
+    // A failed download can leave a partial file behind
+    if (file.exists) {
+      file.delete();
+    }
+    return { success: false, error: 'Could not download the region pack' };
+  }
+
+  const parsed = await readPackInfo(file);
+  if (!parsed.success) {
+    file.delete();
+    return parsed;
+  }
+  return { success: true, info: parsed.info, file };
+}
+
+/**
+ * Move a downloaded pack into the pack directory, beside any pack it will
+ * replace. Moving out of the cache directory is the step most likely to fail,
+ * so it happens before the installed pack is touched.
+ */
+export function stageRegionPack(download: RegionPackFile): RegionPackFile {
+  const staged = new File(
+    getPackDirectory(),
+    `${getRegionPackFileName(download.info.id)}${STAGED_SUFFIX}`
+  );
+  if (staged.exists) {
+    staged.delete();
+  }
+  download.file.move(staged);
+  return { info: download.info, file: staged };
+}
+
+/**
+ * Swap a staged pack into place, replacing any pack with the same id.
+ * Close the replaced pack's loader first. If the swap fails, the replaced pack's
+ * file is put back and the error is rethrown.
+ */
+export function installRegionPack(staged: RegionPackFile): InstalledRegionPack {
+  const directory = getPackDirectory();
+  const fileName = getRegionPackFileName(staged.info.id);
+
+  const replaced = new File(directory, `${fileName}${REPLACED_SUFFIX}`);
+  if (replaced.exists) {
+    replaced.delete();
+  }
+  const installed = new File(directory, fileName);
+  if (installed.exists) {
+    installed.move(replaced);
+  }
+  try {
+    staged.file.move(new File(directory, fileName));
+  } catch (error) {
+    if (replaced.exists) {
+      replaced.move(new File(directory, fileName));
+    }
+    throw error;
+  }
+  if (replaced.exists) {
+    replaced.delete();
+  }
+
+  return openRegionPack(staged.info);
+}
+
+/**
+ * Open a loader for an installed pack's file
+ */
+export function openRegionPack(info: RegionPackInfo): InstalledRegionPack {
+  const file = new File(getPackDirectory(), getRegionPackFileName(info.id));
+  return { info, loader: new ExpoTileLoader({ file }) };
+}
+
+/**
+ * Delete an installed pack's file. Close its loader first.
+ */
+export function uninstallRegionPack(id: string): void {
+  const file = new File(getPackDirectory(), getRegionPackFileName(id));
+  if (file.exists) {
+    file.delete();
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Region Pack Tile Loader
+ *
+ * TileLoader that reads installed region packs ahead of the base bundle.
+ * Packs are tried most detailed first, and only for geohashes inside their area;
+ * anything they don't hold comes from the base loader.
+ */
+
+import { TileLoader, TileCacheStats } from './TileLoader';
+import { CompositeTileLoader } from './CompositeTileLoader';
+import { RegionPackInfo, packCoversGeohash, sortPacksByDetail } from './RegionPackService';
+import { GeoTile } from '../types/gis';
+
+/**
+ * An installed pack and the loader reading its file
+ */
+export interface InstalledRegionPack {
+  info: RegionPackInfo;
+  loader: TileLoader;
+}
+
+export class RegionPackTileLoader implements TileLoader {
+  private base: TileLoader;
+  private packs: InstalledRegionPack[];
+  private layers: CompositeTileLoader;
+
+  constructor(base: TileLoader, packs: InstalledRegionPack[] = []) {
+    this.base = base;
+    this.packs = sortPacksByDetail(packs);
+    this.layers = this.buildLayers();
+  }
+
+  /**
+   * Get the installed packs, most detailed first
+   */
+  getPacks(): InstalledRegionPack[] {
+    return this.packs;
+  }
+
+  /**
+   * Add a pack, replacing any installed pack with the same id.
+   * The replaced pack's loader is closed.
+   */
+  async addPack(pack: InstalledRegionPack): Promise<void> {
+    await this.removePack(pack.info.id);
+    await pack.loader.initialize();
+    this.packs = sortPacksByDetail([...this.packs, pack]);
+    this.layers = this.buildLayers();
+  }
+
+  /**
+   * Remove a pack and close its loader
+   */
+  async removePack(id: string): Promise<void> {
+    const pack = this.packs.find((p) => p.info.id === id);
+    if (!pack) return;
+    this.packs = this.packs.filter((p) => p !== pack);
+    this.layers = this.buildLayers();
+    await pack.loader.close();
+  }
+
+  async getTile(geohash: string): Promise<GeoTile | null> {
+    return this.layers.getTile(geohash);
+  }
+
+  async getTiles(geohashes: string[]): Promise<GeoTile[]> {
+    return this.layers.getTiles(geohashes);
+  }
+
+  async prefetch(geohashes: string[]): Promise<void> {
+    await this.layers.prefetch(geohashes);
+  }
+
+  async initialize(): Promise<void> {
+    await this.layers.initialize();
+  }
+
+  async close(): Promise<void> {
+    await this.layers.close();
+  }
+
+  clearCache(): void {
+    this.layers.clearCache();
+  }
+
+  getCacheStats(): TileCacheStats {
+    return this.layers.getCacheStats();
+  }
+
+  /**
+   * Stack packs, most detailed first, over the base bundle
+   */
+  private buildLayers(): CompositeTileLoader {
+    return new CompositeTileLoader([
+      ...this.packs.map((pack) => ({
+        loader: pack.loader,
+        covers: (geohash: string) => packCoversGeohash(pack.info, geohash),
+      })),
+      { loader: this.base },
+    ]);
+  }
+}
@@ -1,49 +1,128 @@
 // ResourceSpawnService - Selects resources based on geological and biome data
 // Pure resource selection logic - no React Native dependencies
 
-import { LocationGeoData, AltitudeData } from '../types/gis';
-import { StoneType, WoodType, FoodType, AltitudePreference } from '../types/resources';
+import { LocationGeoData, AltitudeData, LithologyMapping } from '../types/gis';
+import {
+  StoneType,
+  WoodType,
+  FoodType,
+  FiberType,
+  AltitudePreference,
+  BiomeCode,
+} from '../types/resources';
 import { STONES, STONES_BY_ID, getToolstones } from '../data/stones';
 import { WOODS, WOODS_BY_ID, getWoodsByBiome } from '../data/woods';
 import { FOODS, FOODS_BY_ID, getFoodsByBiome } from '../data/foods';
+import { FIBERS, FIBERS_BY_ID, getFibersByBiome } from '../data/fibers';
 import { getLithologyMapping } from '../data/gis';
 import {
   getRealmBiomeCode,
   getRealmBiomeMapping,
   getRealmBiomeFoodMapping,
+  getRealmBiomeFiberMapping,
 } from '../data/gis/mappings';
 import { calculateAltitudeBias, MIN_ALTITUDE_MULTIPLIER } from '../config/altitude';
+import { calculateAgeStoneBias } from '../config/geologicAge';
+import { calculateUnderfootChance } from '../config/regolith';
+import {
+  COASTAL_ONLY_BIOMES,
+  COBBLE_MIN_DURABILITY,
+  COBBLE_MIN_HARDNESS,
+  WATER_COBBLE_CHANCE,
+  isNearCoast,
+  isNearRiver,
+} from '../config/water';
+import { RandomSource, defaultRandom, hashString } from '../utils/random';
+
+/** Geohash precision of the cell a spawn seed is shared across (~1.2km x 610m) */
+export const SPAWN_SEED_PRECISION = 6;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Stones that turn up as water-rounded cobbles, whatever the local rock */
+const COBBLE_STONES = STONES.filter(
+  (stone) =>
+    (stone.properties.hardness ?? 0) >= COBBLE_MIN_HARDNESS &&
+    (stone.properties.durability ?? 0) >= COBBLE_MIN_DURABILITY
+);
+
+/**
+ * Day number (UTC days since the epoch) used in spawn seeds
+ */
+export function getSpawnDay(timestamp: number): number {
+  return Math.floor(timestamp / MS_PER_DAY);
+}
+
+/**
+ * Derive a spawn seed from a geohash cell, day and player.
+ * Omit playerId for a roll shared by every player in the cell that day;
+ * include it to vary the roll per player.
+ */
+export function deriveSpawnSeed(geohash: string, day: number, playerId: string = ''): number {
+  return hashString(`${geohash.slice(0, SPAWN_SEED_PRECISION)}|${day}|${playerId}`);
+}
 
 class ResourceSpawnService {
   private static readonly REALM_BIOME_MATCH_BOOST = 4;
 
   /**
-   * Select a stone type based on geological data
+   * Select a stone type based on geological data.
+   * Surface material (regolith) is tried first, by a chance weighted by terrain,
+   * then the bedrock lithology dominant at the point, then the others.
    */
-  private selectStoneFromGeo(geoData: LocationGeoData): StoneType | null {
-    const { primaryLithology, secondaryLithologies, confidence } = geoData.geology;
+  private selectStoneFromGeo(geoData: LocationGeoData, random: RandomSource): StoneType | null {
+    const { primaryLithology, confidence } = geoData.geology;
+    const dominantLithology = geoData.geology.dominantLithology ?? primaryLithology;
+    const secondaryLithologies = [primaryLithology, ...geoData.geology.secondaryLithologies].filter(
+      (lith) => lith !== dominantLithology
+    );
 
     // If confidence is too low, fall back to random
     if (confidence < 0.2) {
-      return this.selectRandomStone();
+      return this.selectRandomStone(random);
     }
 
-    // Get mapping for primary lithology
-    const mapping = getLithologyMapping(primaryLithology);
+    // Rivers and beaches bring hard cobbles down from elsewhere
+    const { water } = geoData;
+    if ((isNearRiver(water) || isNearCoast(water)) && random() < WATER_COBBLE_CHANCE) {
+      return this.selectByRarity(COBBLE_STONES, random);
+    }
+
+    // Where till, loess or alluvium buries the bedrock, most stones come from that
+    const { regolith } = geoData;
+    if (regolith && random() < calculateUnderfootChance(regolith, geoData.altitude, water)) {
+      const surfaceMapping = getLithologyMapping(regolith.material);
+      if (surfaceMapping && surfaceMapping.stoneIds.length > 0) {
+        const stoneId = this.weightedRandomSelect(
+          surfaceMapping.stoneIds,
+          surfaceMapping.weights,
+          random
+        );
+        const stone = STONES_BY_ID[stoneId];
+        if (stone) return stone;
+      }
+    }
+
+    // Get mapping for the dominant lithology
+    const mapping = this.getAgedLithologyMapping(geoData, dominantLithology);
 
     if (mapping && mapping.stoneIds.length > 0) {
       // Use weighted random selection from mapped stones
-      const stoneId = this.weightedRandomSelect(mapping.stoneIds, mapping.weights);
+      const stoneId = this.weightedRandomSelect(mapping.stoneIds, mapping.weights, random);
       const stone = STONES_BY_ID[stoneId];
       if (stone) return stone;
     }
 
     // Try secondary lithologies with lower probability
     for (const lith of secondaryLithologies) {
-      if (Math.random() < 0.3) {
-        const secMapping = getLithologyMapping(lith);
+      if (random() < 0.3) {
+        const secMapping = this.getAgedLithologyMapping(geoData, lith);
         if (secMapping && secMapping.stoneIds.length > 0) {
-          const stoneId = this.weightedRandomSelect(secMapping.stoneIds, secMapping.weights);
+          const stoneId = this.weightedRandomSelect(
+            secMapping.stoneIds,
+            secMapping.weights,
+            random
+          );
           const stone = STONES_BY_ID[stoneId];
           if (stone) return stone;
         }
@@ -51,7 +130,31 @@ class ResourceSpawnService {
     }
 
     // Fall back to random stone with rarity weighting
-    return this.selectRandomStone();
+    return this.selectRandomStone(random);
+  }
+
+  /**
+   * Get a lithology's stone mapping with weights biased by the map unit's age.
+   * Stones the age rules out (e.g. obsidian in old volcanics) are dropped.
+   */
+  private getAgedLithologyMapping(
+    geoData: LocationGeoData,
+    lithology: string
+  ): LithologyMapping | null {
+    const mapping = getLithologyMapping(lithology);
+    if (!mapping || mapping.stoneIds.length !== mapping.weights.length) return mapping;
+
+    const { age, lithClass } = geoData.geology;
+    const stoneIds: string[] = [];
+    const weights: number[] = [];
+    mapping.stoneIds.forEach((stoneId, i) => {
+      const weight = mapping.weights[i] * calculateAgeStoneBias(stoneId, lithology, age, lithClass);
+      if (weight > 0) {
+        stoneIds.push(stoneId);
+        weights.push(weight);
+      }
+    });
+    return { ...mapping, stoneIds, weights };
   }
 
   /**
@@ -90,16 +193,46 @@ class ResourceSpawnService {
     );
   }
 
+  /**
+   * Whether a resource can grow here: coastal-only resources (those found only in
+   * coastal biomes such as mangrove) need the coast nearby, unless the location's
+   * biome is itself coastal. Resources that also grow in an inland biome are kept.
+   * Always true where the location has no water data.
+   */
+  private isCoastSuitable(resource: { biomes: BiomeCode[] }, geoData: LocationGeoData): boolean {
+    if (!geoData.water || isNearCoast(geoData.water)) return true;
+    if (COASTAL_ONLY_BIOMES.includes(geoData.biome.type)) return true;
+    return !resource.biomes.every((biome) => COASTAL_ONLY_BIOMES.includes(biome));
+  }
+
+  /** Zero the weights of resources that can't grow this far from the coast */
+  private applyCoastalBias<T extends { biomes: BiomeCode[] }>(
+    resources: T[],
+    weights: number[],
+    geoData: LocationGeoData
+  ): number[] {
+    if (weights.length !== resources.length) return weights;
+    return weights.map((w, i) => (this.isCoastSuitable(resources[i], geoData) ? w : 0));
+  }
+
+  /** Drop resources that can't grow this far from the coast */
+  private filterCoastal<T extends { biomes: BiomeCode[] }>(
+    resources: T[],
+    geoData: LocationGeoData
+  ): T[] {
+    return resources.filter((resource) => this.isCoastSuitable(resource, geoData));
+  }
+
   /**
    * Select a wood type based on biome data
    */
-  private selectWoodFromGeo(geoData: LocationGeoData): WoodType | null {
+  private selectWoodFromGeo(geoData: LocationGeoData, random: RandomSource): WoodType | null {
     const { type: biomeType, realm, confidence } = geoData.biome;
     const altitude = geoData.altitude;
 
     // If confidence is too low, fall back to random
     if (confidence < 0.2) {
-      return this.selectRandomWood();
+      return this.selectRandomWood(random);
     }
 
     // Try realm+biome mapping first
@@ -118,7 +251,8 @@ class ResourceSpawnService {
 
         const woodId = this.weightedRandomSelect(
           mappedWoods.map((w) => w.id),
-          biomeBiased
+          biomeBiased,
+          random
         );
         const wood = WOODS_BY_ID[woodId];
         if (wood) return wood;
@@ -130,43 +264,43 @@ class ResourceSpawnService {
         (w) => w.nativeRealms && w.nativeRealms.includes(realm)
       );
       if (realmFiltered.length > 0) {
-        return this.selectByRarityWithAltitude(realmFiltered, altitude);
+        return this.selectByRarityWithAltitude(realmFiltered, altitude, random);
       }
     }
 
     // Fallback: biome-only (no realm info)
     const biomeWoods = getWoodsByBiome(biomeType);
     if (biomeWoods.length > 0) {
-      return this.selectByRarityWithAltitude(biomeWoods, altitude);
+      return this.selectByRarityWithAltitude(biomeWoods, altitude, random);
     }
 
-    return this.selectRandomWood();
+    return this.selectRandomWood(random);
   }
 
   /**
    * Select a random stone weighted by rarity
    */
-  private selectRandomStone(): StoneType {
-    return this.selectByRarity(STONES);
+  private selectRandomStone(random: RandomSource): StoneType {
+    return this.selectByRarity(STONES, random);
   }
 
   /**
    * Select a random wood weighted by rarity
    */
-  private selectRandomWood(): WoodType {
-    return this.selectByRarity(WOODS);
+  private selectRandomWood(random: RandomSource): WoodType {
+    return this.selectByRarity(WOODS, random);
   }
 
   /**
    * Select a food type based on biome data
    */
-  private selectFoodFromGeo(geoData: LocationGeoData): FoodType | null {
+  private selectFoodFromGeo(geoData: LocationGeoData, random: RandomSource): FoodType | null {
     const { type: biomeType, realm, confidence } = geoData.biome;
     const altitude = geoData.altitude;
 
     // If confidence is too low, fall back to random
     if (confidence < 0.2) {
-      return this.selectRandomFood();
+      return this.selectRandomFood(random);
     }
 
     // Try realm+biome mapping first
@@ -182,46 +316,111 @@ class ResourceSpawnService {
         const code = getRealmBiomeCode(realm, biomeType);
         const altBiased = this.applyAltitudeBias(mappedFoods, realmMapping.weights, altitude);
         const biomeBiased = this.applyRealmBiomeBias(mappedFoods, altBiased, code);
-
-        const foodId = this.weightedRandomSelect(
-          mappedFoods.map((f) => f.id),
-          biomeBiased
-        );
-        const food = FOODS_BY_ID[foodId];
-        if (food) return food;
+        const waterBiased = this.applyCoastalBias(mappedFoods, biomeBiased, geoData);
+
+        if (waterBiased.some((w) => w > 0)) {
+          const foodId = this.weightedRandomSelect(
+            mappedFoods.map((f) => f.id),
+            waterBiased,
+            random
+          );
+          const food = FOODS_BY_ID[foodId];
+          if (food) return food;
+        }
       }
 
       // If no curated mapping exists, filter biome foods by realm
-      const biomeFoods = getFoodsByBiome(biomeType);
+      const biomeFoods = this.filterCoastal(getFoodsByBiome(biomeType), geoData);
       const realmFiltered = biomeFoods.filter(
         (f) => f.nativeRealms && f.nativeRealms.includes(realm)
       );
       if (realmFiltered.length > 0) {
-        return this.selectByRarityWithAltitude(realmFiltered, altitude);
+        return this.selectByRarityWithAltitude(realmFiltered, altitude, random);
       }
     }
 
     // Fallback: biome-only (no realm info)
-    const biomeFoods = getFoodsByBiome(biomeType);
+    const biomeFoods = this.filterCoastal(getFoodsByBiome(biomeType), geoData);
     if (biomeFoods.length > 0) {
-      return this.selectByRarityWithAltitude(biomeFoods, altitude);
+      return this.selectByRarityWithAltitude(biomeFoods, altitude, random);
     }
 
-    return this.selectRandomFood();
+    return this.selectRandomFood(random);
   }
 
   /**
    * Select a random food weighted by rarity
    */
-  private selectRandomFood(): FoodType {
-    return this.selectByRarity(FOODS);
+  private selectRandomFood(random: RandomSource): FoodType {
+    return this.selectByRarity(FOODS, random);
+  }
+
+  /**
+   * Select a fiber plant based on biome data
+   */
+  private selectFiberFromGeo(geoData: LocationGeoData, random: RandomSource): FiberType | null {
+    const { type: biomeType, realm, confidence } = geoData.biome;
+    const altitude = geoData.altitude;
+
+    // If confidence is too low, fall back to random
+    if (confidence < 0.2) {
+      return this.selectRandomFiber(random);
+    }
+
+    // Try realm+biome mapping first
+    if (realm) {
+      const realmMapping = getRealmBiomeFiberMapping(realm, biomeType);
+      if (realmMapping && realmMapping.fiberIds.length > 0) {
+        // Get fiber resources for altitude bias calculation
+        const mappedFibers = realmMapping.fiberIds
+          .map((id) => FIBERS_BY_ID[id])
+          .filter((f): f is FiberType => f !== undefined);
+
+        // Apply altitude bias to weights
+        const code = getRealmBiomeCode(realm, biomeType);
+        const altBiased = this.applyAltitudeBias(mappedFibers, realmMapping.weights, altitude);
+        const biomeBiased = this.applyRealmBiomeBias(mappedFibers, altBiased, code);
+
+        const fiberId = this.weightedRandomSelect(
+          mappedFibers.map((f) => f.id),
+          biomeBiased,
+          random
+        );
+        const fiber = FIBERS_BY_ID[fiberId];
+        if (fiber) return fiber;
+      }
+
+      // If no curated mapping exists, filter biome fibers by realm
+      const biomeFibers = getFibersByBiome(biomeType);
+      const realmFiltered = biomeFibers.filter(
+        (f) => f.nativeRealms && f.nativeRealms.includes(realm)
+      );
+      if (realmFiltered.length > 0) {
+        return this.selectByRarityWithAltitude(realmFiltered, altitude, random);
+      }
+    }
+
+    // Fallback: biome-only (no realm info)
+    const biomeFibers = getFibersByBiome(biomeType);
+    if (biomeFibers.length > 0) {
+      return this.selectByRarityWithAltitude(biomeFibers, altitude, random);
+    }
+
+    return this.selectRandomFiber(random);
+  }
+
+  /**
+   * Select a random fiber weighted by rarity
+   */
+  private selectRandomFiber(random: RandomSource): FiberType {
+    return this.selectByRarity(FIBERS, random);
   }
 
   /**
    * Select resource weighted by rarity
    * Higher rarity value = more common (higher spawn probability)
    */
-  private selectByRarity<T extends { rarity: number }>(resources: T[]): T {
+  private selectByRarity<T extends { rarity: number }>(resources: T[], random: RandomSource): T {
     if (resources.length === 0) {
       throw new Error('Cannot select from empty array');
     }
@@ -231,13 +430,13 @@ class ResourceSpawnService {
     const totalWeight = weights.reduce((a, b) => a + b, 0);
 
     if (totalWeight === 0) {
-      return resources[Math.floor(Math.random() * resources.length)];
+      return resources[Math.floor(random() * resources.length)];
     }
 
-    let random = Math.random() * totalWeight;
+    let roll = random() * totalWeight;
     for (let i = 0; i < resources.length; i++) {
-      random -= weights[i];
-      if (random <= 0) {
+      roll -= weights[i];
+      if (roll <= 0) {
         return resources[i];
       }
     }
@@ -251,7 +450,7 @@ class ResourceSpawnService {
    */
   private selectByRarityWithAltitude<
     T extends { rarity: number; altitudePreference?: AltitudePreference },
-  >(resources: T[], altitude: AltitudeData | undefined): T {
+  >(resources: T[], altitude: AltitudeData | undefined, random: RandomSource): T {
     if (resources.length === 0) {
       throw new Error('Cannot select from empty array');
     }
@@ -264,13 +463,13 @@ class ResourceSpawnService {
     const totalWeight = weights.reduce((a, b) => a + b, 0);
 
     if (totalWeight === 0) {
-      return resources[Math.floor(Math.random() * resources.length)];
+      return resources[Math.floor(random() * resources.length)];
     }
 
-    let random = Math.random() * totalWeight;
+    let roll = random() * totalWeight;
     for (let i = 0; i < resources.length; i++) {
-      random -= weights[i];
-      if (random <= 0) {
+      roll -= weights[i];
+      if (roll <= 0) {
         return resources[i];
       }
     }
@@ -281,26 +480,26 @@ class ResourceSpawnService {
   /**
    * Weighted random selection from parallel arrays
    */
-  private weightedRandomSelect(items: string[], weights: number[]): string {
+  private weightedRandomSelect(items: string[], weights: number[], random: RandomSource): string {
     if (items.length === 0) {
       throw new Error('Cannot select from empty array');
     }
 
     if (items.length !== weights.length) {
       // If weights don't match, use equal weights
-      return items[Math.floor(Math.random() * items.length)];
+      return items[Math.floor(random() * items.length)];
     }
 
     const totalWeight = weights.reduce((a, b) => a + b, 0);
 
     if (totalWeight === 0) {
-      return items[Math.floor(Math.random() * items.length)];
+      return items[Math.floor(random() * items.length)];
     }
 
-    let random = Math.random() * totalWeight;
+    let roll = random() * totalWeight;
     for (let i = 0; i < items.length; i++) {
-      random -= weights[i];
-      if (random <= 0) {
+      roll -= weights[i];
+      if (roll <= 0) {
         return items[i];
       }
     }
@@ -319,48 +518,76 @@ class ResourceSpawnService {
    * Get a single random stone appropriate for the location's geology
    * Used for step-based gathering
    */
-  getRandomStoneForLocation(geoData: LocationGeoData): StoneType | null {
-    return this.selectStoneFromGeo(geoData);
+  getRandomStoneForLocation(
+    geoData: LocationGeoData,
+    random: RandomSource = defaultRandom
+  ): StoneType | null {
+    return this.selectStoneFromGeo(geoData, random);
   }
 
   /**
    * Get a single random wood appropriate for the location's biome
    * Used for step-based gathering
    */
-  getRandomWoodForLocation(geoData: LocationGeoData): WoodType | null {
-    return this.selectWoodFromGeo(geoData);
+  getRandomWoodForLocation(
+    geoData: LocationGeoData,
+    random: RandomSource = defaultRandom
+  ): WoodType | null {
+    return this.selectWoodFromGeo(geoData, random);
   }
 
   /**
    * Get a random stone (no location data)
    * Used when geo data is not available
    */
-  getRandomStone(): StoneType {
-    return this.selectRandomStone();
+  getRandomStone(random: RandomSource = defaultRandom): StoneType {
+    return this.selectRandomStone(random);
   }
 
   /**
    * Get a random wood (no location data)
    * Used when geo data is not available
    */
-  getRandomWood(): WoodType {
-    return this.selectRandomWood();
+  getRandomWood(random: RandomSource = defaultRandom): WoodType {
+    return this.selectRandomWood(random);
   }
 
   /**
    * Get a single random food appropriate for the location's biome
    * Used for step-based gathering
    */
-  getRandomFoodForLocation(geoData: LocationGeoData): FoodType | null {
-    return this.selectFoodFromGeo(geoData);
+  getRandomFoodForLocation(
+    geoData: LocationGeoData,
+    random: RandomSource = defaultRandom
+  ): FoodType | null {
+    return this.selectFoodFromGeo(geoData, random);
   }
 
   /**
    * Get a random food (no location data)
    * Used when geo data is not available
    */
-  getRandomFood(): FoodType {
-    return this.selectRandomFood();
+  getRandomFood(random: RandomSource = defaultRandom): FoodType {
+    return this.selectRandomFood(random);
+  }
+
+  /**
+   * Get a single random fiber appropriate for the location's biome
+   * Used for step-based gathering
+   */
+  getRandomFiberForLocation(
+    geoData: LocationGeoData,
+    random: RandomSource = defaultRandom
+  ): FiberType | null {
+    return this.selectFiberFromGeo(geoData, random);
+  }
+
+  /**
+   * Get a random fiber (no location data)
+   * Used when geo data is not available
+   */
+  getRandomFiber(random: RandomSource = defaultRandom): FiberType {
+    return this.selectRandomFiber(random);
   }
 }
 
@@ -0,0 +1,242 @@
+// SaveTransferService - Export/import of game saves as a portable file
+// Pure envelope, checksum and diff logic; migration and sanitising stay in useGameState
+//
+// Save file format (JSON):
+// {
+//   "format": "walkforage-save",   // Identifies the file type
+//   "formatVersion": 1,            // Version of this envelope layout
+//   "schemaVersion": 2,            // Game state schema version (see useGameState migrations)
+//   "appVersion": "1.0.0",         // App version that wrote the file
+//   "exportedAt": "2024-06-01T12:00:00.000Z",
+//   "checksum": "1a2b3c4d",        // FNV-1a (32-bit hex) of JSON.stringify(state)
+//   "state": { ... }               // The persisted game state, exactly as saved on device
+// }
+//
+// The checksum detects truncated or hand-edited files; it is not a security measure.
+
+import { Inventory } from '../types/resources';
+import { OwnedTool, OwnedComponent } from '../types/tools';
+import { MaterialType, getAllMaterialTypes, getMaterialConfig } from '../config/materials';
+import { getTotalResourceCount } from './InventoryService';
+import { TECH_BY_ID } from '../data/techTree';
+import { computeChecksum } from '../utils/random';
+
+export { computeChecksum };
+
+export const SAVE_FILE_FORMAT = 'walkforage-save';
+export const SAVE_FILE_FORMAT_VERSION = 1;
+export const SAVE_FILE_NAME = 'walkforage-save.json';
+
+/**
+ * Versioned, checksummed wrapper around a persisted game state
+ */
+export interface SaveEnvelope {
+  format: typeof SAVE_FILE_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  appVersion: string;
+  exportedAt: string;
+  checksum: string;
+  state: Record<string, unknown>;
+}
+
+/**
+ * Result of parsing a save file
+ */
+export type ParseSaveResult =
+  | { success: true; envelope: SaveEnvelope }
+  | { success: false; error: string };
+
+/**
+ * The parts of a game state compared when previewing an import
+ */
+export interface SaveDiffInput {
+  unlockedTechs: string[];
+  ownedTools: OwnedTool[];
+  ownedComponents: OwnedComponent[];
+  inventory: Inventory;
+  explorationPoints: number;
+  availableSteps: number;
+}
+
+/**
+ * Current vs incoming values for a count
+ */
+export interface CountDiff {
+  current: number;
+  incoming: number;
+}
+
+/**
+ * Summary of what an import would change
+ */
+export interface SaveDiffSummary {
+  techs: CountDiff & { gained: string[]; lost: string[] };
+  tools: CountDiff;
+  components: CountDiff;
+  inventory: Record<MaterialType, CountDiff>;
+  explorationPoints: CountDiff;
+  availableSteps: CountDiff;
+}
+
+/**
+ * Wrap a persisted state (including its schemaVersion) in a save envelope
+ */
+export function createSaveEnvelope(
+  persisted: { schemaVersion: number },
+  appVersion: string,
+  now: number = Date.now()
+): SaveEnvelope {
+  return {
+    format: SAVE_FILE_FORMAT,
+    formatVersion: SAVE_FILE_FORMAT_VERSION,
+    schemaVersion: persisted.schemaVersion,
+    appVersion,
+    exportedAt: new Date(now).toISOString(),
+    checksum: computeChecksum(JSON.stringify(persisted)),
+    state: { ...persisted },
+  };
+}
+
+/**
+ * Serialise an envelope for writing to a file or sharing
+ */
+export function serializeSaveEnvelope(envelope: SaveEnvelope): string {
+  return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * Parse and verify a save file.
+ * Rejects files that aren't save envelopes, fail the checksum, or come from a
+ * newer schema than this app understands.
+ */
+export function parseSaveEnvelope(text: string, maxSchemaVersion: number): ParseSaveResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'Not a valid save file (could not read JSON)' };
+  }
+
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { success: false, error: 'Not a valid save file' };
+  }
+  const rec = parsed as Record<string, unknown>;
+
+  if (rec.format !== SAVE_FILE_FORMAT) {
+    return { success: false, error: 'Not a WalkForage save file' };
+  }
+  if (typeof rec.formatVersion !== 'number' || rec.formatVersion > SAVE_FILE_FORMAT_VERSION) {
+    return { success: false, error: 'Save file format is newer than this app supports' };
+  }
+  if (rec.state === null || typeof rec.state !== 'object' || Array.isArray(rec.state)) {
+    return { success: false, error: 'Save file has no game state' };
+  }
+  const state = rec.state as Record<string, unknown>;
+
+  if (rec.checksum !== computeChecksum(JSON.stringify(state))) {
+    return { success: false, error: 'Save file is corrupted (checksum mismatch)' };
+  }
+
+  const schemaVersion = typeof state.schemaVersion === 'number' ? state.schemaVersion : 0;
+  if (schemaVersion > maxSchemaVersion) {
+    return { success: false, error: 'Save file is from a newer version of the app' };
+  }
+
+  return {
+    success: true,
+    envelope: {
+      format: SAVE_FILE_FORMAT,
+      formatVersion: rec.formatVersion,
+      schemaVersion,
+      appVersion: typeof rec.appVersion === 'string' ? rec.appVersion : 'unknown',
+      exportedAt: typeof rec.exportedAt === 'string' ? rec.exportedAt : '',
+      checksum: rec.checksum,
+      state,
+    },
+  };
+}
+
+/**
+ * Compare the current state with an incoming (imported) state
+ */
+export function summarizeSaveDiff(
+  current: SaveDiffInput,
+  incoming: SaveDiffInput
+): SaveDiffSummary {
+  const currentTechs = new Set(current.unlockedTechs);
+  const incomingTechs = new Set(incoming.unlockedTechs);
+
+  const inventory = {} as Record<MaterialType, CountDiff>;
+  for (const type of getAllMaterialTypes()) {
+    inventory[type] = {
+      current: getTotalResourceCount(current.inventory, type),
+      incoming: getTotalResourceCount(incoming.inventory, type),
+    };
+  }
+
+  return {
+    techs: {
+      current: currentTechs.size,
+      incoming: incomingTechs.size,
+      gained: [...incomingTechs].filter((id) => !currentTechs.has(id)),
+      lost: [...currentTechs].filter((id) => !incomingTechs.has(id)),
+    },
+    tools: { current: current.ownedTools.length, incoming: incoming.ownedTools.length },
+    components: {
+      current: current.ownedComponents.length,
+      incoming: incoming.ownedComponents.length,
+    },
+    inventory,
+    explorationPoints: {
+      current: current.explorationPoints,
+      incoming: incoming.explorationPoints,
+    },
+    availableSteps: { current: current.availableSteps, incoming: incoming.availableSteps },
+  };
+}
+
+// Format a count change, e.g. "12 → 30"
+function formatCountDiff(diff: CountDiff): string {
+  return diff.current === diff.incoming
+    ? `${diff.current} (unchanged)`
+    : `${diff.current} → ${diff.incoming}`;
+}
+
+// Tech names for display, falling back to ids for unknown techs
+function techNames(ids: string[]): string {
+  return ids.map((id) => TECH_BY_ID[id]?.name ?? id).join(', ');
+}
+
+/**
+ * Format a diff summary as display lines for a confirmation prompt
+ */
+export function formatSaveDiff(summary: SaveDiffSummary): string[] {
+  const lines = [`Techs: ${formatCountDiff(summary.techs)}`];
+  if (summary.techs.gained.length > 0) {
+    lines.push(`  + ${techNames(summary.techs.gained)}`);
+  }
+  if (summary.techs.lost.length > 0) {
+    lines.push(`  − ${techNames(summary.techs.lost)}`);
+  }
+  lines.push(`Tools: ${formatCountDiff(summary.tools)}`);
+  lines.push(`Components: ${formatCountDiff(summary.components)}`);
+  for (const type of getAllMaterialTypes()) {
+    lines.push(
+      `${getMaterialConfig(type).pluralName}: ${formatCountDiff(summary.inventory[type])}`
+    );
+  }
+  lines.push(`Exploration points: ${formatCountDiff(summary.explorationPoints)}`);
+  lines.push(`Steps: ${formatCountDiff(summary.availableSteps)}`);
+  return lines;
+}
+
+// Export the service as a namespace-like object for consistency
+export const SaveTransferService = {
+  computeChecksum,
+  createSaveEnvelope,
+  serializeSaveEnvelope,
+  parseSaveEnvelope,
+  summarizeSaveDiff,
+  formatSaveDiff,
+};
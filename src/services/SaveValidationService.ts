@@ -0,0 +1,335 @@
+// SaveValidationService - Strict validation of saved tools, components, crafting jobs and techs
+// Checks records against the game registries, repairs what it can and quarantines the rest
+
+import { OwnedTool, OwnedComponent, CraftingJob, UsedMaterials } from '../types/tools';
+import { MaterialType, getAllMaterialTypes, getMaterialConfig } from '../config/materials';
+import { estimateMaxDurabilityForTool } from '../config/durability';
+import { TOOLS_BY_ID, COMPONENTS_BY_ID } from '../data/tools';
+import { TECH_BY_ID } from '../data/techTree';
+
+/**
+ * A saved record that couldn't be loaded.
+ * Kept (and persisted) rather than deleted so it can be inspected or recovered.
+ */
+export interface QuarantinedRecord {
+  field: string; // Save field the record came from, e.g. 'ownedTools'
+  reason: string;
+  record: unknown;
+}
+
+/**
+ * A change made to a saved record while loading it
+ */
+export interface LoadRepair {
+  field: string;
+  id: string; // Instance/job id of the repaired record
+  reason: string;
+}
+
+/**
+ * Everything validation changed while loading a save
+ */
+export interface LoadReport {
+  repaired: LoadRepair[];
+  quarantined: QuarantinedRecord[];
+}
+
+/**
+ * Create an empty load report
+ */
+export function createLoadReport(): LoadReport {
+  return { repaired: [], quarantined: [] };
+}
+
+/**
+ * Check whether loading changed anything
+ */
+export function hasLoadIssues(report: LoadReport): boolean {
+  return report.repaired.length > 0 || report.quarantined.length > 0;
+}
+
+/**
+ * Coerce a saved count to a non-negative integer, or the fallback if it isn't a finite number
+ */
+export function sanitiseCount(x: unknown, fallback: number): number {
+  return typeof x === 'number' && Number.isFinite(x) ? Math.max(0, Math.floor(x)) : fallback;
+}
+
+/**
+ * Keep the positive counts of a saved id -> count map
+ */
+export function sanitiseCountMap(x: unknown): Record<string, number> {
+  if (!isRecord(x)) return {};
+  const out: Record<string, number> = {};
+  for (const [key, value] of Object.entries(x)) {
+    const count = sanitiseCount(value, 0);
+    if (count > 0) out[key] = count;
+  }
+  return out;
+}
+
+/**
+ * Give a saved tool record full durability for its materials and recipe
+ */
+export function withFullDurability(el: unknown): unknown {
+  if (!isRecord(el)) return el;
+  const materials = isRecord(el.materials) ? (el.materials as UsedMaterials) : {};
+  const maxDurability = estimateMaxDurabilityForTool(String(el.toolId), materials);
+  return { ...el, durability: maxDurability, maxDurability };
+}
+
+function isRecord(x: unknown): x is Record<string, unknown> {
+  return x !== null && typeof x === 'object' && !Array.isArray(x);
+}
+
+function quarantine(report: LoadReport, field: string, record: unknown, reason: string): null {
+  report.quarantined.push({ field, reason, record });
+  return null;
+}
+
+// Clamp a saved quality to 0-1, recording a repair if it was out of range or not a number
+function validateQuality(x: unknown, report: LoadReport, field: string, id: string): number {
+  if (typeof x !== 'number' || !Number.isFinite(x)) {
+    report.repaired.push({ field, id, reason: 'quality was not a number; reset to 0' });
+    return 0;
+  }
+  if (x < 0 || x > 1) {
+    report.repaired.push({ field, id, reason: `quality ${x} clamped to 0-1` });
+    return Math.min(1, Math.max(0, x));
+  }
+  return x;
+}
+
+/**
+ * Rebuild a saved UsedMaterials map, keeping only known material types and resources
+ */
+export function validateUsedMaterials(
+  x: unknown,
+  report: LoadReport,
+  field: string,
+  id: string
+): UsedMaterials {
+  if (x === undefined || x === null) return {};
+  if (!isRecord(x)) {
+    report.repaired.push({ field, id, reason: 'materials were malformed; cleared' });
+    return {};
+  }
+
+  const knownTypes = new Set<string>(getAllMaterialTypes());
+  const out: UsedMaterials = {};
+  for (const [type, used] of Object.entries(x)) {
+    const resourceId = isRecord(used) ? used.resourceId : undefined;
+    if (
+      !knownTypes.has(type) ||
+      typeof resourceId !== 'string' ||
+      !getMaterialConfig(type as MaterialType).getResourceById(resourceId)
+    ) {
+      report.repaired.push({ field, id, reason: `dropped unknown ${type} material` });
+      continue;
+    }
+    out[type as MaterialType] = {
+      resourceId,
+      quantity: Math.max(1, sanitiseCount((used as Record<string, unknown>).quantity, 1)),
+    };
+  }
+  return out;
+}
+
+/**
+ * Validate one saved tool. Returns null (and quarantines it) if it can't be used.
+ */
+export function validateOwnedTool(x: unknown, report: LoadReport): OwnedTool | null {
+  const field = 'ownedTools';
+  if (!isRecord(x)) return quarantine(report, field, x, 'not an object');
+  if (typeof x.instanceId !== 'string' || x.instanceId.length === 0) {
+    return quarantine(report, field, x, 'missing instanceId');
+  }
+  if (typeof x.toolId !== 'string' || !TOOLS_BY_ID[x.toolId]) {
+    return quarantine(report, field, x, `unknown tool '${String(x.toolId)}'`);
+  }
+
+  const id = x.instanceId;
+  const materials = validateUsedMaterials(x.materials, report, field, id);
+  const withDurability = (
+    typeof x.maxDurability === 'number' && Number.isFinite(x.maxDurability)
+      ? x
+      : withFullDurability({ ...x, materials })
+  ) as Record<string, unknown>;
+  const maxDurability = Math.max(1, sanitiseCount(withDurability.maxDurability, 1));
+
+  const tool: OwnedTool = {
+    instanceId: id,
+    toolId: x.toolId,
+    materials,
+    quality: validateQuality(x.quality, report, field, id),
+    maxDurability,
+    durability: Math.min(maxDurability, sanitiseCount(withDurability.durability, maxDurability)),
+  };
+  // Tools saved before components were recorded have none
+  if (Array.isArray(x.components)) {
+    tool.components = x.components
+      .map((el) => validateOwnedComponent(el, report, 'ownedTools.components'))
+      .filter((c): c is OwnedComponent => c !== null);
+  }
+  return tool;
+}
+
+/**
+ * Validate one saved component. Returns null (and quarantines it) if it can't be used.
+ */
+export function validateOwnedComponent(
+  x: unknown,
+  report: LoadReport,
+  field: string = 'ownedComponents'
+): OwnedComponent | null {
+  if (!isRecord(x)) return quarantine(report, field, x, 'not an object');
+  if (typeof x.instanceId !== 'string' || x.instanceId.length === 0) {
+    return quarantine(report, field, x, 'missing instanceId');
+  }
+  if (typeof x.componentId !== 'string' || !COMPONENTS_BY_ID[x.componentId]) {
+    return quarantine(report, field, x, `unknown component '${String(x.componentId)}'`);
+  }
+
+  const id = x.instanceId;
+  return {
+    instanceId: id,
+    componentId: x.componentId,
+    materials: validateUsedMaterials(x.materials, report, field, id),
+    quality: validateQuality(x.quality, report, field, id),
+  };
+}
+
+/**
+ * Validate one saved crafting job. Returns null (and quarantines it) if it can't be resumed.
+ */
+export function validateCraftingJob(x: unknown, report: LoadReport): CraftingJob | null {
+  const field = 'craftingQueue';
+  if (!isRecord(x)) return quarantine(report, field, x, 'not an object');
+  if (typeof x.id !== 'string' || x.id.length === 0) {
+    return quarantine(report, field, x, 'missing id');
+  }
+  if (x.recipeType !== 'tool' && x.recipeType !== 'component') {
+    return quarantine(report, field, x, `unknown recipe type '${String(x.recipeType)}'`);
+  }
+  const registry = x.recipeType === 'tool' ? TOOLS_BY_ID : COMPONENTS_BY_ID;
+  if (typeof x.recipeId !== 'string' || !registry[x.recipeId]) {
+    return quarantine(report, field, x, `unknown ${x.recipeType} '${String(x.recipeId)}'`);
+  }
+  if (typeof x.startTime !== 'number' || !Number.isFinite(x.startTime)) {
+    return quarantine(report, field, x, 'invalid start time');
+  }
+
+  const id = x.id;
+  const reservedComponents: OwnedComponent[] = [];
+  if (Array.isArray(x.reservedComponents)) {
+    for (const el of x.reservedComponents) {
+      const component = validateOwnedComponent(el, report, 'craftingQueue.reservedComponents');
+      if (component) reservedComponents.push(component);
+    }
+  }
+
+  return {
+    id,
+    recipeType: x.recipeType,
+    recipeId: x.recipeId,
+    startTime: x.startTime,
+    duration: sanitiseCount(x.duration, 0),
+    selectedMaterials: validateUsedMaterials(x.selectedMaterials, report, field, id),
+    selectedFoods: sanitiseCountMap(x.selectedFoods),
+    reservedComponents,
+    quality: validateQuality(x.quality, report, field, id),
+  };
+}
+
+// Validate each element of a saved array, dropping duplicates of an earlier id
+function validateList<T>(
+  x: unknown,
+  report: LoadReport,
+  field: string,
+  validate: (el: unknown, report: LoadReport) => T | null,
+  idOf: (item: T) => string
+): T[] {
+  if (!Array.isArray(x)) return [];
+  const out: T[] = [];
+  const seen = new Set<string>();
+  for (const el of x) {
+    const item = validate(el, report);
+    if (!item) continue;
+    if (seen.has(idOf(item))) {
+      quarantine(report, field, el, `duplicate id '${idOf(item)}'`);
+      continue;
+    }
+    seen.add(idOf(item));
+    out.push(item);
+  }
+  return out;
+}
+
+/**
+ * Validate saved owned tools
+ */
+export function validateOwnedTools(x: unknown, report: LoadReport): OwnedTool[] {
+  return validateList(x, report, 'ownedTools', validateOwnedTool, (t) => t.instanceId);
+}
+
+/**
+ * Validate saved owned components
+ */
+export function validateOwnedComponents(x: unknown, report: LoadReport): OwnedComponent[] {
+  return validateList(
+    x,
+    report,
+    'ownedComponents',
+    (el, r) => validateOwnedComponent(el, r),
+    (c) => c.instanceId
+  );
+}
+
+/**
+ * Validate a saved crafting queue
+ */
+export function validateCraftingQueue(x: unknown, report: LoadReport): CraftingJob[] {
+  return validateList(x, report, 'craftingQueue', validateCraftingJob, (j) => j.id);
+}
+
+/**
+ * Validate saved unlocked tech ids, keeping known techs once each
+ */
+export function validateUnlockedTechs(x: unknown, report: LoadReport): string[] {
+  return validateList(
+    x,
+    report,
+    'unlockedTechs',
+    (el, r) =>
+      typeof el === 'string' && TECH_BY_ID[el]
+        ? el
+        : quarantine(r, 'unlockedTechs', el, `unknown tech '${String(el)}'`),
+    (techId) => techId
+  );
+}
+
+/**
+ * Validate previously quarantined records, so the quarantine survives reloads
+ */
+export function validateQuarantine(x: unknown): QuarantinedRecord[] {
+  if (!Array.isArray(x)) return [];
+  return x.filter(
+    (el): el is QuarantinedRecord =>
+      isRecord(el) && typeof el.field === 'string' && typeof el.reason === 'string'
+  );
+}
+
+// Export the service as a namespace-like object for consistency
+export const SaveValidationService = {
+  createLoadReport,
+  hasLoadIssues,
+  validateUsedMaterials,
+  validateOwnedTool,
+  validateOwnedComponent,
+  validateCraftingJob,
+  validateOwnedTools,
+  validateOwnedComponents,
+  validateCraftingQueue,
+  validateUnlockedTechs,
+  validateQuarantine,
+};
@@ -0,0 +1,178 @@
+// StepLedgerService - Pure step ledger operations
+// Append-only record of step syncs and spends, compacted into daily totals
+
+import { StepSource } from '../types/health';
+import { LEDGER_DETAIL_DAYS, STEP_HISTORY_DAYS } from '../config/stepLedger';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Steps credited by a sync, covering the window since the previous sync
+ */
+export interface StepSyncEntry {
+  type: 'sync';
+  at: number; // When the steps were credited
+  amount: number;
+  source: StepSource;
+  since: number; // Start of the window the steps were counted over
+  until: number; // End of the window
+}
+
+/**
+ * Steps spent on a gather (or anything else that costs steps)
+ */
+export interface StepSpendEntry {
+  type: 'spend';
+  at: number;
+  amount: number;
+  spentOn: string; // What the steps bought, e.g. a material type
+}
+
+export type StepLedgerEntry = StepSyncEntry | StepSpendEntry;
+
+/**
+ * Steps walked (credited) and spent on one local calendar day
+ */
+export interface DailyStepTotals {
+  day: string; // Local date, YYYY-MM-DD
+  walked: number;
+  spent: number;
+}
+
+/**
+ * Persisted step ledger: recent entries, and daily totals for compacted ones
+ */
+export interface StepLedger {
+  entries: StepLedgerEntry[]; // Oldest first
+  days: DailyStepTotals[]; // Compacted days, oldest first
+}
+
+/**
+ * Create an empty step ledger
+ */
+export function createEmptyStepLedger(): StepLedger {
+  return { entries: [], days: [] };
+}
+
+/**
+ * Local calendar day of a timestamp, as YYYY-MM-DD (sorts chronologically)
+ */
+export function getLedgerDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Record steps credited by a sync. Syncs that credit nothing aren't recorded.
+ */
+export function recordSync(
+  ledger: StepLedger,
+  amount: number,
+  source: StepSource,
+  since: number,
+  until: number
+): StepLedger {
+  if (amount <= 0) return ledger;
+  const entry: StepSyncEntry = { type: 'sync', at: until, amount, source, since, until };
+  return { ...ledger, entries: [...ledger.entries, entry] };
+}
+
+/**
+ * Record steps spent
+ */
+export function recordSpend(
+  ledger: StepLedger,
+  amount: number,
+  spentOn: string,
+  at: number
+): StepLedger {
+  if (amount <= 0) return ledger;
+  const entry: StepSpendEntry = { type: 'spend', at, amount, spentOn };
+  return { ...ledger, entries: [...ledger.entries, entry] };
+}
+
+/**
+ * Add entries' steps to per-day totals
+ */
+function addToTotals(totals: Map<string, DailyStepTotals>, entries: StepLedgerEntry[]): void {
+  for (const entry of entries) {
+    const day = getLedgerDay(entry.at);
+    const current = totals.get(day) ?? { day, walked: 0, spent: 0 };
+    totals.set(day, {
+      day,
+      walked: current.walked + (entry.type === 'sync' ? entry.amount : 0),
+      spent: current.spent + (entry.type === 'spend' ? entry.amount : 0),
+    });
+  }
+}
+
+/**
+ * Fold entries older than detailDays (counting today) into daily totals.
+ * Returns the ledger unchanged if nothing is old enough.
+ */
+export function compactLedger(
+  ledger: StepLedger,
+  now: number,
+  detailDays: number = LEDGER_DETAIL_DAYS
+): StepLedger {
+  const oldestDetailDay = getLedgerDay(now - (detailDays - 1) * MS_PER_DAY);
+  const old = ledger.entries.filter((entry) => getLedgerDay(entry.at) < oldestDetailDay);
+  if (old.length === 0) return ledger;
+
+  const totals = new Map(ledger.days.map((totalsForDay) => [totalsForDay.day, totalsForDay]));
+  addToTotals(totals, old);
+  return {
+    entries: ledger.entries.filter((entry) => getLedgerDay(entry.at) >= oldestDetailDay),
+    days: [...totals.values()].sort((a, b) => a.day.localeCompare(b.day)),
+  };
+}
+
+/**
+ * Steps walked and spent per day over the last `days` days (counting today),
+ * newest first. Days with no activity are left out.
+ */
+export function getDailyHistory(
+  ledger: StepLedger,
+  now: number,
+  days: number = STEP_HISTORY_DAYS
+): DailyStepTotals[] {
+  const firstDay = getLedgerDay(now - (days - 1) * MS_PER_DAY);
+  const totals = new Map(ledger.days.map((totalsForDay) => [totalsForDay.day, totalsForDay]));
+  addToTotals(totals, ledger.entries);
+  return [...totals.values()]
+    .filter((totalsForDay) => totalsForDay.day >= firstDay)
+    .sort((a, b) => b.day.localeCompare(a.day));
+}
+
+/**
+ * Entries recorded on a given day, oldest first (only for days not yet compacted)
+ */
+export function getEntriesForDay(ledger: StepLedger, day: string): StepLedgerEntry[] {
+  return ledger.entries.filter((entry) => getLedgerDay(entry.at) === day);
+}
+
+/**
+ * Steps walked and credited on a given day, from every source but cheats
+ * (only for days not yet compacted)
+ */
+export function getCreditedOnDay(ledger: StepLedger, day: string): number {
+  return getEntriesForDay(ledger, day).reduce(
+    (total, entry) =>
+      entry.type === 'sync' && entry.source !== 'cheat' ? total + entry.amount : total,
+    0
+  );
+}
+
+// Export the service as a namespace-like object for consistency
+export const StepLedgerService = {
+  createEmptyStepLedger,
+  getLedgerDay,
+  recordSync,
+  recordSpend,
+  compactLedger,
+  getDailyHistory,
+  getEntriesForDay,
+  getCreditedOnDay,
+};
@@ -1,7 +1,7 @@
 // TechService - Pure tech unlock operations
 // Extracted from useGameState for reuse in validation scripts and tests
 
-import { Technology } from '../types/tech';
+import { Technology, TechResourceType, isMaterialCost } from '../types/tech';
 import { Inventory } from '../types/resources';
 import { TECH_BY_ID } from '../data/techTree';
 import { MaterialType } from '../config/materials';
@@ -13,7 +13,7 @@ import { getTotalResourceCount, removeResource } from './InventoryService';
 export interface TechUnlockCheck {
   canUnlock: boolean;
   missingPrereqs: string[];
-  missingResources: { resourceType: MaterialType; needed: number; have: number }[];
+  missingResources: { resourceType: TechResourceType; needed: number; have: number }[];
 }
 
 /**
@@ -23,6 +23,7 @@ export interface TechUnlockResult {
   success: boolean;
   newInventory?: Inventory;
   newUnlockedTechs?: string[];
+  newExplorationPoints?: number;
   error?: string;
 }
 
@@ -36,19 +37,23 @@ export type SelectedTechResources = Partial<
 
 /**
  * Check if a tech can be unlocked with current state
+ * Exploration costs are checked against the player's exploration points
  */
 export function canUnlockTech(
   tech: Technology,
   unlockedTechs: string[],
-  inventory: Inventory
+  inventory: Inventory,
+  explorationPoints: number = 0
 ): TechUnlockCheck {
   // Check prerequisites
   const missingPrereqs = tech.prerequisites.filter((id) => !unlockedTechs.includes(id));
 
   // Check resource requirements
-  const missingResources: { resourceType: MaterialType; needed: number; have: number }[] = [];
+  const missingResources: { resourceType: TechResourceType; needed: number; have: number }[] = [];
   for (const cost of tech.resourceCost) {
-    const have = getTotalResourceCount(inventory, cost.resourceType);
+    const have = isMaterialCost(cost)
+      ? getTotalResourceCount(inventory, cost.resourceType)
+      : explorationPoints;
     if (have < cost.quantity) {
       missingResources.push({
         resourceType: cost.resourceType,
@@ -68,20 +73,23 @@ export function canUnlockTech(
 /**
  * Get the next tech cost for a resource type
  */
-export function getTechResourceCost(tech: Technology, resourceType: MaterialType): number {
+export function getTechResourceCost(tech: Technology, resourceType: TechResourceType): number {
   const cost = tech.resourceCost.find((c) => c.resourceType === resourceType);
   return cost?.quantity ?? 0;
 }
 
 /**
  * Unlock a tech, consuming resources
+ * Material costs are paid from the selected resources; exploration costs are
+ * deducted from explorationPoints directly.
  * Returns the new state or an error
  */
 export function unlockTech(
   tech: Technology,
   unlockedTechs: string[],
   inventory: Inventory,
-  selectedResources: SelectedTechResources
+  selectedResources: SelectedTechResources,
+  explorationPoints: number = 0
 ): TechUnlockResult {
   // Check if already unlocked
   if (unlockedTechs.includes(tech.id)) {
@@ -99,8 +107,20 @@ export function unlockTech(
 
   // Validate and consume selected resources
   let newInventory = { ...inventory };
+  let newExplorationPoints = explorationPoints;
 
   for (const cost of tech.resourceCost) {
+    if (!isMaterialCost(cost)) {
+      if (newExplorationPoints < cost.quantity) {
+        return {
+          success: false,
+          error: `Not enough exploration points (need ${cost.quantity}, have ${newExplorationPoints})`,
+        };
+      }
+      newExplorationPoints -= cost.quantity;
+      continue;
+    }
+
     const selections = selectedResources[cost.resourceType];
     if (!selections || selections.length === 0) {
       return {
@@ -145,6 +165,7 @@ export function unlockTech(
     success: true,
     newInventory,
     newUnlockedTechs,
+    newExplorationPoints,
   };
 }
 
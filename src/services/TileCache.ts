@@ -0,0 +1,210 @@
+/**
+ * Tile Cache
+ *
+ * Least-recently-used cache of tile lookups shared by the tile loaders.
+ * Bounded by entry count and an estimated byte budget. Tiles that weren't found
+ * are cached as null for a limited time, so a tile added later (by a delta or
+ * region pack) is picked up. Pinned tiles, such as the player's neighbourhood,
+ * are never evicted.
+ */
+
+import { GeoTile } from '../types/gis';
+import { TileCacheStats } from './TileLoader';
+
+/**
+ * Limits for a TileCache
+ */
+export interface TileCacheOptions {
+  /** Most tiles (found or not) to keep */
+  maxEntries?: number;
+  /** Most estimated bytes to keep */
+  maxBytes?: number;
+  /** How long a "not found" result is trusted, in milliseconds */
+  negativeTtlMs?: number;
+  /** Clock, for tests */
+  now?: () => number;
+}
+
+export const DEFAULT_TILE_CACHE_OPTIONS = {
+  maxEntries: 5000,
+  maxBytes: 2 * 1024 * 1024,
+  negativeTtlMs: 10 * 60 * 1000,
+};
+
+/** Rough size of a cached miss: the key and map entry */
+const MISS_BYTES = 64;
+
+/** Rough fixed size of a tile's objects, before its strings */
+const TILE_OVERHEAD_BYTES = 240;
+
+/** Rough size of a tile's water object */
+const WATER_BYTES = 64;
+
+/** Rough size of a tile's regolith object, before its material string */
+const REGOLITH_BYTES = 48;
+
+/** Rough size of one precision-5 cell in a tile's elevation record */
+const ELEVATION_CELL_BYTES = 56;
+
+interface CacheEntry {
+  tile: GeoTile | null;
+  bytes: number;
+  cachedAt: number;
+}
+
+/**
+ * Estimate the memory a cached tile takes (strings at 2 bytes per character)
+ */
+export function estimateTileBytes(tile: GeoTile | null): number {
+  if (!tile) return MISS_BYTES;
+  const strings = [
+    tile.geohash,
+    tile.geology.primaryLithology,
+    ...tile.geology.secondaryLithologies,
+    tile.geology.lithClass ?? '',
+    tile.geology.age ?? '',
+    tile.biome.type,
+    tile.biome.realm ?? '',
+    tile.regolith?.material ?? '',
+  ];
+  const overhead =
+    TILE_OVERHEAD_BYTES +
+    (tile.water ? WATER_BYTES : 0) +
+    (tile.regolith ? REGOLITH_BYTES : 0) +
+    (tile.elevation ? Object.keys(tile.elevation).length * ELEVATION_CELL_BYTES : 0);
+  return overhead + strings.reduce((total, s) => total + s.length * 2, 0);
+}
+
+export class TileCache {
+  private entries = new Map<string, CacheEntry>();
+  private pinned = new Set<string>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private maxEntries: number;
+  private maxBytes: number;
+  private negativeTtlMs: number;
+  private now: () => number;
+
+  constructor(options: TileCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_TILE_CACHE_OPTIONS.maxEntries;
+    this.maxBytes = options.maxBytes ?? DEFAULT_TILE_CACHE_OPTIONS.maxBytes;
+    this.negativeTtlMs = options.negativeTtlMs ?? DEFAULT_TILE_CACHE_OPTIONS.negativeTtlMs;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Look up a geohash.
+   * @returns The tile, null if cached as not found, or undefined if not cached
+   */
+  get(geohash: string): GeoTile | null | undefined {
+    const entry = this.entries.get(geohash);
+    if (!entry || this.isExpired(entry)) {
+      if (entry) this.delete(geohash);
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(geohash);
+    this.entries.set(geohash, entry);
+    this.hits++;
+    return entry.tile;
+  }
+
+  /**
+   * Look up several geohashes
+   * @returns The cached tiles, and the geohashes that need loading
+   */
+  getMany(geohashes: string[]): { tiles: GeoTile[]; missing: string[] } {
+    const tiles: GeoTile[] = [];
+    const missing: string[] = [];
+    for (const geohash of new Set(geohashes)) {
+      const cached = this.get(geohash);
+      if (cached === undefined) {
+        missing.push(geohash);
+      } else if (cached) {
+        tiles.push(cached);
+      }
+    }
+    return { tiles, missing };
+  }
+
+  /**
+   * Cache a lookup result (null for not found)
+   */
+  set(geohash: string, tile: GeoTile | null): void {
+    this.delete(geohash);
+    const entry = { tile, bytes: estimateTileBytes(tile), cachedAt: this.now() };
+    this.entries.set(geohash, entry);
+    this.bytes += entry.bytes;
+    this.evict();
+  }
+
+  /**
+   * Cache a batch load: the tiles found, and null for the geohashes that weren't
+   */
+  setMany(geohashes: string[], found: GeoTile[]): void {
+    for (const tile of found) {
+      this.set(tile.geohash, tile);
+    }
+    const foundSet = new Set(found.map((tile) => tile.geohash));
+    for (const geohash of geohashes) {
+      if (!foundSet.has(geohash)) {
+        this.set(geohash, null);
+      }
+    }
+  }
+
+  /**
+   * Keep these geohashes from being evicted, replacing any previously pinned
+   */
+  pin(geohashes: string[]): void {
+    this.pinned = new Set(geohashes);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  getStats(): TileCacheStats {
+    return {
+      filesCached: 0,
+      tilesCached: this.entries.size,
+      bytesCached: this.bytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return entry.tile === null && this.now() - entry.cachedAt > this.negativeTtlMs;
+  }
+
+  private delete(geohash: string): void {
+    const entry = this.entries.get(geohash);
+    if (!entry) return;
+    this.entries.delete(geohash);
+    this.bytes -= entry.bytes;
+  }
+
+  /**
+   * Drop least recently used, unpinned entries until back within budget
+   */
+  private evict(): void {
+    if (this.entries.size <= this.maxEntries && this.bytes <= this.maxBytes) return;
+
+    for (const geohash of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries && this.bytes <= this.maxBytes) return;
+      if (this.pinned.has(geohash)) continue;
+      this.delete(geohash);
+      this.evictions++;
+    }
+  }
+}
@@ -0,0 +1,448 @@
+// TileDeltaService - Incremental updates for the tiles.db GIS bundle
+// Pure pack format, parsing and chain logic; the loaders supply the database and file access
+//
+// Delta pack format (JSON):
+// {
+//   "format": "walkforage-tiles-delta",  // Identifies the file type
+//   "formatVersion": 1,                  // Version of this pack layout
+//   "fromVersion": "2.0.0",              // Manifest version the pack applies on top of
+//   "toVersion": "2.0.1",                // Manifest version after applying it
+//   "generatedAt": "2024-06-01T12:00:00.000Z",
+//   "checksum": "1a2b3c4d",              // FNV-1a of JSON.stringify({ upserts, removals })
+//   "upserts": [ { "geohash": "9q5c", ... } ],  // Changed or added rows, as stored in tiles
+//   "removals": [ "9q5d" ]               // Geohashes of removed rows
+// }
+//
+// Packs chain by version: a working copy at 2.0.0 applies 2.0.0→2.0.1, then
+// 2.0.1→2.0.2, and so on. Each pack is applied in its own transaction, so a
+// failing pack leaves the working copy at the last good version.
+
+import { computeChecksum } from '../utils/random';
+
+export const TILE_DELTA_FORMAT = 'walkforage-tiles-delta';
+export const TILE_DELTA_FORMAT_VERSION = 1;
+
+/** Metadata keys in the working copy that track its delta state */
+export const VERSION_METADATA_KEY = 'version';
+export const APPLIED_DELTAS_METADATA_KEY = 'appliedDeltas';
+
+/**
+ * Database row type from tiles table
+ */
+export interface TileRow {
+  geohash: string;
+  prefix: string;
+  primary_lithology: string;
+  secondary_lithologies: string;
+  geology_confidence: number;
+  biome_type: string;
+  biome_confidence: number;
+  ecoregion_id: number | null;
+  realm_biome: string | null;
+  realm: string | null;
+  /** Missing from bundles and region packs built before ages were recorded */
+  lith_class?: string | null;
+  age?: string | null;
+  /** Missing from bundles and region packs built before the water layer */
+  coast_distance_km?: number | null;
+  river_distance_km?: number | null;
+  is_lake?: number | null;
+  /** Missing from bundles and region packs built before the regolith layer */
+  regolith?: string | null;
+  regolith_cover?: number | null;
+  /** Missing from bundles and region packs built before the DEM; JSON, see utils/elevation */
+  elevation?: string | null;
+}
+
+/**
+ * Changed and removed tile rows between two bundle versions
+ */
+export interface TileDeltaPack {
+  format: typeof TILE_DELTA_FORMAT;
+  formatVersion: number;
+  fromVersion: string;
+  toVersion: string;
+  generatedAt: string;
+  checksum: string;
+  upserts: TileRow[];
+  removals: string[];
+}
+
+/**
+ * A pack applied to a working copy, as recorded in its metadata
+ */
+export interface AppliedDelta {
+  fromVersion: string;
+  toVersion: string;
+  appliedAt: string;
+}
+
+/**
+ * Result of parsing a delta pack file
+ */
+export type ParseDeltaResult =
+  | { success: true; pack: TileDeltaPack }
+  | { success: false; error: string };
+
+/**
+ * Minimal async database access needed to apply packs.
+ * `transaction` must roll back everything run inside `task` if it throws.
+ */
+export interface DeltaDatabase {
+  run(sql: string, params: (string | number | null)[]): Promise<void>;
+  getFirst<T>(sql: string, params: (string | number | null)[]): Promise<T | null>;
+  transaction(task: () => Promise<void>): Promise<void>;
+}
+
+/**
+ * Where pack files come from (the document directory in the app)
+ */
+export interface DeltaPackSource {
+  list(): Promise<string[]>;
+  read(name: string): Promise<string>;
+  remove(name: string): Promise<void>;
+}
+
+/**
+ * Outcome of applying the available packs to a working copy
+ */
+export interface ApplyDeltasResult {
+  /** Working copy version after applying */
+  version: string | null;
+  applied: AppliedDelta[];
+  /** Pack files that couldn't be read or parsed, with the reason */
+  skipped: { name: string; error: string }[];
+  /** Set if a pack failed part-way and was rolled back */
+  error?: string;
+}
+
+const TILE_COLUMNS: (keyof TileRow)[] = [
+  'geohash',
+  'prefix',
+  'primary_lithology',
+  'secondary_lithologies',
+  'geology_confidence',
+  'biome_type',
+  'biome_confidence',
+  'ecoregion_id',
+  'realm_biome',
+  'realm',
+  'lith_class',
+  'age',
+  'coast_distance_km',
+  'river_distance_km',
+  'is_lake',
+  'regolith',
+  'regolith_cover',
+  'elevation',
+];
+
+function computeDeltaChecksum(upserts: TileRow[], removals: string[]): string {
+  return computeChecksum(JSON.stringify({ upserts, removals }));
+}
+
+/**
+ * Wrap changed and removed rows in a delta pack
+ */
+export function createDeltaPack(
+  fromVersion: string,
+  toVersion: string,
+  upserts: TileRow[],
+  removals: string[],
+  now: number = Date.now()
+): TileDeltaPack {
+  return {
+    format: TILE_DELTA_FORMAT,
+    formatVersion: TILE_DELTA_FORMAT_VERSION,
+    fromVersion,
+    toVersion,
+    generatedAt: new Date(now).toISOString(),
+    checksum: computeDeltaChecksum(upserts, removals),
+    upserts,
+    removals,
+  };
+}
+
+/**
+ * File name a pack is published under
+ */
+export function getDeltaFileName(fromVersion: string, toVersion: string): string {
+  return `tiles-delta-${fromVersion}-to-${toVersion}.json`;
+}
+
+function isTileRow(value: unknown): value is TileRow {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  const row = value as Record<string, unknown>;
+  const isNullableNumber = (v: unknown) => v === null || typeof v === 'number';
+  const isNullableString = (v: unknown) => v === null || typeof v === 'string';
+  return (
+    typeof row.geohash === 'string' &&
+    row.geohash.length > 0 &&
+    typeof row.prefix === 'string' &&
+    typeof row.primary_lithology === 'string' &&
+    typeof row.secondary_lithologies === 'string' &&
+    typeof row.geology_confidence === 'number' &&
+    typeof row.biome_type === 'string' &&
+    typeof row.biome_confidence === 'number' &&
+    isNullableNumber(row.ecoregion_id) &&
+    isNullableString(row.realm_biome) &&
+    isNullableString(row.realm) &&
+    (row.lith_class === undefined || isNullableString(row.lith_class)) &&
+    (row.age === undefined || isNullableString(row.age)) &&
+    (row.coast_distance_km === undefined || isNullableNumber(row.coast_distance_km)) &&
+    (row.river_distance_km === undefined || isNullableNumber(row.river_distance_km)) &&
+    (row.is_lake === undefined || isNullableNumber(row.is_lake)) &&
+    (row.regolith === undefined || isNullableString(row.regolith)) &&
+    (row.regolith_cover === undefined || isNullableNumber(row.regolith_cover)) &&
+    (row.elevation === undefined || isNullableString(row.elevation))
+  );
+}
+
+/**
+ * Parse and verify a delta pack file.
+ * Rejects files that aren't delta packs, come from a newer format, or fail the checksum.
+ */
+export function parseDeltaPack(text: string): ParseDeltaResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'Not a valid delta pack (could not read JSON)' };
+  }
+
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { success: false, error: 'Not a valid delta pack' };
+  }
+  const rec = parsed as Record<string, unknown>;
+
+  if (rec.format !== TILE_DELTA_FORMAT) {
+    return { success: false, error: 'Not a tiles delta pack' };
+  }
+  if (typeof rec.formatVersion !== 'number' || rec.formatVersion > TILE_DELTA_FORMAT_VERSION) {
+    return { success: false, error: 'Delta pack format is newer than this app supports' };
+  }
+  if (typeof rec.fromVersion !== 'string' || typeof rec.toVersion !== 'string') {
+    return { success: false, error: 'Delta pack has no versions' };
+  }
+  if (rec.fromVersion === rec.toVersion) {
+    return { success: false, error: 'Delta pack does not change the version' };
+  }
+  if (!Array.isArray(rec.upserts) || !rec.upserts.every(isTileRow)) {
+    return { success: false, error: 'Delta pack has invalid tile rows' };
+  }
+  if (!Array.isArray(rec.removals) || !rec.removals.every((g) => typeof g === 'string')) {
+    return { success: false, error: 'Delta pack has invalid removals' };
+  }
+  if (rec.checksum !== computeDeltaChecksum(rec.upserts, rec.removals)) {
+    return { success: false, error: 'Delta pack is corrupted (checksum mismatch)' };
+  }
+
+  return {
+    success: true,
+    pack: {
+      format: TILE_DELTA_FORMAT,
+      formatVersion: rec.formatVersion,
+      fromVersion: rec.fromVersion,
+      toVersion: rec.toVersion,
+      generatedAt: typeof rec.generatedAt === 'string' ? rec.generatedAt : '',
+      checksum: rec.checksum,
+      upserts: rec.upserts,
+      removals: rec.removals,
+    },
+  };
+}
+
+/**
+ * Order the packs that chain on from a version.
+ * Stops at the first gap; packs that don't connect are left out.
+ */
+export function resolveDeltaChain<T extends { fromVersion: string; toVersion: string }>(
+  packs: T[],
+  fromVersion: string
+): T[] {
+  const chain: T[] = [];
+  const seen = new Set([fromVersion]);
+  let version = fromVersion;
+
+  for (;;) {
+    const next = packs.find((p) => p.fromVersion === version && !seen.has(p.toVersion));
+    if (!next) break;
+    chain.push(next);
+    seen.add(next.toVersion);
+    version = next.toVersion;
+  }
+  return chain;
+}
+
+async function getMetadata(db: DeltaDatabase, key: string): Promise<string | null> {
+  const row = await db.getFirst<{ value: string }>('SELECT value FROM metadata WHERE key = ?', [
+    key,
+  ]);
+  return row?.value ?? null;
+}
+
+async function setMetadata(db: DeltaDatabase, key: string, value: string): Promise<void> {
+  await db.run('INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)', [key, value]);
+}
+
+/**
+ * Get the bundle version a working copy is at
+ */
+export function getWorkingVersion(db: DeltaDatabase): Promise<string | null> {
+  return getMetadata(db, VERSION_METADATA_KEY);
+}
+
+/**
+ * Get the packs applied to a working copy, oldest first
+ */
+export async function getAppliedDeltas(db: DeltaDatabase): Promise<AppliedDelta[]> {
+  const value = await getMetadata(db, APPLIED_DELTAS_METADATA_KEY);
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? (parsed as AppliedDelta[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Columns added to the tiles table since the first bundle, with their types
+ */
+const ADDED_TILE_COLUMNS: [keyof TileRow, string][] = [
+  ['lith_class', 'TEXT'],
+  ['age', 'TEXT'],
+  ['coast_distance_km', 'REAL'],
+  ['river_distance_km', 'REAL'],
+  ['is_lake', 'INTEGER'],
+  ['regolith', 'TEXT'],
+  ['regolith_cover', 'REAL'],
+  ['elevation', 'TEXT'],
+];
+
+/**
+ * Add any columns a working copy copied from an older bundle is missing,
+ * so newer delta packs can fill them in. Safe to run on every open.
+ */
+export async function migrateTilesTable(db: DeltaDatabase): Promise<void> {
+  for (const [column, type] of ADDED_TILE_COLUMNS) {
+    const existing = await db.getFirst<{ count: number }>(
+      "SELECT COUNT(*) AS count FROM pragma_table_info('tiles') WHERE name = ?",
+      [column]
+    );
+    if (!existing?.count) {
+      await db.run(`ALTER TABLE tiles ADD COLUMN ${column} ${type}`, []);
+    }
+  }
+}
+
+/**
+ * Stamp a fresh working copy with the version it was bundled at
+ */
+export async function initializeWorkingCopy(db: DeltaDatabase, version: string): Promise<void> {
+  await db.transaction(async () => {
+    await setMetadata(db, VERSION_METADATA_KEY, version);
+    await setMetadata(db, APPLIED_DELTAS_METADATA_KEY, '[]');
+  });
+}
+
+/**
+ * Apply one pack in a transaction, recording it in the working copy's metadata.
+ * Throws (after rolling back) if the working copy isn't at the pack's fromVersion.
+ */
+export async function applyDeltaPack(
+  db: DeltaDatabase,
+  pack: TileDeltaPack,
+  now: number = Date.now()
+): Promise<AppliedDelta> {
+  const applied: AppliedDelta = {
+    fromVersion: pack.fromVersion,
+    toVersion: pack.toVersion,
+    appliedAt: new Date(now).toISOString(),
+  };
+  const placeholders = TILE_COLUMNS.map(() => '?').join(', ');
+
+  await db.transaction(async () => {
+    const version = await getWorkingVersion(db);
+    if (version !== pack.fromVersion) {
+      throw new Error(
+        `Delta ${pack.fromVersion}→${pack.toVersion} does not apply to version ${version}`
+      );
+    }
+
+    for (const geohash of pack.removals) {
+      await db.run('DELETE FROM tiles WHERE geohash = ?', [geohash]);
+    }
+    for (const row of pack.upserts) {
+      await db.run(
+        `INSERT OR REPLACE INTO tiles (${TILE_COLUMNS.join(', ')}) VALUES (${placeholders})`,
+        TILE_COLUMNS.map((column) => row[column] ?? null)
+      );
+    }
+
+    const history = await getAppliedDeltas(db);
+    await setMetadata(db, VERSION_METADATA_KEY, pack.toVersion);
+    await setMetadata(db, APPLIED_DELTAS_METADATA_KEY, JSON.stringify([...history, applied]));
+  });
+
+  return applied;
+}
+
+/**
+ * Apply every pack in a source that chains on from the working copy's version.
+ * Applied pack files are removed from the source; others are left for later.
+ */
+export async function applyDeltaPacks(
+  db: DeltaDatabase,
+  source: DeltaPackSource,
+  now: number = Date.now()
+): Promise<ApplyDeltasResult> {
+  const result: ApplyDeltasResult = {
+    version: await getWorkingVersion(db),
+    applied: [],
+    skipped: [],
+  };
+
+  const packs: (TileDeltaPack & { name: string })[] = [];
+  for (const name of await source.list()) {
+    let parsed: ParseDeltaResult;
+    try {
+      parsed = parseDeltaPack(await source.read(name));
+    } catch (error) {
+      parsed = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    if (parsed.success) {
+      packs.push({ ...parsed.pack, name });
+    } else {
+      result.skipped.push({ name, error: parsed.error });
+    }
+  }
+
+  if (result.version === null) return result;
+
+  for (const pack of resolveDeltaChain(packs, result.version)) {
+    try {
+      result.applied.push(await applyDeltaPack(db, pack, now));
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      break;
+    }
+    result.version = pack.toVersion;
+    await source.remove(pack.name);
+  }
+
+  return result;
+}
+
+export const TileDeltaService = {
+  createDeltaPack,
+  getDeltaFileName,
+  parseDeltaPack,
+  resolveDeltaChain,
+  getWorkingVersion,
+  getAppliedDeltas,
+  initializeWorkingCopy,
+  migrateTilesTable,
+  applyDeltaPack,
+  applyDeltaPacks,
+};
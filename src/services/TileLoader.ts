@@ -7,6 +7,19 @@
 
 import { GeoTile } from '../types/gis';
 
+/**
+ * Cache statistics reported by a loader
+ */
+export interface TileCacheStats {
+  filesCached: number;
+  tilesCached: number;
+  /** Estimated memory held by cached tiles */
+  bytesCached: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
 /**
  * Interface for tile loading operations
  */
@@ -30,6 +43,13 @@ export interface TileLoader {
    */
   initialize(): Promise<void> | void;
 
+  /**
+   * Load tiles into the cache and keep them there until the next prefetch,
+   * e.g. the player's neighbourhood so it survives map scrolling
+   * @param geohashes Array of geohash strings to keep cached
+   */
+  prefetch(geohashes: string[]): Promise<void> | void;
+
   /**
    * Close the loader and release resources
    */
@@ -43,5 +63,5 @@ export interface TileLoader {
   /**
    * Get cache statistics
    */
-  getCacheStats(): { filesCached: number; tilesCached: number };
+  getCacheStats(): TileCacheStats;
 }
@@ -42,6 +42,33 @@ export interface BiomeData {
   confidence: number; // 0-1 data quality score
 }
 
+/**
+ * Water proximity for a geohash tile, measured from the tile centre.
+ * Distances beyond WATER_SEARCH_RADIUS_KM are left out.
+ */
+export interface WaterData {
+  coastDistanceKm?: number; // Distance to the nearest coastline
+  riverDistanceKm?: number; // Distance to the nearest major river
+  isLake: boolean; // A lake covers part of the tile
+}
+
+/**
+ * Unconsolidated surface material (regolith) over a geohash tile's bedrock
+ */
+export interface RegolithData {
+  material: string; // Surface material (e.g., "glacial_till", "loess", "alluvium")
+  cover: number; // 0-1 share of the tile it covers
+}
+
+/**
+ * Ground elevation across a precision-5 cell, summarised from the bundled DEM
+ */
+export interface ElevationData {
+  minM: number; // Lowest ground in the cell, in meters above sea level
+  meanM: number; // Average ground elevation
+  maxM: number; // Highest ground in the cell
+}
+
 /**
  * Pre-processed tile containing geology and biome data
  */
@@ -49,6 +76,9 @@ export interface GeoTile {
   geohash: string; // e.g., "u4pr" (precision 4)
   geology: GeologyData;
   biome: BiomeData;
+  water?: WaterData; // Missing from tiles built without the water layer
+  regolith?: RegolithData; // Missing where bedrock is exposed, or built without the layer
+  elevation?: Record<string, ElevationData>; // Precision-4 tiles only, keyed by each precision-5 cell's last character
 }
 
 /**
@@ -65,12 +95,18 @@ export interface GeoIndex {
 // ═══════════════════════════════════════════════════════════════════════════
 
 /**
- * Altitude data from GPS with confidence scoring
+ * Where an altitude reading came from: the GPS fix, the DEM cell, or both combined
+ */
+export type AltitudeSource = 'gps' | 'dem' | 'blended';
+
+/**
+ * Altitude data from GPS and/or the DEM, with confidence scoring
  */
 export interface AltitudeData {
   value: number; // Altitude in meters above sea level
-  accuracy: number | null; // GPS-reported vertical accuracy in meters (null if unavailable)
+  accuracy: number | null; // Vertical accuracy in meters (null if GPS didn't report it)
   confidence: number; // 0-1 confidence score based on accuracy
+  source: AltitudeSource;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -85,7 +121,10 @@ export type DataSource = 'detailed' | 'coarse' | 'fallback';
 export interface LocationGeoData {
   geology: {
     primaryLithology: string;
-    secondaryLithologies: string[];
+    secondaryLithologies: string[]; // Ordered per sub-cell, most favoured first
+    dominantLithology?: string; // Lithology dominant at this point (defaults to primaryLithology)
+    lithClass?: string; // Class of the primary lithology (sedimentary, igneous, metamorphic)
+    age?: string; // Period or era of the map unit (e.g., "Cretaceous")
     confidence: number;
   };
   biome: {
@@ -94,9 +133,12 @@ export interface LocationGeoData {
     realm?: string; // Biogeographic realm (e.g., "Palearctic")
     confidence: number;
   };
-  altitude?: AltitudeData; // GPS altitude with confidence
+  altitude?: AltitudeData; // GPS and/or DEM altitude with confidence
+  water?: WaterData; // Coast, river and lake proximity, if known
+  regolith?: RegolithData; // Surface material over the bedrock, if known
   dataSource: DataSource;
   geohash?: string; // The geohash used for lookup
+  cellGeohash?: string; // Precision-6 geohash of the queried point (seeds local spawns)
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
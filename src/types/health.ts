@@ -1,11 +1,83 @@
 // Health and step gathering types for WalkForage
-// Used for HealthConnect (Android) and HealthKit (iOS) integration
+// Used for HealthConnect (Android) and HealthKit (iOS) integration, and the GPS
+// distance fallback where neither is available
 
 /**
  * Permission status for health data access
  */
 export type HealthPermissionStatus = 'not_determined' | 'denied' | 'authorized' | 'unavailable';
 
+/**
+ * Where credited steps came from
+ */
+export type StepSource = 'health_connect' | 'healthkit' | 'gps' | 'cheat';
+
+/**
+ * Health data that can be turned into gather effort. Which of these a platform
+ * provides differs: Health Connect only records distance for all activities together.
+ */
+export type ActivitySource =
+  | 'steps'
+  | 'distance_walking_running'
+  | 'distance_cycling'
+  | 'distance_wheelchair'
+  | 'distance'
+  | 'wheelchair_pushes'
+  | 'active_energy';
+
+/**
+ * Amounts read per activity source, each in its own unit (see ACTIVITY_SOURCES)
+ */
+export type ActivityAmounts = Partial<Record<ActivitySource, number>>;
+
+/**
+ * An app or device that records steps, which the player can prefer when several overlap
+ */
+export interface StepOrigin {
+  /** Package name (Android) or bundle identifier (iOS) */
+  id: string;
+  /** Name to show the player */
+  name: string;
+}
+
+/**
+ * A source of step data: HealthService, or GpsStepService where there is no health platform
+ */
+export interface StepDataService {
+  /** Initialize the service; false if it can't provide data on this device */
+  initialize(): Promise<boolean>;
+  /** Check permission without prompting */
+  checkPermission(sources?: ActivitySource[]): Promise<HealthPermissionStatus>;
+  /** Prompt for permission to read the given sources */
+  requestPermission(sources?: ActivitySource[]): Promise<HealthPermissionStatus>;
+  /** Steps since a timestamp (ms since epoch) */
+  getStepsSince(sinceTimestamp: number, preferredOrigin?: string | null): Promise<number>;
+  /** Amount of each source since a timestamp, each in its own unit */
+  getActivitySince(
+    sinceTimestamp: number,
+    sources: ActivitySource[],
+    preferredOrigin?: string | null
+  ): Promise<ActivityAmounts>;
+  /** Activity sources this service can provide */
+  getSupportedActivitySources(): ActivitySource[];
+  /** Apps that recorded steps recently */
+  getStepOrigins(): Promise<StepOrigin[]>;
+  /** Steps since local midnight */
+  getTodaySteps(): Promise<number>;
+  getPermissionStatus(): HealthPermissionStatus;
+  /** Whether the service can run on this platform */
+  isAvailable(): boolean;
+  /** Where synced steps come from, for the step ledger */
+  getStepSource(): StepSource;
+  isInitialized(): boolean;
+  /** Whether Health Connect needs to be installed or updated first (Android) */
+  needsHealthConnectInstall(): boolean;
+  /** Open the settings where the player manages this service's permission */
+  openHealthSettings(): Promise<boolean>;
+  /** Open the Play Store page for Health Connect (Android) */
+  openHealthConnectPlayStore(): Promise<boolean>;
+}
+
 /**
  * Result from syncing steps from health service
  */
@@ -14,6 +86,8 @@ export interface StepSyncResult {
   newSteps: number;
   /** Total available steps after sync */
   totalAvailable: number;
+  /** Steps held back by the daily cap, to be credited on a later day */
+  carriedOver?: number;
   /** Whether sync was successful */
   success: boolean;
   /** Error message if sync failed */
@@ -30,8 +104,8 @@ export interface GatherResult {
   resourceId?: string;
   /** Quantity gathered */
   quantity?: number;
-  /** Steps spent on this gather */
-  stepsSpent?: number;
+  /** Effort spent on this gather */
+  effortSpent?: number;
   /** Error message if gather failed */
   error?: string;
 }
@@ -12,6 +12,7 @@ export type StoneCategory =
   | 'ore';
 export type WoodCategory = 'softwood' | 'hardwood' | 'tropical' | 'fruit';
 export type FoodCategory = 'berry' | 'fruit' | 'nut' | 'greens' | 'root';
+export type FiberCategory = 'bast' | 'bark' | 'leaf' | 'grass' | 'seed';
 
 // Resolve Ecoregions 2017 biome codes
 export type BiomeCode =
@@ -86,6 +87,21 @@ export interface FoodType {
   color: string;
 }
 
+export interface FiberType {
+  id: string;
+  name: string;
+  scientificName?: string; // Latin/botanical name
+  category: FiberCategory;
+  description: string;
+  properties: ResourceProperties;
+  rarity: number; // 0-1 probability weight for spawning
+  biomes: BiomeCode[]; // Resolve Ecoregions 2017 biome codes (fallback)
+  realmBiomes?: string[]; // Realm+biome codes (e.g., ["PA04", "PA05"])
+  nativeRealms?: string[]; // Biogeographic realms (e.g., ["Palearctic"])
+  altitudePreference?: AltitudePreference; // Optimal and viable altitude ranges
+  color: string;
+}
+
 export interface ResourceStack {
   resourceId: string;
   quantity: number;
@@ -1,5 +1,5 @@
 // Technology Tree Types for WalkForage
-// Supports multiple tech eras, currently focused on lithic (stone age)
+// Tech eras are grouped into ages: the lithic (stone) age, then the Neolithic/Chalcolithic
 
 import { MaterialType } from '../config/materials';
 
@@ -10,11 +10,19 @@ export type LithicEra =
   | 'upper_paleolithic' // ~50K - 12K years ago
   | 'mesolithic'; // ~12K - 6K years ago
 
-// Future eras can be added here
-// export type MetalEra = 'copper' | 'bronze' | 'iron';
+// Neolithic/Chalcolithic era subdivisions (farming, pottery, first metals)
+export type NeolithicEra =
+  | 'neolithic' // ~10K - 4.5K years ago
+  | 'chalcolithic'; // ~6.5K - 3.5K years ago (Copper Age)
 
-// Union of all tech eras - extend as new eras are added
-export type TechEra = LithicEra; // | MetalEra | ...
+// Future ages can be added here
+// export type MetalEra = 'bronze' | 'iron';
+
+// Union of all tech eras - extend as new ages are added
+export type TechEra = LithicEra | NeolithicEra;
+
+// Ages group consecutive eras
+export type TechAge = 'lithic' | 'neolithic';
 
 // All lithic eras in chronological order
 export const LITHIC_ERAS: LithicEra[] = [
@@ -24,36 +32,84 @@ export const LITHIC_ERAS: LithicEra[] = [
   'mesolithic',
 ];
 
+// All Neolithic/Chalcolithic eras in chronological order
+export const NEOLITHIC_ERAS: NeolithicEra[] = ['neolithic', 'chalcolithic'];
+
+// All ages in chronological order
+export const TECH_AGES: TechAge[] = ['lithic', 'neolithic'];
+
+// Eras in each age, in chronological order
+export const ERAS_BY_AGE: Record<TechAge, TechEra[]> = {
+  lithic: LITHIC_ERAS,
+  neolithic: NEOLITHIC_ERAS,
+};
+
+// All eras in chronological order
+export const TECH_ERAS: TechEra[] = TECH_AGES.flatMap((age) => ERAS_BY_AGE[age]);
+
+// Display names for each age
+export const AGE_NAMES: Record<TechAge, string> = {
+  lithic: 'Stone Age',
+  neolithic: 'Neolithic & Copper Age',
+};
+
+// Get the age an era belongs to
+export function getEraAge(era: TechEra): TechAge {
+  return TECH_AGES.find((age) => ERAS_BY_AGE[age].includes(era)) ?? 'lithic';
+}
+
 // Display colors for each era
-export const ERA_COLORS: Record<LithicEra, string> = {
+export const ERA_COLORS: Record<TechEra, string> = {
   lower_paleolithic: '#8B7355',
   middle_paleolithic: '#708090',
   upper_paleolithic: '#CD7F32',
   mesolithic: '#4A6741',
+  neolithic: '#A0522D',
+  chalcolithic: '#B87333',
 };
 
 // Full display names for each era
-export const ERA_NAMES: Record<LithicEra, string> = {
+export const ERA_NAMES: Record<TechEra, string> = {
   lower_paleolithic: 'Lower Paleolithic',
   middle_paleolithic: 'Middle Paleolithic',
   upper_paleolithic: 'Upper Paleolithic',
   mesolithic: 'Mesolithic',
+  neolithic: 'Neolithic',
+  chalcolithic: 'Chalcolithic',
 };
 
 // Short labels for compact display
-export const ERA_LABELS: Record<LithicEra, string> = {
+export const ERA_LABELS: Record<TechEra, string> = {
   lower_paleolithic: 'LP',
   middle_paleolithic: 'MP',
   upper_paleolithic: 'UP',
   mesolithic: 'MS',
+  neolithic: 'NE',
+  chalcolithic: 'CH',
 };
 
+// Exploration points earned by visiting new geohash cells
+export const EXPLORATION_RESOURCE = 'exploration';
+
+// Anything a tech can cost: a generic material category or exploration points
+export type TechResourceType = MaterialType | typeof EXPLORATION_RESOURCE;
+
 // Resource cost for technologies - uses generic types (any stone, any wood)
 export interface TechResourceCost {
-  resourceType: MaterialType; // Generic resource category
+  resourceType: TechResourceType; // Generic resource category or exploration points
   quantity: number;
 }
 
+// A tech cost paid with materials (as opposed to exploration points)
+export interface MaterialTechResourceCost extends TechResourceCost {
+  resourceType: MaterialType;
+}
+
+// Type guard to distinguish material costs from exploration costs
+export function isMaterialCost(cost: TechResourceCost): cost is MaterialTechResourceCost {
+  return cost.resourceType !== EXPLORATION_RESOURCE;
+}
+
 export interface Technology {
   id: string;
   name: string;
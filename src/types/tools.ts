@@ -11,12 +11,14 @@ export type ToolCategory =
   | 'woodworking' // Axes, adzes
   | 'cutting' // Knives
   | 'foraging' // Digging sticks, etc.
+  | 'metalworking' // Crucibles and other smelting equipment
   | 'general'; // Multi-purpose tools
 
 // Component types for intermediate crafting
 export type ComponentCategory =
   | 'handle' // Wooden handles of various quality
-  | 'binding'; // Fiber bindings
+  | 'binding' // Fiber bindings
+  | 'ingot'; // Smelted metal
 
 // Quality calculation weights - determines how material properties affect quality
 // Maps property ids to their weights (e.g., { hardness: 0.4, workability: 0.3, durability: 0.3 })
@@ -30,6 +32,7 @@ export type QualityWeights = Partial<Record<MaterialType, MaterialQualityWeights
 export interface MaterialRequirement {
   quantity: number;
   requiresToolstone?: boolean; // Only meaningful for materials with hasToolstone flag (stone)
+  allowedResources?: string[]; // Only these resources can be used (e.g. clay, copper ore)
 }
 
 // Material requirements for a craftable (partial record - each material type can appear once)
@@ -92,8 +95,8 @@ export interface CraftedComponent {
   // Properties that affect final tool quality
   properties: {
     durabilityBonus: number; // Added to final tool durability
-    efficiencyBonus: number; // Affects tool speed
-    qualityTier: number; // 1-5, affects possible upgrades
+    efficiencyBonus: number; // Shortens craft time and raises the tool's gathering bonus
+    qualityTier: number; // 1-5, raises the quality of tools built with it
   };
 }
 
@@ -143,16 +146,24 @@ export interface OwnedTool {
   toolId: string; // Reference to Tool definition
   materials: UsedMaterials; // What materials were used
   quality: number; // 0-1 scale quality score
+  durability: number; // Remaining uses; 0 = broken
+  maxDurability: number; // Uses when new or freshly repaired
+  components?: OwnedComponent[]; // Component instances the tool was built from
 }
 
 // Crafting job in queue
+// Inputs are reserved (removed from inventory) when the job starts so they can be
+// refunded on cancel; the finished item is only created once the job completes.
 export interface CraftingJob {
   id: string;
   recipeType: 'tool' | 'component';
   recipeId: string;
-  startTime: number;
+  startTime: number; // Wall-clock ms (Date.now()) when the job was started
   duration: number; // seconds
   selectedMaterials: UsedMaterials;
+  selectedFoods: Record<string, number>; // Food spent on crafting effort
+  reservedComponents: OwnedComponent[]; // Components consumed by this craft
+  quality: number; // 0-1, fixed at start from the selected materials
 }
 
 // Quality tier thresholds for display
@@ -177,15 +188,20 @@ export function getQualityTier(score: number): QualityTier {
 }
 
 // Calculate gathering bonus for a tool based on its quality and base stats
+// efficiencyBonus comes from the components the tool was built from (0.1 = +10%)
 // Returns an additive bonus (0 = no change, positive = help)
-export function calculateGatheringBonus(tool: Tool, quality: number): number {
+export function calculateGatheringBonus(
+  tool: Tool,
+  quality: number,
+  efficiencyBonus: number = 0
+): number {
   // Only tools with gathering materials get a bonus
   if (!tool.gatheringMaterial) return 0;
 
   // Quality scales the bonus linearly from 0 to full bonus
   // At quality 0: no bonus (0)
-  // At quality 1: full base bonus
-  return tool.baseStats.gatheringBonus * quality;
+  // At quality 1: full base bonus (more with efficient components)
+  return tool.baseStats.gatheringBonus * quality * (1 + efficiencyBonus);
 }
 
 // Interface for anything that can be crafted (Tool or CraftedComponent)
@@ -0,0 +1,50 @@
+// Elevation Cells - DEM summaries stored on precision-4 tiles
+// Each precision-4 tile (~39km) carries the min/mean/max elevation of its 32
+// precision-5 cells (~5km), as compact JSON keyed by each cell's last geohash
+// character: {"0":[min,mean,max],...} in whole meters.
+
+import { ElevationData, GeoTile } from '../types/gis';
+
+/**
+ * Encode a tile's elevation cells for the tiles table's elevation column
+ */
+export function encodeElevationCells(cells: Record<string, ElevationData>): string {
+  const encoded: Record<string, [number, number, number]> = {};
+  for (const [key, { minM, meanM, maxM }] of Object.entries(cells)) {
+    encoded[key] = [Math.round(minM), Math.round(meanM), Math.round(maxM)];
+  }
+  return JSON.stringify(encoded);
+}
+
+/**
+ * Decode the tiles table's elevation column. Malformed cells are skipped, and
+ * a column that isn't valid JSON decodes to no cells.
+ */
+export function decodeElevationCells(json: string): Record<string, ElevationData> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return {};
+  }
+  const cells: Record<string, ElevationData> = {};
+  if (parsed === null || typeof parsed !== 'object') return cells;
+
+  for (const [key, value] of Object.entries(parsed)) {
+    if (Array.isArray(value) && value.length === 3 && value.every(Number.isFinite)) {
+      const [minM, meanM, maxM] = value as number[];
+      cells[key] = { minM, meanM, maxM };
+    }
+  }
+  return cells;
+}
+
+/**
+ * Elevation of the precision-5 cell containing a geohash, from its precision-4 tile
+ */
+export function getCellElevation(tile: GeoTile | null, geohash: string): ElevationData | undefined {
+  if (!tile?.elevation || geohash.length < 5 || !geohash.startsWith(tile.geohash)) {
+    return undefined;
+  }
+  return tile.elevation[geohash[4]];
+}
@@ -11,7 +11,7 @@
 
 import { GeohashBounds, GeohashPrecision } from '../types/gis';
 
-const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+export const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
 
 /**
  * Encode latitude/longitude to a geohash string
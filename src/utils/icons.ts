@@ -335,11 +335,17 @@ const FOOD_ICONS: Record<string, ImageSourcePropType> = {
   wild_strawberry_pa,
 };
 
+// Fiber icons
+const FIBER_ICONS: Record<string, ImageSourcePropType> = {
+  // No fiber icons generated yet
+};
+
 // Map material types to icon maps
 const ICON_MAPS: Partial<Record<MaterialType, Record<string, ImageSourcePropType>>> = {
   stone: STONE_ICONS,
   wood: WOOD_ICONS,
   food: FOOD_ICONS,
+  fiber: FIBER_ICONS,
 };
 
 /**
@@ -367,14 +373,22 @@ export function hasResourceIcon(type: MaterialType, resourceId: string): boolean
 /**
  * Get counts of available icons.
  */
-export function getIconCounts(): { stones: number; woods: number; foods: number; total: number } {
+export function getIconCounts(): {
+  stones: number;
+  woods: number;
+  foods: number;
+  fibers: number;
+  total: number;
+} {
   const stones = Object.keys(STONE_ICONS).length;
   const woods = Object.keys(WOOD_ICONS).length;
   const foods = Object.keys(FOOD_ICONS).length;
+  const fibers = Object.keys(FIBER_ICONS).length;
   return {
     stones,
     woods,
     foods,
-    total: stones + woods + foods,
+    fibers,
+    total: stones + woods + foods + fibers,
   };
 }
@@ -1,6 +1,7 @@
 // Quality Calculation Utility for WalkForage
 // Calculates tool quality based on material properties
 // Quality is a single 0-1 score; gathering modifiers are calculated at display/usage time
+// Components used in a craft count towards quality alongside raw materials
 
 import {
   UsedMaterials,
@@ -8,6 +9,7 @@ import {
   QualityWeights,
   Craftable,
   MaterialQualityWeights,
+  OwnedComponent,
 } from '../types/tools';
 import {
   getMaterialConfig,
@@ -16,6 +18,8 @@ import {
   PropertyDefinition,
 } from '../config/materials';
 import { ResourceProperties } from '../types/resources';
+import { COMPONENT_TIER_QUALITY_STEP } from '../config/crafting';
+import { getComponentById } from '../data/tools';
 import { capitalizeFirst } from './strings';
 
 // Normalize a property value using the schema's min/max values
@@ -90,11 +94,37 @@ function getWeightsForMaterial(
   return config.defaultQualityWeights;
 }
 
+/**
+ * Get how much a component instance contributes to the quality of the item it's built into.
+ * Higher-tier components (e.g. shaped handles over crude ones) add COMPONENT_TIER_QUALITY_STEP
+ * per tier above 1 on top of the instance's own quality.
+ */
+export function getComponentQualityScore(component: OwnedComponent): number {
+  const tier = getComponentById(component.componentId)?.properties.qualityTier ?? 1;
+  return Math.min(1, component.quality + COMPONENT_TIER_QUALITY_STEP * (tier - 1));
+}
+
+/**
+ * Get the combined efficiency bonus of a set of components (0 = none, 0.1 = +10%).
+ * Speeds up crafting with them and increases the gathering bonus of the finished tool.
+ */
+export function getComponentEfficiencyBonus(components: OwnedComponent[]): number {
+  return components.reduce(
+    (sum, c) => sum + (getComponentById(c.componentId)?.properties.efficiencyBonus ?? 0),
+    0
+  );
+}
+
 /**
  * Calculate quality score for a craftable item (Tool or CraftedComponent)
- * Uses the item's own qualityWeights (per material type) instead of requiring category to be passed
+ * Uses the item's own qualityWeights (per material type) instead of requiring category to be passed.
+ * Each component instance used counts as one more input to the average.
  */
-export function calculateCraftableQuality(craftable: Craftable, materials: UsedMaterials): number {
+export function calculateCraftableQuality(
+  craftable: Craftable,
+  materials: UsedMaterials,
+  components: OwnedComponent[] = []
+): number {
   const qualityWeights = craftable.qualityWeights;
   let totalScore = 0;
   let materialCount = 0;
@@ -113,6 +143,11 @@ export function calculateCraftableQuality(craftable: Craftable, materials: UsedM
     }
   }
 
+  for (const component of components) {
+    totalScore += getComponentQualityScore(component);
+    materialCount++;
+  }
+
   if (materialCount === 0) return 0.1;
   const q = totalScore / materialCount;
   return Number.isFinite(q) ? Math.min(1, Math.max(0, q)) : 0.1;
@@ -0,0 +1,50 @@
+// Random Number Utilities
+// Injectable random sources so spawns and yields can be reproduced from a seed,
+// and the string hashes that seed them and checksum files
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), like Math.random.
+ * Functions that roll dice accept one so callers can pass a seeded source.
+ */
+export type RandomSource = () => number;
+
+/** The default, unseeded random source */
+export const defaultRandom: RandomSource = Math.random;
+
+/**
+ * Hash a string to a non-negative 32-bit integer, for use as a seed.
+ */
+export function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * FNV-1a hash of a string, as 8 hex digits
+ */
+export function computeChecksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Create a seeded random source (Mulberry32).
+ * Fast and small; the same seed always produces the same sequence.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  return function () {
+    let t = (seed += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
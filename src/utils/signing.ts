@@ -0,0 +1,96 @@
+// Signing Utilities
+// Ed25519 signatures for player-submitted data, with keys and signatures as hex.
+// A signing key is a 32-byte seed; making one needs a secure random source, so
+// that's left to the app and everything here also runs in node scripts.
+
+import nacl from 'tweetnacl';
+
+/** Bytes in a signing key (an Ed25519 seed) */
+export const SIGNING_KEY_BYTES = nacl.sign.seedLength;
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Decode hex of an exact byte length, or null if it isn't valid
+ */
+function fromHex(hex: string, length: number): Uint8Array | null {
+  if (typeof hex !== 'string' || !/^[0-9a-f]*$/.test(hex) || hex.length !== length * 2) {
+    return null;
+  }
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * UTF-8 bytes of a string. Written out rather than using TextEncoder, which
+ * isn't available everywhere this runs.
+ */
+function encodeUtf8(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Check a value is a hex signing key
+ */
+export function isSigningKey(value: unknown): value is string {
+  return typeof value === 'string' && fromHex(value, SIGNING_KEY_BYTES) !== null;
+}
+
+function getKeyPair(signingKey: string): nacl.SignKeyPair {
+  const seed = fromHex(signingKey, SIGNING_KEY_BYTES);
+  if (!seed) {
+    throw new Error('Invalid signing key');
+  }
+  return nacl.sign.keyPair.fromSeed(seed);
+}
+
+/**
+ * The public key that verifies a signing key's signatures
+ */
+export function getPublicKey(signingKey: string): string {
+  return toHex(getKeyPair(signingKey).publicKey);
+}
+
+/**
+ * Sign a message's UTF-8 bytes
+ */
+export function signMessage(message: string, signingKey: string): string {
+  const { secretKey } = getKeyPair(signingKey);
+  return toHex(nacl.sign.detached(encodeUtf8(message), secretKey));
+}
+
+/**
+ * Check a signature was made over a message by the public key's signing key.
+ * Malformed keys and signatures don't verify.
+ */
+export function verifyMessage(message: string, signature: string, publicKey: string): boolean {
+  const signatureBytes = fromHex(signature, nacl.sign.signatureLength);
+  const publicKeyBytes = fromHex(publicKey, nacl.sign.publicKeyLength);
+  if (!signatureBytes || !publicKeyBytes) {
+    return false;
+  }
+  return nacl.sign.detached.verify(encodeUtf8(message), signatureBytes, publicKeyBytes);
+}
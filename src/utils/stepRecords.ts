@@ -0,0 +1,44 @@
+// Step Records - Merging step counts written by several devices
+// Health Connect keeps every app's records, so a phone and a watch worn on the
+// same walk both record it. Counting one origin per time window stops the walk
+// being credited twice.
+
+/**
+ * A step record reduced to what merging needs
+ */
+export interface StepRecordSample {
+  origin: string; // App (package or bundle id) that wrote the record
+  startTime: number; // ms since epoch, NaN if unknown
+  count: number;
+}
+
+/** Length of the windows within which only one origin's steps are counted */
+export const STEP_ORIGIN_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Total steps across records, counting a single origin in each time window:
+ * the preferred origin if it recorded anything in the window, otherwise the
+ * origin that recorded the most. Records are placed by their start time, and
+ * records without one share a window. Malformed counts count as 0.
+ */
+export function mergeStepRecordsByOrigin(
+  records: StepRecordSample[],
+  preferredOrigin: string | null = null,
+  windowMs: number = STEP_ORIGIN_WINDOW_MS
+): number {
+  const windows = new Map<number, Map<string, number>>();
+  for (const { origin, startTime, count } of records) {
+    if (!Number.isFinite(count) || count <= 0) continue;
+    const window = Number.isFinite(startTime) ? Math.floor(startTime / windowMs) : -1;
+    const origins = windows.get(window) ?? new Map<string, number>();
+    origins.set(origin, (origins.get(origin) ?? 0) + count);
+    windows.set(window, origins);
+  }
+
+  let total = 0;
+  for (const origins of windows.values()) {
+    const preferred = preferredOrigin !== null ? origins.get(preferredOrigin) : undefined;
+    total += preferred ?? Math.max(...origins.values());
+  }
+  return total;
+}
@@ -22,3 +22,25 @@ export function formatSnakeCase(str: string): string {
 export function humanizeId(str: string): string {
   return str.replace(/_/g, ' ');
 }
+
+/**
+ * Format a lithology for display, prefixed with its geological age if known.
+ * Converts ("limestone", "Cretaceous") to "Cretaceous limestone".
+ */
+export function formatLithology(lithology: string, age?: string): string {
+  return age ? `${age} ${humanizeId(lithology)}` : formatSnakeCase(lithology);
+}
+
+/**
+ * Format a duration in seconds for display.
+ * Converts 45 to "45s", 125 to "2m 5s" and 3725 to "1h 2m".
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${secs}s`;
+  return `${secs}s`;
+}
@@ -0,0 +1,73 @@
+// Sub-cell Geology - Varies a tile's lithology mix within the tile
+// A precision-4 tile (~39km) has one primary and a few secondary lithologies;
+// each precision-6 sub-cell (~1.2km) inside it gets a stable mix of those, so
+// different neighbourhoods favour different rocks while matching the tile data.
+
+import { LocationGeoData } from '../types/gis';
+import { RandomSource, createSeededRandom, hashString } from './random';
+
+/** Geohash precision of the sub-cells lithologies are mixed across (~1.2km x 610m) */
+export const SUB_CELL_PRECISION = 6;
+
+/**
+ * Share of sub-cells, per secondary lithology, where a secondary is dominant
+ * instead of the tile's primary (capped by MAX_SECONDARY_DOMINANCE)
+ */
+export const SECONDARY_DOMINANCE_PER_LITHOLOGY = 0.15;
+
+/** Most sub-cells a tile's secondaries can dominate, so the primary stays the majority */
+export const MAX_SECONDARY_DOMINANCE = 0.45;
+
+/**
+ * Stable random source for a sub-cell
+ */
+function getSubCellRandom(cellGeohash: string): RandomSource {
+  return createSeededRandom(hashString(`lithology|${cellGeohash.slice(0, SUB_CELL_PRECISION)}`));
+}
+
+/**
+ * Shuffle a copy of a list (Fisher-Yates)
+ */
+function shuffle<T>(items: T[], random: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Mix a tile's lithologies for the sub-cell containing a point.
+ * Secondary lithologies are reordered per sub-cell and one of them may be
+ * dominant there; the primary lithology is left as the tile's.
+ *
+ * @param geology The tile's geology
+ * @param cellGeohash Geohash of the point, at SUB_CELL_PRECISION or finer
+ */
+export function mixSubCellGeology(
+  geology: LocationGeoData['geology'],
+  cellGeohash: string
+): LocationGeoData['geology'] {
+  const { primaryLithology } = geology;
+  const secondaries = [...new Set(geology.secondaryLithologies)].filter(
+    (lith) => lith !== primaryLithology && lith !== 'unknown'
+  );
+
+  if (secondaries.length === 0 || primaryLithology === 'unknown') {
+    return { ...geology, dominantLithology: primaryLithology };
+  }
+
+  const random = getSubCellRandom(cellGeohash);
+  const mixed = shuffle(secondaries, random);
+  const dominance = Math.min(
+    MAX_SECONDARY_DOMINANCE,
+    SECONDARY_DOMINANCE_PER_LITHOLOGY * secondaries.length
+  );
+
+  return {
+    ...geology,
+    secondaryLithologies: mixed,
+    dominantLithology: random() < dominance ? mixed[0] : primaryLithology,
+  };
+}
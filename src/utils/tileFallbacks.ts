@@ -163,6 +163,24 @@ export interface ResolveFallbacksOptions {
   tileLoader: TileLoader;
 }
 
+/**
+ * Layer a finer tile (e.g. precision-5 from a region pack) over the coarser tile
+ * containing it. The finer tile's known geology, biome, water and regolith win; anything it
+ * lacks comes from the coarser tile. Returns whichever exists if only one does.
+ */
+export function overlayFinerTile(finer: GeoTile | null, coarser: GeoTile | null): GeoTile | null {
+  if (!finer || !coarser) return finer ?? coarser;
+  const water = finer.water ?? coarser.water;
+  const regolith = finer.regolith ?? coarser.regolith;
+  return {
+    geohash: finer.geohash,
+    geology: hasGeology(finer) ? finer.geology : coarser.geology,
+    biome: hasBiome(finer) ? finer.biome : coarser.biome,
+    ...(water && { water }),
+    ...(regolith && { regolith }),
+  };
+}
+
 /**
  * Resolve unknown biome/geology in a tile using the fallback chain:
  * 1. Coarse tile (precision 3)